@@ -20,7 +20,7 @@ export function setAuthTokenGetter(getter: () => Promise<string | null>) {
   getAuthToken = getter;
 }
 
-async function request<T>(path: string, init?: RequestInit, requireAuth = false): Promise<T> {
+async function request<T>(path: string, init?: RequestInit, requireAuth: boolean | "optional" = false): Promise<T> {
   const url = `${API_BASE_URL}${path}`;
   console.log('[API Client] Fetching:', url);
   
@@ -30,8 +30,11 @@ async function request<T>(path: string, init?: RequestInit, requireAuth = false)
       ...(init?.headers as Record<string, string> ?? {}),
     };
 
-    // Add auth token if available and required
-    if (requireAuth && getAuthToken) {
+    // Add auth token if available and required ("optional" sends it only when signed in)
+    if (requireAuth === "optional" && getAuthToken) {
+      const token = await getAuthToken().catch(() => null);
+      if (token) headers["Authorization"] = `Bearer ${token}`;
+    } else if (requireAuth && getAuthToken) {
       const token = await getAuthToken();
       if (token) {
         headers["Authorization"] = `Bearer ${token}`;
@@ -93,6 +96,19 @@ export function apiDelete<T>(path: string): Promise<T> {
   return request<T>(path, { method: "DELETE" }, false);
 }
 
+/** Public GET that still identifies signed-in users (e.g. so their searches are remembered) */
+export function apiGetOptionalAuth<T>(path: string): Promise<T> {
+  return request<T>(path, { method: "GET" }, "optional");
+}
+
+/** Public POST that still identifies signed-in users (e.g. so ad views are counted per person) */
+export function apiPostOptionalAuth<T>(path: string, body?: any): Promise<T> {
+  return request<T>(path, {
+    method: "POST",
+    body: body ? JSON.stringify(body) : undefined
+  }, "optional");
+}
+
 // Authenticated API methods (auth required)
 export function apiGetAuth<T>(path: string): Promise<T> {
   return request<T>(path, { method: "GET" }, true);
@@ -105,6 +121,40 @@ export function apiPostAuth<T>(path: string, body?: any): Promise<T> {
   }, true);
 }
 
+/** A fresh key for one logical write (placing an order, starting a payment). Reuse it for every retry of that write. */
+export function newIdempotencyKey(): string {
+  const random = () => Math.random().toString(16).slice(2, 10).padEnd(8, '0');
+  return `${Date.now().toString(16)}-${random()}-${random()}-${random()}`;
+}
+
+const IDEMPOTENT_RETRIES = 2;
+
+/** Network failures, server errors and "still processing" are safe to retry with the same key */
+function isRetryable(err: any): boolean {
+  if (err?.status == null) return err instanceof TypeError;
+  return err.status >= 500 || (err.status === 409 && err.body?.code === 'idempotency_in_progress');
+}
+
+/**
+ * POST with an Idempotency-Key, retrying on flaky connections. The server
+ * runs the write once per key and replays its response to retries, so a
+ * request that timed out after the server handled it isn't repeated.
+ */
+export async function apiPostAuthIdempotent<T>(path: string, body: any, idempotencyKey: string): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request<T>(path, {
+        method: "POST",
+        body: JSON.stringify(body),
+        headers: { "Idempotency-Key": idempotencyKey },
+      }, true);
+    } catch (error) {
+      if (attempt >= IDEMPOTENT_RETRIES || !isRetryable(error)) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * (attempt + 1)));
+    }
+  }
+}
+
 export function apiPutAuth<T>(path: string, body?: any): Promise<T> {
   return request<T>(path, {
     method: "PUT",
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Image, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { colors } from '../theme/colors';
+import { radius, spacing } from '../theme/spacing';
+import { apiGet } from '../api/client';
+import { useCurrentLocation } from '../hooks/useCurrentLocation';
+
+type NearbyShop = {
+  _id: string;
+  name: string;
+  images?: string[];
+  ratingAverage?: number;
+  distanceKm: number;
+  market?: { _id: string; name: string } | null;
+};
+
+type NearbyMarket = { _id: string; name: string; containsPoint: boolean };
+
+type Props = {
+  onOpenShop: (shopId: string) => void;
+};
+
+const NEARBY_RADIUS_KM = 5;
+const CARD_WIDTH = 150;
+
+function formatDistance(km: number): string {
+  return km < 1 ? `${Math.max(100, Math.round(km * 1000 / 100) * 100)} m` : `${km.toFixed(1)} km`;
+}
+
+/** "Near you" rail on Home: pinned shops around the customer, nearest first */
+export default function NearbyShops({ onOpenShop }: Props) {
+  const { location, status, requestLocation } = useCurrentLocation();
+  const [shops, setShops] = useState<NearbyShop[]>([]);
+  const [currentMarket, setCurrentMarket] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!location) return;
+    let isMounted = true;
+    const coords = `lat=${location.lat}&lng=${location.lng}`;
+    setLoading(true);
+    Promise.all([
+      apiGet<{ shops: NearbyShop[] }>(`/shops/nearby?${coords}&radiusKm=${NEARBY_RADIUS_KM}&limit=10`),
+      apiGet<{ markets: NearbyMarket[] }>(`/markets/nearby?${coords}&limit=5`).catch(() => ({ markets: [] as NearbyMarket[] })),
+    ])
+      .then(([shopsRes, marketsRes]) => {
+        if (!isMounted) return;
+        setShops(shopsRes.shops || []);
+        setCurrentMarket(marketsRes.markets.find((m) => m.containsPoint)?.name ?? null);
+      })
+      .catch((e) => {
+        console.warn('[NearbyShops] Failed to load nearby shops', e);
+        if (isMounted) setShops([]);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [location?.lat, location?.lng]);
+
+  // Nothing to offer without a location the user is willing to share
+  if (status === 'checking' || status === 'denied' || status === 'unavailable') return null;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Near you</Text>
+        {currentMarket ? (
+          <View style={styles.marketChip}>
+            <Ionicons name="location" size={12} color={colors.primary} />
+            <Text style={styles.marketChipText} numberOfLines={1}>You're in {currentMarket}</Text>
+          </View>
+        ) : null}
+      </View>
+
+      {status === 'needs_permission' ? (
+        <Pressable onPress={requestLocation} style={({ pressed }) => [styles.promptCard, pressed && styles.pressed]}>
+          <Ionicons name="navigate-circle-outline" size={28} color={colors.primary} />
+          <View style={styles.promptBody}>
+            <Text style={styles.promptTitle}>See shops around you</Text>
+            <Text style={styles.promptText}>Allow location to find stores within {NEARBY_RADIUS_KM} km.</Text>
+          </View>
+          <Text style={styles.promptAction}>Allow</Text>
+        </Pressable>
+      ) : loading && shops.length === 0 ? (
+        <ActivityIndicator size="small" color={colors.primary} style={styles.loading} />
+      ) : shops.length === 0 ? (
+        <Text style={styles.emptyText}>No shops within {NEARBY_RADIUS_KM} km yet.</Text>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+          {shops.map((s) => (
+            <Pressable
+              key={s._id}
+              onPress={() => onOpenShop(s._id)}
+              style={({ pressed }) => [styles.card, pressed && styles.pressed]}
+              accessibilityRole="button"
+              accessibilityLabel={`Open ${s.name}, ${formatDistance(s.distanceKm)} away`}
+            >
+              {s.images && s.images[0] ? (
+                <Image source={{ uri: s.images[0] }} style={styles.image} resizeMode="cover" />
+              ) : (
+                <View style={styles.image} />
+              )}
+              <View style={styles.caption}>
+                <Text style={styles.name} numberOfLines={1}>{s.name}</Text>
+                <Text style={styles.meta} numberOfLines={1}>
+                  {formatDistance(s.distanceKm)}
+                  {s.market?.name ? ` · ${s.market.name}` : ''}
+                </Text>
+                {s.ratingAverage ? <Text style={styles.meta}>⭐ {s.ratingAverage.toFixed(1)}</Text> : null}
+              </View>
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { marginBottom: 24 },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12, gap: 8 },
+  title: { fontSize: 18, fontWeight: '700', color: colors.foreground },
+  marketChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    flexShrink: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: radius.xxl,
+    backgroundColor: colors.secondary,
+  },
+  marketChipText: { fontSize: 12, fontWeight: '600', color: colors.primary, flexShrink: 1 },
+  promptCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: spacing.md,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.card,
+  },
+  promptBody: { flex: 1, minWidth: 0 },
+  promptTitle: { fontSize: 15, fontWeight: '700', color: colors.foreground },
+  promptText: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
+  promptAction: { fontSize: 14, fontWeight: '700', color: colors.primary },
+  loading: { alignSelf: 'flex-start', marginVertical: spacing.md },
+  emptyText: { fontSize: 13, color: colors.mutedForeground },
+  row: { gap: 12, paddingRight: 16 },
+  card: {
+    width: CARD_WIDTH,
+    borderRadius: radius.lg,
+    overflow: 'hidden',
+    backgroundColor: colors.card,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  pressed: { opacity: 0.9 },
+  image: { width: '100%', height: 96, backgroundColor: colors.muted },
+  caption: { padding: 10, gap: 2 },
+  name: { fontSize: 14, fontWeight: '700', color: colors.foreground },
+  meta: { fontSize: 12, color: colors.mutedForeground },
+});
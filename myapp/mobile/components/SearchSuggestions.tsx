@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  Text,
+  View,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTabNavigator } from '../navigation/TabContext';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { apiDeleteAuth, apiGetOptionalAuth } from '../api/client';
+
+export type SearchSuggestion = {
+  type: 'recent' | 'shop' | 'product' | 'category' | 'market';
+  label: string;
+  /** Shop, category or market id; recent-search id for "recent" */
+  id?: string;
+  subtitle?: string;
+  /** Matched despite a spelling mistake */
+  corrected?: boolean;
+};
+
+type Props = {
+  /** What's in the search box; empty shows the user's recent searches */
+  query: string;
+  /** Called after a suggestion or the full search has been opened, so the screen can reset its search box */
+  onDone: () => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+const SUGGEST_DEBOUNCE_MS = 200;
+
+const ICONS: Record<SearchSuggestion['type'], keyof typeof Ionicons.glyphMap> = {
+  recent: 'time-outline',
+  shop: 'storefront',
+  product: 'search',
+  category: 'grid-outline',
+  market: 'location',
+};
+
+const TYPE_LABELS: Record<SearchSuggestion['type'], string> = {
+  recent: 'Recent search',
+  shop: 'Shop',
+  product: 'Product',
+  category: 'Category',
+  market: 'Market',
+};
+
+/** Autocomplete dropdown for the Home and Explore search bars */
+export default function SearchSuggestions({ query, onDone, style }: Props) {
+  const { openShopDetail, openMarketDetail, openCategoryShops, openSearchResults } = useTabNavigator();
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const requestIdRef = useRef(0);
+
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    setLoading(trimmed.length > 0);
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await apiGetOptionalAuth<{ suggestions: SearchSuggestion[] }>(
+          `/search/suggest?q=${encodeURIComponent(trimmed)}`
+        );
+        // A slower answer for an earlier keystroke must not replace the current one
+        if (requestId === requestIdRef.current) setSuggestions(data.suggestions || []);
+      } catch (error) {
+        console.error('[SearchSuggestions] Suggest failed:', error);
+        if (requestId === requestIdRef.current) setSuggestions([]);
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    }, trimmed ? SUGGEST_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeout);
+  }, [trimmed]);
+
+  function handleSelect(item: SearchSuggestion) {
+    onDone();
+    if (item.type === 'shop' && item.id) {
+      openShopDetail({ shopId: item.id });
+    } else if (item.type === 'category' && item.id) {
+      openCategoryShops({ categoryId: item.id, categoryLabel: item.label });
+    } else if (item.type === 'market' && item.id) {
+      openMarketDetail({
+        marketId: item.id,
+        name: item.label,
+        location: item.subtitle ?? '',
+        rating: 4.5,
+        description: '',
+      });
+    } else {
+      openSearchResults(item.label);
+    }
+  }
+
+  function handleSearchAll() {
+    onDone();
+    openSearchResults(trimmed);
+  }
+
+  async function handleRemoveRecent(item: SearchSuggestion) {
+    setSuggestions((prev) => prev.filter((s) => s !== item));
+    try {
+      await apiDeleteAuth(`/search/recent/${item.id}`);
+    } catch (error) {
+      console.error('[SearchSuggestions] Remove recent failed:', error);
+    }
+  }
+
+  async function handleClearRecent() {
+    setSuggestions((prev) => prev.filter((s) => s.type !== 'recent'));
+    try {
+      await apiDeleteAuth('/search/recent');
+    } catch (error) {
+      console.error('[SearchSuggestions] Clear recent failed:', error);
+    }
+  }
+
+  const showingRecentOnly = !trimmed;
+  if (showingRecentOnly && suggestions.length === 0) return null;
+
+  return (
+    <View style={style}>
+      <ScrollView style={styles.scroll} keyboardShouldPersistTaps="handled" nestedScrollEnabled>
+        {showingRecentOnly ? (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent searches</Text>
+            <Pressable onPress={handleClearRecent} hitSlop={8}>
+              <Text style={styles.clearText}>Clear</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <Pressable onPress={handleSearchAll} style={({ pressed }) => [styles.item, pressed && styles.pressed]}>
+            <Ionicons name="search" size={18} color={colors.primary} style={styles.icon} />
+            <Text style={styles.searchAllText} numberOfLines={1}>
+              Search for "{trimmed}"
+            </Text>
+          </Pressable>
+        )}
+
+        {suggestions.map((item, idx) => (
+          <Pressable
+            key={`${item.type}-${item.id ?? item.label}-${idx}`}
+            onPress={() => handleSelect(item)}
+            style={({ pressed }) => [styles.item, pressed && styles.pressed]}
+          >
+            <Ionicons
+              name={ICONS[item.type]}
+              size={18}
+              color={item.type === 'recent' ? colors.mutedForeground : colors.primary}
+              style={styles.icon}
+            />
+            <View style={styles.content}>
+              <Text style={styles.label} numberOfLines={1}>{item.label}</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {TYPE_LABELS[item.type]}
+                {item.subtitle ? ` · ${item.subtitle}` : ''}
+              </Text>
+            </View>
+            {item.type === 'recent' && item.id ? (
+              <Pressable onPress={() => handleRemoveRecent(item)} hitSlop={8} accessibilityLabel="Remove recent search">
+                <Ionicons name="close" size={18} color={colors.mutedForeground} />
+              </Pressable>
+            ) : (
+              <Ionicons name="chevron-forward" size={18} color={colors.mutedForeground} />
+            )}
+          </Pressable>
+        ))}
+
+        {loading && suggestions.length === 0 ? (
+          <View style={styles.loading}>
+            <ActivityIndicator size="small" color={colors.primary} />
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: { maxHeight: 400 },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.background,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.mutedForeground,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  clearText: { fontSize: 13, fontWeight: '600', color: colors.primary },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: 10,
+    gap: 12,
+    backgroundColor: colors.card,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    minHeight: 52,
+  },
+  pressed: { backgroundColor: colors.muted },
+  icon: { flexShrink: 0 },
+  content: { flex: 1, minWidth: 0, gap: 2 },
+  label: { fontSize: 15, fontWeight: '600', color: colors.foreground, lineHeight: 20 },
+  subtitle: { fontSize: 12, color: colors.mutedForeground, lineHeight: 16 },
+  searchAllText: { flex: 1, fontSize: 15, fontWeight: '600', color: colors.primary },
+  loading: { padding: spacing.md, alignItems: 'center' },
+});
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Image, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import { colors } from '../theme/colors';
+import { radius, spacing } from '../theme/spacing';
+import { apiGet, apiPostOptionalAuth } from '../api/client';
+
+type SponsoredAd = {
+  _id: string;
+  title: string;
+  bannerImage: string;
+  shop: { _id: string; name: string; city?: string };
+};
+
+type Props = {
+  /** Show ads targeting this category; Home leaves it out */
+  categoryId?: string;
+  placement: 'home' | 'category';
+  onOpenShop: (shopId: string) => void;
+};
+
+async function trackAd(adId: string, event: 'impression' | 'click', placement: Props['placement']) {
+  try {
+    // Sent signed in when we can, so the server counts one view per person rather than per render
+    await apiPostOptionalAuth(`/ads/${adId}/${event}`, { placement });
+  } catch {
+    // Tracking never gets in the way of browsing
+  }
+}
+
+export default function SponsoredAds({ categoryId, placement, onOpenShop }: Props) {
+  const [ads, setAds] = useState<SponsoredAd[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    const query = categoryId ? `?categoryId=${encodeURIComponent(categoryId)}` : '';
+    apiGet<{ ads: SponsoredAd[] }>(`/ads${query}`)
+      .then((res) => {
+        if (!isMounted) return;
+        setAds(res.ads || []);
+        (res.ads || []).forEach((ad) => trackAd(ad._id, 'impression', placement));
+      })
+      .catch(() => {
+        if (isMounted) setAds([]);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [categoryId, placement]);
+
+  if (ads.length === 0) return null;
+
+  function handlePress(ad: SponsoredAd) {
+    trackAd(ad._id, 'click', placement);
+    onOpenShop(ad.shop._id);
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.row}
+      style={styles.scroll}
+    >
+      {ads.map((ad) => (
+        <Pressable
+          key={ad._id}
+          onPress={() => handlePress(ad)}
+          style={({ pressed }) => [styles.card, ads.length === 1 && styles.cardFull, pressed && styles.pressed]}
+          accessibilityRole="button"
+          accessibilityLabel={`Sponsored: ${ad.title}`}
+        >
+          <Image source={{ uri: ad.bannerImage }} style={styles.banner} resizeMode="cover" />
+          <View style={styles.sponsoredTag}>
+            <Text style={styles.sponsoredText}>Sponsored</Text>
+          </View>
+          <View style={styles.caption}>
+            <Text style={styles.title} numberOfLines={1}>{ad.title}</Text>
+            <Text style={styles.shopName} numberOfLines={1}>
+              {ad.shop.name}
+              {ad.shop.city ? ` · ${ad.shop.city}` : ''}
+            </Text>
+          </View>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: { marginBottom: spacing.lg },
+  row: { gap: 12 },
+  card: {
+    width: 280,
+    borderRadius: radius.lg,
+    overflow: 'hidden',
+    backgroundColor: colors.card,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardFull: { width: 340 },
+  pressed: { opacity: 0.9 },
+  banner: { width: '100%', aspectRatio: 1200 / 628, backgroundColor: colors.muted },
+  sponsoredTag: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: radius.sm,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  sponsoredText: { fontSize: 11, fontWeight: '600', color: colors.card },
+  caption: { padding: 10 },
+  title: { fontSize: 14, fontWeight: '700', color: colors.foreground },
+  shopName: { fontSize: 12, color: colors.mutedForeground, marginTop: 2 },
+});
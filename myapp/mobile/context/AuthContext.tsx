@@ -44,7 +44,8 @@ try {
 // Types
 // -----------------------------------------------------------------------------
 
-export type UserRole = "customer" | "seller";
+/** "agent" is a delivery partner added by a seller */
+export type UserRole = "customer" | "seller" | "agent";
 
 export type AppUser = {
   _id: string;
@@ -165,6 +166,9 @@ type AuthContextValue = {
 
   // Token helper
   getIdToken: () => Promise<string | null>;
+
+  /** Bumped whenever the cart/wishlist in storage were replaced (merged on login, cleared on sign out) */
+  shoppingListsSyncedAt: number;
 };
 
 // -----------------------------------------------------------------------------
@@ -176,6 +180,9 @@ const STORAGE_KEYS = {
   PROFILE: "@bazaario_profile",
   SHOP: "@bazaario_shop",
   SESSION_TOKEN: "@bazaario_session_token",
+  // Owned by CartContext / WishlistContext; merged with the server copy on login
+  CART: "@bazaario_cart",
+  WISHLIST: "@bazaario_wishlist",
 };
 
 // -----------------------------------------------------------------------------
@@ -203,6 +210,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [profile, setProfile] = useState<CustomerProfile | SellerProfile | null>(null);
   const [shop, setShop] = useState<Shop | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [shoppingListsSyncedAt, setShoppingListsSyncedAt] = useState(0);
 
   const isAuthenticated = !!firebaseUser || !!sessionToken;
 
@@ -398,6 +406,66 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => unsubscribe();
   }, [loadCachedData, fetchUserData, saveToStorage, restoreSessionFromStorage]);
 
+  // Merge this device's cart & wishlist with the ones saved for the customer,
+  // so both devices end up with the same lists after logging in
+  const syncShoppingLists = useCallback(async (token: string) => {
+    try {
+      const [cartJson, wishlistJson] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEYS.CART),
+        AsyncStorage.getItem(STORAGE_KEYS.WISHLIST),
+      ]);
+      const localCart = cartJson ? JSON.parse(cartJson).items || [] : [];
+      const localWishlist = wishlistJson ? JSON.parse(wishlistJson) : [];
+
+      const merge = async (path: string, items: unknown[]) => {
+        const response = await fetch(`${API_BASE_URL}${path}`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ items }),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to merge ${path}`);
+        }
+        return response.json();
+      };
+
+      const [cart, wishlist] = await Promise.all([
+        merge("/me/cart/merge", localCart),
+        merge("/me/wishlist/merge", localWishlist),
+      ]);
+
+      await Promise.all([
+        AsyncStorage.setItem(
+          STORAGE_KEYS.CART,
+          JSON.stringify({ items: cart.items, changes: cart.changes })
+        ),
+        AsyncStorage.setItem(
+          STORAGE_KEYS.WISHLIST,
+          JSON.stringify(
+            wishlist.items.map(({ itemId, ...item }: { itemId: string }) => ({ id: itemId, ...item }))
+          )
+        ),
+      ]);
+      setShoppingListsSyncedAt(Date.now());
+    } catch (error) {
+      console.error("[Auth] Cart/wishlist sync failed:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user || user.role !== "customer") return;
+    let cancelled = false;
+    getIdToken().then((token) => {
+      if (token && !cancelled) syncShoppingLists(token);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?._id, user?.role, getIdToken, syncShoppingLists]);
+
   // Sign in with phone (after OTP verification)
   const signInWithPhone = useCallback(
     async (verificationId: string, verificationCode: string) => {
@@ -729,7 +797,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         AsyncStorage.removeItem(STORAGE_KEYS.USER),
         AsyncStorage.removeItem(STORAGE_KEYS.PROFILE),
         AsyncStorage.removeItem(STORAGE_KEYS.SHOP),
+        // The lists are saved on the server; don't leave them for the next person on this device
+        AsyncStorage.removeItem(STORAGE_KEYS.CART),
+        AsyncStorage.removeItem(STORAGE_KEYS.WISHLIST),
       ]);
+      setShoppingListsSyncedAt(Date.now());
       await firebaseSignOut(auth);
     } catch (error) {
       console.error("[Auth] Sign out failed:", error);
@@ -834,6 +906,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     updateProfile,
     updateAddresses,
     getIdToken,
+    shoppingListsSyncedAt,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from './AuthContext';
+import { apiPutAuth } from '../api/client';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -7,6 +9,9 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 export type CartItem = {
   productId: string;
+  /** Chosen size/colour for products sold in variants */
+  variantId?: string;
+  variantLabel?: string;
   shopId: string;
   shopName: string;
   name: string;
@@ -17,26 +22,46 @@ export type CartItem = {
   invoiceExpiresAt?: string;
 };
 
+/** Cart items from one shop; each group becomes its own order at checkout */
+export type CartShopGroup = {
+  shopId: string;
+  shopName: string;
+  items: CartItem[];
+  subtotal: number;
+};
+
 type CartContextValue = {
   items: CartItem[];
-  shopId: string | null; // Current shop in cart (only one shop at a time)
-  shopName: string | null;
+  /** Items grouped by shop, in the order the shops were first added */
+  shops: CartShopGroup[];
   totalItems: number;
   totalAmount: number;
   addItem: (item: Omit<CartItem, 'quantity'>, quantity?: number) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  /** `key` is the line key from cartLineKey (the product id for products without variants) */
+  removeItem: (key: string) => void;
+  updateQuantity: (key: string, quantity: number) => void;
   clearCart: () => void;
-  isInCart: (productId: string) => boolean;
-  getItemQuantity: (productId: string) => number;
+  isInCart: (key: string) => boolean;
+  getItemQuantity: (key: string) => number;
+  /** Price/stock changes found when the saved cart was revalidated on the server */
+  notices: string[];
+  dismissNotices: () => void;
 };
 
+/** Identifies a cart line: one per product, or per product variant */
+export function cartLineKey(item: Pick<CartItem, 'productId' | 'variantId'>): string {
+  return item.variantId ? `${item.productId}:${item.variantId}` : item.productId;
+}
+
 // -----------------------------------------------------------------------------
 // Storage key
 // -----------------------------------------------------------------------------
 
 const CART_STORAGE_KEY = '@bazaario_cart';
 
+// Wait for quantity taps to settle before saving the cart on the server
+const REMOTE_SAVE_DELAY_MS = 800;
+
 // -----------------------------------------------------------------------------
 // Context
 // -----------------------------------------------------------------------------
@@ -54,10 +79,14 @@ export function useCart() {
 // -----------------------------------------------------------------------------
 
 export function CartProvider({ children }: { children: React.ReactNode }) {
+  const { user, shoppingListsSyncedAt } = useAuth();
   const [items, setItems] = useState<CartItem[]>([]);
+  const [notices, setNotices] = useState<string[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
+  // Last cart known to match the server copy, so reloading it doesn't echo it back
+  const remoteItemsJson = useRef<string | null>(null);
 
-  // Load cart from storage on mount
+  // Load cart from storage on mount, and again after AuthContext merged it with the server copy
   useEffect(() => {
     async function loadCart() {
       try {
@@ -76,6 +105,12 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           });
           
           setItems(validItems);
+          if (shoppingListsSyncedAt > 0) {
+            remoteItemsJson.current = JSON.stringify(validItems);
+            setNotices((parsed.changes || []).map((c: { message: string }) => c.message));
+          }
+        } else {
+          setItems([]);
         }
       } catch (error) {
         console.error('[Cart] Failed to load cart:', error);
@@ -84,7 +119,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       }
     }
     loadCart();
-  }, []);
+  }, [shoppingListsSyncedAt]);
 
   // Save cart to storage whenever it changes
   useEffect(() => {
@@ -100,9 +135,38 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     saveCart();
   }, [items, isLoaded]);
 
-  // Get current shop info
-  const shopId = items.length > 0 ? items[0].shopId : null;
-  const shopName = items.length > 0 ? items[0].shopName : null;
+  // Keep the server copy up to date for signed-in customers (after the login merge)
+  const syncsRemotely = isLoaded && shoppingListsSyncedAt > 0 && user?.role === 'customer';
+  useEffect(() => {
+    if (!syncsRemotely) return;
+    const json = JSON.stringify(items);
+    if (json === remoteItemsJson.current) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        await apiPutAuth('/me/cart', { items });
+        remoteItemsJson.current = json;
+      } catch (error) {
+        console.warn('[Cart] Failed to save cart on server:', error);
+      }
+    }, REMOTE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [items, syncsRemotely]);
+
+  // Group items by shop
+  const shops = useMemo(() => {
+    const groups: CartShopGroup[] = [];
+    for (const item of items) {
+      let group = groups.find(g => g.shopId === item.shopId);
+      if (!group) {
+        group = { shopId: item.shopId, shopName: item.shopName, items: [], subtotal: 0 };
+        groups.push(group);
+      }
+      group.items.push(item);
+      group.subtotal += item.price * item.quantity;
+    }
+    return groups;
+  }, [items]);
 
   // Calculate totals
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -111,13 +175,8 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   // Add item to cart
   const addItem = useCallback((item: Omit<CartItem, 'quantity'>, quantity = 1) => {
     setItems(prev => {
-      // If cart has items from a different shop, clear it first
-      if (prev.length > 0 && prev[0].shopId !== item.shopId) {
-        return [{ ...item, quantity }];
-      }
-
       // Check if item already exists
-      const existingIndex = prev.findIndex(i => i.productId === item.productId);
+      const existingIndex = prev.findIndex(i => cartLineKey(i) === cartLineKey(item));
       if (existingIndex >= 0) {
         const updated = [...prev];
         updated[existingIndex] = {
@@ -133,20 +192,20 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   // Remove item from cart
-  const removeItem = useCallback((productId: string) => {
-    setItems(prev => prev.filter(item => item.productId !== productId));
+  const removeItem = useCallback((key: string) => {
+    setItems(prev => prev.filter(item => cartLineKey(item) !== key));
   }, []);
 
   // Update item quantity
-  const updateQuantity = useCallback((productId: string, quantity: number) => {
+  const updateQuantity = useCallback((key: string, quantity: number) => {
     if (quantity <= 0) {
-      removeItem(productId);
+      removeItem(key);
       return;
     }
 
     setItems(prev => 
       prev.map(item => 
-        item.productId === productId 
+        cartLineKey(item) === key 
           ? { ...item, quantity } 
           : item
       )
@@ -159,20 +218,21 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   // Check if item is in cart
-  const isInCart = useCallback((productId: string) => {
-    return items.some(item => item.productId === productId);
+  const isInCart = useCallback((key: string) => {
+    return items.some(item => cartLineKey(item) === key);
   }, [items]);
 
   // Get item quantity
-  const getItemQuantity = useCallback((productId: string) => {
-    const item = items.find(i => i.productId === productId);
+  const getItemQuantity = useCallback((key: string) => {
+    const item = items.find(i => cartLineKey(i) === key);
     return item?.quantity || 0;
   }, [items]);
 
+  const dismissNotices = useCallback(() => setNotices([]), []);
+
   const value: CartContextValue = {
     items,
-    shopId,
-    shopName,
+    shops,
     totalItems,
     totalAmount,
     addItem,
@@ -181,6 +241,8 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     clearCart,
     isInCart,
     getItemQuantity,
+    notices,
+    dismissNotices,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
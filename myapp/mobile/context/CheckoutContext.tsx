@@ -1,13 +1,18 @@
-import React, { createContext, useContext, useMemo, useState, useEffect } from 'react';
-import { useCart, CartItem as RealCartItem } from './CartContext';
+import React, { createContext, useContext, useMemo, useState, useEffect, useCallback } from 'react';
+import { useCart, cartLineKey, CartItem as RealCartItem } from './CartContext';
 import { useAuth } from './AuthContext';
+import { apiGetAuth, apiPostAuth } from '../api/client';
 
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
 
 export type CartItem = {
+  /** Cart line key (see cartLineKey) */
   id: string;
+  productId: string;
+  variantId?: string;
+  variantLabel?: string;
   shopId: string;
   shopName: string;
   name: string;
@@ -27,44 +32,134 @@ export type SavedAddress = {
   state: string;
   pincode: string;
   phone?: string;
+  /** Map pin for the address; shops that deliver within a radius need it */
+  geoLocation?: { lat: number; lng: number };
 };
 
 export type CheckoutContact = { name: string; phone: string; notes: string };
 
 export type CheckoutSchedule = { type: 'instant' | 'scheduled'; date?: string; time?: string };
 
+export type FulfilmentType = 'delivery' | 'pickup';
+
+/** A collection window from GET /shops/:shopId/pickup-slots (shop-local date and HH:MM times) */
+export type PickupSlot = { date: string; start: string; end: string; startsAt: string; endsAt: string };
+
+/** A scheduled delivery slot from GET /shops/:shopId/delivery-slots, with the places left in it */
+export type DeliverySlot = {
+  slotId: string;
+  date: string;
+  start: string;
+  end: string;
+  capacity: number;
+  booked: number;
+  remaining: number;
+  available: boolean;
+};
+
 export type PaymentMethod = 'upi' | 'card' | 'netbanking' | 'wallet' | 'cod';
 
+/** Price breakdown returned by POST /orders/quote; `payable` is what is collected after wallet credit. */
+export type OrderPricing = {
+  subtotal: number;
+  platformFee: number;
+  deliveryFee?: number;
+  discounts: { code?: string; label: string; amount: number }[];
+  discountTotal: number;
+  taxBreakdown: { name: string; rate: number; amount: number }[];
+  taxTotal: number;
+  grandTotal: number;
+  walletApplied: number;
+  payable: number;
+};
+
+export type ShopQuote = {
+  shopId: string;
+  lineItems: {
+    productId: string;
+    variantId?: string;
+    variantLabel?: string;
+    name: string;
+    price: number;
+    quantity: number;
+    image?: string;
+    lineTotal: number;
+  }[];
+  pricing: OrderPricing;
+  /** Whether this shop delivers to the checkout address, and its fee */
+  delivery?: DeliveryCheck;
+};
+
+/** Result of POST /delivery/check (also attached to each shop quote) */
+export type DeliveryCheck = {
+  serviceable: boolean;
+  code?: 'outside_zone' | 'pincode_not_served' | 'location_required';
+  reason?: string;
+  distanceKm?: number;
+  deliveryFee: number;
+};
+
+/** One quote per shop (each becomes its own order) plus the combined total */
+export type OrderQuote = {
+  shops: ShopQuote[];
+  pricing: OrderPricing;
+};
+
+export type CheckoutShopGroup = { shopId: string; shopName: string; items: CartItem[] };
+
+/** Body shape for POST /orders and POST /orders/quote */
+export type CheckoutShopPayload = {
+  shopId: string;
+  items: { productId: string; variantId?: string; quantity: number }[];
+};
+
 type CheckoutContextValue = {
   // Cart (synced from CartContext)
   items: CartItem[];
   updateQty: (id: string, qty: number) => void;
   removeItem: (id: string) => void;
   clearCart: () => void;
-  shopId: string | null;
+  /** Cart items grouped by shop; each shop becomes its own order */
+  shopGroups: CheckoutShopGroup[];
+  /** Cart split per shop, ready to send as `shops` to the orders API */
+  shops: CheckoutShopPayload[];
   // Address & contact
   address: SavedAddress | null;
   setAddress: (a: SavedAddress | null) => void;
   savedAddresses: SavedAddress[];
   contact: CheckoutContact;
   setContact: (c: Partial<CheckoutContact>) => void;
+  // Delivery to an address, or collection from each shop
+  fulfilmentType: FulfilmentType;
+  setFulfilmentType: (f: FulfilmentType) => void;
+  /** Chosen collection slot per shop id (pickup only) */
+  pickupSlots: Record<string, PickupSlot>;
+  setPickupSlot: (shopId: string, slot: PickupSlot | null) => void;
+  /** Chosen delivery slot per shop id (only shops that deliver in slots) */
+  deliverySlots: Record<string, DeliverySlot>;
+  setDeliverySlot: (shopId: string, slot: DeliverySlot | null) => void;
   // Schedule
   schedule: CheckoutSchedule;
   setSchedule: (s: CheckoutSchedule) => void;
   // Invoice
   promoCode: string;
-  setPromoCode: (s: string) => void;
-  promoDiscount: number;
-  setPromoDiscount: (n: number) => void;
+  /** Re-quotes with the code; rejects with the server's message if it is not valid. */
+  applyPromoCode: (code: string) => Promise<void>;
+  quote: OrderQuote | null;
+  quoteLoading: boolean;
+  /** Wallet credit actually applied (capped by balance and order value on the server) */
   walletApplied: number;
+  /** Ask to use up to this much wallet credit */
   setWalletApplied: (n: number) => void;
   walletBalance: number;
+  refreshWallet: () => Promise<void>;
   // Payment
   paymentMethod: PaymentMethod | null;
   setPaymentMethod: (p: PaymentMethod | null) => void;
   // Computed
   subtotal: number;
   platformFee: number;
+  deliveryFee: number;
   discount: number;
   tax: number;
   total: number;
@@ -73,12 +168,11 @@ type CheckoutContextValue = {
 };
 
 // -----------------------------------------------------------------------------
-// Constants
+// Constants (used for the local estimate only; the server quote is authoritative)
 // -----------------------------------------------------------------------------
 
 const PLATFORM_FEE_RATE = 0.02;
 const TAX_RATE = 0.05;
-const WALLET_BALANCE = 200;
 
 // -----------------------------------------------------------------------------
 // Context
@@ -100,7 +194,10 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
   // Convert CartContext items to CheckoutContext format
   const items: CartItem[] = useMemo(() => 
     cart.items.map(item => ({
-      id: item.productId,
+      id: cartLineKey(item),
+      productId: item.productId,
+      variantId: item.variantId,
+      variantLabel: item.variantLabel,
       shopId: item.shopId,
       shopName: item.shopName,
       name: item.name,
@@ -129,6 +226,7 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
           state: addr.state || '',
           pincode: addr.pincode || '',
           phone: addr.phone || '',
+          geoLocation: addr.geoLocation?.lat != null ? { lat: addr.geoLocation.lat, lng: addr.geoLocation.lng } : undefined,
         };
       });
     }
@@ -141,10 +239,15 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
     phone: user?.phone || '', 
     notes: '' 
   });
+  const [fulfilmentType, setFulfilmentType] = useState<FulfilmentType>('delivery');
+  const [pickupSlots, setPickupSlots] = useState<Record<string, PickupSlot>>({});
+  const [deliverySlots, setDeliverySlots] = useState<Record<string, DeliverySlot>>({});
   const [schedule, setSchedule] = useState<CheckoutSchedule>({ type: 'instant' });
   const [promoCode, setPromoCode] = useState('');
-  const [promoDiscount, setPromoDiscountState] = useState(0);
-  const [walletApplied, setWalletApplied] = useState(0);
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [walletRequested, setWalletApplied] = useState(0);
+  const [walletBalance, setWalletBalance] = useState(0);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
 
   // Update contact when user changes
@@ -167,11 +270,117 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
 
   const setContact = (c: Partial<CheckoutContact>) => setContactState((p) => ({ ...p, ...c }));
 
-  const subtotal = useMemo(() => items.reduce((s, i) => s + i.price * i.qty, 0), [items]);
-  const platformFee = Math.round(subtotal * PLATFORM_FEE_RATE);
-  const discount = promoDiscount;
-  const tax = Math.round((subtotal - discount + platformFee) * TAX_RATE);
-  const total = Math.max(0, subtotal + platformFee - discount + tax - walletApplied);
+  const setPickupSlot = (shopId: string, slot: PickupSlot | null) =>
+    setPickupSlots((prev) => {
+      const next = { ...prev };
+      if (slot) next[shopId] = slot;
+      else delete next[shopId];
+      return next;
+    });
+
+  const setDeliverySlot = (shopId: string, slot: DeliverySlot | null) =>
+    setDeliverySlots((prev) => {
+      const next = { ...prev };
+      if (slot) next[shopId] = slot;
+      else delete next[shopId];
+      return next;
+    });
+
+  const refreshWallet = useCallback(async () => {
+    if (!user || user.role !== 'customer') {
+      setWalletBalance(0);
+      return;
+    }
+    try {
+      const res = await apiGetAuth<{ balance: number }>('/me/wallet');
+      setWalletBalance(res.balance);
+    } catch (err: any) {
+      console.warn('[Checkout] Wallet fetch failed:', err?.message);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshWallet();
+  }, [refreshWallet]);
+
+  const shopGroups: CheckoutShopGroup[] = useMemo(
+    () =>
+      cart.shops.map((group) => ({
+        shopId: group.shopId,
+        shopName: group.shopName,
+        items: items.filter((i) => i.shopId === group.shopId),
+      })),
+    [cart.shops, items]
+  );
+
+  const shops: CheckoutShopPayload[] = useMemo(
+    () =>
+      cart.shops.map((group) => ({
+        shopId: group.shopId,
+        items: group.items.map((i) => ({ productId: i.productId, variantId: i.variantId, quantity: i.quantity })),
+      })),
+    [cart.shops]
+  );
+
+  const fetchQuote = useCallback(
+    async (code: string) => {
+      const res = await apiPostAuth<{ quote: OrderQuote }>('/orders/quote', {
+        shops,
+        promoCode: code || undefined,
+        walletAmount: walletRequested || undefined,
+        fulfilmentType,
+        // Collected orders have no delivery fee
+        deliveryAddress:
+          address && fulfilmentType === 'delivery' ? { pincode: address.pincode, geoLocation: address.geoLocation } : undefined,
+      });
+      return res.quote;
+    },
+    [shops, walletRequested, address, fulfilmentType]
+  );
+
+  // Re-price on the server whenever the cart changes so totals match what will be charged
+  useEffect(() => {
+    if (!user || shops.length === 0) {
+      setQuote(null);
+      return;
+    }
+    let cancelled = false;
+    setQuoteLoading(true);
+    fetchQuote(promoCode)
+      .then((q) => {
+        if (!cancelled) setQuote(q);
+      })
+      .catch((err) => {
+        console.warn('[Checkout] Quote failed:', err?.message);
+        if (!cancelled) setQuote(null);
+      })
+      .finally(() => {
+        if (!cancelled) setQuoteLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, shops, promoCode, fetchQuote]);
+
+  const applyPromoCode = async (code: string) => {
+    const trimmed = code.trim();
+    // The quote picks the order the code applies to and throws with the server's
+    // reason (expired, min order value, already used...) if none qualifies
+    const q = await fetchQuote(trimmed);
+    setQuote(q);
+    setPromoCode(trimmed);
+  };
+
+  // Local estimate is only shown until the server quote arrives
+  const localSubtotal = useMemo(() => items.reduce((s, i) => s + i.price * i.qty, 0), [items]);
+  const subtotal = quote?.pricing.subtotal ?? localSubtotal;
+  const platformFee = quote?.pricing.platformFee ?? Math.round(localSubtotal * PLATFORM_FEE_RATE);
+  const deliveryFee = quote?.pricing.deliveryFee ?? 0;
+  const discount = quote?.pricing.discountTotal ?? 0;
+  const tax = quote?.pricing.taxTotal ?? Math.round((localSubtotal + platformFee) * TAX_RATE);
+  const grandTotal = quote?.pricing.grandTotal ?? subtotal + platformFee - discount + tax;
+  const walletApplied = quote?.pricing.walletApplied ?? Math.min(walletRequested, walletBalance, grandTotal);
+  const total = quote?.pricing.payable ?? Math.max(0, grandTotal - walletApplied);
 
   const updateQty = (id: string, qty: number) => {
     if (qty < 1) {
@@ -185,15 +394,16 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
 
   const clearCart = () => cart.clearCart();
 
-  const setPromoDiscount = (n: number) => setPromoDiscountState(Math.max(0, n));
-
   const resetCheckout = () => {
     cart.clearCart();
     setAddress(savedAddresses[0] || null);
     setContactState({ name: user?.name || '', phone: user?.phone || '', notes: '' });
+    setFulfilmentType('delivery');
+    setPickupSlots({});
+    setDeliverySlots({});
     setSchedule({ type: 'instant' });
     setPromoCode('');
-    setPromoDiscountState(0);
+    setQuote(null);
     setWalletApplied(0);
     setPaymentMethod(null);
   };
@@ -203,25 +413,34 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
     updateQty,
     removeItem,
     clearCart,
-    shopId: cart.shopId,
+    shopGroups,
+    shops,
     address,
     setAddress,
     savedAddresses,
     contact,
     setContact,
+    fulfilmentType,
+    setFulfilmentType,
+    pickupSlots,
+    setPickupSlot,
+    deliverySlots,
+    setDeliverySlot,
     schedule,
     setSchedule,
     promoCode,
-    setPromoCode,
-    promoDiscount,
-    setPromoDiscount,
+    applyPromoCode,
+    quote,
+    quoteLoading,
     walletApplied,
     setWalletApplied,
-    walletBalance: WALLET_BALANCE,
+    walletBalance,
+    refreshWallet,
     paymentMethod,
     setPaymentMethod,
     subtotal,
     platformFee,
+    deliveryFee,
     discount,
     tax,
     total,
@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from './AuthContext';
+import { apiPutAuth } from '../api/client';
 
 const WISHLIST_STORAGE_KEY = '@bazaario_wishlist';
 
@@ -26,16 +28,21 @@ type WishlistContextValue = {
 const WishlistContext = createContext<WishlistContextValue | null>(null);
 
 export function WishlistProvider({ children }: { children: ReactNode }) {
+  const { user, shoppingListsSyncedAt } = useAuth();
   const [items, setItems] = useState<WishlistItem[]>([]);
   const [loaded, setLoaded] = useState(false);
+  // Last wishlist known to match the server copy
+  const remoteItemsJson = useRef<string | null>(null);
 
-  // Load wishlist from storage
+  // Load wishlist from storage, and again after AuthContext merged it with the server copy
   useEffect(() => {
     async function loadWishlist() {
       try {
         const stored = await AsyncStorage.getItem(WISHLIST_STORAGE_KEY);
-        if (stored) {
-          setItems(JSON.parse(stored));
+        const parsed: WishlistItem[] = stored ? JSON.parse(stored) : [];
+        setItems(parsed);
+        if (shoppingListsSyncedAt > 0) {
+          remoteItemsJson.current = JSON.stringify(parsed);
         }
       } catch (error) {
         console.warn('[Wishlist] Failed to load:', error);
@@ -44,7 +51,7 @@ export function WishlistProvider({ children }: { children: ReactNode }) {
       }
     }
     loadWishlist();
-  }, []);
+  }, [shoppingListsSyncedAt]);
 
   // Save wishlist to storage
   useEffect(() => {
@@ -59,6 +66,20 @@ export function WishlistProvider({ children }: { children: ReactNode }) {
     saveWishlist();
   }, [items, loaded]);
 
+  // Keep the server copy up to date for signed-in customers (after the login merge)
+  const syncsRemotely = loaded && shoppingListsSyncedAt > 0 && user?.role === 'customer';
+  useEffect(() => {
+    if (!syncsRemotely) return;
+    const json = JSON.stringify(items);
+    if (json === remoteItemsJson.current) return;
+
+    apiPutAuth('/me/wishlist', { items })
+      .then(() => {
+        remoteItemsJson.current = json;
+      })
+      .catch((error) => console.warn('[Wishlist] Failed to save on server:', error));
+  }, [items, syncsRemotely]);
+
   function addToWishlist(item: WishlistItem) {
     setItems(prev => {
       if (prev.some(i => i.id === item.id)) return prev;
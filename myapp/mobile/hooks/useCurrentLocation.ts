@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as Location from 'expo-location';
+
+export type LatLng = { lat: number; lng: number };
+
+export type LocationStatus = 'checking' | 'needs_permission' | 'denied' | 'ready' | 'unavailable';
+
+/**
+ * One-off position fix after asking for permission; null when refused or unavailable.
+ * `precise` skips the cached fix (e.g. a seller pinning their shop).
+ */
+export async function getCurrentLocation(options: { precise?: boolean } = {}): Promise<LatLng | null> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') return null;
+  const cached = options.precise ? null : await Location.getLastKnownPositionAsync({ maxAge: 5 * 60 * 1000 });
+  const position =
+    cached ??
+    (await Location.getCurrentPositionAsync({
+      accuracy: options.precise ? Location.Accuracy.High : Location.Accuracy.Balanced,
+    }));
+  return { lat: position.coords.latitude, lng: position.coords.longitude };
+}
+
+/** The customer's location for "near me" features; only prompts when `requestLocation` is called */
+export function useCurrentLocation() {
+  const [location, setLocation] = useState<LatLng | null>(null);
+  const [status, setStatus] = useState<LocationStatus>('checking');
+
+  const locate = useCallback(async () => {
+    try {
+      const loc = await getCurrentLocation();
+      if (loc) {
+        setLocation(loc);
+        setStatus('ready');
+      } else {
+        const { canAskAgain } = await Location.getForegroundPermissionsAsync();
+        setStatus(canAskAgain ? 'needs_permission' : 'denied');
+      }
+    } catch (error) {
+      console.warn('[useCurrentLocation] Could not get location', error);
+      setStatus('unavailable');
+    }
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+    // Use the location straight away if already allowed; otherwise wait for the user to ask
+    Location.getForegroundPermissionsAsync()
+      .then(({ granted, canAskAgain }) => {
+        if (!isMounted) return;
+        if (granted) locate();
+        else setStatus(canAskAgain ? 'needs_permission' : 'denied');
+      })
+      .catch(() => {
+        if (isMounted) setStatus('unavailable');
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [locate]);
+
+  return { location, status, requestLocation: locate };
+}
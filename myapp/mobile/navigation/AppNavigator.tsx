@@ -24,6 +24,7 @@ import CheckoutPlaceOrderScreen from '../screens/checkout/CheckoutPlaceOrderScre
 import CheckoutScheduleScreen from '../screens/checkout/CheckoutScheduleScreen';
 import CheckoutSuccessScreen from '../screens/checkout/CheckoutSuccessScreen';
 import SplashScreen from '../screens/SplashScreen';
+import AgentDeliveriesScreen from '../screens/agent/AgentDeliveriesScreen';
 import SellerTabNavigator from './SellerTabNavigator';
 import TabNavigator from './TabNavigator';
 import { CheckoutProvider } from '../context/CheckoutContext';
@@ -101,6 +102,15 @@ function SellerStack() {
   );
 }
 
+// Agent stack - shown when a delivery partner is authenticated
+function AgentStack() {
+  return (
+    <Stack.Navigator screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="AgentDeliveries" component={AgentDeliveriesScreen} />
+    </Stack.Navigator>
+  );
+}
+
 // Loading screen
 function LoadingScreen() {
   return (
@@ -147,6 +157,9 @@ export default function AppNavigator() {
         ) : user?.role === 'seller' ? (
           // Logged in as seller with shop - show dashboard
           <SellerStack />
+        ) : user?.role === 'agent' ? (
+          // Logged in as a delivery partner - show their deliveries
+          <AgentStack />
         ) : (
           // Logged in as customer
           <CustomerStack />
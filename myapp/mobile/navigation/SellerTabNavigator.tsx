@@ -11,6 +11,7 @@ import SellerOrdersScreen from '../screens/seller/SellerOrdersScreen';
 import SellerProductsScreen from '../screens/seller/SellerProductsScreen';
 import SellerProfileTabScreen from '../screens/seller/SellerProfileTabScreen';
 import ReelInsightsScreen from '../screens/seller/ReelInsightsScreen';
+import SellerAdsScreen from '../screens/seller/SellerAdsScreen';
 import ConversationsScreen from '../screens/ConversationsScreen';
 import ChatScreen from '../screens/ChatScreen';
 import VideoCallScreen from '../screens/VideoCallScreen';
@@ -29,6 +30,7 @@ type OverlayScreen =
   | { type: 'Conversations' }
   | { type: 'Chat'; conversation: Conversation }
   | { type: 'Reviews' }
+  | { type: 'Ads' }
   | null;
 
 // -----------------------------------------------------------------------------
@@ -94,6 +96,7 @@ export default function SellerTabNavigator() {
   const openReelInsights = () => setOverlay({ type: 'ReelInsights' });
   const openConversations = () => setOverlay({ type: 'Conversations' });
   const openReviews = () => setOverlay({ type: 'Reviews' });
+  const openAds = () => setOverlay({ type: 'Ads' });
   const closeOverlay = () => setOverlay(null);
 
   const handleOpenChat = useCallback((conversation: Conversation) => {
@@ -125,6 +128,9 @@ export default function SellerTabNavigator() {
   if (overlay?.type === 'Reviews') {
     return <SellerReviewsScreen onBack={closeOverlay} shopId={(shop as any)?._id} />;
   }
+  if (overlay?.type === 'Ads') {
+    return <SellerAdsScreen onBack={closeOverlay} />;
+  }
 
   // Render the appropriate tab screen with props
   const renderScreen = () => {
@@ -134,6 +140,7 @@ export default function SellerTabNavigator() {
           <SellerDashboardScreen
             onOpenReelInsights={openReelInsights}
             onOpenReviews={openReviews}
+            onOpenAds={openAds}
             onOpenConversations={openConversations}
           />
         );
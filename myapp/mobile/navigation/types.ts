@@ -5,7 +5,7 @@ export type RootStackParamList = {
   Login: undefined;
   OtpVerify: {
     phone: string;
-    role: 'customer' | 'seller';
+    role: 'customer' | 'seller' | 'agent';
     isLogin: boolean;
   };
   PhoneVerified: undefined;
@@ -49,4 +49,6 @@ export type RootStackParamList = {
     phone?: string;
   };
   SellerTabs: undefined;
+  // Delivery partner
+  AgentDeliveries: undefined;
 };
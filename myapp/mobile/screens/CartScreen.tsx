@@ -12,6 +12,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import StepIndicator from '../components/StepIndicator';
 import { useCheckout } from '../context/CheckoutContext';
+import { useCart } from '../context/CartContext';
 import { useTabNavigator } from '../navigation/TabContext';
 import { colors } from '../theme/colors';
 import { radius } from '../theme/spacing';
@@ -39,7 +40,8 @@ export default function CartScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
   const { switchToTab } = useTabNavigator();
-  const { items, updateQty, removeItem, subtotal, platformFee, discount, tax, total } = useCheckout();
+  const { items, shopGroups, updateQty, removeItem, subtotal, platformFee, discount, tax, total } = useCheckout();
+  const { notices, dismissNotices } = useCart();
 
   const invoiceItem = items.find((i) => i.invoiceExpiresAt);
   const [invoiceTimeLeft, setInvoiceTimeLeft] = useState(invoiceItem?.invoiceExpiresAt
@@ -93,27 +95,59 @@ export default function CartScreen() {
           </View>
         )}
 
-        {items.map((i) => (
-          <View key={i.id} style={[styles.itemCard, SHADOW]}>
-            <View style={styles.itemHeader}>
-              <Text style={styles.shopName}>{i.shopName}</Text>
-              <Pressable onPress={() => removeItem(i.id)} hitSlop={8}>
-                <Ionicons name="trash-outline" size={20} color={colors.destructive} />
-              </Pressable>
+        {notices.length > 0 && (
+          <View style={[styles.noticeBanner, SHADOW]}>
+            <Ionicons name="information-circle-outline" size={18} color={colors.primary} />
+            <View style={styles.noticeBody}>
+              <Text style={styles.noticeTitle}>Your cart was updated</Text>
+              {notices.map((n, idx) => (
+                <Text key={idx} style={styles.noticeText}>{n}</Text>
+              ))}
             </View>
-            <Text style={styles.itemName}>{i.name}</Text>
-            <View style={styles.itemRow}>
-              <View style={styles.qtyWrap}>
-                <Pressable onPress={() => updateQty(i.id, Math.max(1, i.qty - 1))} style={styles.qtyBtn}>
-                  <Text style={styles.qtyBtnText}>−</Text>
-                </Pressable>
-                <Text style={styles.qtyNum}>{i.qty}</Text>
-                <Pressable onPress={() => updateQty(i.id, i.qty + 1)} style={styles.qtyBtn}>
-                  <Text style={styles.qtyBtnText}>+</Text>
-                </Pressable>
-              </View>
-              <Text style={styles.itemPrice}>{fmt(i.price * i.qty)}</Text>
+            <Pressable onPress={dismissNotices} hitSlop={8}>
+              <Ionicons name="close" size={18} color={colors.mutedForeground} />
+            </Pressable>
+          </View>
+        )}
+
+        {shopGroups.length > 1 && (
+          <Text style={styles.splitNote}>
+            Items from {shopGroups.length} shops will be placed as {shopGroups.length} separate orders, paid together.
+          </Text>
+        )}
+
+        {shopGroups.map((group) => (
+          <View key={group.shopId} style={styles.shopSection}>
+            <View style={styles.shopHeader}>
+              <Ionicons name="storefront-outline" size={16} color={colors.mutedForeground} />
+              <Text style={styles.shopName}>{group.shopName}</Text>
+              <Text style={styles.shopSubtotal}>{fmt(group.items.reduce((s, i) => s + i.price * i.qty, 0))}</Text>
             </View>
+            {group.items.map((i) => (
+              <View key={i.id} style={[styles.itemCard, SHADOW]}>
+                <View style={styles.itemHeader}>
+                  <View style={styles.itemTitle}>
+                    <Text style={styles.itemName}>{i.name}</Text>
+                    {i.variantLabel ? <Text style={styles.itemVariant}>{i.variantLabel}</Text> : null}
+                  </View>
+                  <Pressable onPress={() => removeItem(i.id)} hitSlop={8}>
+                    <Ionicons name="trash-outline" size={20} color={colors.destructive} />
+                  </Pressable>
+                </View>
+                <View style={styles.itemRow}>
+                  <View style={styles.qtyWrap}>
+                    <Pressable onPress={() => updateQty(i.id, Math.max(1, i.qty - 1))} style={styles.qtyBtn}>
+                      <Text style={styles.qtyBtnText}>−</Text>
+                    </Pressable>
+                    <Text style={styles.qtyNum}>{i.qty}</Text>
+                    <Pressable onPress={() => updateQty(i.id, i.qty + 1)} style={styles.qtyBtn}>
+                      <Text style={styles.qtyBtnText}>+</Text>
+                    </Pressable>
+                  </View>
+                  <Text style={styles.itemPrice}>{fmt(i.price * i.qty)}</Text>
+                </View>
+              </View>
+            ))}
           </View>
         ))}
 
@@ -181,10 +215,20 @@ const styles = StyleSheet.create({
   ctaDisabled: { opacity: 0.6 },
   ctaLabelDisabled: { color: colors.mutedForeground },
   title: { fontSize: 22, fontWeight: '700', color: colors.foreground, marginTop: 12, marginBottom: 16 },
+  noticeBanner: { flexDirection: 'row', alignItems: 'flex-start', gap: 8, padding: 12, borderRadius: radius.lg, backgroundColor: colors.card, marginBottom: 12 },
+  noticeBody: { flex: 1 },
+  noticeTitle: { fontSize: 14, fontWeight: '600', color: colors.foreground, marginBottom: 2 },
+  noticeText: { fontSize: 13, color: colors.mutedForeground },
+  splitNote: { fontSize: 13, color: colors.mutedForeground, marginBottom: 12 },
+  shopSection: { marginBottom: 4 },
+  shopHeader: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 8 },
+  shopSubtotal: { marginLeft: 'auto', fontSize: 13, fontWeight: '600', color: colors.foreground },
   itemCard: { backgroundColor: colors.card, borderRadius: radius.lg, padding: PAD, marginBottom: 12 },
-  itemHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
+  itemHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
   shopName: { fontSize: 13, fontWeight: '600', color: colors.mutedForeground },
-  itemName: { fontSize: 16, fontWeight: '600', color: colors.foreground, marginBottom: 10 },
+  itemTitle: { flex: 1, marginRight: 8 },
+  itemName: { fontSize: 16, fontWeight: '600', color: colors.foreground },
+  itemVariant: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
   itemRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
   qtyWrap: { flexDirection: 'row', alignItems: 'center', borderWidth: 1, borderColor: colors.border, borderRadius: radius.lg, overflow: 'hidden' },
   qtyBtn: { width: 36, height: 36, alignItems: 'center', justifyContent: 'center' },
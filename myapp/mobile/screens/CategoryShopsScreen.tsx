@@ -13,6 +13,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import NotificationBell from '../components/NotificationBell';
+import SponsoredAds from '../components/SponsoredAds';
 import { useTabNavigator, type CategoryShopsParams } from '../navigation/TabContext';
 import BackButton from '../components/BackButton';
 import { colors } from '../theme/colors';
@@ -163,6 +164,8 @@ export default function CategoryShopsScreen({
           <Text style={styles.heroTitle}>Shop for {categoryLabel}</Text>
         </View>
 
+        <SponsoredAds categoryId={categoryId} placement="category" onOpenShop={handleVisitShop} />
+
         {/* Stores section: title left, Filter by market right */}
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>Stores</Text>
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   FlatList,
   Image,
@@ -10,14 +10,13 @@ import {
   Text,
   TextInput,
   View,
-  ActivityIndicator,
-  ScrollView,
   useWindowDimensions,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import NotificationBell from '../components/NotificationBell';
+import SearchSuggestions from '../components/SearchSuggestions';
 import { useTabNavigator } from '../navigation/TabContext';
 import { colors } from '../theme/colors';
 import { radius, spacing } from '../theme/spacing';
@@ -66,20 +65,12 @@ type Market = {
 export default function ExploreScreen() {
   const { width: screenWidth } = useWindowDimensions();
   const insets = useSafeAreaInsets();
-  const { switchToTab, openMarketDetail, openShopDetail, openConversations } = useTabNavigator();
+  const { switchToTab, openMarketDetail, openConversations, openSearchResults } = useTabNavigator();
   const { totalUnread } = useChat();
   const [markets, setMarkets] = useState<Market[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<{
-    shops: any[];
-    markets: any[];
-    products: any[];
-  } | null>(null);
-  const [searchLoading, setSearchLoading] = useState(false);
-  const [showSearchResults, setShowSearchResults] = useState(false);
   const [searchFocused, setSearchFocused] = useState(false);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const expandedWidth = screenWidth * 0.9;
 
@@ -102,53 +93,17 @@ export default function ExploreScreen() {
     };
   }, []);
 
-  const performSearch = useCallback(async (query: string) => {
-    if (!query.trim() || query.trim().length < 2) {
-      setSearchResults(null);
-      setShowSearchResults(false);
-      return;
-    }
-
-    setSearchLoading(true);
-    setShowSearchResults(true);
-    try {
-      const data = await apiGet<{ shops: any[]; markets: any[]; products: any[] }>(
-        `/search?q=${encodeURIComponent(query.trim())}`
-      );
-      setSearchResults(data);
-    } catch (error) {
-      console.error('[ExploreScreen] Search failed:', error);
-      setSearchResults({ shops: [], markets: [], products: [] });
-    } finally {
-      setSearchLoading(false);
-    }
-  }, []);
-
-  const handleSearchChange = useCallback((text: string) => {
-    setSearchQuery(text);
-    
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-
-    if (text.trim().length < 2) {
-      setSearchResults(null);
-      setShowSearchResults(false);
-      return;
-    }
-
-    searchTimeoutRef.current = setTimeout(() => {
-      performSearch(text);
-    }, 300);
-  }, [performSearch]);
+  function resetSearch() {
+    setSearchQuery('');
+    setSearchFocused(false);
+  }
 
-  useEffect(() => {
-    return () => {
-      if (searchTimeoutRef.current) {
-        clearTimeout(searchTimeoutRef.current);
-      }
-    };
-  }, []);
+  function handleSubmitSearch() {
+    const query = searchQuery.trim();
+    if (!query) return;
+    resetSearch();
+    openSearchResults(query);
+  }
 
   function handleLogo() {
     switchToTab('Home');
@@ -210,88 +165,6 @@ export default function ExploreScreen() {
     );
   }
 
-  const renderSearchResult = (item: any, type: 'shop' | 'market' | 'product', index: number) => {
-    if (type === 'shop') {
-      return (
-        <Pressable
-          key={`shop-${item._id}`}
-          onPress={() => {
-            setShowSearchResults(false);
-            setSearchQuery('');
-            openShopDetail({ shopId: item._id });
-          }}
-          style={styles.searchResultItem}
-        >
-          <Ionicons name="storefront" size={20} color={colors.primary} style={styles.searchResultIcon} />
-          <View style={styles.searchResultContent}>
-            <Text style={styles.searchResultName} numberOfLines={1}>{item.name}</Text>
-            {item.description && (
-              <Text style={styles.searchResultDesc} numberOfLines={1}>{item.description}</Text>
-            )}
-          </View>
-          <Ionicons name="chevron-forward" size={18} color={colors.mutedForeground} />
-        </Pressable>
-      );
-    }
-    if (type === 'market') {
-      return (
-        <Pressable
-          key={`market-${item._id}`}
-          onPress={() => {
-            setShowSearchResults(false);
-            setSearchQuery('');
-            openMarketDetail({
-              marketId: item._id,
-              name: item.name,
-              location: `${item.city}, ${item.state}`,
-              rating: item.ratingAverage || 4.5,
-              description: item.description || '',
-            });
-          }}
-          style={styles.searchResultItem}
-        >
-          <Ionicons name="location" size={20} color={colors.primary} style={styles.searchResultIcon} />
-          <View style={styles.searchResultContent}>
-            <Text style={styles.searchResultName} numberOfLines={1}>{item.name}</Text>
-            <Text style={styles.searchResultDesc} numberOfLines={1}>{item.city}, {item.state}</Text>
-          </View>
-          <Ionicons name="chevron-forward" size={18} color={colors.mutedForeground} />
-        </Pressable>
-      );
-    }
-    if (type === 'product') {
-      return (
-        <Pressable
-          key={`product-${item._id}`}
-          onPress={() => {
-            if (item.shop?._id) {
-              setShowSearchResults(false);
-              setSearchQuery('');
-              openShopDetail({ shopId: item.shop._id });
-            }
-          }}
-          style={styles.searchResultItem}
-        >
-          <Ionicons name="cube" size={20} color={colors.primary} style={styles.searchResultIcon} />
-          <View style={styles.searchResultContent}>
-            <Text style={styles.searchResultName} numberOfLines={1}>{item.name}</Text>
-            {item.shop && (
-              <Text style={styles.searchResultDesc} numberOfLines={1}>
-                {item.shop.name} · ₹{item.discountPrice || item.price}
-              </Text>
-            )}
-          </View>
-          <Ionicons name="chevron-forward" size={18} color={colors.mutedForeground} />
-        </Pressable>
-      );
-    }
-    return null;
-  };
-
-  const totalSearchResults = searchResults
-    ? searchResults.shops.length + searchResults.markets.length + searchResults.products.length
-    : 0;
-
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -313,93 +186,40 @@ export default function ExploreScreen() {
               <TextInput
                 style={styles.searchInput}
                 value={searchQuery}
-                onChangeText={handleSearchChange}
+                onChangeText={setSearchQuery}
+                onSubmitEditing={handleSubmitSearch}
+                returnKeyType="search"
                 placeholder="Search..."
                 placeholderTextColor={colors.mutedForeground}
-                onFocus={() => {
-                  setSearchFocused(true);
-                  setShowSearchResults(true);
-                }}
+                onFocus={() => setSearchFocused(true)}
                 onBlur={() => {
                   setTimeout(() => {
-                    setShowSearchResults(false);
                     setSearchFocused(false);
                   }, 200);
                 }}
               />
               {searchFocused ? (
                 <Pressable
-                  onPress={() => {
-                    setSearchQuery('');
-                    setSearchResults(null);
-                    setShowSearchResults(false);
-                    setSearchFocused(false);
-                  }}
+                  onPress={resetSearch}
                   hitSlop={8}
                 >
                   <Text style={styles.searchCloseText}>Cancel</Text>
                 </Pressable>
               ) : searchQuery.length > 0 ? (
                 <Pressable
-                  onPress={() => {
-                    setSearchQuery('');
-                    setSearchResults(null);
-                    setShowSearchResults(false);
-                  }}
+                  onPress={() => setSearchQuery('')}
                   hitSlop={8}
                 >
                   <Ionicons name="close-circle" size={18} color={colors.mutedForeground} />
                 </Pressable>
               ) : null}
             </View>
-            {showSearchResults && searchFocused && (
-              <View style={[styles.searchResultsDropdown, { width: expandedWidth }]}>
-                {searchLoading ? (
-                  <View style={styles.searchResultsLoading}>
-                    <ActivityIndicator size="small" color={colors.primary} />
-                    <Text style={styles.searchResultsLoadingText}>Searching...</Text>
-                  </View>
-                ) : searchResults && totalSearchResults > 0 ? (
-                  <ScrollView
-                    style={styles.searchResultsScroll}
-                    keyboardShouldPersistTaps="handled"
-                    nestedScrollEnabled
-                  >
-                    {searchResults.shops.length > 0 && (
-                      <>
-                        <View style={styles.searchSectionHeader}>
-                          <Text style={styles.searchSectionTitle}>Shops</Text>
-                        </View>
-                        {searchResults.shops.map((s, idx) => renderSearchResult(s, 'shop', idx))}
-                      </>
-                    )}
-                    {searchResults.markets.length > 0 && (
-                      <>
-                        {searchResults.shops.length > 0 && <View style={styles.searchSectionDivider} />}
-                        <View style={styles.searchSectionHeader}>
-                          <Text style={styles.searchSectionTitle}>Markets</Text>
-                        </View>
-                        {searchResults.markets.map((m, idx) => renderSearchResult(m, 'market', idx))}
-                      </>
-                    )}
-                    {searchResults.products.length > 0 && (
-                      <>
-                        {(searchResults.shops.length > 0 || searchResults.markets.length > 0) && (
-                          <View style={styles.searchSectionDivider} />
-                        )}
-                        <View style={styles.searchSectionHeader}>
-                          <Text style={styles.searchSectionTitle}>Products</Text>
-                        </View>
-                        {searchResults.products.map((p, idx) => renderSearchResult(p, 'product', idx))}
-                      </>
-                    )}
-                  </ScrollView>
-                ) : searchQuery.length >= 2 ? (
-                  <View style={styles.searchResultsEmpty}>
-                    <Text style={styles.searchResultsEmptyText}>No results found</Text>
-                  </View>
-                ) : null}
-              </View>
+            {searchFocused && (
+              <SearchSuggestions
+                query={searchQuery}
+                onDone={resetSearch}
+                style={[styles.searchResultsDropdown, { width: expandedWidth }]}
+              />
             )}
           </View>
           {!searchFocused && (
@@ -570,73 +390,6 @@ const styles = StyleSheet.create({
     zIndex: 1001,
     overflow: 'hidden',
   },
-  searchResultsScroll: {
-    maxHeight: 400,
-  },
-  searchResultsLoading: {
-    padding: spacing.lg,
-    alignItems: 'center',
-    gap: spacing.sm,
-  },
-  searchResultsLoadingText: {
-    fontSize: 14,
-    color: colors.mutedForeground,
-  },
-  searchResultsEmpty: {
-    padding: spacing.lg,
-    alignItems: 'center',
-  },
-  searchResultsEmptyText: {
-    fontSize: 14,
-    color: colors.mutedForeground,
-  },
-  searchResultItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: spacing.md,
-    paddingVertical: 12,
-    gap: 12,
-    backgroundColor: colors.card,
-    borderBottomWidth: 1,
-    borderBottomColor: colors.border,
-    minHeight: 56,
-  },
-  searchResultIcon: {
-    flexShrink: 0,
-  },
-  searchResultContent: {
-    flex: 1,
-    minWidth: 0,
-    gap: 2,
-  },
-  searchResultName: {
-    fontSize: 15,
-    fontWeight: '600',
-    color: colors.foreground,
-    lineHeight: 20,
-  },
-  searchResultDesc: {
-    fontSize: 13,
-    color: colors.mutedForeground,
-    lineHeight: 18,
-  },
-  searchSectionHeader: {
-    paddingHorizontal: spacing.md,
-    paddingTop: spacing.md,
-    paddingBottom: spacing.sm,
-    backgroundColor: colors.background,
-  },
-  searchSectionTitle: {
-    fontSize: 13,
-    fontWeight: '700',
-    color: colors.mutedForeground,
-    textTransform: 'uppercase',
-    letterSpacing: 0.5,
-  },
-  searchSectionDivider: {
-    height: 8,
-    backgroundColor: colors.background,
-  },
 
   cardRow: {
     justifyContent: 'space-between',
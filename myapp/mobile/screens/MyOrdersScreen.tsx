@@ -3,6 +3,7 @@ import {
   ActivityIndicator,
   Image,
   KeyboardAvoidingView,
+  Linking,
   Modal,
   Platform,
   Pressable,
@@ -22,7 +23,8 @@ import * as FileSystem from 'expo-file-system/legacy';
 import ScreenHeader from '../components/ScreenHeader';
 import { colors } from '../theme/colors';
 import { radius } from '../theme/spacing';
-import { apiGetAuth, apiPostAuth } from '../api/client';
+import { apiGetAuth, apiPostAuth, apiPutAuth } from '../api/client';
+import { useChat } from '../context/ChatContext';
 
 const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
 const PAD = 16;
@@ -31,21 +33,59 @@ type OrderStatus = 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered'
 
 type OrderItem = {
   productId: string;
+  variantId?: string;
+  variantLabel?: string;
   name: string;
   quantity: number;
   price: number;
   image?: string;
 };
 
+type StatusChange = {
+  status: OrderStatus;
+  at: string;
+  actorRole: 'customer' | 'seller' | 'agent' | 'system';
+  note?: string;
+};
+
+type AgentStep = 'assigned' | 'picked_up' | 'out_for_delivery' | 'delivered';
+
+/** The delivery partner bringing the order, their last shared position and the code to give them at the door */
+type AgentDelivery = {
+  name: string;
+  phone: string;
+  status: AgentStep;
+  otp?: string;
+  lastLocation?: { lat: number; lng: number; at: string };
+};
+
 type Order = {
   _id: string;
-  shopId: { _id: string; name: string } | null;
+  shopId: {
+    _id: string;
+    name: string;
+    returnDays?: number | null;
+    exchangeDays?: number | null;
+    addressLine?: string;
+    city?: string;
+  } | null;
   items: OrderItem[];
   totalAmount: number;
   status: OrderStatus;
-  deliveryAddress: { line1: string; city: string };
+  /** Oldest first; empty for orders placed before the timeline existed */
+  statusHistory?: StatusChange[];
+  paymentStatus?: string;
+  fulfilmentType?: 'delivery' | 'pickup';
+  /** Not set on pickup orders */
+  deliveryAddress?: { line1: string; city: string; geoLocation?: { lat: number; lng: number } };
+  agentDelivery?: AgentDelivery;
+  /** Collection slot and the code to show at the counter (pickup orders only) */
+  pickup?: { slot: { date: string; start: string; end: string }; code?: string; verifiedAt?: string };
   createdAt: string;
+  updatedAt?: string;
   paymentMethod?: string;
+  /** Set when the order was placed together with orders from other shops */
+  checkoutGroupId?: string;
 };
 
 const STATUS_CONFIG: Record<OrderStatus, { label: string; color: string; bg: string; icon: string }> = {
@@ -57,6 +97,139 @@ const STATUS_CONFIG: Record<OrderStatus, { label: string; color: string; bg: str
   cancelled: { label: 'Cancelled', color: '#991B1B', bg: '#FEE2E2', icon: 'close-circle-outline' },
 };
 
+// Timeline wording; the badge above merges pending/confirmed but the timeline shows both
+const TIMELINE_LABELS: Record<OrderStatus, string> = {
+  pending: 'Order placed',
+  confirmed: 'Confirmed by shop',
+  preparing: 'Ready for dispatch',
+  ready: 'Dispatched',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+// Pickup orders are packed, wait at the counter and are collected rather than dispatched
+const PICKUP_STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  preparing: 'Being packed',
+  ready: 'Ready for pickup',
+  delivered: 'Picked up',
+};
+
+function statusConfigFor(order: Order) {
+  const config = STATUS_CONFIG[order.status];
+  const pickupLabel = order.fulfilmentType === 'pickup' ? PICKUP_STATUS_LABELS[order.status] : undefined;
+  return pickupLabel ? { ...config, label: pickupLabel } : config;
+}
+
+function timelineLabel(order: Order, status: OrderStatus): string {
+  return (order.fulfilmentType === 'pickup' && PICKUP_STATUS_LABELS[status]) || TIMELINE_LABELS[status];
+}
+
+/** "2026-10-20", "10:00", "11:00" -> "20 Oct, 10:00 - 11:00" */
+function formatPickupSlot(slot: { date: string; start: string; end: string }): string {
+  const [, month, day] = slot.date.split('-').map(Number);
+  const monthName = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][month - 1];
+  return `${day} ${monthName}, ${slot.start} - ${slot.end}`;
+}
+
+const AGENT_STEP_LABELS: Record<AgentStep, string> = {
+  assigned: 'Delivery partner assigned',
+  picked_up: 'Picked up from the shop',
+  out_for_delivery: 'On the way to you',
+  delivered: 'Delivered',
+};
+
+/** Straight-line distance, enough for "1.2 km away" */
+function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function trackingDetail(order: Order): string | null {
+  const location = order.agentDelivery?.lastLocation;
+  if (!location) return null;
+  const minutes = Math.floor((Date.now() - new Date(location.at).getTime()) / 60000);
+  const updated = minutes < 1 ? 'Updated just now' : `Updated ${minutes} min ago`;
+  const pin = order.deliveryAddress?.geoLocation;
+  if (!pin) return updated;
+  const km = distanceKm(location, pin);
+  return `${km < 1 ? `${Math.max(100, Math.round((km * 1000) / 100) * 100)} m` : `${km.toFixed(1)} km`} away · ${updated}`;
+}
+
+const STATUS_FLOW: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'delivered'];
+
+type TimelineStep = { status: OrderStatus; at?: string; label: string; done: boolean };
+
+function buildTimeline(order: Order): TimelineStep[] {
+  const history = order.statusHistory ?? [];
+  const placed = history.find((h) => h.status === 'pending');
+  const steps: TimelineStep[] = [
+    { status: 'pending', at: placed?.at ?? order.createdAt, label: timelineLabel(order, 'pending'), done: true },
+  ];
+  for (const change of history) {
+    if (change.status === 'pending') continue;
+    const label =
+      change.status === 'cancelled'
+        ? change.actorRole === 'customer' ? 'Cancelled by you' : 'Cancelled by shop'
+        : timelineLabel(order, change.status);
+    steps.push({ status: change.status, at: change.at, label, done: true });
+  }
+  // Orders from before the timeline have no history; show the current status without a time
+  if (steps[steps.length - 1].status !== order.status) {
+    steps.push({ status: order.status, label: timelineLabel(order, order.status), done: true });
+  }
+  if (order.status !== 'cancelled') {
+    for (const status of STATUS_FLOW.slice(STATUS_FLOW.indexOf(order.status) + 1)) {
+      steps.push({ status, label: timelineLabel(order, status), done: false });
+    }
+  }
+  return steps;
+}
+
+type ReturnType = 'return' | 'exchange';
+
+type ReturnRequest = {
+  _id: string;
+  orderId: string;
+  type: ReturnType;
+  status: 'requested' | 'approved' | 'rejected' | 'cancelled' | 'received' | 'refunded' | 'replaced';
+  items: { productId: string; variantId?: string; name: string; quantity: number }[];
+  sellerNote?: string;
+  refundAmount?: number;
+  createdAt: string;
+};
+
+const RETURN_STATUS_LABELS: Record<ReturnRequest['status'], string> = {
+  requested: 'Waiting for the shop',
+  approved: 'Approved – hand the item back',
+  rejected: 'Declined',
+  cancelled: 'Withdrawn',
+  received: 'Item received',
+  refunded: 'Refunded',
+  replaced: 'Replacement sent',
+};
+
+const RETURN_REASONS = ['Damaged or defective', 'Wrong item received', 'Size or fit issue', 'Not as described', 'Changed my mind'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Last moment a return/exchange can be opened, or null if the shop doesn't offer it */
+function returnDeadline(order: Order, type: ReturnType): Date | null {
+  if (order.status !== 'delivered') return null;
+  const days = type === 'return' ? order.shopId?.returnDays : order.shopId?.exchangeDays;
+  if (!days || days <= 0) return null;
+  const delivered = order.statusHistory?.find((h) => h.status === 'delivered')?.at ?? order.updatedAt;
+  if (!delivered) return null;
+  const deadline = new Date(new Date(delivered).getTime() + days * DAY_MS);
+  return deadline > new Date() ? deadline : null;
+}
+
+function orderLineKey(item: { productId: string; variantId?: string }) {
+  return item.variantId ? `${item.productId}:${item.variantId}` : item.productId;
+}
+
 const TABS = [
   { key: 'all', label: 'All' },
   { key: 'active', label: 'Active' },
@@ -69,7 +242,10 @@ type Props = {
 
 export default function MyOrdersScreen({ onBack }: Props) {
   const insets = useSafeAreaInsets();
+  const { socket } = useChat();
   const [orders, setOrders] = useState<Order[]>([]);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [openingInvoiceId, setOpeningInvoiceId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState('all');
@@ -82,11 +258,23 @@ export default function MyOrdersScreen({ onBack }: Props) {
   const [selectedShopId, setSelectedShopId] = useState<string | null>(null);
   const [selectedShopName, setSelectedShopName] = useState<string | null>(null);
   const [reviewedShopIds, setReviewedShopIds] = useState<string[]>([]);
+  const [returnRequests, setReturnRequests] = useState<ReturnRequest[]>([]);
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+  const [returnType, setReturnType] = useState<ReturnType>('return');
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnReason, setReturnReason] = useState('');
+  const [returnDetails, setReturnDetails] = useState('');
+  const [returnImages, setReturnImages] = useState<string[]>([]);
+  const [submittingReturn, setSubmittingReturn] = useState(false);
 
   const fetchOrders = useCallback(async () => {
     try {
-      const response = await apiGetAuth<{ orders: Order[] }>('/orders/my');
+      const [response, returnsResponse] = await Promise.all([
+        apiGetAuth<{ orders: Order[] }>('/orders/my'),
+        apiGetAuth<{ returnRequests: ReturnRequest[] }>('/me/returns').catch(() => ({ returnRequests: [] })),
+      ]);
       setOrders(response.orders || []);
+      setReturnRequests(returnsResponse.returnRequests || []);
     } catch (error) {
       console.error('[MyOrders] Failed to fetch:', error);
     } finally {
@@ -104,6 +292,164 @@ export default function MyOrdersScreen({ onBack }: Props) {
     fetchOrders();
   }, [fetchOrders]);
 
+  // Real-time: the server emits order_status_changed whenever the shop moves an order along
+  useEffect(() => {
+    if (!socket) return;
+    const onStatusChanged = (payload: { orderId: string; status: OrderStatus; paymentStatus?: string; statusHistory: StatusChange[] }) => {
+      setOrders((prev) =>
+        prev.map((o) =>
+          o._id === payload.orderId
+            ? { ...o, status: payload.status, paymentStatus: payload.paymentStatus ?? o.paymentStatus, statusHistory: payload.statusHistory }
+            : o
+        )
+      );
+    };
+    // The partner's steps and position; the delivery code only ever comes from the orders fetch
+    const onDeliveryUpdated = (payload: { orderId: string; agentDelivery?: AgentDelivery }) => {
+      setOrders((prev) =>
+        prev.map((o) =>
+          o._id === payload.orderId
+            ? {
+                ...o,
+                agentDelivery: payload.agentDelivery && {
+                  ...payload.agentDelivery,
+                  otp: o.agentDelivery?.otp,
+                  lastLocation: payload.agentDelivery.lastLocation ?? o.agentDelivery?.lastLocation,
+                },
+              }
+            : o
+        )
+      );
+      // A new partner means a new code may have been issued
+      if (payload.agentDelivery?.status === 'assigned') fetchOrders();
+    };
+    const onLocation = (payload: { orderId: string; lat: number; lng: number; at: string }) => {
+      setOrders((prev) =>
+        prev.map((o) =>
+          o._id === payload.orderId && o.agentDelivery
+            ? { ...o, agentDelivery: { ...o.agentDelivery, lastLocation: { lat: payload.lat, lng: payload.lng, at: payload.at } } }
+            : o
+        )
+      );
+    };
+    socket.on('order_status_changed', onStatusChanged);
+    socket.on('order_delivery_updated', onDeliveryUpdated);
+    socket.on('order_location', onLocation);
+    return () => {
+      socket.off('order_status_changed', onStatusChanged);
+      socket.off('order_delivery_updated', onDeliveryUpdated);
+      socket.off('order_location', onLocation);
+    };
+  }, [socket, fetchOrders]);
+
+  function toggleTimeline(orderId: string) {
+    setExpandedOrderId((prev) => (prev === orderId ? null : orderId));
+  }
+
+  async function handleOpenInvoice(order: Order) {
+    setOpeningInvoiceId(order._id);
+    try {
+      const { invoice } = await apiGetAuth<{ invoice: { invoiceNumber: string; pdfUrl?: string } }>(`/orders/${order._id}/invoice`);
+      if (invoice.pdfUrl) {
+        await Linking.openURL(invoice.pdfUrl);
+      } else {
+        Alert.alert('Invoice', `Invoice ${invoice.invoiceNumber} is being prepared. Please try again in a moment.`);
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message ?? 'Could not open invoice');
+    } finally {
+      setOpeningInvoiceId(null);
+    }
+  }
+
+  function openReturnModal(order: Order) {
+    setReturnOrder(order);
+    setReturnType(returnDeadline(order, 'return') ? 'return' : 'exchange');
+    setReturnQuantities(order.items.length === 1 ? { [orderLineKey(order.items[0])]: order.items[0].quantity } : {});
+    setReturnReason('');
+    setReturnDetails('');
+    setReturnImages([]);
+  }
+
+  function changeReturnQuantity(item: OrderItem, delta: number) {
+    const key = orderLineKey(item);
+    setReturnQuantities((prev) => ({ ...prev, [key]: Math.max(0, Math.min(item.quantity, (prev[key] ?? 0) + delta)) }));
+  }
+
+  async function handlePickReturnImage() {
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Permission required', 'We need access to your photos to show the shop the item.');
+        return;
+      }
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        quality: 0.7,
+      });
+      if (result.canceled || !result.assets?.[0]?.uri) return;
+      const base64 = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      setReturnImages((prev) => [...prev, `data:image/jpeg;base64,${base64}`]);
+    } catch (error) {
+      console.error('[MyOrders] Return image pick error', error);
+      Alert.alert('Error', 'Failed to pick image.');
+    }
+  }
+
+  async function handleSubmitReturn() {
+    if (!returnOrder) return;
+    const items = returnOrder.items
+      .filter((item) => (returnQuantities[orderLineKey(item)] ?? 0) > 0)
+      .map((item) => ({ productId: item.productId, variantId: item.variantId, quantity: returnQuantities[orderLineKey(item)] }));
+    if (items.length === 0) {
+      Alert.alert('Choose items', 'Select the items you want to send back.');
+      return;
+    }
+    if (!returnReason) {
+      Alert.alert('Reason required', 'Please choose a reason.');
+      return;
+    }
+
+    try {
+      setSubmittingReturn(true);
+      const response = await apiPostAuth<{ returnRequest: ReturnRequest }>(`/orders/${returnOrder._id}/returns`, {
+        type: returnType,
+        items,
+        reason: returnReason,
+        details: returnDetails.trim(),
+        imagesBase64: returnImages.map((img) => img.replace(/^data:image\/\w+;base64,/, '')),
+      });
+      setReturnRequests((prev) => [response.returnRequest, ...prev]);
+      setReturnOrder(null);
+      Alert.alert('Request sent', 'The shop will review your request shortly.');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Could not send your request. Please try again.');
+    } finally {
+      setSubmittingReturn(false);
+    }
+  }
+
+  function handleWithdrawReturn(request: ReturnRequest) {
+    Alert.alert('Withdraw request?', `The shop won't process this ${request.type}.`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Withdraw',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const response = await apiPutAuth<{ returnRequest: ReturnRequest }>(`/returns/${request._id}/cancel`);
+            setReturnRequests((prev) => prev.map((r) => (r._id === request._id ? response.returnRequest : r)));
+          } catch (error: any) {
+            Alert.alert('Error', error?.message || 'Could not withdraw the request.');
+          }
+        },
+      },
+    ]);
+  }
+
   function openReviewModalForOrder(order: Order) {
     if (order.status !== 'delivered') return;
     if (!order.shopId?._id) {
@@ -205,6 +551,16 @@ export default function MyOrdersScreen({ onBack }: Props) {
     });
   }
 
+  // Combined receipt for multi-shop checkouts: every order of the group, paid together
+  const checkoutGroups = orders.reduce<Record<string, { count: number; total: number }>>((acc, order) => {
+    if (!order.checkoutGroupId) return acc;
+    const group = acc[order.checkoutGroupId] || { count: 0, total: 0 };
+    group.count += 1;
+    group.total += order.totalAmount;
+    acc[order.checkoutGroupId] = group;
+    return acc;
+  }, {});
+
   const filteredOrders = orders.filter(order => {
     if (activeTab === 'all') return true;
     if (activeTab === 'active') return ['pending', 'confirmed', 'preparing', 'ready'].includes(order.status);
@@ -255,107 +611,398 @@ export default function MyOrdersScreen({ onBack }: Props) {
             <Text style={styles.emptyText}>Your orders will appear here</Text>
           </View>
         ) : (
-          filteredOrders.map((order) => {
-            const statusConfig = STATUS_CONFIG[order.status];
+          filteredOrders.map((order, index) => {
+            const statusConfig = statusConfigFor(order);
+            const group = order.checkoutGroupId ? checkoutGroups[order.checkoutGroupId] : undefined;
+            const startsGroup =
+              !!group && group.count > 1 && filteredOrders[index - 1]?.checkoutGroupId !== order.checkoutGroupId;
 
             return (
-              <View key={order._id} style={[styles.orderCard, SHADOW]}>
-                <View style={styles.orderHeader}>
-                  <View>
-                    <Text style={styles.shopName}>{order.shopId?.name || 'Shop'}</Text>
-                    <Text style={styles.orderDate}>{formatDate(order.createdAt)}</Text>
-                  </View>
-                  <View style={[styles.statusBadge, { backgroundColor: statusConfig.bg }]}>
-                    <Ionicons name={statusConfig.icon as any} size={14} color={statusConfig.color} />
-                    <Text style={[styles.statusText, { color: statusConfig.color }]}>
-                      {statusConfig.label}
+              <React.Fragment key={order._id}>
+                {startsGroup && (
+                  <View style={styles.groupHeader}>
+                    <Ionicons name="layers-outline" size={14} color={colors.mutedForeground} />
+                    <Text style={styles.groupHeaderText}>
+                      {group!.count} orders placed together · Paid ₹{group!.total.toLocaleString('en-IN')}
                     </Text>
                   </View>
-                </View>
+                )}
+                <View style={[styles.orderCard, SHADOW, group && group.count > 1 && styles.orderCardGrouped]}>
+                  <View style={styles.orderHeader}>
+                    <View>
+                      <Text style={styles.shopName}>{order.shopId?.name || 'Shop'}</Text>
+                      <Text style={styles.orderDate}>{formatDate(order.createdAt)}</Text>
+                    </View>
+                    <View style={[styles.statusBadge, { backgroundColor: statusConfig.bg }]}>
+                      <Ionicons name={statusConfig.icon as any} size={14} color={statusConfig.color} />
+                      <Text style={[styles.statusText, { color: statusConfig.color }]}>
+                        {statusConfig.label}
+                      </Text>
+                    </View>
+                  </View>
 
-                <View style={styles.itemsList}>
-                  {order.items.slice(0, 2).map((item, idx) => {
-                    const imageUri = item.image || (item as any).imageUrl || '';
-                    return (
-                      <View key={idx} style={styles.itemRow}>
-                        <View style={styles.itemImageWrap}>
-                          {imageUri ? (
-                            <Image source={{ uri: imageUri }} style={styles.itemImage} />
-                          ) : (
-                            <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
-                              <Ionicons name="image-outline" size={18} color={colors.mutedForeground} />
-                            </View>
-                          )}
-                        </View>
-                        <Text style={styles.itemText} numberOfLines={1}>
-                          {item.name} × {item.quantity}
+                  {order.fulfilmentType === 'pickup' && order.pickup && !['cancelled', 'delivered'].includes(order.status) && (
+                    <View style={styles.pickupCard}>
+                      <View style={styles.pickupInfo}>
+                        <Text style={styles.pickupLabel}>
+                          {order.status === 'ready' ? 'Ready to collect' : 'Pickup'} · {formatPickupSlot(order.pickup.slot)}
                         </Text>
-                        <Text style={styles.itemPrice}>₹{item.price * item.quantity}</Text>
+                        {order.shopId?.addressLine ? (
+                          <Text style={styles.pickupAddress} numberOfLines={2}>
+                            {order.shopId.addressLine}
+                            {order.shopId.city ? `, ${order.shopId.city}` : ''}
+                          </Text>
+                        ) : null}
                       </View>
-                    );
-                  })}
-                  {order.items.length > 2 && (
-                    <Text style={styles.moreItems}>+{order.items.length - 2} more items</Text>
+                      {order.pickup.code ? (
+                        <View style={styles.pickupCodeBox}>
+                          <Text style={styles.pickupCodeLabel}>Pickup code</Text>
+                          <Text style={styles.pickupCode}>{order.pickup.code}</Text>
+                        </View>
+                      ) : null}
+                    </View>
                   )}
-                </View>
 
-                <View style={styles.orderFooter}>
-                  <View>
-                    <Text style={styles.totalLabel}>Total Amount</Text>
-                    <Text style={styles.totalValue}>₹{order.totalAmount.toLocaleString('en-IN')}</Text>
-                  </View>
-                  {!['cancelled', 'delivered'].includes(order.status) && (
-                    <Pressable
-                      style={({ pressed }) => [styles.trackOrderBtn, pressed && styles.pressed]}
-                      onPress={() => {
-                        // TODO: Link to Shiprocket tracking when trackingUrl/orderId is available
-                        // e.g. Linking.openURL(order.trackingUrl) or open in-app tracking
-                      }}
-                    >
-                      <Ionicons name="navigate-outline" size={14} color={colors.primary} />
-                      <Text style={styles.trackOrderBtnText}>Track order</Text>
-                    </Pressable>
+                  {order.agentDelivery && !['cancelled', 'delivered'].includes(order.status) && (
+                    <View style={styles.pickupCard}>
+                      <View style={styles.pickupInfo}>
+                        <Text style={styles.pickupLabel}>{AGENT_STEP_LABELS[order.agentDelivery.status]}</Text>
+                        <Text style={styles.pickupAddress}>{order.agentDelivery.name} is your delivery partner</Text>
+                        {trackingDetail(order) ? <Text style={styles.pickupAddress}>{trackingDetail(order)}</Text> : null}
+                        <View style={styles.trackingLinks}>
+                          <Pressable onPress={() => Linking.openURL(`tel:${order.agentDelivery!.phone}`)} hitSlop={6}>
+                            <Text style={styles.trackingLink}>Call</Text>
+                          </Pressable>
+                          {order.agentDelivery.lastLocation ? (
+                            <Pressable
+                              onPress={() =>
+                                Linking.openURL(
+                                  `https://www.google.com/maps/search/?api=1&query=${order.agentDelivery!.lastLocation!.lat},${order.agentDelivery!.lastLocation!.lng}`
+                                )
+                              }
+                              hitSlop={6}
+                            >
+                              <Text style={styles.trackingLink}>View on map</Text>
+                            </Pressable>
+                          ) : null}
+                        </View>
+                      </View>
+                      {order.agentDelivery.otp ? (
+                        <View style={styles.pickupCodeBox}>
+                          <Text style={styles.pickupCodeLabel}>Delivery code</Text>
+                          <Text style={styles.pickupCode}>{order.agentDelivery.otp}</Text>
+                        </View>
+                      ) : null}
+                    </View>
                   )}
-                  {order.status === 'delivered' && (
-                    (() => {
-                      const shopId = order.shopId?._id;
-                      const hasReviewed = shopId ? reviewedShopIds.includes(shopId) : false;
-                      return hasReviewed ? (
-                        <View style={styles.reviewInfoWrap}>
-                          <Ionicons name="checkmark-circle" size={16} color={colors.success} />
-                          <Text style={styles.reviewInfoText}>Thanks for reviewing</Text>
+
+                  <View style={styles.itemsList}>
+                    {order.items.slice(0, 2).map((item, idx) => {
+                      const imageUri = item.image || (item as any).imageUrl || '';
+                      return (
+                        <View key={idx} style={styles.itemRow}>
+                          <View style={styles.itemImageWrap}>
+                            {imageUri ? (
+                              <Image source={{ uri: imageUri }} style={styles.itemImage} />
+                            ) : (
+                              <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
+                                <Ionicons name="image-outline" size={18} color={colors.mutedForeground} />
+                              </View>
+                            )}
+                          </View>
+                          <Text style={styles.itemText} numberOfLines={1}>
+                            {item.name}{item.variantLabel ? ` (${item.variantLabel})` : ''} × {item.quantity}
+                          </Text>
+                          <Text style={styles.itemPrice}>₹{item.price * item.quantity}</Text>
+                        </View>
+                      );
+                    })}
+                    {order.items.length > 2 && (
+                      <Text style={styles.moreItems}>+{order.items.length - 2} more items</Text>
+                    )}
+                  </View>
+
+                  <View style={styles.orderFooter}>
+                    <View>
+                      <Text style={styles.totalLabel}>Total Amount</Text>
+                      <Text style={styles.totalValue}>₹{order.totalAmount.toLocaleString('en-IN')}</Text>
+                    </View>
+                    {!['cancelled', 'delivered'].includes(order.status) && (
+                      <Pressable
+                        style={({ pressed }) => [styles.trackOrderBtn, pressed && styles.pressed]}
+                        onPress={() => toggleTimeline(order._id)}
+                      >
+                        <Ionicons name="navigate-outline" size={14} color={colors.primary} />
+                        <Text style={styles.trackOrderBtnText}>
+                          {expandedOrderId === order._id ? 'Hide tracking' : 'Track order'}
+                        </Text>
+                      </Pressable>
+                    )}
+                    {order.status === 'delivered' && (
+                      (() => {
+                        const shopId = order.shopId?._id;
+                        const hasReviewed = shopId ? reviewedShopIds.includes(shopId) : false;
+                        return hasReviewed ? (
+                          <View style={styles.reviewInfoWrap}>
+                            <Ionicons name="checkmark-circle" size={16} color={colors.success} />
+                            <Text style={styles.reviewInfoText}>Thanks for reviewing</Text>
+                            <Pressable
+                              style={({ pressed }) => [styles.reviewBtnInline, pressed && styles.pressed]}
+                              onPress={() => openReviewModalForOrder(order)}
+                            >
+                              <Text style={styles.reviewBtnInlineText}>Review again</Text>
+                            </Pressable>
+                          </View>
+                        ) : (
                           <Pressable
-                            style={({ pressed }) => [styles.reviewBtnInline, pressed && styles.pressed]}
+                            style={({ pressed }) => [styles.reviewBtn, pressed && styles.pressed]}
                             onPress={() => openReviewModalForOrder(order)}
                           >
-                            <Text style={styles.reviewBtnInlineText}>Review again</Text>
+                            <Ionicons name="create-outline" size={14} color={colors.primary} />
+                            <Text style={styles.reviewBtnText}>Write a review</Text>
                           </Pressable>
-                        </View>
-                      ) : (
+                        );
+                      })()
+                    )}
+                  </View>
+
+                  {(() => {
+                    const requests = returnRequests.filter((r) => r.orderId === order._id);
+                    const canRequest = !!(returnDeadline(order, 'return') || returnDeadline(order, 'exchange'));
+                    if (requests.length === 0 && !canRequest) return null;
+                    return (
+                      <View style={styles.returnsBlock}>
+                        {requests.map((request) => (
+                          <View key={request._id} style={styles.returnRow}>
+                            <Ionicons
+                              name={request.type === 'return' ? 'arrow-undo-outline' : 'repeat-outline'}
+                              size={14}
+                              color={colors.mutedForeground}
+                            />
+                            <Text style={styles.returnText} numberOfLines={2}>
+                              {request.type === 'return' ? 'Return' : 'Exchange'}: {RETURN_STATUS_LABELS[request.status]}
+                              {request.status === 'refunded' && request.refundAmount
+                                ? ` · ₹${request.refundAmount.toLocaleString('en-IN')} to wallet`
+                                : ''}
+                              {request.status === 'rejected' && request.sellerNote ? ` · ${request.sellerNote}` : ''}
+                            </Text>
+                            {request.status === 'requested' && (
+                              <Pressable onPress={() => handleWithdrawReturn(request)} hitSlop={8}>
+                                <Text style={styles.returnWithdraw}>Withdraw</Text>
+                              </Pressable>
+                            )}
+                          </View>
+                        ))}
+                        {canRequest && (
+                          <Pressable
+                            style={({ pressed }) => [styles.returnBtn, pressed && styles.pressed]}
+                            onPress={() => openReturnModal(order)}
+                          >
+                            <Text style={styles.returnBtnText}>Return or exchange items</Text>
+                          </Pressable>
+                        )}
+                      </View>
+                    );
+                  })()}
+
+                  <View style={styles.addressRow}>
+                    <Ionicons
+                      name={order.fulfilmentType === 'pickup' ? 'storefront-outline' : 'location-outline'}
+                      size={14}
+                      color={colors.mutedForeground}
+                    />
+                    <Text style={styles.addressText}>
+                      {order.fulfilmentType === 'pickup'
+                        ? `Store pickup${order.shopId?.city ? ` · ${order.shopId.city}` : ''}`
+                        : `${order.deliveryAddress?.line1}, ${order.deliveryAddress?.city}`}
+                    </Text>
+                    {order.status !== 'cancelled' &&
+                      (order.status === 'delivered' || order.paymentStatus === 'paid' || order.paymentStatus === 'refunded') && (
                         <Pressable
-                          style={({ pressed }) => [styles.reviewBtn, pressed && styles.pressed]}
-                          onPress={() => openReviewModalForOrder(order)}
+                          onPress={() => handleOpenInvoice(order)}
+                          disabled={openingInvoiceId === order._id}
+                          hitSlop={8}
+                          style={styles.invoiceLink}
                         >
-                          <Ionicons name="create-outline" size={14} color={colors.primary} />
-                          <Text style={styles.reviewBtnText}>Write a review</Text>
+                          {openingInvoiceId === order._id ? (
+                            <ActivityIndicator size="small" color={colors.primary} />
+                          ) : (
+                            <>
+                              <Ionicons name="document-text-outline" size={14} color={colors.primary} />
+                              <Text style={styles.timelineToggleText}>Invoice</Text>
+                            </>
+                          )}
                         </Pressable>
-                      );
-                    })()
-                  )}
-                </View>
+                      )}
+                    {['cancelled', 'delivered'].includes(order.status) && (
+                      <Pressable onPress={() => toggleTimeline(order._id)} hitSlop={8} style={styles.timelineToggle}>
+                        <Text style={styles.timelineToggleText}>Timeline</Text>
+                        <Ionicons
+                          name={expandedOrderId === order._id ? 'chevron-up' : 'chevron-down'}
+                          size={14}
+                          color={colors.primary}
+                        />
+                      </Pressable>
+                    )}
+                  </View>
 
-                <View style={styles.addressRow}>
-                  <Ionicons name="location-outline" size={14} color={colors.mutedForeground} />
-                  <Text style={styles.addressText}>
-                    {order.deliveryAddress?.line1}, {order.deliveryAddress?.city}
-                  </Text>
+                  {expandedOrderId === order._id && (
+                    <View style={styles.timeline}>
+                      {buildTimeline(order).map((step, stepIndex, steps) => (
+                        <View key={`${step.status}-${stepIndex}`} style={styles.timelineRow}>
+                          <View style={styles.timelineRail}>
+                            <View
+                              style={[
+                                styles.timelineDot,
+                                step.done && styles.timelineDotDone,
+                                step.status === 'cancelled' && styles.timelineDotCancelled,
+                              ]}
+                            />
+                            {stepIndex < steps.length - 1 && (
+                              <View style={[styles.timelineLine, steps[stepIndex + 1].done && styles.timelineLineDone]} />
+                            )}
+                          </View>
+                          <View style={styles.timelineBody}>
+                            <Text style={[styles.timelineLabel, !step.done && styles.timelineLabelPending]}>{step.label}</Text>
+                            {step.at ? <Text style={styles.timelineTime}>{formatDate(step.at)}</Text> : null}
+                          </View>
+                        </View>
+                      ))}
+                    </View>
+                  )}
                 </View>
-              </View>
+              </React.Fragment>
             );
           })
         )}
       </ScrollView>
 
+      {/* Return / exchange request */}
+      <Modal
+        visible={returnOrder != null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setReturnOrder(null)}
+      >
+        <KeyboardAvoidingView style={styles.reviewModalOverlay} behavior={Platform.OS === 'ios' ? 'padding' : 'height'} keyboardVerticalOffset={0}>
+          <View style={styles.reviewModalContent}>
+            <View style={styles.reviewModalHeader}>
+              <Text style={styles.reviewModalTitle}>Return or exchange</Text>
+              <Pressable onPress={() => setReturnOrder(null)} hitSlop={8}>
+                <Ionicons name="close" size={22} color={colors.foreground} />
+              </Pressable>
+            </View>
+
+            {returnOrder && (
+              <ScrollView style={styles.returnModalScroll} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                <View style={styles.returnTypeRow}>
+                  {(['return', 'exchange'] as ReturnType[]).map((type) => {
+                    const deadline = returnDeadline(returnOrder, type);
+                    const selected = returnType === type;
+                    return (
+                      <Pressable
+                        key={type}
+                        disabled={!deadline}
+                        onPress={() => setReturnType(type)}
+                        style={[styles.returnTypeOption, selected && styles.returnTypeOptionActive, !deadline && styles.returnTypeOptionDisabled]}
+                      >
+                        <Text style={[styles.returnTypeLabel, selected && styles.returnTypeLabelActive]}>
+                          {type === 'return' ? 'Return for refund' : 'Exchange'}
+                        </Text>
+                        <Text style={styles.returnTypeHint}>
+                          {deadline
+                            ? `Until ${deadline.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`
+                            : 'Not available'}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <Text style={styles.reviewLabel}>Items</Text>
+                {returnOrder.items.map((item) => {
+                  const qty = returnQuantities[orderLineKey(item)] ?? 0;
+                  return (
+                    <View key={orderLineKey(item)} style={styles.returnItemRow}>
+                      <Text style={styles.returnItemName} numberOfLines={2}>
+                        {item.name}{item.variantLabel ? ` (${item.variantLabel})` : ''}
+                      </Text>
+                      <View style={styles.returnQtyControl}>
+                        <Pressable onPress={() => changeReturnQuantity(item, -1)} hitSlop={6}>
+                          <Ionicons name="remove-circle-outline" size={22} color={qty > 0 ? colors.primary : colors.border} />
+                        </Pressable>
+                        <Text style={styles.returnQtyText}>{qty}/{item.quantity}</Text>
+                        <Pressable onPress={() => changeReturnQuantity(item, 1)} hitSlop={6}>
+                          <Ionicons name="add-circle-outline" size={22} color={qty < item.quantity ? colors.primary : colors.border} />
+                        </Pressable>
+                      </View>
+                    </View>
+                  );
+                })}
+
+                <Text style={styles.reviewLabel}>Reason</Text>
+                <View style={styles.returnReasons}>
+                  {RETURN_REASONS.map((reason) => (
+                    <Pressable
+                      key={reason}
+                      onPress={() => setReturnReason(reason)}
+                      style={[styles.returnReasonChip, returnReason === reason && styles.returnReasonChipActive]}
+                    >
+                      <Text style={[styles.returnReasonText, returnReason === reason && styles.returnReasonTextActive]}>{reason}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+
+                <Text style={styles.reviewLabel}>Details (optional)</Text>
+                <TextInput
+                  style={styles.reviewInput}
+                  value={returnDetails}
+                  onChangeText={setReturnDetails}
+                  placeholder="Tell the shop what went wrong..."
+                  placeholderTextColor={colors.mutedForeground}
+                  multiline
+                  numberOfLines={3}
+                />
+
+                <Text style={styles.reviewLabel}>Photos (optional)</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.reviewImagesRow}>
+                  {returnImages.map((img, index) => (
+                    <View key={index} style={styles.reviewThumbWrap}>
+                      <Image source={{ uri: img }} style={styles.reviewThumb} />
+                      <Pressable
+                        style={styles.removeReviewImageBtn}
+                        onPress={() => setReturnImages((prev) => prev.filter((_, i) => i !== index))}
+                      >
+                        <Ionicons name="close" size={14} color={colors.card} />
+                      </Pressable>
+                    </View>
+                  ))}
+                  {returnImages.length < 5 && (
+                    <Pressable onPress={handlePickReturnImage} style={styles.addReviewImageBtn}>
+                      <Ionicons name="add" size={22} color={colors.primary} />
+                    </Pressable>
+                  )}
+                </ScrollView>
+              </ScrollView>
+            )}
+
+            <Pressable
+              onPress={handleSubmitReturn}
+              disabled={submittingReturn}
+              style={({ pressed }) => [
+                styles.submitReviewBtn,
+                pressed && styles.pressed,
+                submittingReturn && styles.submitReviewBtnDisabled,
+              ]}
+            >
+              <Text style={styles.submitReviewText}>
+                {submittingReturn ? 'Sending...' : returnType === 'return' ? 'Request return' : 'Request exchange'}
+              </Text>
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
       {/* Write Review Modal (from orders) */}
       <Modal
         visible={reviewModalVisible}
@@ -491,11 +1138,31 @@ const styles = StyleSheet.create({
   emptyTitle: { fontSize: 24, fontWeight: '700', color: colors.foreground },
   emptyText: { fontSize: 17, color: colors.mutedForeground, textAlign: 'center', paddingHorizontal: 24 },
   orderCard: { backgroundColor: colors.card, borderRadius: radius.lg, padding: 8, marginBottom: 8 },
+  orderCardGrouped: { borderLeftWidth: 3, borderLeftColor: colors.primary },
+  groupHeader: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 4, marginBottom: 6 },
+  groupHeaderText: { fontSize: 12, fontWeight: '600', color: colors.mutedForeground },
   orderHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 6 },
   shopName: { fontSize: 15, fontWeight: '700', color: colors.foreground },
   orderDate: { fontSize: 11, color: colors.mutedForeground, marginTop: 1 },
   statusBadge: { flexDirection: 'row', alignItems: 'center', gap: 3, paddingHorizontal: 8, paddingVertical: 3, borderRadius: radius.xxl },
   statusText: { fontSize: 11, fontWeight: '600' },
+  pickupCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.secondary,
+    borderRadius: radius.md,
+    padding: 10,
+    marginBottom: 8,
+  },
+  pickupInfo: { flex: 1, minWidth: 0 },
+  pickupLabel: { fontSize: 13, fontWeight: '600', color: colors.foreground },
+  pickupAddress: { fontSize: 12, color: colors.mutedForeground, marginTop: 2 },
+  pickupCodeBox: { alignItems: 'center' },
+  pickupCodeLabel: { fontSize: 10, color: colors.mutedForeground, textTransform: 'uppercase' },
+  pickupCode: { fontSize: 20, fontWeight: '700', color: colors.primary, letterSpacing: 2 },
+  trackingLinks: { flexDirection: 'row', gap: 16, marginTop: 6 },
+  trackingLink: { fontSize: 12, fontWeight: '600', color: colors.primary },
   itemsList: { borderTopWidth: 1, borderTopColor: colors.border, paddingTop: 6, marginBottom: 6 },
   itemRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 4 },
   itemImageWrap: { marginRight: 8 },
@@ -568,8 +1235,58 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.primary,
   },
+  returnsBlock: { borderTopWidth: 1, borderTopColor: colors.border, marginTop: 6, paddingTop: 6, gap: 4 },
+  returnRow: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  returnText: { flex: 1, fontSize: 12, color: colors.foreground },
+  returnWithdraw: { fontSize: 12, fontWeight: '600', color: colors.destructive },
+  returnBtn: { alignSelf: 'flex-start', paddingVertical: 2 },
+  returnBtnText: { fontSize: 12, fontWeight: '600', color: colors.primary },
+  returnModalScroll: { maxHeight: 480 },
+  returnTypeRow: { flexDirection: 'row', gap: 8, marginBottom: 4 },
+  returnTypeOption: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.lg,
+    padding: 10,
+  },
+  returnTypeOptionActive: { borderColor: colors.primary, backgroundColor: colors.secondary },
+  returnTypeOptionDisabled: { opacity: 0.5 },
+  returnTypeLabel: { fontSize: 14, fontWeight: '600', color: colors.foreground },
+  returnTypeLabelActive: { color: colors.primary },
+  returnTypeHint: { fontSize: 11, color: colors.mutedForeground, marginTop: 2 },
+  returnItemRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 6, gap: 8 },
+  returnItemName: { flex: 1, fontSize: 13, color: colors.foreground },
+  returnQtyControl: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  returnQtyText: { fontSize: 13, fontWeight: '600', color: colors.foreground, minWidth: 32, textAlign: 'center' },
+  returnReasons: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  returnReasonChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: radius.xxl,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  returnReasonChipActive: { borderColor: colors.primary, backgroundColor: colors.secondary },
+  returnReasonText: { fontSize: 12, color: colors.foreground },
+  returnReasonTextActive: { color: colors.primary, fontWeight: '600' },
   addressRow: { flexDirection: 'row', alignItems: 'center', gap: 3, marginTop: 6 },
   addressText: { fontSize: 12, color: colors.mutedForeground, flex: 1 },
+  timelineToggle: { flexDirection: 'row', alignItems: 'center', gap: 2 },
+  invoiceLink: { flexDirection: 'row', alignItems: 'center', gap: 2, marginRight: 10 },
+  timelineToggleText: { fontSize: 12, fontWeight: '600', color: colors.primary },
+  timeline: { borderTopWidth: 1, borderTopColor: colors.border, marginTop: 6, paddingTop: 8 },
+  timelineRow: { flexDirection: 'row', minHeight: 36 },
+  timelineRail: { width: 16, alignItems: 'center' },
+  timelineDot: { width: 10, height: 10, borderRadius: 5, borderWidth: 2, borderColor: colors.border, backgroundColor: colors.card, marginTop: 3 },
+  timelineDotDone: { borderColor: colors.primary, backgroundColor: colors.primary },
+  timelineDotCancelled: { borderColor: colors.destructive, backgroundColor: colors.destructive },
+  timelineLine: { flex: 1, width: 2, backgroundColor: colors.border, marginVertical: 2 },
+  timelineLineDone: { backgroundColor: colors.primary },
+  timelineBody: { flex: 1, paddingLeft: 8, paddingBottom: 8 },
+  timelineLabel: { fontSize: 13, fontWeight: '600', color: colors.foreground },
+  timelineLabelPending: { color: colors.mutedForeground, fontWeight: '400' },
+  timelineTime: { fontSize: 11, color: colors.mutedForeground, marginTop: 1 },
   reviewModalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0,0,0,0.4)',
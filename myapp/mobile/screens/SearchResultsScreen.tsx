@@ -4,10 +4,12 @@ import {
   FlatList,
   Image,
   KeyboardAvoidingView,
+  Modal,
   Platform,
   Pressable,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   View,
@@ -18,7 +20,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import BackButton from '../components/BackButton';
 import { colors } from '../theme/colors';
 import { radius, spacing } from '../theme/spacing';
-import { apiGet } from '../api/client';
+import { apiGet, apiGetOptionalAuth } from '../api/client';
 import { useTabNavigator } from '../navigation/TabContext';
 
 type Props = {
@@ -26,12 +28,79 @@ type Props = {
   initialQuery?: string;
 };
 
+type SearchType = 'shops' | 'products' | 'markets';
+
 type SearchResult = {
   shops: ShopResult[];
   markets: MarketResult[];
   products: ProductResult[];
+  nextCursor?: Record<SearchType, string | null>;
+};
+
+type SearchSort = 'relevance' | 'rating' | 'newest' | 'price_asc' | 'price_desc';
+
+type SearchFilters = {
+  categoryId?: string;
+  city?: string;
+  minPrice?: string;
+  maxPrice?: string;
+  minRating?: number;
+  inStock: boolean;
 };
 
+type Category = { _id: string; name: string };
+
+const TYPE_TABS: { id: 'all' | SearchType; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'shops', label: 'Shops' },
+  { id: 'products', label: 'Products' },
+  { id: 'markets', label: 'Markets' },
+];
+
+const SORT_OPTIONS: { id: SearchSort; label: string; productsOnly?: boolean }[] = [
+  { id: 'relevance', label: 'Relevance' },
+  { id: 'rating', label: 'Top rated' },
+  { id: 'newest', label: 'Newest' },
+  { id: 'price_asc', label: 'Price: low to high', productsOnly: true },
+  { id: 'price_desc', label: 'Price: high to low', productsOnly: true },
+];
+
+const RATING_OPTIONS = [3, 4, 4.5];
+
+const EMPTY_RESULTS: SearchResult = { shops: [], markets: [], products: [] };
+const NO_FILTERS: SearchFilters = { inStock: false };
+
+function countFilters(filters: SearchFilters): number {
+  return [
+    filters.categoryId,
+    filters.city,
+    filters.minPrice || filters.maxPrice,
+    filters.minRating,
+    filters.inStock,
+  ].filter(Boolean).length;
+}
+
+/** Query string for GET /search */
+function buildSearchQuery(
+  query: string,
+  type: 'all' | SearchType,
+  sort: SearchSort,
+  filters: SearchFilters,
+  cursor?: string | null
+): string {
+  const params: [string, string][] = [['q', query]];
+  if (type !== 'all') params.push(['type', type]);
+  if (sort !== 'relevance') params.push(['sort', sort]);
+  if (filters.categoryId) params.push(['category', filters.categoryId]);
+  if (filters.city) params.push(['city', filters.city]);
+  if (filters.minPrice) params.push(['minPrice', filters.minPrice]);
+  if (filters.maxPrice) params.push(['maxPrice', filters.maxPrice]);
+  if (filters.minRating) params.push(['minRating', String(filters.minRating)]);
+  if (filters.inStock) params.push(['inStock', 'true']);
+  if (cursor) params.push(['cursor', cursor]);
+  return params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join('&');
+}
+
 type ShopResult = {
   _id: string;
   name: string;
@@ -85,13 +154,26 @@ export default function SearchResultsScreen({ onBack, initialQuery = '' }: Props
   const insets = useSafeAreaInsets();
   const { openShopDetail, openMarketDetail } = useTabNavigator();
   const [query, setQuery] = useState(initialQuery);
-  const [results, setResults] = useState<SearchResult>({ shops: [], markets: [], products: [] });
+  const [submittedQuery, setSubmittedQuery] = useState(initialQuery.trim());
+  const [results, setResults] = useState<SearchResult>(EMPTY_RESULTS);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  const [searchType, setSearchType] = useState<'all' | SearchType>('all');
+  const [sort, setSort] = useState<SearchSort>('relevance');
+  const [filters, setFilters] = useState<SearchFilters>(NO_FILTERS);
+  const [draftFilters, setDraftFilters] = useState<SearchFilters>(NO_FILTERS);
+  const [filtersVisible, setFiltersVisible] = useState(false);
+  const [sortVisible, setSortVisible] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  const filterCount = countFilters(filters);
 
   const performSearch = useCallback(async (searchQuery: string) => {
-    if (!searchQuery.trim() || searchQuery.trim().length < 2) {
-      setResults({ shops: [], markets: [], products: [] });
+    const trimmed = searchQuery.trim();
+    // Filters alone are enough to browse; a query needs at least two characters
+    if (trimmed.length < 2 && countFilters(filters) === 0) {
+      setResults(EMPTY_RESULTS);
       setHasSearched(false);
       return;
     }
@@ -99,24 +181,68 @@ export default function SearchResultsScreen({ onBack, initialQuery = '' }: Props
     setLoading(true);
     setHasSearched(true);
     try {
-      const data = await apiGet<SearchResult>(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
+      const data = await apiGetOptionalAuth<SearchResult>(`/search?${buildSearchQuery(trimmed, searchType, sort, filters)}`);
       setResults(data);
     } catch (error) {
       console.error('[SearchResults] Search failed:', error);
-      setResults({ shops: [], markets: [], products: [] });
+      setResults(EMPTY_RESULTS);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [searchType, sort, filters]);
 
   useEffect(() => {
-    if (initialQuery) {
-      performSearch(initialQuery);
-    }
-  }, [initialQuery, performSearch]);
+    performSearch(submittedQuery);
+  }, [submittedQuery, performSearch]);
+
+  useEffect(() => {
+    apiGet<Category[]>('/categories')
+      .then(setCategories)
+      .catch(() => {});
+  }, []);
 
   const handleSearch = () => {
-    performSearch(query);
+    if (query.trim() === submittedQuery) {
+      performSearch(query);
+    } else {
+      setSubmittedQuery(query.trim());
+    }
+  };
+
+  const nextCursor = searchType === 'all' ? null : results.nextCursor?.[searchType] ?? null;
+
+  const loadMore = async () => {
+    if (searchType === 'all' || !nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const data = await apiGet<SearchResult>(
+        `/search?${buildSearchQuery(submittedQuery, searchType, sort, filters, nextCursor)}`
+      );
+      setResults((prev) => ({
+        ...prev,
+        [searchType]: [...(prev[searchType] as any[]), ...(data[searchType] as any[])],
+        nextCursor: data.nextCursor,
+      }));
+    } catch (error) {
+      console.error('[SearchResults] Load more failed:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const selectType = (type: 'all' | SearchType) => {
+    setSearchType(type);
+    if (type !== 'products' && (sort === 'price_asc' || sort === 'price_desc')) setSort('relevance');
+  };
+
+  const openFilters = () => {
+    setDraftFilters(filters);
+    setFiltersVisible(true);
+  };
+
+  const applyFilters = () => {
+    setFilters(draftFilters);
+    setFiltersVisible(false);
   };
 
   const renderShop = ({ item }: { item: ShopResult }) => {
@@ -284,6 +410,34 @@ export default function SearchResultsScreen({ onBack, initialQuery = '' }: Props
         </View>
       </View>
 
+      {/* Result type, sort and filters */}
+      <View style={styles.toolbar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.toolbarRow}>
+          {TYPE_TABS.map((tab) => (
+            <Pressable
+              key={tab.id}
+              onPress={() => selectType(tab.id)}
+              style={[styles.chip, searchType === tab.id && styles.chipActive]}
+            >
+              <Text style={[styles.chipText, searchType === tab.id && styles.chipTextActive]}>{tab.label}</Text>
+            </Pressable>
+          ))}
+          <View style={styles.toolbarDivider} />
+          <Pressable onPress={() => setSortVisible(true)} style={[styles.chip, sort !== 'relevance' && styles.chipActive]}>
+            <Ionicons name="swap-vertical" size={14} color={sort !== 'relevance' ? colors.card : colors.foreground} />
+            <Text style={[styles.chipText, sort !== 'relevance' && styles.chipTextActive]}>
+              {SORT_OPTIONS.find((o) => o.id === sort)?.label}
+            </Text>
+          </Pressable>
+          <Pressable onPress={openFilters} style={[styles.chip, filterCount > 0 && styles.chipActive]}>
+            <Ionicons name="options-outline" size={14} color={filterCount > 0 ? colors.card : colors.foreground} />
+            <Text style={[styles.chipText, filterCount > 0 && styles.chipTextActive]}>
+              {filterCount > 0 ? `Filters (${filterCount})` : 'Filters'}
+            </Text>
+          </Pressable>
+        </ScrollView>
+      </View>
+
       {loading ? (
         <View style={styles.center}>
           <ActivityIndicator size="small" color={colors.primary} />
@@ -313,7 +467,14 @@ export default function SearchResultsScreen({ onBack, initialQuery = '' }: Props
         >
           {results.shops.length > 0 && (
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Shops ({results.shops.length})</Text>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Shops ({results.shops.length})</Text>
+                {searchType === 'all' && results.nextCursor?.shops && (
+                  <Pressable onPress={() => selectType('shops')} hitSlop={8}>
+                    <Text style={styles.seeAll}>See all</Text>
+                  </Pressable>
+                )}
+              </View>
               <FlatList
                 data={results.shops}
                 renderItem={renderShop}
@@ -326,7 +487,14 @@ export default function SearchResultsScreen({ onBack, initialQuery = '' }: Props
 
           {results.markets.length > 0 && (
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Markets ({results.markets.length})</Text>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Markets ({results.markets.length})</Text>
+                {searchType === 'all' && results.nextCursor?.markets && (
+                  <Pressable onPress={() => selectType('markets')} hitSlop={8}>
+                    <Text style={styles.seeAll}>See all</Text>
+                  </Pressable>
+                )}
+              </View>
               <FlatList
                 data={results.markets}
                 renderItem={renderMarket}
@@ -339,7 +507,14 @@ export default function SearchResultsScreen({ onBack, initialQuery = '' }: Props
 
           {results.products.length > 0 && (
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Products ({results.products.length})</Text>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Products ({results.products.length})</Text>
+                {searchType === 'all' && results.nextCursor?.products && (
+                  <Pressable onPress={() => selectType('products')} hitSlop={8}>
+                    <Text style={styles.seeAll}>See all</Text>
+                  </Pressable>
+                )}
+              </View>
               <FlatList
                 data={results.products}
                 renderItem={renderProduct}
@@ -349,9 +524,140 @@ export default function SearchResultsScreen({ onBack, initialQuery = '' }: Props
               />
             </View>
           )}
+
+          {nextCursor && (
+            <Pressable
+              onPress={loadMore}
+              disabled={loadingMore}
+              style={({ pressed }) => [styles.loadMoreBtn, pressed && styles.pressed]}
+            >
+              {loadingMore ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Text style={styles.loadMoreText}>Load more</Text>
+              )}
+            </Pressable>
+          )}
         </ScrollView>
       )}
       </View>
+
+      {/* Sort */}
+      <Modal visible={sortVisible} transparent animationType="fade" onRequestClose={() => setSortVisible(false)}>
+        <Pressable style={styles.modalOverlay} onPress={() => setSortVisible(false)}>
+          <View style={styles.sheet} onStartShouldSetResponder={() => true}>
+            <Text style={styles.sheetTitle}>Sort by</Text>
+            {SORT_OPTIONS.filter((o) => !o.productsOnly || searchType === 'products').map((option) => (
+              <Pressable
+                key={option.id}
+                onPress={() => {
+                  setSort(option.id);
+                  setSortVisible(false);
+                }}
+                style={styles.sortRow}
+              >
+                <Text style={[styles.sortLabel, sort === option.id && styles.sortLabelActive]}>{option.label}</Text>
+                {sort === option.id && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+              </Pressable>
+            ))}
+            {searchType !== 'products' && (
+              <Text style={styles.sheetHint}>Choose Products to sort by price.</Text>
+            )}
+          </View>
+        </Pressable>
+      </Modal>
+
+      {/* Filters */}
+      <Modal visible={filtersVisible} transparent animationType="slide" onRequestClose={() => setFiltersVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <Pressable style={StyleSheet.absoluteFill} onPress={() => setFiltersVisible(false)} />
+          <View style={[styles.sheet, { paddingBottom: insets.bottom + spacing.md }]}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Filters</Text>
+              <Pressable onPress={() => setDraftFilters(NO_FILTERS)} hitSlop={8}>
+                <Text style={styles.seeAll}>Clear all</Text>
+              </Pressable>
+            </View>
+            <ScrollView keyboardShouldPersistTaps="handled" style={{ maxHeight: 440 }}>
+              <Text style={styles.filterLabel}>Category</Text>
+              <View style={styles.chipWrap}>
+                {categories.map((c) => {
+                  const active = draftFilters.categoryId === c._id;
+                  return (
+                    <Pressable
+                      key={c._id}
+                      onPress={() => setDraftFilters((f) => ({ ...f, categoryId: active ? undefined : c._id }))}
+                      style={[styles.chip, active && styles.chipActive]}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{c.name}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <Text style={styles.filterLabel}>City</Text>
+              <TextInput
+                style={styles.filterInput}
+                value={draftFilters.city ?? ''}
+                onChangeText={(city) => setDraftFilters((f) => ({ ...f, city: city || undefined }))}
+                placeholder="e.g. New Delhi"
+                placeholderTextColor={colors.mutedForeground}
+              />
+
+              <Text style={styles.filterLabel}>Price (₹)</Text>
+              <View style={styles.priceInputs}>
+                <TextInput
+                  style={[styles.filterInput, { flex: 1 }]}
+                  value={draftFilters.minPrice ?? ''}
+                  onChangeText={(v) => setDraftFilters((f) => ({ ...f, minPrice: v.replace(/[^0-9]/g, '') || undefined }))}
+                  placeholder="Min"
+                  placeholderTextColor={colors.mutedForeground}
+                  keyboardType="numeric"
+                />
+                <Text style={styles.priceDash}>–</Text>
+                <TextInput
+                  style={[styles.filterInput, { flex: 1 }]}
+                  value={draftFilters.maxPrice ?? ''}
+                  onChangeText={(v) => setDraftFilters((f) => ({ ...f, maxPrice: v.replace(/[^0-9]/g, '') || undefined }))}
+                  placeholder="Max"
+                  placeholderTextColor={colors.mutedForeground}
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <Text style={styles.filterLabel}>Rating</Text>
+              <View style={styles.chipWrap}>
+                {RATING_OPTIONS.map((rating) => {
+                  const active = draftFilters.minRating === rating;
+                  return (
+                    <Pressable
+                      key={rating}
+                      onPress={() => setDraftFilters((f) => ({ ...f, minRating: active ? undefined : rating }))}
+                      style={[styles.chip, active && styles.chipActive]}
+                    >
+                      <Ionicons name="star" size={12} color={active ? colors.card : '#FACC15'} />
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{rating}+</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.filterLabel}>In stock only</Text>
+                <Switch
+                  value={draftFilters.inStock}
+                  onValueChange={(inStock) => setDraftFilters((f) => ({ ...f, inStock }))}
+                  trackColor={{ true: colors.primary, false: colors.border }}
+                />
+              </View>
+              <Text style={styles.sheetHint}>Price and stock filters show products only.</Text>
+            </ScrollView>
+            <Pressable style={({ pressed }) => [styles.applyBtn, pressed && styles.pressed]} onPress={applyFilters}>
+              <Text style={styles.applyBtnText}>Show results</Text>
+            </Pressable>
+          </View>
+        </View>
+      </Modal>
     </KeyboardAvoidingView>
   );
 }
@@ -430,11 +736,21 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: spacing.xl,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '700',
     color: colors.foreground,
-    marginBottom: spacing.md,
+  },
+  seeAll: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
   },
   separator: {
     height: spacing.sm,
@@ -568,4 +884,142 @@ const styles = StyleSheet.create({
     color: colors.mutedForeground,
     textDecorationLine: 'line-through',
   },
+  toolbar: {
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    backgroundColor: colors.card,
+  },
+  toolbarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  toolbarDivider: {
+    width: 1,
+    height: 20,
+    backgroundColor: colors.border,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.card,
+  },
+  chipActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.foreground,
+  },
+  chipTextActive: {
+    color: colors.card,
+    fontWeight: '600',
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  loadMoreBtn: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    padding: spacing.md,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.foreground,
+    marginBottom: spacing.sm,
+  },
+  sheetHint: {
+    fontSize: 12,
+    color: colors.mutedForeground,
+    marginTop: spacing.sm,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  sortLabel: {
+    fontSize: 15,
+    color: colors.foreground,
+  },
+  sortLabelActive: {
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.foreground,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  filterInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.foreground,
+  },
+  priceInputs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  priceDash: {
+    fontSize: 14,
+    color: colors.mutedForeground,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  applyBtn: {
+    marginTop: spacing.md,
+    paddingVertical: 12,
+    borderRadius: radius.md,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  applyBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.card,
+  },
 });
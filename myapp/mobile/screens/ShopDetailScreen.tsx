@@ -10,6 +10,7 @@ import {
   View,
   Alert,
   FlatList,
+  Modal,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -22,6 +23,7 @@ import { radius, spacing } from '../theme/spacing';
 import { apiGet, apiGetAuth, apiPostAuth, apiDeleteAuth } from '../api/client';
 import { useAuth } from '../context/AuthContext';
 import { useWishlist } from '../context/WishlistContext';
+import { useCart } from '../context/CartContext';
 import { useChat, type Conversation } from '../context/ChatContext';
 import { useCall } from '../context/CallContext';
 
@@ -74,6 +76,17 @@ type ShopDetails = {
   state?: string;
 };
 
+type ProductVariant = {
+  _id: string;
+  sku?: string;
+  options: { name: string; value: string }[];
+  price: number;
+  discountPrice?: number;
+  stock?: number;
+  images: string[];
+  isAvailable: boolean;
+};
+
 type Product = {
   _id: string;
   name: string;
@@ -83,6 +96,9 @@ type Product = {
   images: string[];
   isAvailable: boolean;
   stock?: number;
+  /** Option axes (e.g. Size, Colour); set when the product is sold in variants */
+  options?: { name: string; values: string[] }[];
+  variants?: ProductVariant[];
 };
 
 type Props = ShopDetailParams & { 
@@ -90,6 +106,23 @@ type Props = ShopDetailParams & {
   onOpenChat?: (conversation: Conversation) => void;
 };
 
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function describeVariant(variant: ProductVariant) {
+  return variant.options.map((o) => o.value).join(' / ');
+}
+
+/** Variant matching every chosen option value, if all axes are chosen */
+function findVariant(product: Product, selection: Record<string, string>) {
+  return product.variants?.find((v) => v.options.every((o) => selection[o.name] === o.value));
+}
+
+function isVariantAvailable(variant: ProductVariant) {
+  return variant.isAvailable && (variant.stock == null || variant.stock > 0);
+}
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -98,6 +131,7 @@ export default function ShopDetailScreen({ shopId, onBack, onOpenChat }: Props)
   const insets = useSafeAreaInsets();
   const width = Dimensions.get('window').width;
   const { addToWishlist, removeFromWishlist, isInWishlist } = useWishlist();
+  const { addItem } = useCart();
   const { startConversation } = useChat();
   const { requestCall, isAgoraConfigured } = useCall();
   const { user } = useAuth();
@@ -111,6 +145,8 @@ export default function ShopDetailScreen({ shopId, onBack, onOpenChat }: Props)
   const [loading, setLoading] = useState(true);
   const [carouselIndex, setCarouselIndex] = useState(0);
   const [reviews, setReviews] = useState<ShopReview[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [optionSelection, setOptionSelection] = useState<Record<string, string>>({});
   const carouselRef = useRef<ScrollView>(null);
   const carouselIndexRef = useRef(0);
   const bannerImage = shop?.banner;
@@ -214,6 +250,38 @@ export default function ShopDetailScreen({ shopId, onBack, onOpenChat }: Props)
     }
   }
 
+  function openProduct(product: Product) {
+    // Preselect the first orderable variant so the price shown is one that can be bought
+    const first = product.variants?.find(isVariantAvailable) ?? product.variants?.[0];
+    const selection: Record<string, string> = {};
+    first?.options.forEach((o) => { selection[o.name] = o.value; });
+    setOptionSelection(selection);
+    setSelectedProduct(product);
+  }
+
+  function handleAddToCart() {
+    if (!selectedProduct) return;
+    const product = selectedProduct;
+    const hasVariants = (product.variants?.length ?? 0) > 0;
+    const variant = hasVariants ? findVariant(product, optionSelection) : undefined;
+    if (hasVariants && !variant) {
+      Alert.alert('Choose options', `Please choose ${product.options?.map((o) => o.name).join(' and ')}.`);
+      return;
+    }
+    addItem({
+      productId: product._id,
+      variantId: variant?._id,
+      variantLabel: variant ? describeVariant(variant) : undefined,
+      shopId,
+      shopName: shop?.name || shop?.shopName || 'Shop',
+      name: product.name,
+      price: variant ? variant.discountPrice ?? variant.price : product.discountPrice ?? product.price,
+      image: variant?.images?.[0] || product.images?.[0],
+    });
+    setSelectedProduct(null);
+    Alert.alert('Added to cart', variant ? `${product.name} (${describeVariant(variant)})` : product.name);
+  }
+
   useEffect(() => {
     const id = setInterval(() => {
       const next = (carouselIndexRef.current + 1) % slides.length;
@@ -521,7 +589,7 @@ export default function ShopDetailScreen({ shopId, onBack, onOpenChat }: Props)
               {products.map((product) => {
                 const inWishlist = isInWishlist(product._id);
                 return (
-                  <View key={product._id} style={styles.productCard}>
+                  <Pressable key={product._id} style={styles.productCard} onPress={() => openProduct(product)}>
                     <View style={styles.productImageWrap}>
                       {product.images?.[0] ? (
                         <Image 
@@ -553,6 +621,9 @@ export default function ShopDetailScreen({ shopId, onBack, onOpenChat }: Props)
                     </View>
                     <View style={styles.productInfo}>
                       <Text style={styles.productName} numberOfLines={2}>{product.name}</Text>
+                      <Text style={styles.productPrice}>
+                        {product.variants?.length ? 'From ' : ''}₹{product.discountPrice ?? product.price}
+                      </Text>
                       {product.description ? (
                         <Text style={styles.productDescription} numberOfLines={2}>{product.description}</Text>
                       ) : null}
@@ -562,7 +633,7 @@ export default function ShopDetailScreen({ shopId, onBack, onOpenChat }: Props)
                         </View>
                       )}
                     </View>
-                  </View>
+                  </Pressable>
                 );
               })}
             </View>
@@ -604,6 +675,90 @@ export default function ShopDetailScreen({ shopId, onBack, onOpenChat }: Props)
           )}
         </View>
       </ScrollView>
+
+      {/* Product sheet: pick size/colour and add to cart */}
+      <Modal visible={selectedProduct != null} transparent animationType="slide" onRequestClose={() => setSelectedProduct(null)}>
+        <View style={styles.sheetOverlay}>
+          <Pressable style={StyleSheet.absoluteFill} onPress={() => setSelectedProduct(null)} />
+          {selectedProduct && (() => {
+            const product = selectedProduct;
+            const hasVariants = (product.variants?.length ?? 0) > 0;
+            const variant = hasVariants ? findVariant(product, optionSelection) : undefined;
+            const price = variant ? variant.price : product.price;
+            const discountPrice = variant ? variant.discountPrice : product.discountPrice;
+            const stock = variant ? variant.stock : product.stock;
+            const image = variant?.images?.[0] || product.images?.[0];
+            const canAdd = hasVariants
+              ? variant != null && isVariantAvailable(variant) && product.isAvailable
+              : product.isAvailable && stock !== 0;
+            return (
+              <View style={[styles.sheet, { paddingBottom: 16 + insets.bottom }]}>
+                <View style={styles.sheetHeader}>
+                  {image ? (
+                    <Image source={{ uri: image }} style={styles.sheetImage} />
+                  ) : (
+                    <View style={[styles.sheetImage, { backgroundColor: colors.muted }]} />
+                  )}
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.sheetTitle} numberOfLines={2}>{product.name}</Text>
+                    <View style={styles.sheetPriceRow}>
+                      <Text style={styles.sheetPrice}>₹{discountPrice ?? price}</Text>
+                      {discountPrice != null && discountPrice < price && (
+                        <Text style={styles.sheetPriceStrike}>₹{price}</Text>
+                      )}
+                    </View>
+                    {stock != null && (
+                      <Text style={styles.sheetStock}>{stock > 0 ? `${stock} in stock` : 'Out of stock'}</Text>
+                    )}
+                  </View>
+                  <Pressable onPress={() => setSelectedProduct(null)} hitSlop={8}>
+                    <Ionicons name="close" size={24} color={colors.foreground} />
+                  </Pressable>
+                </View>
+
+                {product.options?.map((option) => (
+                  <View key={option.name} style={styles.optionGroup}>
+                    <Text style={styles.optionLabel}>{option.name}</Text>
+                    <View style={styles.chips}>
+                      {option.values.map((value) => {
+                        const selected = optionSelection[option.name] === value;
+                        // Grey out values with no orderable variant given the other choices
+                        const reachable = product.variants?.some(
+                          (v) =>
+                            isVariantAvailable(v) &&
+                            v.options.every((o) => (o.name === option.name ? o.value === value : !optionSelection[o.name] || optionSelection[o.name] === o.value))
+                        );
+                        return (
+                          <Pressable
+                            key={value}
+                            onPress={() => setOptionSelection((prev) => ({ ...prev, [option.name]: value }))}
+                            style={[styles.optionChip, selected && styles.optionChipSelected, !reachable && styles.optionChipDisabled]}
+                          >
+                            <Text style={[styles.optionChipText, selected && styles.optionChipTextSelected]}>{value}</Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+
+                {product.description ? <Text style={styles.sheetDescription}>{product.description}</Text> : null}
+
+                <Pressable
+                  onPress={handleAddToCart}
+                  disabled={!canAdd}
+                  style={({ pressed }) => [styles.sheetAddBtn, pressed && styles.btnPressed, !canAdd && styles.sheetAddBtnDisabled]}
+                >
+                  <Ionicons name="cart-outline" size={20} color={colors.card} />
+                  <Text style={styles.addBtnText}>
+                    {canAdd ? 'Add to cart' : hasVariants && !variant ? 'Not available in this combination' : 'Out of stock'}
+                  </Text>
+                </Pressable>
+              </View>
+            );
+          })()}
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -874,6 +1029,12 @@ const styles = StyleSheet.create({
     color: colors.foreground,
     marginBottom: 4,
   },
+  productPrice: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.primary,
+    marginBottom: 4,
+  },
   productDescription: {
     fontSize: 12,
     color: colors.mutedForeground,
@@ -1003,6 +1164,50 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  // Product sheet
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    padding: HORIZONTAL_PADDING,
+  },
+  sheetHeader: { flexDirection: 'row', gap: 12, marginBottom: 16 },
+  sheetImage: { width: 80, height: 80, borderRadius: radius.md },
+  sheetTitle: { fontSize: 17, fontWeight: '700', color: colors.foreground, marginBottom: 4 },
+  sheetPriceRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  sheetPrice: { fontSize: 18, fontWeight: '700', color: colors.primary },
+  sheetPriceStrike: { fontSize: 14, color: colors.mutedForeground, textDecorationLine: 'line-through' },
+  sheetStock: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
+  sheetDescription: { fontSize: 14, color: colors.mutedForeground, lineHeight: 20, marginBottom: 16 },
+  optionGroup: { marginBottom: 16 },
+  optionLabel: { fontSize: 14, fontWeight: '600', color: colors.foreground, marginBottom: 8 },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: radius.xxl,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.card,
+  },
+  optionChipSelected: { borderColor: colors.primary, backgroundColor: colors.secondary },
+  optionChipDisabled: { opacity: 0.4 },
+  optionChipText: { fontSize: 14, color: colors.foreground },
+  optionChipTextSelected: { color: colors.primary, fontWeight: '600' },
+  sheetAddBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.primary,
+    borderRadius: radius.xl,
+    paddingVertical: 14,
+  },
+  sheetAddBtnDisabled: { opacity: 0.5 },
   reelsContainer: {
     paddingHorizontal: HORIZONTAL_PADDING,
     paddingBottom: 16,
@@ -0,0 +1,421 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Linking, Modal, Pressable, RefreshControl, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Location from 'expo-location';
+import { colors } from '../../theme/colors';
+import { radius } from '../../theme/spacing';
+import { apiGetAuth, apiPostAuth } from '../../api/client';
+import { useAuth } from '../../context/AuthContext';
+import { useChat } from '../../context/ChatContext';
+
+const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
+const PAD = 16;
+
+type AgentStep = 'assigned' | 'picked_up' | 'out_for_delivery' | 'delivered';
+
+type Delivery = {
+  _id: string;
+  shopId?: { name: string; addressLine?: string; city?: string; location?: { coordinates: [number, number] } };
+  customerId?: { name?: string; phone?: string };
+  items: { name: string; quantity: number; variantLabel?: string }[];
+  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
+  totalAmount: number;
+  paymentMethod?: string;
+  paymentStatus?: string;
+  deliveryAddress?: { line1: string; line2?: string; city: string; pincode: string; phone?: string; geoLocation?: { lat: number; lng: number } };
+  deliverySchedule?: { date: string; timeSlot: string };
+  notes?: string;
+  agentDelivery: { status: AgentStep; assignedAt: string };
+};
+
+const STEP_CONFIG: Record<AgentStep, { label: string; color: string; bg: string }> = {
+  assigned: { label: 'To collect', color: '#D97706', bg: '#FEF3C7' },
+  picked_up: { label: 'Picked up', color: '#2563EB', bg: '#DBEAFE' },
+  out_for_delivery: { label: 'On the way', color: '#7C3AED', bg: '#EDE9FE' },
+  delivered: { label: 'Delivered', color: '#059669', bg: '#D1FAE5' },
+};
+
+/** The button for the partner's next step */
+const NEXT_ACTION: Partial<Record<AgentStep, { to: AgentStep; label: string }>> = {
+  assigned: { to: 'picked_up', label: 'Picked up' },
+  picked_up: { to: 'out_for_delivery', label: 'Start delivery' },
+  out_for_delivery: { to: 'delivered', label: 'Delivered' },
+};
+
+/** Steps during which the partner's position is shared with the customer */
+const CARRYING: AgentStep[] = ['picked_up', 'out_for_delivery'];
+
+const TABS = [
+  { key: 'active', label: 'Active' },
+  { key: 'done', label: 'Completed' },
+] as const;
+
+function mapsUrl(delivery: Delivery, to: 'shop' | 'customer'): string {
+  if (to === 'shop') {
+    const coords = delivery.shopId?.location?.coordinates;
+    const destination = coords ? `${coords[1]},${coords[0]}` : `${delivery.shopId?.name ?? ''} ${delivery.shopId?.addressLine ?? ''} ${delivery.shopId?.city ?? ''}`;
+    return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination.trim())}`;
+  }
+  const address = delivery.deliveryAddress;
+  const pin = address?.geoLocation;
+  const destination = pin ? `${pin.lat},${pin.lng}` : `${address?.line1 ?? ''} ${address?.city ?? ''} ${address?.pincode ?? ''}`;
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination.trim())}`;
+}
+
+export default function AgentDeliveriesScreen() {
+  const insets = useSafeAreaInsets();
+  const { user, signOut } = useAuth();
+  const { socket } = useChat();
+  const [activeTab, setActiveTab] = useState<'active' | 'done'>('active');
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState<Delivery | null>(null);
+  const [otp, setOtp] = useState('');
+  const [sharingLocation, setSharingLocation] = useState(false);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await apiGetAuth<{ orders: Delivery[] }>(`/agent/deliveries?scope=${activeTab}`);
+      setDeliveries(response.orders || []);
+    } catch (error) {
+      console.error('[AgentDeliveries] Failed to fetch deliveries:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [activeTab]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  // New assignments, reassignments and the shop marking an order ready all arrive over the socket
+  useEffect(() => {
+    if (!socket) return;
+    const reload = () => fetchDeliveries();
+    socket.on('order_delivery_updated', reload);
+    socket.on('order_status_changed', reload);
+    return () => {
+      socket.off('order_delivery_updated', reload);
+      socket.off('order_status_changed', reload);
+    };
+  }, [socket, fetchDeliveries]);
+
+  // Share our position for every order we're carrying; the watcher reads the ids from a ref
+  // so it isn't restarted each time the list reloads
+  const carryingIds = useRef<string[]>([]);
+  const [isCarrying, setIsCarrying] = useState(false);
+  useEffect(() => {
+    if (activeTab !== 'active') return;
+    carryingIds.current = deliveries.filter(d => CARRYING.includes(d.agentDelivery.status)).map(d => d._id);
+    setIsCarrying(carryingIds.current.length > 0);
+  }, [deliveries, activeTab]);
+
+  useEffect(() => {
+    if (!socket || !isCarrying) {
+      setSharingLocation(false);
+      return;
+    }
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+    (async () => {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted' || cancelled) {
+        if (status !== 'granted') {
+          Alert.alert('Location needed', 'Allow location so customers can follow their delivery.');
+        }
+        return;
+      }
+      subscription = await Location.watchPositionAsync(
+        { accuracy: Location.Accuracy.Balanced, timeInterval: 15000, distanceInterval: 25 },
+        (position) => {
+          for (const orderId of carryingIds.current) {
+            socket.emit('agent_location', {
+              orderId,
+              lat: position.coords.latitude,
+              lng: position.coords.longitude,
+            });
+          }
+        }
+      );
+      if (cancelled) subscription.remove();
+      else setSharingLocation(true);
+    })().catch((error) => console.warn('[AgentDeliveries] Could not watch location', error));
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [socket, isCarrying]);
+
+  async function advance(delivery: Delivery, to: AgentStep, code?: string) {
+    setUpdatingId(delivery._id);
+    try {
+      await apiPostAuth(`/agent/deliveries/${delivery._id}/status`, { status: to, otp: code });
+      if (to === 'delivered') {
+        setConfirming(null);
+        setOtp('');
+        Alert.alert('Delivered', 'Nice work! The order is marked as delivered.');
+      }
+      await fetchDeliveries();
+    } catch (error: any) {
+      Alert.alert('Could not update', error.message || 'Failed to update the delivery');
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  function handleNextStep(delivery: Delivery) {
+    const next = NEXT_ACTION[delivery.agentDelivery.status];
+    if (!next) return;
+    if (next.to === 'delivered') {
+      setOtp('');
+      setConfirming(delivery);
+      return;
+    }
+    advance(delivery, next.to);
+  }
+
+  function formatDate(dateStr: string) {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+  }
+
+  return (
+    <ScrollView
+      style={styles.scroll}
+      contentContainerStyle={[styles.content, { paddingTop: insets.top + 16, paddingBottom: 60 }]}
+      showsVerticalScrollIndicator={false}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[colors.primary]} />}
+    >
+      <View style={styles.headerRow}>
+        <View>
+          <Text style={styles.title}>Deliveries</Text>
+          {user?.name ? <Text style={styles.date}>{user.name}</Text> : null}
+        </View>
+        <Pressable onPress={signOut} hitSlop={8} accessibilityLabel="Sign out">
+          <Ionicons name="log-out-outline" size={24} color={colors.foreground} />
+        </Pressable>
+      </View>
+
+      {sharingLocation && (
+        <View style={styles.sharingRow}>
+          <Ionicons name="navigate-circle-outline" size={16} color={colors.primary} />
+          <Text style={styles.sharingText}>Sharing your location with customers</Text>
+        </View>
+      )}
+
+      <View style={styles.tabs}>
+        {TABS.map(tab => (
+          <Pressable
+            key={tab.key}
+            style={[styles.tab, activeTab === tab.key && styles.tabActive]}
+            onPress={() => setActiveTab(tab.key)}
+          >
+            <Text style={[styles.tabLabel, activeTab === tab.key && styles.tabLabelActive]}>{tab.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingWrap}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : deliveries.length === 0 ? (
+        <View style={styles.emptyWrap}>
+          <Ionicons name="bicycle-outline" size={48} color={colors.mutedForeground} />
+          <Text style={styles.emptyText}>
+            {activeTab === 'active' ? 'No deliveries assigned to you' : 'No completed deliveries yet'}
+          </Text>
+        </View>
+      ) : (
+        deliveries.map((delivery) => {
+          const step = delivery.status === 'cancelled' ? null : STEP_CONFIG[delivery.agentDelivery.status];
+          const next = delivery.status === 'cancelled' ? undefined : NEXT_ACTION[delivery.agentDelivery.status];
+          // The shop has to finish packing before the partner can collect it
+          const waitingForShop = next?.to === 'picked_up' && delivery.status !== 'ready';
+          const collectCash = delivery.paymentMethod === 'cod' && delivery.paymentStatus !== 'paid';
+          const isUpdating = updatingId === delivery._id;
+          const customerPhone = delivery.deliveryAddress?.phone || delivery.customerId?.phone;
+          return (
+            <View key={delivery._id} style={[styles.orderCard, SHADOW]}>
+              <View style={styles.cardRow}>
+                <View style={styles.flex}>
+                  <Text style={styles.customer}>{delivery.shopId?.name || 'Shop'}</Text>
+                  <Text style={styles.date}>Assigned {formatDate(delivery.agentDelivery.assignedAt)}</Text>
+                </View>
+                {step ? (
+                  <View style={[styles.badge, { backgroundColor: step.bg }]}>
+                    <Text style={[styles.badgeText, { color: step.color }]}>{step.label}</Text>
+                  </View>
+                ) : (
+                  <View style={[styles.badge, { backgroundColor: '#FEE2E2' }]}>
+                    <Text style={[styles.badgeText, { color: colors.destructive }]}>Cancelled</Text>
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.itemsList}>
+                {delivery.items.map((item, idx) => (
+                  <Text key={idx} style={styles.itemText}>• {item.name}{item.variantLabel ? ` (${item.variantLabel})` : ''} × {item.quantity}</Text>
+                ))}
+                {delivery.deliverySchedule?.timeSlot ? (
+                  <Text style={styles.itemText}>Deliver {delivery.deliverySchedule.date} · {delivery.deliverySchedule.timeSlot}</Text>
+                ) : null}
+                {delivery.notes ? <Text style={styles.noteText}>Note: {delivery.notes}</Text> : null}
+              </View>
+
+              <View style={styles.addressBlock}>
+                <Ionicons name="location-outline" size={16} color={colors.mutedForeground} />
+                <View style={styles.flex}>
+                  <Text style={styles.addressName}>{delivery.customerId?.name || 'Customer'}</Text>
+                  <Text style={styles.itemText}>
+                    {[delivery.deliveryAddress?.line1, delivery.deliveryAddress?.line2, delivery.deliveryAddress?.city, delivery.deliveryAddress?.pincode]
+                      .filter(Boolean)
+                      .join(', ')}
+                  </Text>
+                </View>
+                {customerPhone && activeTab === 'active' ? (
+                  <Pressable onPress={() => Linking.openURL(`tel:${customerPhone}`)} hitSlop={8} accessibilityLabel="Call customer">
+                    <Ionicons name="call-outline" size={20} color={colors.primary} />
+                  </Pressable>
+                ) : null}
+              </View>
+
+              {activeTab === 'active' && (
+                <View style={styles.linksRow}>
+                  <Pressable onPress={() => Linking.openURL(mapsUrl(delivery, 'shop'))} hitSlop={4}>
+                    <Text style={styles.linkText}>Directions to shop</Text>
+                  </Pressable>
+                  <Pressable onPress={() => Linking.openURL(mapsUrl(delivery, 'customer'))} hitSlop={4}>
+                    <Text style={styles.linkText}>Directions to customer</Text>
+                  </Pressable>
+                </View>
+              )}
+
+              <View style={styles.cardFooter}>
+                <View>
+                  <Text style={styles.amount}>₹{delivery.totalAmount.toLocaleString('en-IN')}</Text>
+                  <Text style={styles.date}>{collectCash ? 'Collect cash' : 'Paid online'}</Text>
+                </View>
+                {next && activeTab === 'active' && (
+                  <Pressable
+                    style={[styles.actionBtn, (isUpdating || waitingForShop) && styles.actionBtnDisabled]}
+                    onPress={() => handleNextStep(delivery)}
+                    disabled={isUpdating || waitingForShop}
+                  >
+                    {isUpdating ? (
+                      <ActivityIndicator size="small" color={colors.card} />
+                    ) : (
+                      <Text style={styles.actionBtnText}>{waitingForShop ? 'Being packed' : next.label}</Text>
+                    )}
+                  </Pressable>
+                )}
+              </View>
+            </View>
+          );
+        })
+      )}
+
+      <Modal visible={confirming != null} transparent animationType="fade" onRequestClose={() => setConfirming(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Delivery code</Text>
+            <Text style={styles.itemText}>Ask the customer for the 4-digit code shown in their app.</Text>
+            {confirming && confirming.paymentMethod === 'cod' && confirming.paymentStatus !== 'paid' && (
+              <Text style={styles.noteText}>Collect ₹{confirming.totalAmount.toLocaleString('en-IN')} in cash first.</Text>
+            )}
+            <TextInput
+              style={styles.codeInput}
+              value={otp}
+              onChangeText={(v) => setOtp(v.replace(/\D/g, ''))}
+              placeholder="0000"
+              placeholderTextColor={colors.mutedForeground}
+              keyboardType="number-pad"
+              maxLength={4}
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <Pressable style={styles.secondaryBtn} onPress={() => setConfirming(null)}>
+                <Text style={styles.secondaryBtnText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.actionBtn, (otp.length !== 4 || updatingId != null) && styles.actionBtnDisabled]}
+                disabled={otp.length !== 4 || updatingId != null}
+                onPress={() => confirming && advance(confirming, 'delivered', otp)}
+              >
+                {updatingId != null ? (
+                  <ActivityIndicator size="small" color={colors.card} />
+                ) : (
+                  <Text style={styles.actionBtnText}>Confirm delivery</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: { flex: 1, backgroundColor: colors.background },
+  content: { paddingHorizontal: PAD },
+  flex: { flex: 1 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 },
+  title: { fontSize: 22, fontWeight: '700', color: colors.foreground },
+  sharingRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 12 },
+  sharingText: { fontSize: 13, fontWeight: '600', color: colors.primary },
+  tabs: { flexDirection: 'row', gap: 8, marginBottom: 16 },
+  tab: { paddingVertical: 8, paddingHorizontal: 16, borderRadius: radius.xxl, backgroundColor: colors.muted },
+  tabActive: { backgroundColor: colors.primary },
+  tabLabel: { fontSize: 14, fontWeight: '600', color: colors.mutedForeground },
+  tabLabelActive: { color: colors.card },
+  loadingWrap: { paddingVertical: 60, alignItems: 'center' },
+  emptyWrap: { paddingVertical: 60, alignItems: 'center', gap: 12 },
+  emptyText: { fontSize: 16, color: colors.mutedForeground },
+  orderCard: { backgroundColor: colors.card, borderRadius: radius.lg, padding: PAD, marginBottom: 12 },
+  cardRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', gap: 12 },
+  customer: { fontSize: 16, fontWeight: '600', color: colors.foreground },
+  date: { fontSize: 12, color: colors.mutedForeground, marginTop: 2 },
+  badge: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: radius.xxl },
+  badgeText: { fontSize: 12, fontWeight: '600' },
+  itemsList: { marginTop: 12, marginBottom: 12 },
+  itemText: { fontSize: 13, color: colors.mutedForeground, marginBottom: 2 },
+  noteText: { fontSize: 13, color: colors.foreground, marginTop: 6 },
+  addressBlock: { flexDirection: 'row', alignItems: 'flex-start', gap: 8, marginBottom: 12 },
+  addressName: { fontSize: 14, fontWeight: '600', color: colors.foreground, marginBottom: 2 },
+  linksRow: { flexDirection: 'row', gap: 16, marginBottom: 12 },
+  linkText: { fontSize: 13, fontWeight: '600', color: colors.primary },
+  cardFooter: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 12, borderTopWidth: 1, borderTopColor: colors.border },
+  amount: { fontSize: 18, fontWeight: '700', color: colors.foreground },
+  actionBtn: { backgroundColor: colors.primary, paddingVertical: 8, paddingHorizontal: 16, borderRadius: radius.lg },
+  actionBtnDisabled: { opacity: 0.6 },
+  actionBtnText: { fontSize: 13, fontWeight: '600', color: colors.card },
+  secondaryBtn: { paddingVertical: 8, paddingHorizontal: 16, borderRadius: radius.lg, borderWidth: 1, borderColor: colors.border },
+  secondaryBtnText: { fontSize: 13, fontWeight: '600', color: colors.foreground },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.4)', justifyContent: 'center', padding: 24 },
+  modalCard: { backgroundColor: colors.card, borderRadius: radius.xl, padding: PAD },
+  modalTitle: { fontSize: 17, fontWeight: '700', color: colors.foreground, marginBottom: 12 },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    paddingVertical: 12,
+    marginTop: 12,
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: 8,
+    textAlign: 'center',
+    color: colors.foreground,
+  },
+  modalActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 12 },
+});
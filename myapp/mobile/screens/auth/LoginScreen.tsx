@@ -60,7 +60,13 @@ const splashLogo: ImageSourcePropType = require('../../../assets/splashlogo.png'
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Login'>;
 
-type UserType = 'Customer' | 'Seller';
+type UserType = 'Customer' | 'Seller' | 'Delivery';
+
+const ROLE_FOR: Record<UserType, 'customer' | 'seller' | 'agent'> = {
+  Customer: 'customer',
+  Seller: 'seller',
+  Delivery: 'agent',
+};
 
 // -----------------------------------------------------------------------------
 // Component
@@ -86,7 +92,7 @@ export default function LoginScreen({ navigation }: Props) {
       // Navigate to OTP verification with phone and role
       navigation.navigate('OtpVerify', {
         phone: cleanedPhone,
-        role: userType.toLowerCase() as 'customer' | 'seller',
+        role: ROLE_FOR[userType],
         isLogin: true,
       } as any);
     } catch (error: any) {
@@ -159,7 +165,6 @@ export default function LoginScreen({ navigation }: Props) {
             onPress={() => setUserType('Seller')}
             style={[
               styles.toggleSegment,
-              styles.toggleRight,
               userType === 'Seller' && styles.toggleSegmentActive,
             ]}
           >
@@ -172,6 +177,23 @@ export default function LoginScreen({ navigation }: Props) {
               Seller
             </Text>
           </Pressable>
+          <Pressable
+            onPress={() => setUserType('Delivery')}
+            style={[
+              styles.toggleSegment,
+              styles.toggleRight,
+              userType === 'Delivery' && styles.toggleSegmentActive,
+            ]}
+          >
+            <Text
+              style={[
+                styles.toggleLabel,
+                userType === 'Delivery' && styles.toggleLabelActive,
+              ]}
+            >
+              Delivery
+            </Text>
+          </Pressable>
         </View>
 
         <Text style={styles.label}>Phone Number</Text>
@@ -1,22 +1,27 @@
-import React, { useState } from 'react';
-import { Alert, KeyboardAvoidingView, Modal, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, KeyboardAvoidingView, Modal, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import BackButton from '../../components/BackButton';
 import StepIndicator from '../../components/StepIndicator';
-import { useCheckout, SavedAddress } from '../../context/CheckoutContext';
+import { useCheckout, SavedAddress, DeliveryCheck } from '../../context/CheckoutContext';
+import { getCurrentLocation } from '../../hooks/useCurrentLocation';
+import { apiPost } from '../../api/client';
 import { colors } from '../../theme/colors';
 import { radius, spacing } from '../../theme/spacing';
 
 const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
 const PAD = 16;
 
+type ShopDeliveryCheck = DeliveryCheck & { shopId: string; shopName?: string };
+
 export default function CheckoutAddressScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
-  const { address, setAddress, savedAddresses, contact, setContact } = useCheckout();
+  const { address, setAddress, savedAddresses, contact, setContact, shopGroups, fulfilmentType, setFulfilmentType } = useCheckout();
+  const isPickup = fulfilmentType === 'pickup';
 
   // New address form
   const [showAddModal, setShowAddModal] = useState(false);
@@ -26,6 +31,68 @@ export default function CheckoutAddressScreen() {
   const [newCity, setNewCity] = useState('');
   const [newState, setNewState] = useState('Delhi');
   const [newPincode, setNewPincode] = useState('');
+  const [newGeoLocation, setNewGeoLocation] = useState<SavedAddress['geoLocation']>(undefined);
+  const [locating, setLocating] = useState(false);
+
+  // Can every shop in the cart deliver to the selected address?
+  const [deliveryChecks, setDeliveryChecks] = useState<ShopDeliveryCheck[] | null>(null);
+  const [checkingDelivery, setCheckingDelivery] = useState(false);
+
+  useEffect(() => {
+    if (!address || shopGroups.length === 0 || isPickup) {
+      setDeliveryChecks(null);
+      return;
+    }
+    let cancelled = false;
+    setCheckingDelivery(true);
+    apiPost<{ serviceable: boolean; results: ShopDeliveryCheck[] }>('/delivery/check', {
+      shops: shopGroups.map((g) => ({
+        shopId: g.shopId,
+        subtotal: g.items.reduce((sum, i) => sum + i.price * i.qty, 0),
+      })),
+      address: { pincode: address.pincode, geoLocation: address.geoLocation },
+    })
+      .then((res) => {
+        if (!cancelled) setDeliveryChecks(res.results);
+      })
+      .catch((err) => {
+        console.warn('[CheckoutAddress] Delivery check failed:', err?.message);
+        // The order is checked again when it is placed
+        if (!cancelled) setDeliveryChecks(null);
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingDelivery(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, shopGroups, isPickup]);
+
+  const blockedChecks = (deliveryChecks ?? []).filter((c) => !c.serviceable);
+  const needsLocation = blockedChecks.some((c) => c.code === 'location_required');
+
+  async function pinCurrentLocation(): Promise<SavedAddress['geoLocation']> {
+    setLocating(true);
+    try {
+      const loc = await getCurrentLocation({ precise: true });
+      if (!loc) {
+        Alert.alert('Location needed', 'Allow location access to pin this address.');
+        return undefined;
+      }
+      return loc;
+    } catch {
+      Alert.alert('Location unavailable', 'We could not get your current location. Please try again.');
+      return undefined;
+    } finally {
+      setLocating(false);
+    }
+  }
+
+  async function handlePinSelectedAddress() {
+    if (!address) return;
+    const loc = await pinCurrentLocation();
+    if (loc) setAddress({ ...address, geoLocation: loc });
+  }
 
   function handleAddAddress() {
     if (!newLine1 || !newCity || !newPincode) {
@@ -41,6 +108,7 @@ export default function CheckoutAddressScreen() {
       city: newCity,
       state: newState,
       pincode: newPincode,
+      geoLocation: newGeoLocation,
     };
     
     setAddress(newAddress);
@@ -50,6 +118,7 @@ export default function CheckoutAddressScreen() {
     setNewLine2('');
     setNewCity('');
     setNewPincode('');
+    setNewGeoLocation(undefined);
   }
 
   const addresses = savedAddresses.length > 0 ? savedAddresses : [];
@@ -61,47 +130,120 @@ export default function CheckoutAddressScreen() {
           <BackButton onPress={() => navigation.goBack()} />
         </View>
         <StepIndicator current={2} total={6} />
-        <Text style={styles.title}>Delivery / Service Address</Text>
+        <Text style={styles.title}>Delivery or pickup</Text>
+
+        <View style={styles.fulfilmentRow}>
+          {([
+            { id: 'delivery', label: 'Delivery', icon: 'bicycle-outline' },
+            { id: 'pickup', label: 'Store pickup', icon: 'storefront-outline' },
+          ] as const).map((opt) => {
+            const active = fulfilmentType === opt.id;
+            return (
+              <Pressable
+                key={opt.id}
+                onPress={() => setFulfilmentType(opt.id)}
+                style={[styles.fulfilmentOpt, active && styles.fulfilmentOptActive]}
+              >
+                <Ionicons name={opt.icon} size={20} color={active ? colors.primary : colors.mutedForeground} />
+                <Text style={[styles.fulfilmentText, active && styles.fulfilmentTextActive]}>{opt.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
 
-        {addresses.length === 0 && !address && (
-          <View style={styles.emptyState}>
-            <Ionicons name="location-outline" size={48} color={colors.mutedForeground} />
-            <Text style={styles.emptyText}>No saved addresses</Text>
-            <Text style={styles.emptySubtext}>Add a delivery address to continue</Text>
+        {isPickup ? (
+          <View style={[styles.card, SHADOW]}>
+            <Text style={styles.pickupTitle}>Collect from {shopGroups.length > 1 ? 'each shop' : 'the shop'}</Text>
+            <Text style={styles.pickupText}>
+              No delivery fee. You'll pick a collection time next, and get a pickup code to show at the counter.
+            </Text>
+            {shopGroups.map((g) => (
+              <View key={g.shopId} style={styles.deliveryRow}>
+                <Ionicons name="storefront-outline" size={16} color={colors.primary} />
+                <Text style={styles.deliveryShop}>{g.shopName}</Text>
+              </View>
+            ))}
           </View>
-        )}
+        ) : (
+          <>
+            {addresses.length === 0 && !address && (
+              <View style={styles.emptyState}>
+                <Ionicons name="location-outline" size={48} color={colors.mutedForeground} />
+                <Text style={styles.emptyText}>No saved addresses</Text>
+                <Text style={styles.emptySubtext}>Add a delivery address to continue</Text>
+              </View>
+            )}
 
-        {addresses.map((a) => (
-          <Pressable key={a.id} onPress={() => setAddress(a)} style={[styles.addressCard, SHADOW, address?.id === a.id && styles.addressSelected]}>
-            <View style={styles.radio}>
-              {address?.id === a.id && <View style={styles.radioInner} />}
-            </View>
-            <View style={styles.addressBody}>
-              <Text style={styles.addressLabel}>{a.label}</Text>
-              <Text style={styles.addressLine}>{a.line1}{a.line2 ? `, ${a.line2}` : ''}</Text>
-              <Text style={styles.addressCity}>{a.city} - {a.pincode}</Text>
-            </View>
-          </Pressable>
-        ))}
+            {addresses.map((a) => (
+              <Pressable key={a.id} onPress={() => setAddress(a)} style={[styles.addressCard, SHADOW, address?.id === a.id && styles.addressSelected]}>
+                <View style={styles.radio}>
+                  {address?.id === a.id && <View style={styles.radioInner} />}
+                </View>
+                <View style={styles.addressBody}>
+                  <Text style={styles.addressLabel}>{a.label}</Text>
+                  <Text style={styles.addressLine}>{a.line1}{a.line2 ? `, ${a.line2}` : ''}</Text>
+                  <Text style={styles.addressCity}>{a.city} - {a.pincode}</Text>
+                </View>
+              </Pressable>
+            ))}
 
-        {/* Show current address if it's a new one not in saved list */}
-        {address && !addresses.find(a => a.id === address.id) && (
-          <View style={[styles.addressCard, SHADOW, styles.addressSelected]}>
-            <View style={styles.radio}>
-              <View style={styles.radioInner} />
-            </View>
-            <View style={styles.addressBody}>
-              <Text style={styles.addressLabel}>{address.label}</Text>
-              <Text style={styles.addressLine}>{address.line1}{address.line2 ? `, ${address.line2}` : ''}</Text>
-              <Text style={styles.addressCity}>{address.city} - {address.pincode}</Text>
-            </View>
-          </View>
-        )}
+            {/* Show current address if it's a new one not in saved list */}
+            {address && !addresses.find(a => a.id === address.id) && (
+              <View style={[styles.addressCard, SHADOW, styles.addressSelected]}>
+                <View style={styles.radio}>
+                  <View style={styles.radioInner} />
+                </View>
+                <View style={styles.addressBody}>
+                  <Text style={styles.addressLabel}>{address.label}</Text>
+                  <Text style={styles.addressLine}>{address.line1}{address.line2 ? `, ${address.line2}` : ''}</Text>
+                  <Text style={styles.addressCity}>{address.city} - {address.pincode}</Text>
+                </View>
+              </View>
+            )}
 
-        <Pressable style={[styles.addAddr, styles.addAddrBorder]} onPress={() => setShowAddModal(true)}>
-          <Ionicons name="add-circle-outline" size={22} color={colors.primary} />
-          <Text style={styles.addAddrText}>Add New Address</Text>
-        </Pressable>
+            {address && (checkingDelivery || deliveryChecks) ? (
+              <View style={[styles.deliveryCard, SHADOW]}>
+                {checkingDelivery && !deliveryChecks ? (
+                  <View style={styles.deliveryRow}>
+                    <ActivityIndicator size="small" color={colors.primary} />
+                    <Text style={styles.deliveryText}>Checking delivery to this address...</Text>
+                  </View>
+                ) : (
+                  (deliveryChecks ?? []).map((c) => (
+                    <View key={c.shopId} style={styles.deliveryRow}>
+                      <Ionicons
+                        name={c.serviceable ? 'checkmark-circle' : 'close-circle'}
+                        size={18}
+                        color={c.serviceable ? colors.success : colors.destructive}
+                      />
+                      <Text style={styles.deliveryText}>
+                        <Text style={styles.deliveryShop}>{c.shopName || 'Shop'}</Text>
+                        {c.serviceable
+                          ? ` · ${c.deliveryFee > 0 ? `Delivery ₹${c.deliveryFee}` : 'Free delivery'}${c.distanceKm != null ? ` · ${c.distanceKm} km` : ''}`
+                          : ` · ${c.reason || 'Does not deliver here'}`}
+                      </Text>
+                    </View>
+                  ))
+                )}
+                {needsLocation && (
+                  <Pressable onPress={handlePinSelectedAddress} disabled={locating} style={styles.pinBtn}>
+                    {locating ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <Ionicons name="navigate-outline" size={16} color={colors.primary} />
+                    )}
+                    <Text style={styles.pinBtnText}>I'm at this address — use my location</Text>
+                  </Pressable>
+                )}
+              </View>
+            ) : null}
+
+            <Pressable style={[styles.addAddr, styles.addAddrBorder]} onPress={() => setShowAddModal(true)}>
+              <Ionicons name="add-circle-outline" size={22} color={colors.primary} />
+              <Text style={styles.addAddrText}>Add New Address</Text>
+            </Pressable>
+          </>
+        )}
 
         <Text style={styles.sectionTitle}>Contact details</Text>
         <View style={[styles.card, SHADOW]}>
@@ -117,6 +259,10 @@ export default function CheckoutAddressScreen() {
       <View style={[styles.footer, { paddingBottom: 12 + insets.bottom }]}>
         <Pressable 
           onPress={() => {
+            if (isPickup) {
+              navigation.navigate('CheckoutSchedule' as never);
+              return;
+            }
             if (!address) {
               Alert.alert('Address Required', 'Please add or select a delivery address');
               return;
@@ -125,9 +271,16 @@ export default function CheckoutAddressScreen() {
               Alert.alert('Invalid Address', 'The selected address is missing street details. Please add a new address.');
               return;
             }
+            if (blockedChecks.length > 0) {
+              Alert.alert(
+                'Delivery not available',
+                blockedChecks.map((c) => `${c.shopName || 'Shop'}: ${c.reason || 'Does not deliver here'}`).join('\n')
+              );
+              return;
+            }
             navigation.navigate('CheckoutSchedule' as never);
           }} 
-          style={({ pressed }) => [styles.cta, pressed && styles.ctaPressed, !address && styles.ctaDisabled]}
+          style={({ pressed }) => [styles.cta, pressed && styles.ctaPressed, !address && !isPickup && styles.ctaDisabled]}
         >
           <Text style={styles.ctaLabel}>Continue</Text>
         </Pressable>
@@ -206,6 +359,25 @@ export default function CheckoutAddressScreen() {
                 keyboardType="numeric"
                 maxLength={6}
               />
+
+              <Pressable
+                onPress={async () => {
+                  const loc = await pinCurrentLocation();
+                  if (loc) setNewGeoLocation(loc);
+                }}
+                disabled={locating}
+                style={styles.pinBtn}
+              >
+                {locating ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <Ionicons name={newGeoLocation ? 'checkmark-circle' : 'navigate-outline'} size={16} color={newGeoLocation ? colors.success : colors.primary} />
+                )}
+                <Text style={styles.pinBtnText}>
+                  {newGeoLocation ? 'Location pinned' : "I'm at this address — pin my location"}
+                </Text>
+              </Pressable>
+              <Text style={styles.pinHint}>Some shops only deliver within a few km and need the pin to check.</Text>
             </ScrollView>
 
             <Pressable
@@ -237,6 +409,31 @@ const styles = StyleSheet.create({
   addressLabel: { fontSize: 15, fontWeight: '600', color: colors.foreground },
   addressLine: { fontSize: 14, color: colors.mutedForeground, marginTop: 4 },
   addressCity: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
+  fulfilmentRow: { flexDirection: 'row', gap: 12, marginBottom: 16 },
+  fulfilmentOpt: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.card,
+  },
+  fulfilmentOptActive: { borderWidth: 2, borderColor: colors.primary, backgroundColor: colors.secondary },
+  fulfilmentText: { fontSize: 15, fontWeight: '600', color: colors.mutedForeground },
+  fulfilmentTextActive: { color: colors.primary },
+  pickupTitle: { fontSize: 16, fontWeight: '600', color: colors.foreground, marginBottom: 4 },
+  pickupText: { fontSize: 13, color: colors.mutedForeground, marginBottom: 12 },
+  deliveryCard: { backgroundColor: colors.card, borderRadius: radius.lg, padding: 12, marginBottom: 12, gap: 8 },
+  deliveryRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  deliveryText: { flex: 1, fontSize: 13, color: colors.mutedForeground },
+  deliveryShop: { fontWeight: '600', color: colors.foreground },
+  pinBtn: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingVertical: 8, marginTop: 4 },
+  pinBtnText: { fontSize: 14, fontWeight: '600', color: colors.primary },
+  pinHint: { fontSize: 12, color: colors.mutedForeground },
   addAddr: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 16, marginBottom: 24 },
   addAddrBorder: { borderWidth: 2, borderColor: colors.border, borderStyle: 'dashed' as const, borderRadius: radius.lg, justifyContent: 'center' },
   addAddrText: { fontSize: 15, fontWeight: '600', color: colors.primary },
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { KeyboardAvoidingView, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { ActivityIndicator, Alert, KeyboardAvoidingView, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -22,26 +22,35 @@ export default function CheckoutInvoiceScreen() {
   const navigation = useNavigation();
   const {
     items,
+    shopGroups,
     address,
     subtotal,
     platformFee,
+    deliveryFee,
     discount,
     tax,
     total,
     walletBalance,
     walletApplied,
-    setPromoCode,
-    setPromoDiscount,
+    setWalletApplied,
+    applyPromoCode,
     promoCode,
+    quote,
+    quoteLoading,
   } = useCheckout();
   const [promo, setPromo] = useState(promoCode);
-  const [showWallet, setShowWallet] = useState(false);
+  const [applyingPromo, setApplyingPromo] = useState(false);
   const grandTotal = total;
 
-  function handleApplyPromo() {
-    setPromoCode(promo);
-    if (promo.toUpperCase() === 'SAVE5') setPromoDiscount(Math.round(subtotal * 0.05));
-    else setPromoDiscount(0);
+  async function handleApplyPromo() {
+    setApplyingPromo(true);
+    try {
+      await applyPromoCode(promo);
+    } catch (err: any) {
+      Alert.alert('Promo code', err?.message || 'This promo code could not be applied.');
+    } finally {
+      setApplyingPromo(false);
+    }
   }
 
   return (
@@ -56,37 +65,56 @@ export default function CheckoutInvoiceScreen() {
         <View style={[styles.invoiceCard, SHADOW]}>
           {items.map((i) => (
             <View key={i.id} style={styles.invRow}>
-              <Text style={styles.invItem}>{i.name} × {i.qty}</Text>
+              <Text style={styles.invItem}>{i.name}{i.variantLabel ? ` (${i.variantLabel})` : ''} × {i.qty}</Text>
               <Text style={styles.invAmt}>{fmt(i.price * i.qty)}</Text>
             </View>
           ))}
           <View style={styles.invDiv} />
-          <Text style={styles.invSeller}>Seller: {items[0]?.shopName ?? '—'}</Text>
+          <Text style={styles.invSeller}>
+            {shopGroups.length > 1 ? 'Sellers' : 'Seller'}: {shopGroups.map((g) => g.shopName).join(', ') || '—'}
+          </Text>
           <Text style={styles.invAddr}>Deliver to: {address?.line1}, {address?.city} - {address?.pincode}</Text>
           <View style={styles.invDiv} />
           <View style={styles.invRow}><Text style={styles.invLabel}>Subtotal</Text><Text style={styles.invAmt}>{fmt(subtotal)}</Text></View>
           <View style={styles.invRow}><Text style={styles.invLabel}>Platform fee</Text><Text style={styles.invAmt}>{fmt(platformFee)}</Text></View>
-          <View style={styles.invRow}><Text style={styles.invLabel}>Taxes</Text><Text style={styles.invAmt}>{fmt(tax)}</Text></View>
-          {discount > 0 && <View style={styles.invRow}><Text style={[styles.invLabel, { color: colors.success }]}>Discount</Text><Text style={[styles.invAmt, { color: colors.success }]}>-{fmt(discount)}</Text></View>}
+          {quote ? (
+            quote.pricing.taxBreakdown.map((t) => (
+              <View key={t.name} style={styles.invRow}><Text style={styles.invLabel}>{t.name} ({Math.round(t.rate * 1000) / 10}%)</Text><Text style={styles.invAmt}>{fmt(t.amount)}</Text></View>
+            ))
+          ) : (
+            <View style={styles.invRow}><Text style={styles.invLabel}>Taxes</Text><Text style={styles.invAmt}>{fmt(tax)}</Text></View>
+          )}
+          {deliveryFee > 0 && <View style={styles.invRow}><Text style={styles.invLabel}>Delivery</Text><Text style={styles.invAmt}>{fmt(deliveryFee)}</Text></View>}
+          {quote
+            ? quote.pricing.discounts.map((d) => (
+                <View key={d.code ?? d.label} style={styles.invRow}><Text style={[styles.invLabel, { color: colors.success }]}>{d.code ? `${d.code} · ${d.label}` : d.label}</Text><Text style={[styles.invAmt, { color: colors.success }]}>-{fmt(d.amount)}</Text></View>
+              ))
+            : discount > 0 && <View style={styles.invRow}><Text style={[styles.invLabel, { color: colors.success }]}>Discount</Text><Text style={[styles.invAmt, { color: colors.success }]}>-{fmt(discount)}</Text></View>}
           {walletApplied > 0 && <View style={styles.invRow}><Text style={styles.invLabel}>Wallet</Text><Text style={[styles.invAmt, { color: colors.success }]}>-{fmt(walletApplied)}</Text></View>}
           <View style={[styles.invRow, styles.grandRow]}>
             <Text style={styles.grandLabel}>Grand total</Text>
-            <Text style={styles.grandAmt}>{fmt(grandTotal)}</Text>
+            {quoteLoading ? <ActivityIndicator color={colors.primary} /> : <Text style={styles.grandAmt}>{fmt(grandTotal)}</Text>}
           </View>
         </View>
 
         <View style={[styles.promoRow, SHADOW]}>
           <TextInput style={styles.promoInput} value={promo} onChangeText={setPromo} placeholder="Promo code" placeholderTextColor={colors.mutedForeground} />
-          <Pressable onPress={handleApplyPromo} style={styles.promoBtn}><Text style={styles.promoBtnText}>Apply</Text></Pressable>
+          <Pressable onPress={handleApplyPromo} disabled={applyingPromo} style={styles.promoBtn}>
+            {applyingPromo ? <ActivityIndicator color={colors.primary} /> : <Text style={styles.promoBtnText}>Apply</Text>}
+          </Pressable>
         </View>
 
-        <Pressable onPress={() => setShowWallet(!showWallet)} style={[styles.walletRow, SHADOW]}>
+        <Pressable
+          onPress={() => setWalletApplied(walletApplied > 0 ? 0 : walletBalance)}
+          disabled={walletBalance <= 0 && walletApplied <= 0}
+          style={[styles.walletRow, SHADOW]}
+        >
           <Ionicons name="wallet-outline" size={22} color={colors.primary} />
           <View style={styles.walletBody}>
             <Text style={styles.walletLabel}>Wallet credits</Text>
             <Text style={styles.walletBal}>Balance: {fmt(walletBalance)}</Text>
           </View>
-          <Text style={styles.walletUse}>{walletApplied > 0 ? `-${fmt(walletApplied)}` : 'Use'}</Text>
+          <Text style={styles.walletUse}>{walletApplied > 0 ? `-${fmt(walletApplied)}` : walletBalance > 0 ? 'Use' : '—'}</Text>
         </Pressable>
 
         <Pressable hitSlop={8} style={styles.policy}>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
@@ -7,7 +7,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import BackButton from '../../components/BackButton';
 import StepIndicator from '../../components/StepIndicator';
 import { useCheckout } from '../../context/CheckoutContext';
-import { apiPostAuth } from '../../api/client';
+import { apiPostAuthIdempotent, newIdempotencyKey } from '../../api/client';
 import { colors } from '../../theme/colors';
 import { radius, spacing } from '../../theme/spacing';
 
@@ -21,15 +21,19 @@ function fmt(n: number) {
 export default function CheckoutPlaceOrderScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
-  const { items, address, total, schedule, shopId, paymentMethod, contact, resetCheckout } = useCheckout();
+  const { items, address, total, schedule, shops, shopGroups, paymentMethod, contact, promoCode, walletApplied, refreshWallet, resetCheckout, fulfilmentType, pickupSlots, deliverySlots } = useCheckout();
+  const isPickup = fulfilmentType === 'pickup';
   const [accepted, setAccepted] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Kept across taps so retrying after a dropped connection can't place the order twice
+  const idempotencyKey = useRef<string | null>(null);
 
   async function handlePlaceOrder() {
-    if (!accepted || !address || !shopId) return;
+    if (!accepted || shops.length === 0) return;
+    if (!isPickup && !address) return;
     
     // Validate address has required fields
-    if (!address.line1 || !address.line1.trim()) {
+    if (!isPickup && (!address?.line1 || !address.line1.trim())) {
       Alert.alert('Address Required', 'Please add a valid delivery address with street details');
       return;
     }
@@ -38,12 +42,9 @@ export default function CheckoutPlaceOrderScreen() {
     try {
       // Prepare order data
       const orderData = {
-        shopId,
-        items: items.map(item => ({
-          productId: item.id,
-          quantity: item.qty,
-        })),
-        deliveryAddress: {
+        shops,
+        fulfilmentType,
+        deliveryAddress: !isPickup && address ? {
           label: address.label || 'Home',
           line1: address.line1.trim(),
           line2: address.line2 || '',
@@ -51,29 +52,43 @@ export default function CheckoutPlaceOrderScreen() {
           state: address.state || 'Delhi',
           pincode: address.pincode || '',
           phone: contact.phone || '',
-        },
-        deliverySchedule: schedule.type === 'scheduled' ? {
+          geoLocation: address.geoLocation,
+        } : undefined,
+        deliverySchedule: !isPickup && schedule.type === 'scheduled' && schedule.date ? {
           date: schedule.date,
           timeSlot: schedule.time,
         } : undefined,
+        deliverySlots: !isPickup
+          ? Object.fromEntries(Object.entries(deliverySlots).map(([shopId, slot]) => [shopId, { date: slot.date, slotId: slot.slotId }]))
+          : undefined,
+        pickupSlots: isPickup
+          ? Object.fromEntries(Object.entries(pickupSlots).map(([shopId, slot]) => [shopId, { date: slot.date, start: slot.start }]))
+          : undefined,
         paymentMethod: paymentMethod || 'cod',
         notes: contact.notes,
+        promoCode: promoCode || undefined,
+        walletAmount: walletApplied || undefined,
       };
 
       console.log('[Order] Placing order with data:', JSON.stringify(orderData, null, 2));
       
       // Create order via API
-      const response = await apiPostAuth<{ order: any; message: string }>('/orders', orderData);
+      idempotencyKey.current ??= newIdempotencyKey();
+      const response = await apiPostAuthIdempotent<{ order: any; orders: any[]; message: string }>('/orders', orderData, idempotencyKey.current);
       
-      console.log('[Order] Created:', response.order._id);
+      idempotencyKey.current = null;
       
       // Clear cart and reset checkout
       resetCheckout();
+      refreshWallet();
       
       // Navigate to success screen
       navigation.replace('CheckoutSuccess' as never);
     } catch (error: any) {
       console.error('[Order] Failed:', error);
+      // The server rejected this order outright, so the next attempt is a new request
+      // (409 means the first attempt is still running; keep the key so a retry picks up its result)
+      if (error.status >= 400 && error.status < 500 && error.status !== 409) idempotencyKey.current = null;
       
       // Check if it's a product not found error
       if (error.message?.includes('Product') && error.message?.includes('not found')) {
@@ -111,12 +126,33 @@ export default function CheckoutPlaceOrderScreen() {
 
         <View style={[styles.summaryCard, SHADOW]}>
           <Text style={styles.summaryTitle}>Order summary</Text>
+          {shopGroups.length > 1 && (
+            <Text style={styles.summaryRow}>{shopGroups.length} orders from {shopGroups.map((g) => g.shopName).join(', ')}</Text>
+          )}
           {items.slice(0, 3).map((i) => (
-            <Text key={i.id} style={styles.summaryRow}>{i.name} × {i.qty}</Text>
+            <Text key={i.id} style={styles.summaryRow}>{i.name}{i.variantLabel ? ` (${i.variantLabel})` : ''} × {i.qty}</Text>
           ))}
           {items.length > 3 && <Text style={styles.summaryRow}>+{items.length - 3} more</Text>}
-          <Text style={styles.summaryAddr}>To: {address?.line1}, {address?.city}</Text>
-          <Text style={styles.summarySchedule}>{schedule.type === 'instant' ? 'Instant' : 'Scheduled'}</Text>
+          {isPickup ? (
+            shopGroups.map((g) => (
+              <Text key={g.shopId} style={styles.summaryAddr}>
+                Pickup from {g.shopName}
+                {pickupSlots[g.shopId] ? `: ${pickupSlots[g.shopId].date}, ${pickupSlots[g.shopId].start} - ${pickupSlots[g.shopId].end}` : ''}
+              </Text>
+            ))
+          ) : (
+            <>
+              <Text style={styles.summaryAddr}>To: {address?.line1}, {address?.city}</Text>
+              <Text style={styles.summarySchedule}>{schedule.type === 'instant' ? 'Instant' : 'Scheduled'}</Text>
+              {shopGroups.map((g) =>
+                deliverySlots[g.shopId] ? (
+                  <Text key={g.shopId} style={styles.summaryAddr}>
+                    {g.shopName}: {deliverySlots[g.shopId].date}, {deliverySlots[g.shopId].start} - {deliverySlots[g.shopId].end}
+                  </Text>
+                ) : null
+              )}
+            </>
+          )}
           <View style={styles.totalRow}>
             <Text style={styles.totalLabel}>Total</Text>
             <Text style={styles.totalValue}>{fmt(total)}</Text>
@@ -1,29 +1,272 @@
-import React, { useState } from 'react';
-import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import BackButton from '../../components/BackButton';
 import StepIndicator from '../../components/StepIndicator';
-import { useCheckout } from '../../context/CheckoutContext';
+import { useCheckout, DeliverySlot, PickupSlot } from '../../context/CheckoutContext';
+import { apiGet } from '../../api/client';
 import { colors } from '../../theme/colors';
 import { radius, spacing } from '../../theme/spacing';
 
 const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
 const PAD = 16;
 
+type PickupDay = { date: string; day: string; slots: PickupSlot[] };
+
+type PickupShop = {
+  shop: { _id: string; name: string; addressLine?: string; city?: string };
+  days: PickupDay[];
+};
+
+type DeliverySlotDay = { date: string; day: string; slots: DeliverySlot[] };
+
+/** `enabled: false` means the shop delivers as soon as it can and has no slots */
+type DeliverySlotShop = { shopId: string; enabled: boolean; days: DeliverySlotDay[] };
+
+/** "10:00" -> "10 AM", "13:30" -> "1:30 PM" */
+function formatClock(hhmm: string): string {
+  const [h, m] = hhmm.split(':').map(Number);
+  const hour = h % 12 || 12;
+  return `${hour}${m ? `:${String(m).padStart(2, '0')}` : ''} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+function formatDay(day: { date: string; day: string }): string {
+  const now = new Date();
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  if (day.date === today) return 'Today';
+  const [, month, date] = day.date.split('-').map(Number);
+  const monthName = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][month - 1];
+  return `${day.day}, ${date} ${monthName}`;
+}
+
+/** Collection times for one shop; the first open day is shown until the customer picks another */
+function PickupSlotPicker({ shopId, shopName }: { shopId: string; shopName: string }) {
+  const { pickupSlots, setPickupSlot } = useCheckout();
+  const selected = pickupSlots[shopId];
+  const [data, setData] = useState<PickupShop | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dayIndex, setDayIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    apiGet<PickupShop>(`/shops/${shopId}/pickup-slots?days=3`)
+      .then((res) => {
+        if (cancelled) return;
+        setData(res);
+        // Drop a choice the shop no longer offers (e.g. the slot has started)
+        if (selected && !res.days.some((d) => d.slots.some((sl) => sl.date === selected.date && sl.start === selected.start))) {
+          setPickupSlot(shopId, null);
+        }
+        const selectedDay = selected ? res.days.findIndex((d) => d.date === selected.date) : -1;
+        setDayIndex(Math.max(0, selectedDay));
+      })
+      .catch((err) => {
+        console.warn('[CheckoutSchedule] Pickup slots failed:', err?.message);
+        if (!cancelled) setData(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shopId]);
+
+  const days = data?.days ?? [];
+  const day = days[dayIndex];
+
+  return (
+    <View style={[styles.pickerCard, SHADOW]}>
+      <Text style={styles.pickupShop}>{data?.shop.name || shopName}</Text>
+      {data?.shop.addressLine ? (
+        <Text style={styles.pickupAddress}>
+          {data.shop.addressLine}
+          {data.shop.city ? `, ${data.shop.city}` : ''}
+        </Text>
+      ) : null}
+
+      {loading ? (
+        <ActivityIndicator size="small" color={colors.primary} style={styles.pickupLoading} />
+      ) : days.length === 0 ? (
+        <Text style={styles.pickupEmpty}>No pickup times in the next few days. Choose delivery for this order instead.</Text>
+      ) : (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {days.map((d, i) => (
+              <Pressable key={d.date} onPress={() => setDayIndex(i)} style={[styles.chip, i === dayIndex && styles.chipActive]}>
+                <Text style={[styles.chipText, i === dayIndex && styles.chipTextActive]}>{formatDay(d)}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+          <View style={styles.slotGrid}>
+            {day?.slots.map((sl) => {
+              const active = selected?.date === sl.date && selected?.start === sl.start;
+              return (
+                <Pressable
+                  key={sl.start}
+                  onPress={() => setPickupSlot(shopId, sl)}
+                  style={[styles.chip, active && styles.chipActive]}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {formatClock(sl.start)} - {formatClock(sl.end)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+/** Delivery slots for one shop with the places left in each; full slots can't be picked */
+function DeliverySlotPicker({ shopId, shopName, days }: { shopId: string; shopName: string; days: DeliverySlotDay[] }) {
+  const { deliverySlots, setDeliverySlot } = useCheckout();
+  const selected = deliverySlots[shopId];
+  const [dayIndex, setDayIndex] = useState(() => {
+    const selectedDay = selected ? days.findIndex((d) => d.date === selected.date) : -1;
+    return Math.max(0, selectedDay >= 0 ? selectedDay : days.findIndex((d) => d.slots.some((sl) => sl.available)));
+  });
+  const day = days[dayIndex];
+
+  return (
+    <View style={[styles.pickerCard, SHADOW]}>
+      <Text style={styles.pickupShop}>{shopName}</Text>
+      {days.length === 0 ? (
+        <Text style={styles.pickupEmpty}>No delivery slots in the next few days. Please check back later.</Text>
+      ) : (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {days.map((d, i) => (
+              <Pressable key={d.date} onPress={() => setDayIndex(i)} style={[styles.chip, i === dayIndex && styles.chipActive]}>
+                <Text style={[styles.chipText, i === dayIndex && styles.chipTextActive]}>{formatDay(d)}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+          <View style={styles.slotGrid}>
+            {day?.slots.map((sl) => {
+              const active = selected?.date === sl.date && selected?.slotId === sl.slotId;
+              return (
+                <Pressable
+                  key={sl.slotId}
+                  disabled={!sl.available}
+                  onPress={() => setDeliverySlot(shopId, sl)}
+                  style={[styles.chip, active && styles.chipActive, !sl.available && styles.chipDisabled]}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {formatClock(sl.start)} - {formatClock(sl.end)}
+                  </Text>
+                  <Text style={[styles.slotMeta, active && styles.chipTextActive]}>
+                    {sl.remaining === 0 ? 'Full' : sl.available ? `${sl.remaining} left` : 'Closed'}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
 export default function CheckoutScheduleScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
-  const { schedule, setSchedule } = useCheckout();
+  const { schedule, setSchedule, fulfilmentType, shopGroups, pickupSlots, deliverySlots, setDeliverySlot } = useCheckout();
   const [type, setType] = useState<'instant' | 'scheduled'>(schedule.type);
+  const isPickup = fulfilmentType === 'pickup';
+  const [slotShops, setSlotShops] = useState<Record<string, DeliverySlotShop>>({});
+  const [slotsLoading, setSlotsLoading] = useState(!isPickup);
+
+  // Which shops deliver in slots, and what is left in them
+  useEffect(() => {
+    if (isPickup) return;
+    let cancelled = false;
+    setSlotsLoading(true);
+    Promise.all(
+      shopGroups.map((g) =>
+        apiGet<DeliverySlotShop>(`/shops/${g.shopId}/delivery-slots?days=3`).catch((err) => {
+          console.warn('[CheckoutSchedule] Delivery slots failed:', err?.message);
+          return null;
+        })
+      )
+    )
+      .then((results) => {
+        if (cancelled) return;
+        const next: Record<string, DeliverySlotShop> = {};
+        results.forEach((r, i) => {
+          if (r) next[shopGroups[i].shopId] = r;
+        });
+        setSlotShops(next);
+        // Drop choices that have started or filled up since they were made
+        Object.entries(deliverySlots).forEach(([shopId, chosen]) => {
+          const stillOpen = next[shopId]?.days.some((d) =>
+            d.slots.some((sl) => sl.date === chosen.date && sl.slotId === chosen.slotId && sl.available)
+          );
+          if (!stillOpen) setDeliverySlot(shopId, null);
+        });
+        if (Object.values(next).some((r) => r.enabled)) setType('scheduled');
+      })
+      .finally(() => {
+        if (!cancelled) setSlotsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isPickup, shopGroups.map((g) => g.shopId).join(',')]);
+
+  const slotGroups = shopGroups.filter((g) => slotShops[g.shopId]?.enabled);
 
   function handleContinue() {
-    setSchedule(type === 'instant' ? { type: 'instant' } : { type: 'scheduled', date: 'Tomorrow', time: '10:00 AM - 12:00 PM' });
+    if (isPickup) {
+      const missing = shopGroups.filter((g) => !pickupSlots[g.shopId]);
+      if (missing.length > 0) {
+        Alert.alert('Pickup time needed', `Choose when you'll collect from ${missing.map((g) => g.shopName).join(', ')}.`);
+        return;
+      }
+      navigation.navigate('CheckoutInvoice' as never);
+      return;
+    }
+    if (slotsLoading) return;
+    const missing = slotGroups.filter((g) => !deliverySlots[g.shopId]);
+    if (missing.length > 0) {
+      Alert.alert('Delivery slot needed', `Choose a delivery slot for ${missing.map((g) => g.shopName).join(', ')}.`);
+      return;
+    }
+    setSchedule({ type });
     navigation.navigate('CheckoutInvoice' as never);
   }
 
+  if (isPickup) {
+    return (
+      <View style={styles.container}>
+        <ScrollView contentContainerStyle={[styles.scroll, { paddingTop: insets.top + spacing.md, paddingBottom: 120 }]} showsVerticalScrollIndicator={false}>
+          <View style={styles.backRow}>
+            <BackButton onPress={() => navigation.goBack()} />
+          </View>
+          <StepIndicator current={3} total={6} />
+          <Text style={styles.title}>Pickup time</Text>
+          <Text style={styles.sub}>Choose when you'll collect your order.</Text>
+
+          {shopGroups.map((g) => (
+            <PickupSlotPicker key={g.shopId} shopId={g.shopId} shopName={g.shopName} />
+          ))}
+        </ScrollView>
+
+        <View style={[styles.footer, { paddingBottom: 12 + insets.bottom }]}>
+          <Pressable onPress={handleContinue} style={({ pressed }) => [styles.cta, pressed && styles.ctaPressed]}>
+            <Text style={styles.ctaLabel}>Continue</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <ScrollView contentContainerStyle={[styles.scroll, { paddingTop: insets.top + spacing.md, paddingBottom: 120 }]} showsVerticalScrollIndicator={false}>
@@ -34,11 +277,19 @@ export default function CheckoutScheduleScreen() {
         <Text style={styles.title}>Delivery / Service</Text>
         <Text style={styles.sub}>Choose when you want your order.</Text>
 
-        <Pressable onPress={() => setType('instant')} style={[styles.opt, SHADOW, type === 'instant' && styles.optSelected]}>
+        <Pressable
+          onPress={() => setType('instant')}
+          disabled={slotGroups.length > 0}
+          style={[styles.opt, SHADOW, type === 'instant' && styles.optSelected, slotGroups.length > 0 && styles.optDisabled]}
+        >
           <Ionicons name="flash" size={24} color={type === 'instant' ? colors.primary : colors.mutedForeground} />
           <View style={styles.optBody}>
             <Text style={styles.optTitle}>Instant</Text>
-            <Text style={styles.optSub}>As soon as the seller confirms</Text>
+            <Text style={styles.optSub}>
+              {slotGroups.length > 0
+                ? `${slotGroups.map((g) => g.shopName).join(', ')} only delivers in time slots`
+                : 'As soon as the seller confirms'}
+            </Text>
           </View>
           {type === 'instant' && <Ionicons name="checkmark-circle" size={24} color={colors.primary} />}
         </Pressable>
@@ -52,15 +303,21 @@ export default function CheckoutScheduleScreen() {
           {type === 'scheduled' && <Ionicons name="checkmark-circle" size={24} color={colors.primary} />}
         </Pressable>
 
-        {type === 'scheduled' && (
-          <View style={[styles.pickerCard, SHADOW]}>
-            <Text style={styles.pickerLabel}>Preferred date & time</Text>
-            <Pressable style={styles.pickerBtn}>
-              <Text style={styles.pickerBtnText}>Tomorrow, 10:00 AM - 12:00 PM</Text>
-              <Ionicons name="chevron-down" size={20} color={colors.mutedForeground} />
-            </Pressable>
-          </View>
-        )}
+        {type === 'scheduled' &&
+          (slotsLoading ? (
+            <ActivityIndicator size="small" color={colors.primary} style={styles.pickupLoading} />
+          ) : (
+            shopGroups.map((g) =>
+              slotShops[g.shopId]?.enabled ? (
+                <DeliverySlotPicker key={g.shopId} shopId={g.shopId} shopName={g.shopName} days={slotShops[g.shopId].days} />
+              ) : (
+                <View key={g.shopId} style={[styles.pickerCard, SHADOW]}>
+                  <Text style={styles.pickupShop}>{g.shopName}</Text>
+                  <Text style={styles.pickupAddress}>Doesn't take delivery slots; delivers as soon as possible.</Text>
+                </View>
+              )
+            )
+          ))}
 
         <View style={styles.estimate}>
           <Ionicons name="time-outline" size={18} color={colors.mutedForeground} />
@@ -85,13 +342,30 @@ const styles = StyleSheet.create({
   sub: { fontSize: 15, color: colors.mutedForeground, marginBottom: 20 },
   opt: { flexDirection: 'row', alignItems: 'center', backgroundColor: colors.card, borderRadius: radius.lg, padding: PAD, marginBottom: 12 },
   optSelected: { borderWidth: 2, borderColor: colors.primary },
+  optDisabled: { opacity: 0.5 },
   optBody: { flex: 1, marginLeft: 14 },
   optTitle: { fontSize: 16, fontWeight: '600', color: colors.foreground },
   optSub: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
   pickerCard: { backgroundColor: colors.card, borderRadius: radius.lg, padding: PAD, marginTop: 8, marginBottom: 16 },
-  pickerLabel: { fontSize: 14, fontWeight: '500', color: colors.foreground, marginBottom: 8 },
-  pickerBtn: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', borderWidth: 1, borderColor: colors.border, borderRadius: radius.lg, padding: 14 },
-  pickerBtnText: { fontSize: 15, color: colors.foreground },
+  pickupShop: { fontSize: 16, fontWeight: '600', color: colors.foreground },
+  pickupAddress: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
+  pickupLoading: { alignSelf: 'flex-start', marginTop: 12 },
+  pickupEmpty: { fontSize: 13, color: colors.mutedForeground, marginTop: 12 },
+  chipRow: { gap: 8, marginTop: 12 },
+  slotGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 12 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: radius.xxl,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.card,
+  },
+  chipActive: { borderColor: colors.primary, backgroundColor: colors.secondary },
+  chipText: { fontSize: 13, fontWeight: '600', color: colors.foreground },
+  chipTextActive: { color: colors.primary },
+  chipDisabled: { opacity: 0.45 },
+  slotMeta: { fontSize: 11, color: colors.mutedForeground, marginTop: 2 },
   estimate: { flexDirection: 'row', alignItems: 'center', gap: 8 },
   estimateText: { fontSize: 13, color: colors.mutedForeground },
   footer: { position: 'absolute' as const, bottom: 0, left: 0, right: 0, paddingHorizontal: PAD, paddingTop: 12, backgroundColor: colors.background },
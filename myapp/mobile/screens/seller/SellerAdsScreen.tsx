@@ -0,0 +1,577 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+
+import BackButton from '../../components/BackButton';
+import { colors } from '../../theme/colors';
+import { radius, spacing } from '../../theme/spacing';
+import { apiGet, apiGetAuth, apiPostAuth } from '../../api/client';
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type AdStatus = 'scheduled' | 'running' | 'paused' | 'ended' | 'budget_spent';
+
+type Campaign = {
+  _id: string;
+  title: string;
+  bannerImage: string;
+  targetCategories: string[];
+  startDate: string;
+  endDate: string;
+  budget: number;
+  spent: number;
+  remainingBudget: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  isActive: boolean;
+  status: AdStatus;
+};
+
+type DailyPerformance = { date: string; impressions: number; clicks: number; spent: number };
+
+type Category = { _id: string; name: string };
+
+type Props = {
+  onBack: () => void;
+};
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
+const DURATIONS = [7, 14, 30];
+const MIN_BUDGET = 100;
+
+const STATUS_LABELS: Record<AdStatus, string> = {
+  scheduled: 'Scheduled',
+  running: 'Running',
+  paused: 'Paused',
+  ended: 'Ended',
+  budget_spent: 'Budget spent',
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+}
+
+function formatAmount(value: number) {
+  return `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+// -----------------------------------------------------------------------------
+// Component
+// -----------------------------------------------------------------------------
+
+export default function SellerAdsScreen({ onBack }: Props) {
+  const insets = useSafeAreaInsets();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  // Create campaign form
+  const [createVisible, setCreateVisible] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [title, setTitle] = useState('');
+  const [budget, setBudget] = useState('');
+  const [durationDays, setDurationDays] = useState(DURATIONS[0]);
+  const [targetCategories, setTargetCategories] = useState<string[]>([]);
+  const [banner, setBanner] = useState<{ uri: string; base64: string } | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  // Performance modal
+  const [selected, setSelected] = useState<Campaign | null>(null);
+  const [daily, setDaily] = useState<DailyPerformance[]>([]);
+  const [loadingPerformance, setLoadingPerformance] = useState(false);
+
+  const loadCampaigns = useCallback(async () => {
+    try {
+      const res = await apiGetAuth<{ ads: Campaign[] }>('/seller/ads');
+      setCampaigns(res.ads || []);
+    } catch (error) {
+      console.error('[SellerAds] Failed to load campaigns', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  async function openCreate() {
+    setTitle('');
+    setBudget('');
+    setDurationDays(DURATIONS[0]);
+    setTargetCategories([]);
+    setBanner(null);
+    setCreateVisible(true);
+    if (categories.length === 0) {
+      try {
+        setCategories(await apiGet<Category[]>('/categories'));
+      } catch {
+        // Campaigns without categories still run on Home
+      }
+    }
+  }
+
+  function toggleCategory(id: string) {
+    setTargetCategories((prev) => (prev.includes(id) ? prev.filter((c) => c !== id) : [...prev, id]));
+  }
+
+  async function pickBanner() {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission required', 'We need access to your photos to add an ad banner.');
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1200, 628],
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets?.[0]?.uri) return;
+    const uri = result.assets[0].uri;
+    const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    setBanner({ uri, base64 });
+  }
+
+  async function handleCreate() {
+    const amount = Number(budget);
+    if (!title.trim()) {
+      Alert.alert('Missing title', 'Give your campaign a title.');
+      return;
+    }
+    if (!banner) {
+      Alert.alert('Missing banner', 'Choose a banner image for your ad.');
+      return;
+    }
+    if (!Number.isFinite(amount) || amount < MIN_BUDGET) {
+      Alert.alert('Budget too low', `The minimum budget is ₹${MIN_BUDGET}.`);
+      return;
+    }
+    try {
+      setCreating(true);
+      const startDate = new Date();
+      const endDate = new Date(startDate.getTime() + durationDays * 24 * 60 * 60 * 1000);
+      await apiPostAuth('/seller/ads', {
+        title: title.trim(),
+        budget: amount,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        targetCategories,
+        bannerImageBase64: banner.base64,
+      });
+      setCreateVisible(false);
+      await loadCampaigns();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to create the campaign. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleToggle(campaign: Campaign) {
+    try {
+      setUpdatingId(campaign._id);
+      const action = campaign.isActive ? 'pause' : 'resume';
+      const res = await apiPostAuth<{ ad: Campaign }>(`/seller/ads/${campaign._id}/${action}`, {});
+      setCampaigns((prev) => prev.map((c) => (c._id === campaign._id ? res.ad : c)));
+      if (selected?._id === campaign._id) setSelected(res.ad);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to update the campaign.');
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  async function openPerformance(campaign: Campaign) {
+    setSelected(campaign);
+    setDaily([]);
+    setLoadingPerformance(true);
+    try {
+      const res = await apiGetAuth<{ ad: Campaign; daily: DailyPerformance[] }>(
+        `/seller/ads/${campaign._id}/performance`
+      );
+      setSelected(res.ad);
+      setDaily(res.daily || []);
+    } catch (error) {
+      console.error('[SellerAds] Failed to load performance', error);
+    } finally {
+      setLoadingPerformance(false);
+    }
+  }
+
+  const canToggle = (c: Campaign) => c.status !== 'ended' && c.status !== 'budget_spent';
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + spacing.md, paddingBottom: spacing.sm }]}>
+        <BackButton onPress={onBack} />
+        <Text style={styles.headerTitle}>Sponsored Ads</Text>
+        <Pressable onPress={openCreate} hitSlop={8}>
+          <Ionicons name="add" size={24} color={colors.primary} />
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scroll}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />}
+        >
+          {campaigns.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="megaphone-outline" size={64} color={colors.mutedForeground} />
+              <Text style={styles.emptyText}>No campaigns yet</Text>
+              <Text style={styles.emptySubtext}>
+                Promote your shop on Home and category pages. You only pay for views and taps, up to your budget.
+              </Text>
+              <Pressable style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }]} onPress={openCreate}>
+                <Text style={styles.primaryBtnText}>Create campaign</Text>
+              </Pressable>
+            </View>
+          ) : (
+            campaigns.map((c) => (
+              <Pressable
+                key={c._id}
+                onPress={() => openPerformance(c)}
+                style={({ pressed }) => [styles.card, SHADOW, pressed && { opacity: 0.95 }]}
+              >
+                <Image source={{ uri: c.bannerImage }} style={styles.cardBanner} resizeMode="cover" />
+                <View style={styles.cardBody}>
+                  <View style={styles.cardTitleRow}>
+                    <Text style={styles.cardTitle} numberOfLines={1}>{c.title}</Text>
+                    <View style={[styles.statusChip, c.status === 'running' && styles.statusChipRunning]}>
+                      <Text style={[styles.statusText, c.status === 'running' && styles.statusTextRunning]}>
+                        {STATUS_LABELS[c.status]}
+                      </Text>
+                    </View>
+                  </View>
+                  <Text style={styles.cardDates}>
+                    {formatDate(c.startDate)} – {formatDate(c.endDate)}
+                  </Text>
+                  <View style={styles.metricsRow}>
+                    <Metric label="Views" value={c.impressions.toLocaleString('en-IN')} />
+                    <Metric label="Taps" value={c.clicks.toLocaleString('en-IN')} />
+                    <Metric label="CTR" value={`${c.ctr}%`} />
+                    <Metric label="Spent" value={`${formatAmount(c.spent)} / ${formatAmount(c.budget)}`} />
+                  </View>
+                  {canToggle(c) && (
+                    <Pressable
+                      onPress={() => handleToggle(c)}
+                      disabled={updatingId === c._id}
+                      style={({ pressed }) => [styles.toggleBtn, pressed && { opacity: 0.8 }]}
+                    >
+                      {updatingId === c._id ? (
+                        <ActivityIndicator size="small" color={colors.primary} />
+                      ) : (
+                        <Text style={styles.toggleText}>{c.isActive ? 'Pause campaign' : 'Resume campaign'}</Text>
+                      )}
+                    </Pressable>
+                  )}
+                </View>
+              </Pressable>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      {/* Create campaign */}
+      <Modal visible={createVisible} transparent animationType="slide" onRequestClose={() => setCreateVisible(false)}>
+        <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+          <View style={styles.modalOverlay}>
+            <Pressable style={StyleSheet.absoluteFill} onPress={() => setCreateVisible(false)} />
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>New campaign</Text>
+                <Pressable onPress={() => setCreateVisible(false)} hitSlop={8}>
+                  <Ionicons name="close" size={22} color={colors.foreground} />
+                </Pressable>
+              </View>
+              <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                <Pressable onPress={pickBanner} style={styles.bannerPicker}>
+                  {banner ? (
+                    <Image source={{ uri: banner.uri }} style={styles.bannerPreview} resizeMode="cover" />
+                  ) : (
+                    <View style={styles.bannerPlaceholder}>
+                      <Ionicons name="image-outline" size={28} color={colors.mutedForeground} />
+                      <Text style={styles.bannerPlaceholderText}>Choose a banner image</Text>
+                    </View>
+                  )}
+                </Pressable>
+
+                <Text style={styles.inputLabel}>Title</Text>
+                <TextInput
+                  style={styles.input}
+                  value={title}
+                  onChangeText={setTitle}
+                  placeholder="e.g. Festive sale – up to 30% off"
+                  placeholderTextColor={colors.mutedForeground}
+                  maxLength={80}
+                />
+
+                <Text style={styles.inputLabel}>Total budget (₹)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={budget}
+                  onChangeText={setBudget}
+                  placeholder={`At least ${MIN_BUDGET}`}
+                  placeholderTextColor={colors.mutedForeground}
+                  keyboardType="numeric"
+                />
+
+                <Text style={styles.inputLabel}>Run for</Text>
+                <View style={styles.chipRow}>
+                  {DURATIONS.map((d) => (
+                    <Pressable
+                      key={d}
+                      onPress={() => setDurationDays(d)}
+                      style={[styles.chip, durationDays === d && styles.chipSelected]}
+                    >
+                      <Text style={[styles.chipText, durationDays === d && styles.chipTextSelected]}>{d} days</Text>
+                    </Pressable>
+                  ))}
+                </View>
+                {Number(budget) > 0 && (
+                  <Text style={styles.hint}>About {formatAmount(Math.round(Number(budget) / durationDays))} a day</Text>
+                )}
+
+                <Text style={styles.inputLabel}>Show in categories</Text>
+                <Text style={styles.hint}>Leave empty to show on Home and every category.</Text>
+                <View style={styles.chipRow}>
+                  {categories.map((cat) => {
+                    const isSelected = targetCategories.includes(cat._id);
+                    return (
+                      <Pressable
+                        key={cat._id}
+                        onPress={() => toggleCategory(cat._id)}
+                        style={[styles.chip, isSelected && styles.chipSelected]}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{cat.name}</Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <Pressable
+                  style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }, creating && { opacity: 0.6 }]}
+                  onPress={handleCreate}
+                  disabled={creating}
+                >
+                  {creating ? (
+                    <ActivityIndicator color={colors.card} />
+                  ) : (
+                    <Text style={styles.primaryBtnText}>Start campaign</Text>
+                  )}
+                </Pressable>
+              </ScrollView>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Campaign performance */}
+      <Modal visible={!!selected} transparent animationType="slide" onRequestClose={() => setSelected(null)}>
+        <View style={styles.modalOverlay}>
+          <Pressable style={StyleSheet.absoluteFill} onPress={() => setSelected(null)} />
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle} numberOfLines={1}>{selected?.title}</Text>
+              <Pressable onPress={() => setSelected(null)} hitSlop={8}>
+                <Ionicons name="close" size={22} color={colors.foreground} />
+              </Pressable>
+            </View>
+            {selected && (
+              <View style={styles.metricsRow}>
+                <Metric label="Views" value={selected.impressions.toLocaleString('en-IN')} />
+                <Metric label="Taps" value={selected.clicks.toLocaleString('en-IN')} />
+                <Metric label="CTR" value={`${selected.ctr}%`} />
+                <Metric label="Left" value={formatAmount(selected.remainingBudget)} />
+              </View>
+            )}
+            <Text style={styles.sectionTitle}>Daily performance</Text>
+            {loadingPerformance ? (
+              <ActivityIndicator color={colors.primary} style={{ marginVertical: 20 }} />
+            ) : daily.length === 0 ? (
+              <Text style={styles.hint}>No views yet.</Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 320 }}>
+                <View style={[styles.dailyRow, styles.dailyHeader]}>
+                  <Text style={[styles.dailyCell, styles.dailyDate]}>Date</Text>
+                  <Text style={styles.dailyCell}>Views</Text>
+                  <Text style={styles.dailyCell}>Taps</Text>
+                  <Text style={styles.dailyCell}>Spent</Text>
+                </View>
+                {daily.map((d) => (
+                  <View key={d.date} style={styles.dailyRow}>
+                    <Text style={[styles.dailyCell, styles.dailyDate]}>{formatDate(d.date)}</Text>
+                    <Text style={styles.dailyCell}>{d.impressions}</Text>
+                    <Text style={styles.dailyCell}>{d.clicks}</Text>
+                    <Text style={styles.dailyCell}>{formatAmount(d.spent)}</Text>
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+            {selected && canToggle(selected) && (
+              <Pressable
+                style={({ pressed }) => [styles.primaryBtn, pressed && { opacity: 0.9 }]}
+                onPress={() => handleToggle(selected)}
+                disabled={updatingId === selected._id}
+              >
+                <Text style={styles.primaryBtnText}>{selected.isActive ? 'Pause campaign' : 'Resume campaign'}</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.metric}>
+      <Text style={styles.metricValue} numberOfLines={1}>{value}</Text>
+      <Text style={styles.metricLabel}>{label}</Text>
+    </View>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Styles
+// -----------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.background },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    backgroundColor: colors.card,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700', color: colors.foreground },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  scroll: { flex: 1 },
+  scrollContent: { padding: 16 },
+  emptyContainer: { alignItems: 'center', paddingHorizontal: 16, paddingTop: 60 },
+  emptyText: { marginTop: 16, fontSize: 18, fontWeight: '600', color: colors.foreground },
+  emptySubtext: { marginTop: 8, fontSize: 14, color: colors.mutedForeground, textAlign: 'center' },
+
+  card: { backgroundColor: colors.card, borderRadius: radius.lg, marginBottom: 16, overflow: 'hidden' },
+  cardBanner: { width: '100%', aspectRatio: 1200 / 628, backgroundColor: colors.muted },
+  cardBody: { padding: 12 },
+  cardTitleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', gap: 8 },
+  cardTitle: { flex: 1, fontSize: 16, fontWeight: '700', color: colors.foreground },
+  cardDates: { fontSize: 12, color: colors.mutedForeground, marginTop: 2 },
+  statusChip: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: radius.sm, backgroundColor: colors.muted },
+  statusChipRunning: { backgroundColor: colors.success },
+  statusText: { fontSize: 11, fontWeight: '600', color: colors.mutedForeground },
+  statusTextRunning: { color: colors.card },
+  metricsRow: { flexDirection: 'row', marginTop: 12, marginBottom: 4 },
+  metric: { flex: 1 },
+  metricValue: { fontSize: 14, fontWeight: '700', color: colors.foreground },
+  metricLabel: { fontSize: 11, color: colors.mutedForeground, marginTop: 2 },
+  toggleBtn: {
+    marginTop: 10,
+    paddingVertical: 8,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+  },
+  toggleText: { fontSize: 13, fontWeight: '600', color: colors.primary },
+
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.3)', justifyContent: 'flex-end' },
+  modalContent: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    padding: 16,
+    maxHeight: '85%',
+  },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  modalTitle: { flex: 1, fontSize: 18, fontWeight: '700', color: colors.foreground, marginRight: 8 },
+  sectionTitle: { fontSize: 15, fontWeight: '700', color: colors.foreground, marginTop: 12, marginBottom: 8 },
+  bannerPicker: { borderRadius: radius.lg, overflow: 'hidden', marginBottom: 8 },
+  bannerPreview: { width: '100%', aspectRatio: 1200 / 628 },
+  bannerPlaceholder: {
+    width: '100%',
+    aspectRatio: 1200 / 628,
+    backgroundColor: colors.muted,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  bannerPlaceholderText: { marginTop: 6, fontSize: 13, color: colors.mutedForeground },
+  inputLabel: { fontSize: 13, fontWeight: '600', color: colors.foreground, marginTop: 12, marginBottom: 6 },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: colors.foreground,
+  },
+  hint: { fontSize: 12, color: colors.mutedForeground, marginTop: 4 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 6 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: radius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: { borderColor: colors.primary, backgroundColor: colors.primary },
+  chipText: { fontSize: 13, color: colors.foreground },
+  chipTextSelected: { color: colors.card, fontWeight: '600' },
+  primaryBtn: {
+    marginTop: 20,
+    paddingVertical: 12,
+    borderRadius: radius.md,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  primaryBtnText: { fontSize: 15, fontWeight: '600', color: colors.card },
+  dailyRow: { flexDirection: 'row', paddingVertical: 8, borderBottomWidth: 1, borderBottomColor: colors.border },
+  dailyHeader: { borderBottomColor: colors.foreground },
+  dailyCell: { flex: 1, fontSize: 13, color: colors.foreground, textAlign: 'right' },
+  dailyDate: { textAlign: 'left' },
+});
@@ -26,6 +26,7 @@ import { apiGet, apiPost, apiGetAuth, apiPostAuth, apiPutAuth, apiDeleteAuth } f
 import { useAuth } from '../../context/AuthContext';
 import { useChat } from '../../context/ChatContext';
 import { useNotificationContext } from '../../context/NotificationContext';
+import { getCurrentLocation } from '../../hooks/useCurrentLocation';
 
 // -----------------------------------------------------------------------------
 // Constants
@@ -38,6 +39,17 @@ const CARD_RADIUS = radius.lg;
 const GAP = 12;
 const SECTION_GAP = 20;
 
+type DeliveryZoneType = 'anywhere' | 'pincodes' | 'radius';
+
+const DELIVERY_ZONES: { id: DeliveryZoneType; label: string }[] = [
+  { id: 'anywhere', label: 'Anywhere' },
+  { id: 'pincodes', label: 'Pincodes' },
+  { id: 'radius', label: 'Within radius' },
+];
+
+/** A delivery slot being edited; `_id` is kept for existing slots so their bookings still count */
+type DeliverySlotDraft = { _id?: string; start: string; end: string; capacity: string };
+
 // -----------------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------------
@@ -53,11 +65,12 @@ type OrderStats = {
 
 type Props = {
   onOpenReelInsights?: () => void;
+  onOpenAds?: () => void;
   onOpenReviews?: () => void;
   onOpenConversations?: () => void;
 };
 
-export default function SellerDashboardScreen({ onOpenReelInsights, onOpenReviews, onOpenConversations }: Props = {}) {
+export default function SellerDashboardScreen({ onOpenReelInsights, onOpenAds, onOpenReviews, onOpenConversations }: Props = {}) {
   const insets = useSafeAreaInsets();
   const { shop, user, refreshUser } = useAuth();
   const { totalUnread } = useChat();
@@ -268,6 +281,145 @@ export default function SellerDashboardScreen({ onOpenReelInsights, onOpenReview
     }
   };
 
+  // Pin the shop at the seller's current position so it shows up in "Near you"
+  const [pinningLocation, setPinningLocation] = useState(false);
+  const isLocationPinned = !!(shop as any)?.location?.coordinates;
+
+  const handlePinLocation = async () => {
+    if (!shopId) return;
+    try {
+      setPinningLocation(true);
+      const loc = await getCurrentLocation({ precise: true });
+      if (!loc) {
+        Alert.alert('Location needed', 'Allow location access while you are at your shop to pin it on the map.');
+        return;
+      }
+      await apiPutAuth(`/shops/${shopId}`, { location: loc });
+      await refreshUser();
+      Alert.alert('Shop pinned', 'Customers nearby will now see your shop under "Near you".');
+    } catch (e) {
+      console.warn('[SellerDashboard] Failed to pin shop location', e);
+      Alert.alert('Error', 'Could not pin your shop location. Please try again.');
+    } finally {
+      setPinningLocation(false);
+    }
+  };
+
+  // Delivery area & fees
+  const [deliveryModalVisible, setDeliveryModalVisible] = useState(false);
+  const [deliveryZone, setDeliveryZone] = useState<DeliveryZoneType>('anywhere');
+  const [deliveryPincodes, setDeliveryPincodes] = useState('');
+  const [deliveryRadiusKm, setDeliveryRadiusKm] = useState('5');
+  const [deliveryBaseFee, setDeliveryBaseFee] = useState('0');
+  const [deliveryPerKmFee, setDeliveryPerKmFee] = useState('0');
+  const [deliveryFreeKm, setDeliveryFreeKm] = useState('0');
+  const [deliveryFreeAbove, setDeliveryFreeAbove] = useState('');
+  const [savingDelivery, setSavingDelivery] = useState(false);
+
+  const openDeliveryModal = () => {
+    const d = (shop as any)?.delivery || {};
+    setDeliveryZone(d.zoneType || 'anywhere');
+    setDeliveryPincodes((d.pincodes || []).join(', '));
+    setDeliveryRadiusKm(String(d.radiusKm ?? 5));
+    setDeliveryBaseFee(String(d.baseFee ?? 0));
+    setDeliveryPerKmFee(String(d.perKmFee ?? 0));
+    setDeliveryFreeKm(String(d.freeKm ?? 0));
+    setDeliveryFreeAbove(d.freeAbove != null ? String(d.freeAbove) : '');
+    setDeliveryModalVisible(true);
+  };
+
+  const handleSaveDelivery = async () => {
+    if (!shopId) return;
+    try {
+      setSavingDelivery(true);
+      await apiPutAuth(`/shops/${shopId}`, {
+        delivery: {
+          zoneType: deliveryZone,
+          pincodes: deliveryPincodes,
+          radiusKm: deliveryRadiusKm || undefined,
+          baseFee: deliveryBaseFee || 0,
+          perKmFee: deliveryPerKmFee || 0,
+          freeKm: deliveryFreeKm || 0,
+          freeAbove: deliveryFreeAbove.trim() ? deliveryFreeAbove : null,
+        },
+      });
+      await refreshUser();
+      setDeliveryModalVisible(false);
+      Alert.alert('Saved', 'Delivery area and fees updated.');
+    } catch (e: any) {
+      console.warn('[SellerDashboard] Failed to save delivery settings', e);
+      Alert.alert('Error', e?.message || 'Failed to update delivery settings');
+    } finally {
+      setSavingDelivery(false);
+    }
+  };
+
+  // Scheduled delivery slots
+  const [slotsModalVisible, setSlotsModalVisible] = useState(false);
+  const [slotsEnabled, setSlotsEnabled] = useState(false);
+  const [slotDays, setSlotDays] = useState<string[]>([]);
+  const [slotDrafts, setSlotDrafts] = useState<DeliverySlotDraft[]>([]);
+  const [savingSlots, setSavingSlots] = useState(false);
+
+  const openSlotsModal = () => {
+    const d = (shop as any)?.deliverySlots || {};
+    setSlotsEnabled(!!d.enabled);
+    setSlotDays(d.days || ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+    setSlotDrafts(
+      (d.slots || []).map((sl: any) => ({ _id: sl._id, start: sl.start, end: sl.end, capacity: String(sl.capacity) }))
+    );
+    setSlotsModalVisible(true);
+  };
+
+  const toggleSlotDay = (dayId: string) =>
+    setSlotDays((prev) => (prev.includes(dayId) ? prev.filter((d) => d !== dayId) : [...prev, dayId]));
+
+  const updateSlotDraft = (index: number, patch: Partial<DeliverySlotDraft>) =>
+    setSlotDrafts((prev) => prev.map((sl, i) => (i === index ? { ...sl, ...patch } : sl)));
+
+  const addSlotDraft = () =>
+    setSlotDrafts((prev) => {
+      // Start the new slot where the last one ends
+      const last = prev[prev.length - 1];
+      const [h, m] = (last?.end || '08:00').split(':').map(Number);
+      const start = `${String(h).padStart(2, '0')}:${String(m || 0).padStart(2, '0')}`;
+      const end = `${String(Math.min(h + 2, 23)).padStart(2, '0')}:${String(m || 0).padStart(2, '0')}`;
+      return [...prev, { start, end, capacity: last?.capacity || '5' }];
+    });
+
+  const handleSaveSlots = async () => {
+    if (!shopId) return;
+    try {
+      setSavingSlots(true);
+      await apiPutAuth(`/shops/${shopId}`, {
+        deliverySlots: {
+          enabled: slotsEnabled,
+          days: slotDays,
+          slots: slotDrafts.map((sl) => ({ _id: sl._id, start: sl.start.trim(), end: sl.end.trim(), capacity: sl.capacity })),
+        },
+      });
+      await refreshUser();
+      setSlotsModalVisible(false);
+      Alert.alert('Saved', slotsEnabled ? 'Customers can now pick a delivery slot.' : 'Delivery slots turned off.');
+    } catch (e: any) {
+      console.warn('[SellerDashboard] Failed to save delivery slots', e);
+      Alert.alert('Error', e?.message || 'Failed to update delivery slots');
+    } finally {
+      setSavingSlots(false);
+    }
+  };
+
+  const confirmPinLocation = () => {
+    Alert.alert(
+      isLocationPinned ? 'Update shop pin?' : 'Pin shop location?',
+      'Use your current location as the shop\'s position. Do this while you are at the shop.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Use my location', onPress: handlePinLocation },
+      ]
+    );
+  };
+
   // Open edit modal
   const openEditModal = (field: 'name' | 'description' | 'categories' | 'returnDays' | 'exchangeDays') => {
     setEditField(field);
@@ -609,6 +761,10 @@ export default function SellerDashboardScreen({ onOpenReelInsights, onOpenReview
     } catch (error: any) {
       console.error('[SellerDashboard] Failed to upload reel', error);
       const msg = error?.body?.message || error?.message || 'There was a problem uploading your reel.';
+      if (error?.status === 402) {
+        Alert.alert('Plan limit reached', `${msg} You can change your plan from Profile.`);
+        return;
+      }
       const hint = (error?.status === 413 || /payload|too large|limit/i.test(String(msg)))
         ? ' Try a shorter or smaller video (under ~3 minutes).'
         : ' Please try again.';
@@ -794,6 +950,32 @@ export default function SellerDashboardScreen({ onOpenReelInsights, onOpenReview
           <Ionicons name="repeat-outline" size={22} color={colors.primary} />
           <Text style={styles.quickLabel}>Exchange (days)</Text>
         </Pressable>
+        <Pressable
+          style={({ pressed }) => [styles.quickCard, SHADOW, pressed && styles.pressed]}
+          onPress={confirmPinLocation}
+          disabled={pinningLocation}
+        >
+          {pinningLocation ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name={isLocationPinned ? 'navigate' : 'navigate-outline'} size={22} color={colors.primary} />
+          )}
+          <Text style={styles.quickLabel}>{isLocationPinned ? 'Update map pin' : 'Pin shop on map'}</Text>
+        </Pressable>
+        <Pressable
+          style={({ pressed }) => [styles.quickCard, SHADOW, pressed && styles.pressed]}
+          onPress={openDeliveryModal}
+        >
+          <Ionicons name="bicycle-outline" size={22} color={colors.primary} />
+          <Text style={styles.quickLabel}>Delivery area & fees</Text>
+        </Pressable>
+        <Pressable
+          style={({ pressed }) => [styles.quickCard, SHADOW, pressed && styles.pressed]}
+          onPress={openSlotsModal}
+        >
+          <Ionicons name="calendar-outline" size={22} color={colors.primary} />
+          <Text style={styles.quickLabel}>Delivery slots</Text>
+        </Pressable>
         <Pressable
           style={({ pressed }) => [styles.quickCard, SHADOW, pressed && styles.pressed]}
           onPress={handleUploadShopImage}
@@ -938,6 +1120,13 @@ export default function SellerDashboardScreen({ onOpenReelInsights, onOpenReview
           <Ionicons name="pricetag-outline" size={24} color={colors.primary} />
           <Text style={styles.actionLabel}>Promotions</Text>
         </Pressable>
+        <Pressable 
+          style={({ pressed }) => [styles.actionCard, SHADOW, pressed && styles.pressed]}
+          onPress={onOpenAds}
+        >
+          <Ionicons name="trending-up-outline" size={24} color={colors.primary} />
+          <Text style={styles.actionLabel}>Sponsored ads</Text>
+        </Pressable>
         <Pressable 
           style={({ pressed }) => [styles.actionCard, SHADOW, pressed && styles.pressed]}
           onPress={handleShareShop}
@@ -1090,6 +1279,306 @@ export default function SellerDashboardScreen({ onOpenReelInsights, onOpenReview
         </KeyboardAvoidingView>
       </Modal>
 
+      {/* Delivery area & fees modal */}
+      <Modal
+        visible={deliveryModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setDeliveryModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={0}
+        >
+          <View style={styles.editModalOverlay}>
+            <Pressable style={StyleSheet.absoluteFill} onPress={() => setDeliveryModalVisible(false)} />
+            <View style={styles.editModalContent}>
+              <View style={styles.editModalHeader}>
+                <Text style={styles.editModalTitle}>Delivery area & fees</Text>
+                <Pressable onPress={() => setDeliveryModalVisible(false)} hitSlop={8}>
+                  <Ionicons name="close" size={22} color={colors.foreground} />
+                </Pressable>
+              </View>
+
+              <ScrollView contentContainerStyle={styles.editModalScrollContent} showsVerticalScrollIndicator={false}>
+                <Text style={styles.editHint}>Where do you deliver?</Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 12 }}>
+                  {DELIVERY_ZONES.map((z) => {
+                    const active = deliveryZone === z.id;
+                    return (
+                      <Pressable
+                        key={z.id}
+                        onPress={() => setDeliveryZone(z.id)}
+                        style={[
+                          {
+                            paddingHorizontal: 12,
+                            paddingVertical: 6,
+                            borderRadius: radius.xxl,
+                            borderWidth: 1,
+                            borderColor: active ? colors.primary : colors.border,
+                            backgroundColor: active ? colors.secondary : colors.card,
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={{
+                            fontSize: 13,
+                            fontWeight: '600',
+                            color: active ? colors.primary : colors.foreground,
+                          }}
+                        >
+                          {z.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                {deliveryZone === 'pincodes' ? (
+                  <View style={{ marginTop: 16 }}>
+                    <Text style={styles.earnLabel}>Pincodes (comma separated)</Text>
+                    <TextInput
+                      style={[styles.editInput, { minHeight: 60 }]}
+                      value={deliveryPincodes}
+                      onChangeText={setDeliveryPincodes}
+                      placeholder="560001, 560002"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="numbers-and-punctuation"
+                      multiline
+                    />
+                  </View>
+                ) : null}
+
+                {deliveryZone === 'radius' ? (
+                  <View style={{ marginTop: 16 }}>
+                    <Text style={styles.earnLabel}>Deliver within (km)</Text>
+                    <TextInput
+                      style={styles.editInput}
+                      value={deliveryRadiusKm}
+                      onChangeText={setDeliveryRadiusKm}
+                      placeholder="5"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="decimal-pad"
+                    />
+                    {!isLocationPinned ? (
+                      <Text style={[styles.editHint, { marginTop: 6 }]}>Pin your shop on the map first so distances can be measured.</Text>
+                    ) : null}
+                  </View>
+                ) : null}
+
+                <Text style={[styles.editHint, { marginTop: 20 }]}>
+                  Delivery fee = base fee + per-km fee for every km beyond the free km.
+                </Text>
+                <View style={{ flexDirection: 'row', gap: 12, marginTop: 12 }}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.earnLabel}>Base fee (₹)</Text>
+                    <TextInput
+                      style={styles.editInput}
+                      value={deliveryBaseFee}
+                      onChangeText={setDeliveryBaseFee}
+                      placeholder="0"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.earnLabel}>Per km (₹)</Text>
+                    <TextInput
+                      style={styles.editInput}
+                      value={deliveryPerKmFee}
+                      onChangeText={setDeliveryPerKmFee}
+                      placeholder="0"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+                <View style={{ flexDirection: 'row', gap: 12, marginTop: 12 }}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.earnLabel}>Free km</Text>
+                    <TextInput
+                      style={styles.editInput}
+                      value={deliveryFreeKm}
+                      onChangeText={setDeliveryFreeKm}
+                      placeholder="0"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.earnLabel}>Free above (₹)</Text>
+                    <TextInput
+                      style={styles.editInput}
+                      value={deliveryFreeAbove}
+                      onChangeText={setDeliveryFreeAbove}
+                      placeholder="Never"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.editSaveBtn,
+                    pressed && { opacity: 0.9 },
+                    savingDelivery && { opacity: 0.6 },
+                  ]}
+                  onPress={handleSaveDelivery}
+                  disabled={savingDelivery}
+                >
+                  {savingDelivery ? (
+                    <ActivityIndicator color={colors.card} />
+                  ) : (
+                    <Text style={styles.editSaveBtnText}>Save delivery settings</Text>
+                  )}
+                </Pressable>
+              </ScrollView>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Delivery slots modal */}
+      <Modal
+        visible={slotsModalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setSlotsModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoid}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={0}
+        >
+          <View style={styles.editModalOverlay}>
+            <Pressable style={StyleSheet.absoluteFill} onPress={() => setSlotsModalVisible(false)} />
+            <View style={styles.editModalContent}>
+              <View style={styles.editModalHeader}>
+                <Text style={styles.editModalTitle}>Delivery slots</Text>
+                <Pressable onPress={() => setSlotsModalVisible(false)} hitSlop={8}>
+                  <Ionicons name="close" size={22} color={colors.foreground} />
+                </Pressable>
+              </View>
+
+              <ScrollView contentContainerStyle={styles.editModalScrollContent} showsVerticalScrollIndicator={false}>
+                <View style={styles.timingRow}>
+                  <Text style={styles.timingLabel}>Customers pick a delivery slot</Text>
+                  <Switch
+                    value={slotsEnabled}
+                    onValueChange={setSlotsEnabled}
+                    trackColor={{ false: colors.border, true: colors.secondary }}
+                    thumbColor={slotsEnabled ? colors.primary : colors.mutedForeground}
+                  />
+                </View>
+                <Text style={styles.editHint}>
+                  Each slot takes up to its capacity in orders per day. When it is full, customers choose another.
+                </Text>
+
+                <Text style={[styles.editHint, { marginTop: 20 }]}>Days you deliver</Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 12 }}>
+                  {WEEK_DAYS.map((d) => {
+                    const active = slotDays.includes(d.id);
+                    return (
+                      <Pressable
+                        key={d.id}
+                        onPress={() => toggleSlotDay(d.id)}
+                        style={[
+                          {
+                            paddingHorizontal: 12,
+                            paddingVertical: 6,
+                            borderRadius: radius.xxl,
+                            borderWidth: 1,
+                            borderColor: active ? colors.primary : colors.border,
+                            backgroundColor: active ? colors.secondary : colors.card,
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={{
+                            fontSize: 13,
+                            fontWeight: '600',
+                            color: active ? colors.primary : colors.foreground,
+                          }}
+                        >
+                          {d.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <Text style={[styles.editHint, { marginTop: 20 }]}>Slots (HH:MM) and orders per slot</Text>
+                {slotDrafts.map((sl, i) => (
+                  <View key={sl._id || `new-${i}`} style={{ flexDirection: 'row', alignItems: 'flex-end', gap: 8, marginTop: 12 }}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.earnLabel}>Start</Text>
+                      <TextInput
+                        style={styles.editInput}
+                        value={sl.start}
+                        onChangeText={(v) => updateSlotDraft(i, { start: v })}
+                        placeholder="10:00"
+                        placeholderTextColor={colors.mutedForeground}
+                      />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.earnLabel}>End</Text>
+                      <TextInput
+                        style={styles.editInput}
+                        value={sl.end}
+                        onChangeText={(v) => updateSlotDraft(i, { end: v })}
+                        placeholder="12:00"
+                        placeholderTextColor={colors.mutedForeground}
+                      />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.earnLabel}>Orders</Text>
+                      <TextInput
+                        style={styles.editInput}
+                        value={sl.capacity}
+                        onChangeText={(v) => updateSlotDraft(i, { capacity: v })}
+                        placeholder="5"
+                        placeholderTextColor={colors.mutedForeground}
+                        keyboardType="number-pad"
+                      />
+                    </View>
+                    <Pressable
+                      onPress={() => setSlotDrafts((prev) => prev.filter((_, j) => j !== i))}
+                      hitSlop={8}
+                      style={{ paddingBottom: 12 }}
+                      accessibilityLabel="Remove slot"
+                    >
+                      <Ionicons name="trash-outline" size={20} color={colors.destructive} />
+                    </Pressable>
+                  </View>
+                ))}
+                <Pressable onPress={addSlotDraft} style={{ flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 12 }}>
+                  <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+                  <Text style={{ fontSize: 14, fontWeight: '600', color: colors.primary }}>Add slot</Text>
+                </Pressable>
+
+                <Pressable
+                  style={({ pressed }) => [
+                    styles.editSaveBtn,
+                    pressed && { opacity: 0.9 },
+                    savingSlots && { opacity: 0.6 },
+                  ]}
+                  onPress={handleSaveSlots}
+                  disabled={savingSlots}
+                >
+                  {savingSlots ? (
+                    <ActivityIndicator color={colors.card} />
+                  ) : (
+                    <Text style={styles.editSaveBtnText}>Save delivery slots</Text>
+                  )}
+                </Pressable>
+              </ScrollView>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
       {/* Edit Shop Modal */}
       <Modal visible={editModalVisible} transparent animationType="slide">
         <KeyboardAvoidingView
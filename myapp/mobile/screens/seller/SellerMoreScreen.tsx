@@ -1,10 +1,11 @@
-import React from 'react';
-import { Linking, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Linking, Pressable, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { colors } from '../../theme/colors';
 import { radius } from '../../theme/spacing';
+import { apiGetAuth } from '../../api/client';
 
 const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
 const PAD = 16;
@@ -12,16 +13,133 @@ const PAD = 16;
 const PRIVACY_URL = 'https://bazaario-privacypolicy.vercel.app/';
 const TERMS_URL = 'https://bazaario-privacypolicy.vercel.app/terms';
 
+type PayoutStatus = 'processing' | 'paid' | 'failed';
+
+type Payout = {
+  _id: string;
+  amount: number;
+  status: PayoutStatus;
+  bank: { accountLast4: string; bankName?: string };
+  reference?: string;
+  failureReason?: string;
+  paidAt?: string;
+  createdAt: string;
+};
+
+type LedgerSummary = {
+  balance: number;
+  available: number;
+  onHold: number;
+  totalPaidOut: number;
+  bankDetailsMissing: boolean;
+  nextPayoutAfter: string | null;
+  holdDays: number;
+  intervalDays: number;
+};
+
+const PAYOUT_STATUS_CONFIG: Record<PayoutStatus, { label: string; color: string }> = {
+  processing: { label: 'Processing', color: '#F59E0B' },
+  paid: { label: 'Paid', color: colors.success },
+  failed: { label: 'Failed', color: colors.destructive },
+};
+
+const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}₹${Math.abs(amount).toLocaleString('en-IN')}`;
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
 export default function SellerMoreScreen() {
   const insets = useSafeAreaInsets();
+  const [summary, setSummary] = useState<LedgerSummary | null>(null);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [loadingPayouts, setLoadingPayouts] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchPayouts = useCallback(async () => {
+    try {
+      const data = await apiGetAuth<{ summary: LedgerSummary; payouts: Payout[] }>('/seller/payouts');
+      setSummary(data.summary);
+      setPayouts(data.payouts || []);
+    } catch (err) {
+      console.error('Failed to fetch payouts:', err);
+    } finally {
+      setLoadingPayouts(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPayouts();
+  }, [fetchPayouts]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchPayouts();
+  };
 
   return (
     <ScrollView
       style={styles.scroll}
       contentContainerStyle={[styles.content, { paddingTop: insets.top + 16, paddingBottom: 100 }]}
       showsVerticalScrollIndicator={false}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[colors.primary]} />}
     >
       <Text style={styles.title}>More</Text>
+
+      <Text style={styles.sectionTitle}>Payouts</Text>
+      <View style={[styles.card, styles.payoutCard, SHADOW]}>
+        {loadingPayouts ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : summary ? (
+          <>
+            <View style={styles.balanceRow}>
+              <View style={styles.balanceCell}>
+                <Text style={styles.balanceLabel}>Next payout</Text>
+                <Text style={styles.balanceValue}>{formatAmount(summary.available)}</Text>
+              </View>
+              <View style={styles.balanceCell}>
+                <Text style={styles.balanceLabel}>On hold</Text>
+                <Text style={styles.balanceValue}>{formatAmount(summary.onHold)}</Text>
+              </View>
+              <View style={styles.balanceCell}>
+                <Text style={styles.balanceLabel}>Paid out</Text>
+                <Text style={styles.balanceValue}>{formatAmount(summary.totalPaidOut)}</Text>
+              </View>
+            </View>
+            <Text style={styles.payoutHint}>
+              Earnings are held for {summary.holdDays} days after delivery, then paid out every {summary.intervalDays} days
+              {summary.nextPayoutAfter ? ` (next after ${formatDate(summary.nextPayoutAfter)})` : ''}.
+            </Text>
+            {summary.bankDetailsMissing && (
+              <View style={styles.bankWarning}>
+                <Ionicons name="alert-circle-outline" size={18} color={colors.destructive} />
+                <Text style={styles.bankWarningText}>Add your bank details in Profile to receive payouts.</Text>
+              </View>
+            )}
+            {payouts.slice(0, 5).map((payout) => {
+              const config = PAYOUT_STATUS_CONFIG[payout.status];
+              return (
+                <View key={payout._id} style={styles.payoutRow}>
+                  <View style={styles.payoutInfo}>
+                    <Text style={styles.payoutAmount}>{formatAmount(payout.amount)}</Text>
+                    <Text style={styles.payoutMeta}>
+                      {formatDate(payout.createdAt)} · A/c ending {payout.bank.accountLast4}
+                      {payout.reference ? ` · UTR ${payout.reference}` : ''}
+                    </Text>
+                    {payout.status === 'failed' && payout.failureReason ? (
+                      <Text style={styles.payoutFailure}>{payout.failureReason}</Text>
+                    ) : null}
+                  </View>
+                  <Text style={[styles.payoutStatus, { color: config.color }]}>{config.label}</Text>
+                </View>
+              );
+            })}
+            {payouts.length === 0 && <Text style={styles.payoutEmpty}>No payouts yet</Text>}
+          </>
+        ) : (
+          <Text style={styles.payoutEmpty}>Couldn't load payouts. Pull down to retry.</Text>
+        )}
+      </View>
+
+      <Text style={styles.sectionTitle}>General</Text>
       <View style={[styles.card, SHADOW]}>
         <Pressable style={({ pressed }) => [styles.row, pressed && styles.rowPressed, styles.rowBorder]}>
           <Ionicons name="settings-outline" size={22} color={colors.primary} />
@@ -63,6 +181,22 @@ const styles = StyleSheet.create({
   scroll: { flex: 1, backgroundColor: colors.background },
   content: { paddingHorizontal: PAD },
   title: { fontSize: 22, fontWeight: '700', color: colors.foreground, marginBottom: 20 },
+  sectionTitle: { fontSize: 13, fontWeight: '600', color: colors.mutedForeground, textTransform: 'uppercase', marginBottom: 8 },
+  payoutCard: { padding: PAD, marginBottom: 24, gap: 12 },
+  balanceRow: { flexDirection: 'row', gap: 8 },
+  balanceCell: { flex: 1, backgroundColor: colors.muted, borderRadius: radius.md, padding: 10 },
+  balanceLabel: { fontSize: 12, color: colors.mutedForeground },
+  balanceValue: { fontSize: 16, fontWeight: '700', color: colors.foreground, marginTop: 2 },
+  payoutHint: { fontSize: 12, color: colors.mutedForeground },
+  bankWarning: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  bankWarningText: { flex: 1, fontSize: 13, color: colors.destructive },
+  payoutRow: { flexDirection: 'row', alignItems: 'center', paddingTop: 12, borderTopWidth: 1, borderTopColor: colors.border },
+  payoutInfo: { flex: 1 },
+  payoutAmount: { fontSize: 15, fontWeight: '600', color: colors.foreground },
+  payoutMeta: { fontSize: 12, color: colors.mutedForeground, marginTop: 2 },
+  payoutFailure: { fontSize: 12, color: colors.destructive, marginTop: 2 },
+  payoutStatus: { fontSize: 13, fontWeight: '600' },
+  payoutEmpty: { fontSize: 13, color: colors.mutedForeground },
   card: { backgroundColor: colors.card, borderRadius: radius.lg, overflow: 'hidden' },
   row: { flexDirection: 'row', alignItems: 'center', padding: PAD, gap: 12, alignSelf: 'stretch', width: '100%' },
   rowPressed: { backgroundColor: colors.muted },
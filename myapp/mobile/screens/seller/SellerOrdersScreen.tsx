@@ -1,11 +1,11 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { ActivityIndicator, Alert, Pressable, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { ActivityIndicator, Alert, Image, Linking, Modal, Pressable, RefreshControl, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 
 import { colors } from '../../theme/colors';
 import { radius } from '../../theme/spacing';
-import { apiGetAuth, apiPutAuth } from '../../api/client';
+import { apiGetAuth, apiPostAuth, apiPutAuth, apiDeleteAuth } from '../../api/client';
 import { useChat } from '../../context/ChatContext';
 
 const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
@@ -13,17 +13,45 @@ const PAD = 16;
 
 type OrderStatus = 'pending' | 'confirmed' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
 
+type AgentStep = 'assigned' | 'picked_up' | 'out_for_delivery' | 'delivered';
+
+/** The delivery partner carrying an order; the customer's OTP is never sent to the seller */
+type AgentDelivery = { agentId: string; name: string; phone: string; status: AgentStep };
+
+type DeliveryAgent = { _id: string; name: string; phone: string; activeOrders: number };
+
 type Order = {
   _id: string;
   customerId: { name?: string; phone?: string } | null;
   shopId: { name?: string } | null;
-  items: { name: string; quantity: number; price: number }[];
+  items: { name: string; variantLabel?: string; quantity: number; price: number }[];
   totalAmount: number;
   status: OrderStatus;
-  deliveryAddress: { line1: string; city: string };
+  paymentStatus?: string;
+  fulfilmentType?: 'delivery' | 'pickup';
+  deliveryAddress?: { line1: string; city: string };
+  /** Collection slot; the code itself is only given to the customer */
+  pickup?: { slot: { date: string; start: string; end: string }; verifiedAt?: string };
+  agentDelivery?: AgentDelivery;
   createdAt: string;
 };
 
+const AGENT_STEP_LABELS: Record<AgentStep, string> = {
+  assigned: 'Assigned',
+  picked_up: 'Picked up',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+};
+
+/** A partner can be given the order from confirmation until they collect it */
+function canAssignAgent(order: Order): boolean {
+  return (
+    order.fulfilmentType !== 'pickup' &&
+    ['confirmed', 'preparing', 'ready'].includes(order.status) &&
+    (!order.agentDelivery || order.agentDelivery.status === 'assigned')
+  );
+}
+
 // Display labels for seller: Orders placed → Ready for dispatch → Dispatched → Delivered
 const STATUS_CONFIG: Record<OrderStatus, { label: string; color: string; bg: string }> = {
   pending: { label: 'Orders placed', color: '#92400E', bg: '#FEF3C7' },
@@ -34,28 +62,97 @@ const STATUS_CONFIG: Record<OrderStatus, { label: string; color: string; bg: str
   cancelled: { label: 'Cancelled', color: '#991B1B', bg: '#FEE2E2' },
 };
 
+// Pickup orders: Orders placed → Packing → Ready for pickup → Picked up (after the customer's code)
+const PICKUP_STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  preparing: 'Packing',
+  ready: 'Ready for pickup',
+  delivered: 'Picked up',
+};
+
+function statusConfigFor(order: Order, status: OrderStatus = order.status) {
+  const config = STATUS_CONFIG[status];
+  const pickupLabel = order.fulfilmentType === 'pickup' ? PICKUP_STATUS_LABELS[status] : undefined;
+  return pickupLabel ? { ...config, label: pickupLabel } : config;
+}
+
+function formatPickupSlot(slot: { date: string; start: string; end: string }): string {
+  const [, month, day] = slot.date.split('-').map(Number);
+  const monthName = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][month - 1];
+  return `${day} ${monthName}, ${slot.start} - ${slot.end}`;
+}
+
+type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'cancelled' | 'received' | 'refunded' | 'replaced';
+
+type ReturnRequest = {
+  _id: string;
+  orderId: string;
+  customerId: { name?: string; phone?: string } | null;
+  type: 'return' | 'exchange';
+  status: ReturnStatus;
+  items: { name: string; variantLabel?: string; quantity: number }[];
+  reason: string;
+  details?: string;
+  images: string[];
+  refundAmount?: number;
+  createdAt: string;
+};
+
+const RETURN_STATUS_CONFIG: Record<ReturnStatus, { label: string; color: string; bg: string }> = {
+  requested: { label: 'New request', color: '#92400E', bg: '#FEF3C7' },
+  approved: { label: 'Awaiting item', color: '#6B21A8', bg: '#F3E8FF' },
+  rejected: { label: 'Declined', color: '#991B1B', bg: '#FEE2E2' },
+  cancelled: { label: 'Withdrawn', color: '#6B7280', bg: '#F3F4F6' },
+  received: { label: 'Received', color: '#065F46', bg: '#D1FAE5' },
+  refunded: { label: 'Refunded', color: '#166534', bg: '#BBF7D0' },
+  replaced: { label: 'Replacement sent', color: '#166534', bg: '#BBF7D0' },
+};
+
 const TABS = [
   { key: 'all', label: 'All' },
   { key: 'orders_placed', label: 'Orders placed' },
   { key: 'preparing', label: 'Ready for dispatch' },
   { key: 'ready', label: 'Dispatched' },
   { key: 'delivered', label: 'Delivered' },
+  { key: 'pickups', label: 'Pickups' },
+  { key: 'returns', label: 'Returns' },
 ];
 
 type Props = { onOpenConversations?: () => void };
 
 export default function SellerOrdersScreen({ onOpenConversations }: Props = {}) {
   const insets = useSafeAreaInsets();
-  const { totalUnread } = useChat();
+  const { totalUnread, socket } = useChat();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState('all');
   const [updatingOrder, setUpdatingOrder] = useState<string | null>(null);
+  const [returnRequests, setReturnRequests] = useState<ReturnRequest[]>([]);
+  const [rejectingRequest, setRejectingRequest] = useState<ReturnRequest | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+  const [openingInvoiceId, setOpeningInvoiceId] = useState<string | null>(null);
+  const [verifyingOrder, setVerifyingOrder] = useState<Order | null>(null);
+  const [pickupCode, setPickupCode] = useState('');
+  const [verifyingCode, setVerifyingCode] = useState(false);
+  const [assigningOrder, setAssigningOrder] = useState<Order | null>(null);
+  const [agents, setAgents] = useState<DeliveryAgent[]>([]);
+  const [agentsLoading, setAgentsLoading] = useState(false);
+  const [assigningAgentId, setAssigningAgentId] = useState<string | null>(null);
+  const [newAgentName, setNewAgentName] = useState('');
+  const [newAgentPhone, setNewAgentPhone] = useState('');
+  const [addingAgent, setAddingAgent] = useState(false);
 
   const fetchOrders = useCallback(async () => {
     try {
-      const statusParam = (activeTab === 'all' || activeTab === 'orders_placed') ? '' : `?status=${activeTab}`;
+      if (activeTab === 'returns') {
+        const response = await apiGetAuth<{ returnRequests: ReturnRequest[] }>('/seller/returns');
+        setReturnRequests(response.returnRequests || []);
+        return;
+      }
+      const statusParam =
+        activeTab === 'pickups'
+          ? '?fulfilmentType=pickup'
+          : (activeTab === 'all' || activeTab === 'orders_placed') ? '' : `?status=${activeTab}`;
       const response = await apiGetAuth<{ orders: Order[] }>(`/orders/seller${statusParam}`);
       setOrders(response.orders || []);
     } catch (error) {
@@ -76,14 +173,98 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
     fetchOrders();
   }, [fetchOrders]);
 
+  // Partners' steps (picked up, out for delivery, delivered) arrive over the socket
+  useEffect(() => {
+    if (!socket) return;
+    const onDeliveryUpdated = (data: { orderId: string; agentDelivery?: AgentDelivery }) => {
+      setOrders(prev => prev.map(order => (order._id === data.orderId ? { ...order, agentDelivery: data.agentDelivery } : order)));
+    };
+    const onStatusChanged = (data: { orderId: string; status: OrderStatus }) => {
+      setOrders(prev => prev.map(order => (order._id === data.orderId ? { ...order, status: data.status } : order)));
+    };
+    socket.on('order_delivery_updated', onDeliveryUpdated);
+    socket.on('order_status_changed', onStatusChanged);
+    return () => {
+      socket.off('order_delivery_updated', onDeliveryUpdated);
+      socket.off('order_status_changed', onStatusChanged);
+    };
+  }, [socket]);
+
+  const loadAgents = useCallback(async () => {
+    setAgentsLoading(true);
+    try {
+      const response = await apiGetAuth<{ agents: DeliveryAgent[] }>('/seller/agents');
+      setAgents(response.agents || []);
+    } catch (error) {
+      console.error('[SellerOrders] Failed to load delivery partners:', error);
+    } finally {
+      setAgentsLoading(false);
+    }
+  }, []);
+
+  function openAssignAgent(order: Order) {
+    setAssigningOrder(order);
+    loadAgents();
+  }
+
+  async function handleAssignAgent(agent: DeliveryAgent) {
+    if (!assigningOrder) return;
+    setAssigningAgentId(agent._id);
+    try {
+      const response = await apiPostAuth<{ order: { agentDelivery: AgentDelivery } }>(`/orders/${assigningOrder._id}/agent`, {
+        agentId: agent._id,
+      });
+      const orderId = assigningOrder._id;
+      setOrders(prev => prev.map(order => (order._id === orderId ? { ...order, agentDelivery: response.order.agentDelivery } : order)));
+      setAssigningOrder(null);
+    } catch (error: any) {
+      Alert.alert('Could not assign', error.message || 'Failed to assign the delivery partner');
+    } finally {
+      setAssigningAgentId(null);
+    }
+  }
+
+  async function handleAddAgent() {
+    if (!newAgentName.trim() || newAgentPhone.replace(/\D/g, '').length < 10) return;
+    setAddingAgent(true);
+    try {
+      await apiPostAuth('/seller/agents', { name: newAgentName.trim(), phone: newAgentPhone });
+      setNewAgentName('');
+      setNewAgentPhone('');
+      await loadAgents();
+    } catch (error: any) {
+      Alert.alert('Could not add partner', error.message || 'Failed to add the delivery partner');
+    } finally {
+      setAddingAgent(false);
+    }
+  }
+
+  function handleRemoveAgent(agent: DeliveryAgent) {
+    Alert.alert('Remove partner?', `${agent.name} won't get new orders. Orders they already have stay with them.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await apiDeleteAuth(`/seller/agents/${agent._id}`);
+            setAgents(prev => prev.filter(a => a._id !== agent._id));
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to remove the delivery partner');
+          }
+        },
+      },
+    ]);
+  }
+
   async function handleUpdateStatus(orderId: string, newStatus: OrderStatus) {
     setUpdatingOrder(orderId);
     try {
-      await apiPutAuth(`/orders/${orderId}/status`, { status: newStatus });
-      // Update local state
+      const response = await apiPutAuth<{ order: { status: OrderStatus } }>(`/orders/${orderId}/status`, { status: newStatus });
+      // Update local state with the status the server settled on
       setOrders(prev => 
         prev.map(order => 
-          order._id === orderId ? { ...order, status: newStatus } : order
+          order._id === orderId ? { ...order, status: response.order?.status ?? newStatus } : order
         )
       );
     } catch (error: any) {
@@ -93,6 +274,76 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
     }
   }
 
+  async function handleVerifyPickup() {
+    if (!verifyingOrder || pickupCode.trim().length !== 6) return;
+    setVerifyingCode(true);
+    try {
+      const response = await apiPostAuth<{ order: { status: OrderStatus } }>(`/orders/${verifyingOrder._id}/pickup/verify`, {
+        code: pickupCode.trim(),
+      });
+      const orderId = verifyingOrder._id;
+      setOrders(prev => prev.map(order => (order._id === orderId ? { ...order, status: response.order.status } : order)));
+      setVerifyingOrder(null);
+      setPickupCode('');
+      Alert.alert('Handed over', 'The order is marked as picked up.');
+    } catch (error: any) {
+      Alert.alert('Could not verify', error.message || 'Failed to verify the pickup code');
+    } finally {
+      setVerifyingCode(false);
+    }
+  }
+
+  async function updateReturn(request: ReturnRequest, action: 'approve' | 'reject' | 'receive', body: Record<string, any> = {}) {
+    setUpdatingOrder(request._id);
+    try {
+      const response = await apiPutAuth<{ returnRequest: ReturnRequest }>(`/returns/${request._id}/${action}`, body);
+      setReturnRequests(prev =>
+        prev.map(r => (r._id === request._id ? { ...r, status: response.returnRequest.status, refundAmount: response.returnRequest.refundAmount } : r))
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update request');
+    } finally {
+      setUpdatingOrder(null);
+    }
+  }
+
+  async function handleOpenInvoice(order: Order) {
+    setOpeningInvoiceId(order._id);
+    try {
+      const { invoice } = await apiGetAuth<{ invoice: { invoiceNumber: string; pdfUrl?: string } }>(`/orders/${order._id}/invoice`);
+      if (invoice.pdfUrl) {
+        await Linking.openURL(invoice.pdfUrl);
+      } else {
+        Alert.alert('Invoice', `Invoice ${invoice.invoiceNumber} is being prepared. Please try again in a moment.`);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not open invoice');
+    } finally {
+      setOpeningInvoiceId(null);
+    }
+  }
+
+  function handleReceiveReturn(request: ReturnRequest) {
+    Alert.alert(
+      'Item received?',
+      request.type === 'return'
+        ? 'The customer will be refunded to their Bazaario wallet.'
+        : 'A replacement order will be created for you to dispatch.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Damaged, don\'t restock', onPress: () => updateReturn(request, 'receive', { restock: false }) },
+        { text: 'Put back in stock', onPress: () => updateReturn(request, 'receive', { restock: true }) },
+      ]
+    );
+  }
+
+  function handleConfirmReject() {
+    if (!rejectingRequest || !rejectNote.trim()) return;
+    updateReturn(rejectingRequest, 'reject', { note: rejectNote.trim() });
+    setRejectingRequest(null);
+    setRejectNote('');
+  }
+
   function getNextStatus(current: OrderStatus): OrderStatus | null {
     const flow: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'delivered'];
     const idx = flow.indexOf(current);
@@ -104,7 +355,7 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
     return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
   }
 
-  const filteredOrders = activeTab === 'all'
+  const filteredOrders = activeTab === 'all' || activeTab === 'pickups'
     ? orders
     : activeTab === 'orders_placed'
       ? orders.filter(o => o.status === 'pending' || o.status === 'confirmed')
@@ -135,6 +386,70 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
         <View style={styles.loadingWrap}>
           <ActivityIndicator size="large" color={colors.primary} />
         </View>
+      ) : activeTab === 'returns' ? (
+        returnRequests.length === 0 ? (
+          <View style={styles.emptyWrap}>
+            <Ionicons name="arrow-undo-outline" size={48} color={colors.mutedForeground} />
+            <Text style={styles.emptyText}>No return or exchange requests</Text>
+          </View>
+        ) : (
+          returnRequests.map((request) => {
+            const statusConfig = RETURN_STATUS_CONFIG[request.status];
+            const isUpdating = updatingOrder === request._id;
+            return (
+              <View key={request._id} style={[styles.orderCard, SHADOW]}>
+                <View style={styles.cardRow}>
+                  <View>
+                    <Text style={styles.customer}>
+                      {request.type === 'return' ? 'Return' : 'Exchange'} · {request.customerId?.name || request.customerId?.phone || 'Customer'}
+                    </Text>
+                    <Text style={styles.date}>{formatDate(request.createdAt)}</Text>
+                  </View>
+                  <View style={[styles.badge, { backgroundColor: statusConfig.bg }]}>
+                    <Text style={[styles.badgeText, { color: statusConfig.color }]}>{statusConfig.label}</Text>
+                  </View>
+                </View>
+
+                <View style={styles.itemsList}>
+                  {request.items.map((item, idx) => (
+                    <Text key={idx} style={styles.itemText}>• {item.name}{item.variantLabel ? ` (${item.variantLabel})` : ''} × {item.quantity}</Text>
+                  ))}
+                  <Text style={styles.returnReason}>{request.reason}{request.details ? ` – ${request.details}` : ''}</Text>
+                  {request.images.length > 0 && (
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.returnImages}>
+                      {request.images.map((url) => (
+                        <Image key={url} source={{ uri: url }} style={styles.returnImage} />
+                      ))}
+                    </ScrollView>
+                  )}
+                </View>
+
+                {(request.status === 'requested' || request.status === 'approved' || request.status === 'refunded') && (
+                  <View style={styles.cardFooter}>
+                    {request.status === 'refunded' ? (
+                      <Text style={styles.itemText}>Refunded ₹{(request.refundAmount ?? 0).toLocaleString('en-IN')}</Text>
+                    ) : isUpdating ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : request.status === 'requested' ? (
+                      <>
+                        <Pressable style={styles.secondaryBtn} onPress={() => setRejectingRequest(request)}>
+                          <Text style={styles.secondaryBtnText}>Decline</Text>
+                        </Pressable>
+                        <Pressable style={styles.actionBtn} onPress={() => updateReturn(request, 'approve')}>
+                          <Text style={styles.actionBtnText}>Approve</Text>
+                        </Pressable>
+                      </>
+                    ) : (
+                      <Pressable style={[styles.actionBtn, { marginLeft: 'auto' }]} onPress={() => handleReceiveReturn(request)}>
+                        <Text style={styles.actionBtnText}>Mark item received</Text>
+                      </Pressable>
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )
       ) : filteredOrders.length === 0 ? (
         <View style={styles.emptyWrap}>
           <Ionicons name="receipt-outline" size={48} color={colors.mutedForeground} />
@@ -142,9 +457,13 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
         </View>
       ) : (
         filteredOrders.map((order) => {
-          const statusConfig = STATUS_CONFIG[order.status];
+          const statusConfig = statusConfigFor(order);
           const nextStatus = getNextStatus(order.status);
           const isUpdating = updatingOrder === order._id;
+          // A pickup order is only handed over with the customer's code
+          const awaitingCollection = order.fulfilmentType === 'pickup' && order.status === 'ready';
+          // Once a partner has it, they mark it delivered with the customer's OTP
+          const withAgent = order.status === 'ready' && order.agentDelivery && order.agentDelivery.status !== 'delivered';
           
           return (
             <View key={order._id} style={[styles.orderCard, SHADOW]}>
@@ -162,16 +481,58 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
               
               <View style={styles.itemsList}>
                 {order.items.slice(0, 2).map((item, idx) => (
-                  <Text key={idx} style={styles.itemText}>• {item.name} × {item.quantity}</Text>
+                  <Text key={idx} style={styles.itemText}>• {item.name}{item.variantLabel ? ` (${item.variantLabel})` : ''} × {item.quantity}</Text>
                 ))}
                 {order.items.length > 2 && (
                   <Text style={styles.itemText}>+ {order.items.length - 2} more items</Text>
                 )}
+                {order.fulfilmentType === 'pickup' && order.pickup ? (
+                  <View style={styles.pickupRow}>
+                    <Ionicons name="storefront-outline" size={14} color={colors.primary} />
+                    <Text style={styles.pickupText}>Store pickup · {formatPickupSlot(order.pickup.slot)}</Text>
+                  </View>
+                ) : null}
+                {order.agentDelivery ? (
+                  <View style={styles.pickupRow}>
+                    <Ionicons name="bicycle-outline" size={14} color={colors.primary} />
+                    <Text style={styles.pickupText}>
+                      {order.agentDelivery.name} · {AGENT_STEP_LABELS[order.agentDelivery.status]}
+                    </Text>
+                    {canAssignAgent(order) && (
+                      <Pressable onPress={() => openAssignAgent(order)} hitSlop={8}>
+                        <Text style={styles.invoiceLink}>Change</Text>
+                      </Pressable>
+                    )}
+                  </View>
+                ) : canAssignAgent(order) ? (
+                  <Pressable style={styles.pickupRow} onPress={() => openAssignAgent(order)} hitSlop={4}>
+                    <Ionicons name="person-add-outline" size={14} color={colors.primary} />
+                    <Text style={styles.invoiceLink}>Assign delivery partner</Text>
+                  </Pressable>
+                ) : null}
               </View>
               
               <View style={styles.cardFooter}>
-                <Text style={styles.amount}>₹{order.totalAmount.toLocaleString('en-IN')}</Text>
-                {nextStatus && order.status !== 'cancelled' && (
+                <View style={styles.amountWrap}>
+                  <Text style={styles.amount}>₹{order.totalAmount.toLocaleString('en-IN')}</Text>
+                  {order.status !== 'cancelled' &&
+                    (order.status === 'delivered' || order.paymentStatus === 'paid' || order.paymentStatus === 'refunded') && (
+                      <Pressable onPress={() => handleOpenInvoice(order)} disabled={openingInvoiceId === order._id} hitSlop={8}>
+                        {openingInvoiceId === order._id ? (
+                          <ActivityIndicator size="small" color={colors.primary} />
+                        ) : (
+                          <Text style={styles.invoiceLink}>Invoice</Text>
+                        )}
+                      </Pressable>
+                    )}
+                </View>
+                {awaitingCollection ? (
+                  <Pressable style={styles.actionBtn} onPress={() => setVerifyingOrder(order)}>
+                    <Text style={styles.actionBtnText}>Enter pickup code</Text>
+                  </Pressable>
+                ) : withAgent ? (
+                  <Text style={styles.itemText}>With {order.agentDelivery!.name}</Text>
+                ) : nextStatus && order.status !== 'cancelled' && (
                   <Pressable
                     style={[styles.actionBtn, isUpdating && styles.actionBtnDisabled]}
                     onPress={() => handleUpdateStatus(order._id, nextStatus)}
@@ -181,7 +542,7 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
                       <ActivityIndicator size="small" color={colors.card} />
                     ) : (
                       <Text style={styles.actionBtnText}>
-                        Mark as {STATUS_CONFIG[nextStatus].label}
+                        Mark as {statusConfigFor(order, nextStatus).label}
                       </Text>
                     )}
                   </Pressable>
@@ -191,6 +552,150 @@ export default function SellerOrdersScreen({ onOpenConversations }: Props = {})
           );
         })
       )}
+
+      <Modal visible={verifyingOrder != null} transparent animationType="fade" onRequestClose={() => setVerifyingOrder(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Hand over order</Text>
+            <Text style={styles.itemText}>
+              Ask {verifyingOrder?.customerId?.name || 'the customer'} for the 6-digit pickup code shown in their app.
+            </Text>
+            <TextInput
+              style={styles.codeInput}
+              value={pickupCode}
+              onChangeText={(v) => setPickupCode(v.replace(/\D/g, ''))}
+              placeholder="000000"
+              placeholderTextColor={colors.mutedForeground}
+              keyboardType="number-pad"
+              maxLength={6}
+              autoFocus
+            />
+            <View style={styles.modalActions}>
+              <Pressable
+                style={styles.secondaryBtn}
+                onPress={() => {
+                  setVerifyingOrder(null);
+                  setPickupCode('');
+                }}
+              >
+                <Text style={styles.secondaryBtnText}>Back</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.actionBtn, (pickupCode.length !== 6 || verifyingCode) && styles.actionBtnDisabled]}
+                disabled={pickupCode.length !== 6 || verifyingCode}
+                onPress={handleVerifyPickup}
+              >
+                {verifyingCode ? (
+                  <ActivityIndicator size="small" color={colors.card} />
+                ) : (
+                  <Text style={styles.actionBtnText}>Verify & hand over</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={assigningOrder != null} transparent animationType="fade" onRequestClose={() => setAssigningOrder(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Delivery partner</Text>
+            {agentsLoading ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : agents.length === 0 ? (
+              <Text style={styles.itemText}>Add the people who deliver for you. They sign in as a delivery partner with this number.</Text>
+            ) : (
+              agents.map((agent) => {
+                const current = assigningOrder?.agentDelivery?.agentId === agent._id;
+                return (
+                  <View key={agent._id} style={styles.agentRow}>
+                    <Pressable
+                      style={styles.agentInfo}
+                      onPress={() => handleAssignAgent(agent)}
+                      disabled={current || assigningAgentId != null}
+                    >
+                      <Text style={styles.customer}>{agent.name}{current ? ' (assigned)' : ''}</Text>
+                      <Text style={styles.date}>
+                        {agent.phone} · {agent.activeOrders ? `${agent.activeOrders} active` : 'Free'}
+                      </Text>
+                    </Pressable>
+                    {assigningAgentId === agent._id ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <Pressable onPress={() => handleRemoveAgent(agent)} hitSlop={8} accessibilityLabel={`Remove ${agent.name}`}>
+                        <Ionicons name="trash-outline" size={18} color={colors.mutedForeground} />
+                      </Pressable>
+                    )}
+                  </View>
+                );
+              })
+            )}
+
+            <View style={styles.addAgentRow}>
+              <TextInput
+                style={[styles.agentInput, { flex: 1 }]}
+                value={newAgentName}
+                onChangeText={setNewAgentName}
+                placeholder="Name"
+                placeholderTextColor={colors.mutedForeground}
+              />
+              <TextInput
+                style={[styles.agentInput, { flex: 1 }]}
+                value={newAgentPhone}
+                onChangeText={setNewAgentPhone}
+                placeholder="Phone"
+                placeholderTextColor={colors.mutedForeground}
+                keyboardType="phone-pad"
+                maxLength={14}
+              />
+            </View>
+            <View style={styles.modalActions}>
+              <Pressable style={styles.secondaryBtn} onPress={() => setAssigningOrder(null)}>
+                <Text style={styles.secondaryBtnText}>Close</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.actionBtn, (addingAgent || !newAgentName.trim() || newAgentPhone.replace(/\D/g, '').length < 10) && styles.actionBtnDisabled]}
+                disabled={addingAgent || !newAgentName.trim() || newAgentPhone.replace(/\D/g, '').length < 10}
+                onPress={handleAddAgent}
+              >
+                {addingAgent ? (
+                  <ActivityIndicator size="small" color={colors.card} />
+                ) : (
+                  <Text style={styles.actionBtnText}>Add partner</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={rejectingRequest != null} transparent animationType="fade" onRequestClose={() => setRejectingRequest(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Decline request</Text>
+            <TextInput
+              style={styles.modalInput}
+              value={rejectNote}
+              onChangeText={setRejectNote}
+              placeholder="Reason shown to the customer"
+              placeholderTextColor={colors.mutedForeground}
+              multiline
+            />
+            <View style={styles.modalActions}>
+              <Pressable style={styles.secondaryBtn} onPress={() => setRejectingRequest(null)}>
+                <Text style={styles.secondaryBtnText}>Back</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.actionBtn, !rejectNote.trim() && styles.actionBtnDisabled]}
+                disabled={!rejectNote.trim()}
+                onPress={handleConfirmReject}
+              >
+                <Text style={styles.actionBtnText}>Decline</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </ScrollView>
   );
 }
@@ -234,8 +739,62 @@ const styles = StyleSheet.create({
   itemsList: { marginTop: 12, marginBottom: 12 },
   itemText: { fontSize: 13, color: colors.mutedForeground, marginBottom: 2 },
   cardFooter: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 12, borderTopWidth: 1, borderTopColor: colors.border },
+  amountWrap: { flexDirection: 'row', alignItems: 'center', gap: 10 },
   amount: { fontSize: 18, fontWeight: '700', color: colors.foreground },
+  invoiceLink: { fontSize: 13, fontWeight: '600', color: colors.primary },
   actionBtn: { backgroundColor: colors.primary, paddingVertical: 8, paddingHorizontal: 16, borderRadius: radius.lg },
   actionBtnDisabled: { opacity: 0.6 },
   actionBtnText: { fontSize: 13, fontWeight: '600', color: colors.card },
+  secondaryBtn: { paddingVertical: 8, paddingHorizontal: 16, borderRadius: radius.lg, borderWidth: 1, borderColor: colors.border },
+  secondaryBtnText: { fontSize: 13, fontWeight: '600', color: colors.foreground },
+  returnReason: { fontSize: 13, color: colors.foreground, marginTop: 6 },
+  returnImages: { marginTop: 8 },
+  returnImage: { width: 56, height: 56, borderRadius: radius.md, marginRight: 6 },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.4)', justifyContent: 'center', padding: 24 },
+  modalCard: { backgroundColor: colors.card, borderRadius: radius.xl, padding: PAD },
+  modalTitle: { fontSize: 17, fontWeight: '700', color: colors.foreground, marginBottom: 12 },
+  modalInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    padding: 10,
+    minHeight: 80,
+    fontSize: 14,
+    color: colors.foreground,
+    textAlignVertical: 'top',
+  },
+  pickupRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 6 },
+  agentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  agentInfo: { flex: 1 },
+  addAgentRow: { flexDirection: 'row', gap: 8, marginTop: 16 },
+  agentInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.foreground,
+  },
+  pickupText: { fontSize: 13, fontWeight: '600', color: colors.primary },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    paddingVertical: 12,
+    marginTop: 12,
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: 8,
+    textAlign: 'center',
+    color: colors.foreground,
+  },
+  modalActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 12 },
 });
@@ -32,11 +32,25 @@ import { useChat } from '../../context/ChatContext';
 
 const PAD = 16;
 const SHADOW = { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 8, elevation: 2 };
+const MAX_OPTIONS = 3;
 
 // -----------------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------------
 
+type ProductOption = { name: string; values: string[] };
+
+type ProductVariant = {
+  _id: string;
+  sku?: string;
+  options: { name: string; value: string }[];
+  price: number;
+  discountPrice?: number;
+  stock?: number;
+  images: string[];
+  isAvailable: boolean;
+};
+
 type Product = {
   _id: string;
   name: string;
@@ -45,8 +59,26 @@ type Product = {
   discountPrice?: number;
   images: string[];
   isAvailable: boolean;
-  stock: number;
+  /** Not tracked when any variant has no stock count */
+  stock?: number;
+  lowStockThreshold?: number;
   categoryId?: string;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+};
+
+/** Option axis being edited; values are typed comma-separated */
+type OptionForm = { name: string; values: string };
+
+/** Variant row being edited; numbers stay strings until save */
+type VariantForm = {
+  _id?: string;
+  options: { name: string; value: string }[];
+  price: string;
+  discountPrice: string;
+  stock: string;
+  sku: string;
+  isAvailable: boolean;
 };
 
 type Category = {
@@ -58,6 +90,43 @@ type Category = {
 // Component
 // -----------------------------------------------------------------------------
 
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function parseOptionForms(forms: OptionForm[]): ProductOption[] {
+  return forms
+    .map((o) => ({
+      name: o.name.trim(),
+      values: [...new Set(o.values.split(',').map((v) => v.trim()).filter(Boolean))],
+    }))
+    .filter((o) => o.name && o.values.length > 0);
+}
+
+function variantKey(options: { name: string; value: string }[]) {
+  return options.map((o) => `${o.name}=${o.value}`).join('|');
+}
+
+/** Every combination of option values; rows already filled in are kept */
+function generateVariantForms(options: ProductOption[], existing: VariantForm[], defaults: { price: string; stock: string }) {
+  let combos: { name: string; value: string }[][] = [[]];
+  for (const option of options) {
+    combos = combos.flatMap((combo) => option.values.map((value) => [...combo, { name: option.name, value }]));
+  }
+  const byKey = new Map(existing.map((v) => [variantKey(v.options), v]));
+  return combos.map(
+    (combo) =>
+      byKey.get(variantKey(combo)) ?? {
+        options: combo,
+        price: defaults.price,
+        discountPrice: '',
+        stock: defaults.stock,
+        sku: '',
+        isAvailable: true,
+      }
+  );
+}
+
 type Props = { onOpenConversations?: () => void };
 
 export default function SellerProductsScreen({ onOpenConversations }: Props = {}) {
@@ -86,10 +155,14 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
   const [formPrice, setFormPrice] = useState('');
   const [formDiscountPrice, setFormDiscountPrice] = useState('');
   const [formStock, setFormStock] = useState('');
+  const [formLowStock, setFormLowStock] = useState('5');
   const [formIsAvailable, setFormIsAvailable] = useState(true);
   const [formImages, setFormImages] = useState<string[]>([]);
   const [formCategoryId, setFormCategoryId] = useState('');
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [formOptions, setFormOptions] = useState<OptionForm[]>([]);
+  const [formVariants, setFormVariants] = useState<VariantForm[]>([]);
+  const hasVariants = formVariants.length > 0;
 
   const fetchProducts = useCallback(async () => {
     if (!shopId) return;
@@ -133,9 +206,12 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
     setFormPrice('');
     setFormDiscountPrice('');
     setFormStock('');
+    setFormLowStock('5');
     setFormIsAvailable(true);
     setFormImages([]);
     setFormCategoryId(categories.length > 0 ? categories[0]._id : '');
+    setFormOptions([]);
+    setFormVariants([]);
     setEditingProduct(null);
   }
 
@@ -154,13 +230,58 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
         ? product.discountPrice.toString()
         : ''
     );
-    setFormStock(product.stock.toString());
+    setFormStock(product.stock != null ? product.stock.toString() : '');
+    setFormLowStock((product.lowStockThreshold ?? 5).toString());
     setFormIsAvailable(product.isAvailable);
     setFormImages(product.images || []);
     setFormCategoryId(product.categoryId || (categories.length > 0 ? categories[0]._id : ''));
+    setFormOptions((product.options || []).map((o) => ({ name: o.name, values: o.values.join(', ') })));
+    setFormVariants(
+      (product.variants || []).map((v) => ({
+        _id: v._id,
+        options: v.options,
+        price: v.price.toString(),
+        discountPrice: v.discountPrice != null ? v.discountPrice.toString() : '',
+        stock: v.stock != null ? v.stock.toString() : '',
+        sku: v.sku || '',
+        isAvailable: v.isAvailable,
+      }))
+    );
     setModalVisible(true);
   }
 
+  function handleAddOption() {
+    if (formOptions.length >= MAX_OPTIONS) return;
+    setFormOptions((prev) => [...prev, { name: prev.length === 0 ? 'Size' : prev.length === 1 ? 'Colour' : '', values: '' }]);
+  }
+
+  function handleUpdateOption(index: number, field: keyof OptionForm, value: string) {
+    setFormOptions((prev) => prev.map((o, i) => (i === index ? { ...o, [field]: value } : o)));
+  }
+
+  function handleRemoveOption(index: number) {
+    const remaining = formOptions.filter((_, i) => i !== index);
+    setFormOptions(remaining);
+    if (remaining.length === 0) setFormVariants([]);
+  }
+
+  function handleGenerateVariants() {
+    const options = parseOptionForms(formOptions);
+    if (options.length === 0) {
+      Alert.alert('Add options', 'Enter an option name and at least one value, e.g. Size: S, M, L');
+      return;
+    }
+    setFormVariants((prev) => generateVariantForms(options, prev, { price: formPrice, stock: formStock }));
+  }
+
+  function handleUpdateVariant(index: number, field: 'price' | 'discountPrice' | 'stock' | 'sku', value: string) {
+    setFormVariants((prev) => prev.map((v, i) => (i === index ? { ...v, [field]: value } : v)));
+  }
+
+  function handleToggleVariant(index: number) {
+    setFormVariants((prev) => prev.map((v, i) => (i === index ? { ...v, isAvailable: !v.isAvailable } : v)));
+  }
+
   async function pickImageFromSource(useCamera: boolean) {
     try {
       if (useCamera) {
@@ -239,11 +360,17 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
     }
 
     const numericPrice = Number(formPrice);
-    if (!formPrice.trim() || isNaN(numericPrice) || numericPrice <= 0) {
+    if (!hasVariants && (!formPrice.trim() || isNaN(numericPrice) || numericPrice <= 0)) {
       Alert.alert('Validation Error', 'Please enter a valid price greater than 0');
       return;
     }
 
+    const invalidVariant = formVariants.find((v) => !(Number(v.price) > 0));
+    if (invalidVariant) {
+      Alert.alert('Validation Error', `Enter a price for ${invalidVariant.options.map((o) => o.value).join(' / ')}`);
+      return;
+    }
+
     const numericDiscount =
       formDiscountPrice.trim() && !isNaN(Number(formDiscountPrice))
         ? Number(formDiscountPrice)
@@ -274,15 +401,27 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
 
       const allImages = [...existingUrls, ...uploadedImageUrls];
 
+      // Price and stock of a product with variants are worked out on the server
       const productData = {
         name: formName.trim(),
         description: formDescription.trim(),
-        price: numericPrice,
-        discountPrice: numericDiscount,
-        stock: Number(formStock) || 0,
+        ...(hasVariants
+          ? {}
+          : { price: numericPrice, discountPrice: numericDiscount, stock: Number(formStock) || 0 }),
+        lowStockThreshold: Number(formLowStock) || 0,
         isAvailable: formIsAvailable,
         categoryId: formCategoryId,
         images: allImages,
+        options: hasVariants ? parseOptionForms(formOptions) : [],
+        variants: formVariants.map((v) => ({
+          _id: v._id,
+          options: v.options,
+          price: Number(v.price),
+          discountPrice: v.discountPrice.trim() ? Number(v.discountPrice) : undefined,
+          stock: v.stock.trim() ? Number(v.stock) : undefined,
+          sku: v.sku.trim() || undefined,
+          isAvailable: v.isAvailable,
+        })),
       };
 
       if (editingProduct) {
@@ -299,6 +438,11 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
       resetForm();
       fetchProducts();
     } catch (error: any) {
+      if (error.status === 402) {
+        // Product limit of the seller's plan; the message says which plan to upgrade to
+        Alert.alert('Plan limit reached', `${error.message} You can change your plan from Profile.`);
+        return;
+      }
       Alert.alert('Error', error.message || 'Failed to save product');
     } finally {
       setSaving(false);
@@ -413,7 +557,20 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
                   {product.description ? (
                     <Text style={styles.productDescription} numberOfLines={2}>{product.description}</Text>
                   ) : null}
-                  <Text style={styles.stockText}>Stock: {product.stock}</Text>
+                  {product.stock != null ? (
+                    <Text
+                      style={[
+                        styles.stockText,
+                        product.stock <= (product.lowStockThreshold ?? 5) && styles.stockTextLow,
+                      ]}
+                    >
+                      Stock: {product.stock}
+                      {product.stock === 0 ? ' · Sold out' : product.stock <= (product.lowStockThreshold ?? 5) ? ' · Low stock' : ''}
+                    </Text>
+                  ) : null}
+                  {product.variants && product.variants.length > 0 ? (
+                    <Text style={styles.stockText}>{product.variants.length} variants · from ₹{product.discountPrice ?? product.price}</Text>
+                  ) : null}
                 </View>
                 <View style={styles.productActions}>
                   <Switch
@@ -502,7 +659,8 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
                 ))}
               </View>
 
-              {/* Pricing */}
+              {/* Pricing – set per variant once variants exist */}
+              {!hasVariants && (
               <View style={styles.row}>
                 <View style={styles.halfCol}>
                   <Text style={styles.label}>Price (₹) *</Text>
@@ -527,9 +685,11 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
                   />
                 </View>
               </View>
+              )}
 
               {/* Stock */}
               <View style={styles.row}>
+                {!hasVariants && (
                 <View style={styles.halfCol}>
                   <Text style={styles.label}>Stock Quantity</Text>
                   <TextInput
@@ -541,6 +701,21 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
                     keyboardType="numeric"
                   />
                 </View>
+                )}
+                <View style={styles.halfCol}>
+                  <Text style={styles.label}>Low Stock Alert At</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formLowStock}
+                    onChangeText={setFormLowStock}
+                    placeholder="5"
+                    placeholderTextColor={colors.mutedForeground}
+                    keyboardType="numeric"
+                  />
+                </View>
+              </View>
+
+              <View style={styles.row}>
                 <View style={styles.halfCol}>
                   <Text style={styles.label}>Available for Sale</Text>
                   <View style={styles.switchRow}>
@@ -555,6 +730,94 @@ export default function SellerProductsScreen({ onOpenConversations }: Props = {}
                 </View>
               </View>
 
+              {/* Variants */}
+              <Text style={styles.label}>Options (Size, Colour…)</Text>
+              {formOptions.map((option, index) => (
+                <View key={index} style={styles.optionRow}>
+                  <TextInput
+                    style={[styles.input, styles.optionNameInput]}
+                    value={option.name}
+                    onChangeText={(v) => handleUpdateOption(index, 'name', v)}
+                    placeholder="Name"
+                    placeholderTextColor={colors.mutedForeground}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.optionValuesInput]}
+                    value={option.values}
+                    onChangeText={(v) => handleUpdateOption(index, 'values', v)}
+                    placeholder="S, M, L"
+                    placeholderTextColor={colors.mutedForeground}
+                  />
+                  <Pressable onPress={() => handleRemoveOption(index)} hitSlop={8}>
+                    <Ionicons name="close-circle" size={22} color={colors.destructive} />
+                  </Pressable>
+                </View>
+              ))}
+              <View style={styles.optionActions}>
+                {formOptions.length < MAX_OPTIONS && (
+                  <Pressable onPress={handleAddOption} style={({ pressed }) => [styles.linkBtn, pressed && styles.pressed]}>
+                    <Ionicons name="add" size={16} color={colors.primary} />
+                    <Text style={styles.linkBtnText}>Add option</Text>
+                  </Pressable>
+                )}
+                {formOptions.length > 0 && (
+                  <Pressable onPress={handleGenerateVariants} style={({ pressed }) => [styles.linkBtn, pressed && styles.pressed]}>
+                    <Ionicons name="grid-outline" size={16} color={colors.primary} />
+                    <Text style={styles.linkBtnText}>{hasVariants ? 'Update variants' : 'Generate variants'}</Text>
+                  </Pressable>
+                )}
+              </View>
+
+              {formVariants.map((variant, index) => (
+                <View key={variantKey(variant.options)} style={styles.variantCard}>
+                  <View style={styles.variantHeader}>
+                    <Text style={styles.variantTitle}>{variant.options.map((o) => o.value).join(' / ')}</Text>
+                    <Switch
+                      value={variant.isAvailable}
+                      onValueChange={() => handleToggleVariant(index)}
+                      trackColor={{ false: colors.border, true: colors.secondary }}
+                      thumbColor={variant.isAvailable ? colors.primary : colors.mutedForeground}
+                    />
+                  </View>
+                  <View style={styles.row}>
+                    <TextInput
+                      style={[styles.input, styles.variantInput]}
+                      value={variant.price}
+                      onChangeText={(v) => handleUpdateVariant(index, 'price', v)}
+                      placeholder="Price ₹"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="numeric"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.variantInput]}
+                      value={variant.discountPrice}
+                      onChangeText={(v) => handleUpdateVariant(index, 'discountPrice', v)}
+                      placeholder="Offer ₹"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="numeric"
+                    />
+                  </View>
+                  <View style={[styles.row, { marginTop: 8 }]}>
+                    <TextInput
+                      style={[styles.input, styles.variantInput]}
+                      value={variant.stock}
+                      onChangeText={(v) => handleUpdateVariant(index, 'stock', v)}
+                      placeholder="Stock"
+                      placeholderTextColor={colors.mutedForeground}
+                      keyboardType="numeric"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.variantInput]}
+                      value={variant.sku}
+                      onChangeText={(v) => handleUpdateVariant(index, 'sku', v)}
+                      placeholder="SKU (optional)"
+                      placeholderTextColor={colors.mutedForeground}
+                      autoCapitalize="characters"
+                    />
+                  </View>
+                </View>
+              ))}
+
               {/* Images */}
               <Text style={styles.label}>Product Images</Text>
               <View style={styles.imagesRow}>
@@ -675,6 +938,7 @@ const styles = StyleSheet.create({
   productName: { fontSize: 16, fontWeight: '600', color: colors.foreground },
   productDescription: { fontSize: 13, color: colors.mutedForeground, marginTop: 2, lineHeight: 18 },
   stockText: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
+  stockTextLow: { color: colors.destructive, fontWeight: '600' },
   productActions: { marginLeft: 8 },
 
   cardFooter: {
@@ -760,6 +1024,24 @@ const styles = StyleSheet.create({
   saveBtnDisabled: { opacity: 0.6 },
   saveBtnText: { color: colors.card, fontSize: 16, fontWeight: '600' },
 
+  // Variants
+  optionRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 8 },
+  optionNameInput: { width: 100 },
+  optionValuesInput: { flex: 1 },
+  optionActions: { flexDirection: 'row', gap: 16, marginBottom: 8 },
+  linkBtn: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingVertical: 4 },
+  linkBtnText: { fontSize: 14, color: colors.primary, fontWeight: '600' },
+  variantCard: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: radius.md,
+    padding: 12,
+    marginBottom: 8,
+  },
+  variantHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 },
+  variantTitle: { fontSize: 14, fontWeight: '600', color: colors.foreground },
+  variantInput: { flex: 1, padding: 10, fontSize: 14 },
+
   // Category picker
   categoryGrid: {
     flexDirection: 'row',
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import {
   Alert,
   KeyboardAvoidingView,
+  Linking,
   Modal,
   Platform,
   Pressable,
@@ -26,6 +27,19 @@ const PAD = 16;
 
 type Props = { onOpenConversations?: () => void };
 
+type SubscriptionBilling = {
+  status?: string;
+  endDate?: string;
+  autoRenew?: boolean;
+  scheduledPlanName?: string;
+  graceEndsAt?: string;
+  pendingPayment?: { subscriptionId: string; planName: string; amountDue: number; kind: string } | null;
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
 export default function SellerProfileTabScreen({ onOpenConversations }: Props = {}) {
   const insets = useSafeAreaInsets();
   const { signOut, user, shop, profile, refreshUser } = useAuth();
@@ -53,6 +67,10 @@ export default function SellerProfileTabScreen({ onOpenConversations }: Props =
   type PlanId = 'Basic' | 'Pro' | 'Premium';
   const [currentPlan, setCurrentPlan] = useState<PlanId>('Basic');
   const [subscriptionLoading, setSubscriptionLoading] = useState(false);
+  const [planUsage, setPlanUsage] = useState<{
+    limits: { products: number | null; reels: number | null };
+    usage: { products: number; reels: number };
+  } | null>(null);
   const [upgradeModalVisible, setUpgradeModalVisible] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<PlanId>('Pro');
 
@@ -62,37 +80,46 @@ export default function SellerProfileTabScreen({ onOpenConversations }: Props =
     { id: 'Premium', price: 999, label: 'Premium', description: 'Max exposure with full analytics.' },
   ];
 
-  React.useEffect(() => {
-    let isMounted = true;
-    async function loadSubscription() {
-      try {
-        setSubscriptionLoading(true);
-        const res = await apiGetAuth<{
-          planName: string;
-          price: number;
-        }>('/subscriptions/me');
-        if (!isMounted) return;
-        const name = res.planName as PlanId;
-        if (name === 'Basic' || name === 'Pro' || name === 'Premium') {
-          setCurrentPlan(name);
-        } else {
-          setCurrentPlan('Basic');
-        }
-      } catch (e) {
-        // Fallback to Basic
-        if (isMounted) setCurrentPlan('Basic');
-      } finally {
-        if (isMounted) setSubscriptionLoading(false);
+  const [billing, setBilling] = useState<SubscriptionBilling | null>(null);
+
+  const loadSubscription = React.useCallback(async () => {
+    try {
+      setSubscriptionLoading(true);
+      const res = await apiGetAuth<{
+        planName: string;
+        price: number;
+        limits?: { products: number | null; reels: number | null };
+        usage?: { products: number; reels: number };
+      } & SubscriptionBilling>('/subscriptions/me');
+      if (res.limits && res.usage) setPlanUsage({ limits: res.limits, usage: res.usage });
+      setBilling({
+        status: res.status,
+        endDate: res.endDate,
+        autoRenew: res.autoRenew,
+        scheduledPlanName: res.scheduledPlanName,
+        graceEndsAt: res.graceEndsAt,
+        pendingPayment: res.pendingPayment,
+      });
+      const name = res.planName as PlanId;
+      if (name === 'Basic' || name === 'Pro' || name === 'Premium') {
+        setCurrentPlan(name);
+      } else {
+        setCurrentPlan('Basic');
       }
+    } catch (e) {
+      // Fallback to Basic
+      setCurrentPlan('Basic');
+    } finally {
+      setSubscriptionLoading(false);
     }
+  }, []);
+
+  React.useEffect(() => {
     // Only sellers care about subscription
     if (user?.role === 'seller') {
       loadSubscription();
     }
-    return () => {
-      isMounted = false;
-    };
-  }, [user?.role]);
+  }, [user?.role, loadSubscription]);
 
   async function handleLogout() {
     try {
@@ -161,13 +188,58 @@ export default function SellerProfileTabScreen({ onOpenConversations }: Props =
     ? `•••• ${(shop as any).bankDetails.accountNumber.slice(-4)}`
     : 'Not set';
 
+  async function checkSubscriptionPayment(subscriptionId: string) {
+    try {
+      const res = await apiGetAuth<{ paymentStatus: string | null; subscription: { planName: string } }>(
+        `/subscriptions/${subscriptionId}/payment-status`
+      );
+      if (res.paymentStatus === 'succeeded') {
+        Alert.alert('Payment received', `Your ${res.subscription.planName} plan is active.`);
+      } else if (res.paymentStatus === 'failed') {
+        Alert.alert('Payment failed', 'The payment did not go through. You can try again from My Subscription.');
+      } else {
+        Alert.alert('Payment pending', "We haven't received the payment yet. Your plan starts as soon as it does.");
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Could not check the payment.');
+    } finally {
+      loadSubscription();
+    }
+  }
+
+  function openSubscriptionPayment(subscriptionId: string, redirectUrl?: string) {
+    if (!redirectUrl) {
+      Alert.alert('Payment', 'This payment method is not supported on this device.');
+      return;
+    }
+    Linking.openURL(redirectUrl).catch(() => {});
+    Alert.alert('Complete payment', 'Finish the payment in your browser, then come back here.', [
+      { text: 'Later', style: 'cancel', onPress: () => loadSubscription() },
+      { text: "I've paid", onPress: () => checkSubscriptionPayment(subscriptionId) },
+    ]);
+  }
+
   async function handleConfirmUpgrade() {
     try {
       setSaving(true);
-      await apiPostAuth('/subscriptions/upgrade', { planName: selectedPlan });
-      setCurrentPlan(selectedPlan);
+      const res = await apiPostAuth<{
+        message: string;
+        subscription: { _id: string; planName: string };
+        effectiveAt?: string;
+        payment?: { redirectUrl?: string };
+      }>('/subscriptions/upgrade', { planName: selectedPlan });
       setUpgradeModalVisible(false);
-      Alert.alert('Success', `You are now on the ${selectedPlan} plan.`);
+      if (res.payment) {
+        openSubscriptionPayment(res.subscription._id, res.payment.redirectUrl);
+        return;
+      }
+      if (res.effectiveAt) {
+        Alert.alert('Plan change scheduled', `You'll move to ${selectedPlan} on ${formatDate(res.effectiveAt)}.`);
+      } else {
+        setCurrentPlan(selectedPlan);
+        Alert.alert('Success', `You are now on the ${selectedPlan} plan.`);
+      }
+      loadSubscription();
     } catch (error: any) {
       Alert.alert('Error', error?.message || 'Failed to upgrade subscription. Please try again.');
     } finally {
@@ -175,6 +247,48 @@ export default function SellerProfileTabScreen({ onOpenConversations }: Props =
     }
   }
 
+  async function handlePayPending() {
+    const pending = billing?.pendingPayment;
+    if (!pending) return;
+    try {
+      setSaving(true);
+      const res = await apiPostAuth<{ redirectUrl?: string }>(`/subscriptions/${pending.subscriptionId}/pay`, {});
+      openSubscriptionPayment(pending.subscriptionId, res.redirectUrl);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to start the payment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleAutoRenew() {
+    if (!billing) return;
+    const autoRenew = billing.autoRenew === false;
+    try {
+      setSaving(true);
+      await apiPutAuth('/subscriptions/me/auto-renew', { autoRenew });
+      await loadSubscription();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to update your subscription.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // What happens at the end of the current period
+  let renewalNote: string | null = null;
+  if (billing?.status === 'past_due' && billing.graceEndsAt) {
+    renewalNote = `Renewal payment overdue. Pay by ${formatDate(billing.graceEndsAt)} to keep your plan.`;
+  } else if (currentPlan !== 'Basic' && billing?.endDate) {
+    if (billing.scheduledPlanName) {
+      renewalNote = `Moves to ${billing.scheduledPlanName} on ${formatDate(billing.endDate)}.`;
+    } else if (billing.autoRenew === false) {
+      renewalNote = `Ends on ${formatDate(billing.endDate)}.`;
+    } else {
+      renewalNote = `Renews on ${formatDate(billing.endDate)}.`;
+    }
+  }
+
   return (
     <ScrollView
       style={styles.scroll}
@@ -252,10 +366,44 @@ export default function SellerProfileTabScreen({ onOpenConversations }: Props =
           </View>
           <View style={styles.planBadge}>
             <Text style={styles.planBadgeText}>
-              {subscriptionLoading ? 'Loading…' : currentPlan === 'Basic' ? 'Free' : 'Active'}
+              {subscriptionLoading
+                ? 'Loading…'
+                : currentPlan === 'Basic'
+                  ? 'Free'
+                  : billing?.status === 'past_due'
+                    ? 'Overdue'
+                    : 'Active'}
             </Text>
           </View>
         </View>
+        {planUsage && (
+          <Text style={styles.planUsage}>
+            {planUsage.usage.products}
+            {planUsage.limits.products != null ? ` of ${planUsage.limits.products}` : ''} products ·{' '}
+            {planUsage.usage.reels}
+            {planUsage.limits.reels != null ? ` of ${planUsage.limits.reels}` : ''} reels
+          </Text>
+        )}
+        {renewalNote && (
+          <Text style={[styles.renewalNote, billing?.status === 'past_due' && { color: colors.destructive }]}>
+            {renewalNote}
+          </Text>
+        )}
+        {billing?.pendingPayment && (
+          <View style={styles.pendingPaymentRow}>
+            <Text style={styles.pendingPaymentText}>
+              {billing.pendingPayment.kind === 'renewal' ? 'Renewal' : billing.pendingPayment.planName} payment due: ₹
+              {billing.pendingPayment.amountDue}
+            </Text>
+            <Pressable
+              style={({ pressed }) => [styles.payNowBtn, pressed && { opacity: 0.9 }]}
+              onPress={handlePayPending}
+              disabled={saving}
+            >
+              <Text style={styles.payNowBtnLabel}>Pay now</Text>
+            </Pressable>
+          </View>
+        )}
         <Text style={styles.cardSub}>
           {currentPlan === 'Basic'
             ? 'Unlock higher visibility and insights by upgrading.'
@@ -272,6 +420,13 @@ export default function SellerProfileTabScreen({ onOpenConversations }: Props =
             {currentPlan === 'Basic' ? 'Upgrade plan' : 'Change plan'}
           </Text>
         </Pressable>
+        {currentPlan !== 'Basic' && billing?.status === 'active' && !billing.scheduledPlanName && (
+          <Pressable onPress={handleToggleAutoRenew} disabled={saving} hitSlop={8}>
+            <Text style={styles.autoRenewLink}>
+              {billing.autoRenew === false ? 'Turn renewal back on' : 'Cancel renewal'}
+            </Text>
+          </Pressable>
+        )}
       </View>
 
       {/* Account verification */}
@@ -509,6 +664,21 @@ const styles = StyleSheet.create({
   subRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 6 },
   planName: { fontSize: 16, fontWeight: '600', color: colors.foreground },
   planPrice: { fontSize: 13, color: colors.mutedForeground, marginTop: 2 },
+  planUsage: { fontSize: 13, fontWeight: '500', color: colors.foreground, marginTop: 8 },
+  renewalNote: { fontSize: 13, color: colors.mutedForeground, marginTop: 6 },
+  pendingPaymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+    padding: 10,
+    borderRadius: radius.md,
+    backgroundColor: colors.muted,
+  },
+  pendingPaymentText: { flex: 1, fontSize: 13, fontWeight: '600', color: colors.foreground },
+  payNowBtn: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: radius.md, backgroundColor: colors.primary },
+  payNowBtnLabel: { fontSize: 13, fontWeight: '600', color: colors.card },
+  autoRenewLink: { fontSize: 13, fontWeight: '500', color: colors.mutedForeground, textAlign: 'center', marginTop: 12 },
   planBadge: { backgroundColor: colors.success, paddingHorizontal: 8, paddingVertical: 2, borderRadius: radius.xxl },
   planBadgeText: { fontSize: 11, fontWeight: '600', color: colors.card },
   upgradeBtn: { marginTop: 12, backgroundColor: colors.primary, paddingVertical: 10, borderRadius: radius.lg, alignItems: 'center' },
@@ -6,10 +6,24 @@ import routes from "./routes";
 
 const app = express();
 
+// The deployment sits behind one load balancer; trust its X-Forwarded-For so req.ip is the
+// client's address (rate limits and ad viewer keys go by it). TRUST_PROXY_HOPS=0 when there is none.
+app.set("trust proxy", Number(process.env.TRUST_PROXY_HOPS ?? 1));
+
 app.use(cors());
 app.use(helmet());
 // Allow larger JSON bodies for base64 image/video payloads (e.g. reel uploads)
-app.use(express.json({ limit: "100mb" }));
+app.use(
+  express.json({
+    limit: "100mb",
+    // Payment and payout webhooks are signed over the exact bytes the sender sent
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith("/api/payments/") || req.url?.startsWith("/api/payouts/")) {
+        (req as any).rawBody = buf.toString("utf8");
+      }
+    },
+  })
+);
 app.use(morgan("dev"));
 
 // All API routes go under /api
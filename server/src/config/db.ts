@@ -1,5 +1,8 @@
 import mongoose from "mongoose";
 
+import { Payment } from "../models/payment.model";
+import { Invoice } from "../models/invoice.model";
+
 mongoose
   .connect(process.env.MONGO_URI as string)
   .then(async () => {
@@ -45,6 +48,47 @@ mongoose
           console.error("Error cleaning up orders indexes:", err.message);
         }
       }
+
+      // Payments: orderId became optional (checkout-group and subscription payments have none),
+      // so the old required unique orderId_1 must be rebuilt as sparse
+      try {
+        const paymentsCollections = await db.listCollections({ name: 'payments' }).toArray();
+        if (paymentsCollections.length > 0) {
+          const paymentsCollection = db.collection('payments');
+          const indexes = await paymentsCollection.indexes();
+          const staleIndex = indexes.find((idx: any) => idx.name === 'orderId_1' && !idx.sparse);
+          if (staleIndex) {
+            console.log("Rebuilding orderId index on payments as sparse...");
+            await paymentsCollection.dropIndex('orderId_1');
+            await Payment.createIndexes();
+            console.log("Payments orderId index rebuilt successfully");
+          }
+        }
+      } catch (err: any) {
+        if (!err.message?.includes('index not found') && !err.message?.includes('ns not found')) {
+          console.error("Error cleaning up payments indexes:", err.message);
+        }
+      }
+
+      // Invoices: numbers are unique per seller (sellerId + invoiceNumber), not globally
+      try {
+        const invoicesCollections = await db.listCollections({ name: 'invoices' }).toArray();
+        if (invoicesCollections.length > 0) {
+          const invoicesCollection = db.collection('invoices');
+          const indexes = await invoicesCollection.indexes();
+          const staleIndex = indexes.find((idx: any) => idx.name === 'invoiceNumber_1');
+          if (staleIndex) {
+            console.log("Dropping global invoiceNumber index on invoices...");
+            await invoicesCollection.dropIndex('invoiceNumber_1');
+            await Invoice.createIndexes();
+            console.log("Invoices invoiceNumber index dropped successfully");
+          }
+        }
+      } catch (err: any) {
+        if (!err.message?.includes('index not found') && !err.message?.includes('ns not found')) {
+          console.error("Error cleaning up invoices indexes:", err.message);
+        }
+      }
     }
   })
   .catch((err) => console.error(err));
@@ -8,6 +8,10 @@ import app from "./app";
 import "./config/db";
 import { initializeSocketServer, emitToUser } from "./services/socket.service";
 import { setNotificationSocketEmitter } from "./services/notification.service";
+import { startPayoutScheduler } from "./services/payout.service";
+import { startPaymentReconciler } from "./services/paymentReconciliation.service";
+import { startSubscriptionScheduler } from "./services/subscriptionBilling.service";
+import { startSuggestionIndexer } from "./services/searchSuggest.service";
 
 const PORT = process.env.PORT || 5000;
 
@@ -21,4 +25,8 @@ setNotificationSocketEmitter(emitToUser);
 httpServer.listen(PORT, () => {
   console.log(`Backend running on http://localhost:${PORT}`);
   console.log(`Socket.io server ready`);
+  startPayoutScheduler();
+  startPaymentReconciler();
+  startSubscriptionScheduler();
+  startSuggestionIndexer();
 });
@@ -2,36 +2,55 @@ import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import admin from "../config/firebase";
 
-export async function authenticate(
-  req: Request,
-  res: Response,
-  next: NextFunction
-) {
-  const token = req.headers.authorization?.split("Bearer ")[1];
-  if (!token) return res.status(401).json({ message: "No token" });
-
+/** The caller behind a bearer token, or null when the token is invalid */
+async function verifyToken(token: string): Promise<Record<string, any> | null> {
   try {
-    const decoded = await admin.auth().verifyIdToken(token);
-    (req as any).user = decoded;
-    return next();
+    return await admin.auth().verifyIdToken(token);
   } catch {
     // Fallback: backend-issued session JWT (when Firebase network fails on client)
     const JWT_SECRET = process.env.JWT_SECRET;
-    if (!JWT_SECRET) return res.status(401).json({ message: "Invalid token" });
+    if (!JWT_SECRET) return null;
     try {
       const decoded = jwt.verify(token, JWT_SECRET) as {
         uid: string;
         userId?: string;
         role?: string;
       };
-      (req as any).user = {
+      return {
         uid: decoded.uid,
         userId: decoded.userId,
         role: decoded.role,
       };
-      return next();
     } catch {
-      return res.status(401).json({ message: "Invalid token" });
+      return null;
     }
   }
 }
+
+export async function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const token = req.headers.authorization?.split("Bearer ")[1];
+  if (!token) return res.status(401).json({ message: "No token" });
+
+  const user = await verifyToken(token);
+  if (!user) return res.status(401).json({ message: "Invalid token" });
+  (req as any).user = user;
+  return next();
+}
+
+/** For public routes that do a little more for signed-in callers: sets req.user when the token is valid, never rejects */
+export async function optionalAuthenticate(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) {
+  const token = req.headers.authorization?.split("Bearer ")[1];
+  if (token) {
+    const user = await verifyToken(token);
+    if (user) (req as any).user = user;
+  }
+  return next();
+}
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { IdempotencyKey, type IIdempotencyKey } from "../models/idempotencyKey.model";
+
+/** Successful responses are replayed for this long */
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+/** A request still "in progress" after this long is assumed to have died with the server */
+const LOCK_TIMEOUT_MS = 60 * 1000;
+
+function fingerprintOf(req: Request): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${JSON.stringify(req.body ?? {})}`)
+    .digest("hex");
+}
+
+/** Take the key for this request, or return the existing record when someone already holds it */
+async function claimKey(
+  uid: string,
+  scope: string,
+  key: string,
+  fingerprint: string
+): Promise<{ claimed: IIdempotencyKey } | { existing: IIdempotencyKey }> {
+  const now = new Date();
+  try {
+    const claimed = await IdempotencyKey.create({
+      uid,
+      scope,
+      key,
+      fingerprint,
+      lockedAt: now,
+      expiresAt: new Date(now.getTime() + KEY_TTL_MS),
+    });
+    return { claimed };
+  } catch (err: any) {
+    if (err?.code !== 11000) throw err;
+  }
+
+  // Take over a lock left behind by a request that never finished
+  const stale = await IdempotencyKey.findOneAndUpdate(
+    { uid, scope, key, fingerprint, state: "in_progress", lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } },
+    { $set: { lockedAt: now } },
+    { new: true }
+  );
+  if (stale) return { claimed: stale };
+
+  const existing = await IdempotencyKey.findOne({ uid, scope, key });
+  if (!existing) return claimKey(uid, scope, key, fingerprint); // expired in between
+  return { existing };
+}
+
+/**
+ * Honour an `Idempotency-Key` header on a write endpoint. Runs after
+ * `authenticate`. Requests without the header go through unchanged.
+ *
+ * - the first request with a key runs normally; a 2xx response is stored
+ * - a retry with the same key and body gets the stored response back
+ *   (with `Idempotent-Replayed: true`)
+ * - a retry while the first is still running gets 409; retry shortly
+ * - the same key with a different body gets 422
+ * - a failed (non-2xx) request releases the key so it can be retried
+ */
+export function idempotent(scope: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get("Idempotency-Key");
+    if (!key) return next();
+    if (key.length > 255) {
+      return res.status(400).json({ message: "Idempotency-Key must be at most 255 characters" });
+    }
+
+    const uid: string = (req as any).user.uid;
+    const fingerprint = fingerprintOf(req);
+
+    let record: IIdempotencyKey;
+    try {
+      const result = await claimKey(uid, scope, key, fingerprint);
+      if ("existing" in result) {
+        const existing = result.existing;
+        if (existing.fingerprint !== fingerprint) {
+          return res.status(422).json({
+            message: "This Idempotency-Key was already used for a different request",
+            code: "idempotency_key_reused",
+          });
+        }
+        if (existing.state === "in_progress") {
+          res.set("Retry-After", "1");
+          return res.status(409).json({
+            message: "A request with this Idempotency-Key is still being processed",
+            code: "idempotency_in_progress",
+          });
+        }
+        res.set("Idempotent-Replayed", "true");
+        return res.status(existing.responseStatus ?? 200).json(existing.responseBody);
+      }
+      record = result.claimed;
+    } catch (err: any) {
+      console.error("[Idempotency Error]", err);
+      return res.status(500).json({ message: "Failed to process request", error: err.message });
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      const save =
+        res.statusCode >= 200 && res.statusCode < 300
+          ? IdempotencyKey.updateOne(
+              { _id: record._id },
+              {
+                $set: {
+                  state: "completed",
+                  responseStatus: res.statusCode,
+                  responseBody: JSON.parse(JSON.stringify(body ?? null)),
+                },
+              }
+            )
+          : IdempotencyKey.deleteOne({ _id: record._id });
+      save.catch((err) => console.error("[Idempotency Save Error]", err));
+      return json(body);
+    };
+
+    return next();
+  };
+}
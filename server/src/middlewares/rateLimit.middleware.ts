@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from "express";
+
+/** Requests counted per client IP in the current window, per limiter */
+type Window = { count: number; resetAt: number };
+
+/**
+ * Limit how often one IP can call a route: at most `max` requests per
+ * `windowMs`, then 429 until the window ends. Counts are kept in memory, so
+ * each server instance limits on its own and a restart clears them.
+ */
+export function rateLimit({ windowMs, max }: { windowMs: number; max: number }) {
+  const windows = new Map<string, Window>();
+
+  // Forget finished windows so the map doesn't grow with every IP ever seen
+  setInterval(() => {
+    const now = Date.now();
+    for (const [ip, window] of windows) {
+      if (window.resetAt <= now) windows.delete(ip);
+    }
+  }, windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const ip = req.ip || req.socket.remoteAddress || "unknown";
+    let window = windows.get(ip);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(ip, window);
+    }
+
+    window.count += 1;
+    if (window.count > max) {
+      res.setHeader("Retry-After", String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ message: "Too many requests; try again shortly" });
+    }
+    return next();
+  };
+}
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type AdEventType = "impression" | "click";
+
+/** Where in the app an ad was shown */
+export type AdPlacement = "home" | "category";
+
+/**
+ * One counted impression or click of a sponsored shop ad. `bucket` is the
+ * de-duplication window the event fell in, so the same viewer seeing or
+ * tapping an ad again within the window is counted (and charged) once.
+ */
+export interface IAdEvent extends Document {
+  adId: Types.ObjectId;
+  shopId: Types.ObjectId;
+  type: AdEventType;
+  /** Signed-in user ("user:<uid>") or, for guests, IP address ("ip:<ip>") the event came from */
+  viewerKey: string;
+  bucket: number;
+  placement?: AdPlacement;
+  /** Amount taken from the campaign budget for this event */
+  cost: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AdEventSchema = new Schema<IAdEvent>(
+  {
+    adId: { type: Schema.Types.ObjectId, ref: "ShopAd", required: true },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    type: { type: String, enum: ["impression", "click"], required: true },
+    viewerKey: { type: String, required: true },
+    bucket: { type: Number, required: true },
+    placement: { type: String, enum: ["home", "category"] },
+    cost: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+AdEventSchema.index({ adId: 1, type: 1, viewerKey: 1, bucket: 1 }, { unique: true });
+AdEventSchema.index({ adId: 1, createdAt: -1 });
+// Campaign totals live on the ad itself; the per-event detail is only kept for the daily report
+AdEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const AdEvent = mongoose.model<IAdEvent>("AdEvent", AdEventSchema);
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/**
+ * A line in the customer's cart. `productId` is usually a Product, but may also
+ * be a CallInvoice the seller sent during a video call (same as order items).
+ * Name, price and image are a snapshot refreshed whenever the cart is loaded.
+ */
+export interface ICartItem {
+  productId: Types.ObjectId;
+  variantId?: Types.ObjectId;
+  variantLabel?: string;
+  shopId: Types.ObjectId;
+  shopName: string;
+  name: string;
+  price: number;
+  quantity: number;
+  image?: string;
+  invoiceExpiresAt?: Date;
+}
+
+export interface ICart extends Document {
+  userId: Types.ObjectId;
+  items: ICartItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartItemSchema = new Schema<ICartItem>(
+  {
+    productId: { type: Schema.Types.ObjectId, required: true },
+    variantId: { type: Schema.Types.ObjectId },
+    variantLabel: { type: String },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    shopName: { type: String, default: "" },
+    name: { type: String, required: true },
+    price: { type: Number, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    image: { type: String },
+    invoiceExpiresAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const CartSchema = new Schema<ICart>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+      index: true,
+    },
+    items: { type: [CartItemSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+// Lets a shop find carts holding its products (abandoned cart follow-ups)
+CartSchema.index({ "items.shopId": 1, updatedAt: -1 });
+
+export const Cart = mongoose.model<ICart>("Cart", CartSchema);
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { OrderPricingSchema, IOrderPricing, IOrder } from "./order.model";
+
+/**
+ * Parent of the per-shop orders created by one multi-shop checkout.
+ * The customer pays once for the group and sees a single combined receipt.
+ */
+export interface ICheckoutGroup extends Document {
+  customerId: Types.ObjectId;
+  orderIds: Types.ObjectId[];
+  /** Sum of the orders' pricing; `pricing.payable` is charged in one payment */
+  pricing: IOrderPricing;
+  paymentMethod: IOrder["paymentMethod"];
+  paymentStatus: IOrder["paymentStatus"];
+  paymentId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CheckoutGroupSchema = new Schema<ICheckoutGroup>(
+  {
+    customerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    orderIds: [{ type: Schema.Types.ObjectId, ref: "Order" }],
+    pricing: { type: OrderPricingSchema, required: true },
+    paymentMethod: {
+      type: String,
+      enum: ["cod", "online", "upi", "wallet"],
+      default: "cod",
+    },
+    paymentStatus: {
+      type: String,
+      enum: ["pending", "paid", "failed", "refunded"],
+      default: "pending",
+    },
+    paymentId: { type: String },
+  },
+  { timestamps: true }
+);
+
+export const CheckoutGroup = mongoose.model<ICheckoutGroup>("CheckoutGroup", CheckoutGroupSchema);
@@ -8,6 +8,15 @@ export const GeoLocationSchema = new Schema(
   { _id: false }
 );
 
+/** GeoJSON point for 2dsphere queries; coordinates are [lng, lat] */
+export const GeoPointSchema = new Schema(
+  {
+    type: { type: String, enum: ["Point"], default: "Point", required: true },
+    coordinates: { type: [Number], required: true }
+  },
+  { _id: false }
+);
+
 export const AddressSchema = new Schema(
   {
     name: { type: String, required: true },
@@ -36,6 +45,11 @@ export interface GeoLocation {
   lng: number;
 }
 
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
 export interface Address {
   name: string;
   phone: string;
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type CouponDiscountType = "percent" | "flat";
+
+export interface ICoupon extends Document {
+  /** Stored upper-case; customers can type it in any case */
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  /** Percentage (0-100) for "percent", rupees for "flat" */
+  value: number;
+  minOrderValue: number;
+  /** Cap on the rupee discount of a percent coupon */
+  maxDiscount?: number;
+  /** Max redemptions per customer; unset = unlimited */
+  perUserLimit?: number;
+  /** Max redemptions overall; unset = unlimited */
+  usageLimit?: number;
+  usedCount: number;
+  validFrom: Date;
+  validUntil?: Date;
+  /** Shop the coupon belongs to; unset = platform-wide */
+  shopId?: Types.ObjectId;
+  createdBy?: Types.ObjectId;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema = new Schema<ICoupon>(
+  {
+    code: { type: String, required: true, uppercase: true, trim: true },
+    description: { type: String },
+    discountType: {
+      type: String,
+      enum: ["percent", "flat"],
+      required: true,
+    },
+    value: { type: Number, required: true, min: 0 },
+    minOrderValue: { type: Number, default: 0 },
+    maxDiscount: { type: Number },
+    perUserLimit: { type: Number },
+    usageLimit: { type: Number },
+    usedCount: { type: Number, default: 0 },
+    validFrom: { type: Date, default: Date.now },
+    validUntil: { type: Date },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", index: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+// Same code may exist once per shop and once platform-wide
+CouponSchema.index({ code: 1, shopId: 1 }, { unique: true });
+
+export const Coupon = mongoose.model<ICoupon>("Coupon", CouponSchema);
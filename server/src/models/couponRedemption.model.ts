@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type CouponRedemptionStatus = "applied" | "reversed";
+
+export interface ICouponRedemption extends Document {
+  couponId: Types.ObjectId;
+  userId: Types.ObjectId;
+  orderId: Types.ObjectId;
+  code: string;
+  amount: number;
+  /** "reversed" when the order is cancelled, so it no longer counts towards limits */
+  status: CouponRedemptionStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponRedemptionSchema = new Schema<ICouponRedemption>(
+  {
+    couponId: { type: Schema.Types.ObjectId, ref: "Coupon", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, index: true },
+    code: { type: String, required: true },
+    amount: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ["applied", "reversed"],
+      default: "applied",
+    },
+  },
+  { timestamps: true }
+);
+
+CouponRedemptionSchema.index({ couponId: 1, userId: 1, status: 1 });
+
+export const CouponRedemption = mongoose.model<ICouponRedemption>(
+  "CouponRedemption",
+  CouponRedemptionSchema
+);
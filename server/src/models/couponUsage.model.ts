@@ -0,0 +1,23 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/** Uses of a coupon one customer currently holds, so the per-customer limit can be taken atomically */
+export interface ICouponUsage extends Document {
+  couponId: Types.ObjectId;
+  userId: Types.ObjectId;
+  used: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponUsageSchema = new Schema<ICouponUsage>(
+  {
+    couponId: { type: Schema.Types.ObjectId, ref: "Coupon", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    used: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+CouponUsageSchema.index({ couponId: 1, userId: 1 }, { unique: true });
+
+export const CouponUsage = mongoose.model<ICouponUsage>("CouponUsage", CouponUsageSchema);
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/**
+ * A delivery partner a seller has added to their shop. The partner signs in
+ * with the same phone number (role "agent") and sees the orders assigned to
+ * any of their agent records, so one person can deliver for several shops.
+ */
+export interface IDeliveryAgent extends Document {
+  sellerId: Types.ObjectId;
+  shopId: Types.ObjectId;
+  name: string;
+  /** +91 formatted, matching User.phone */
+  phone: string;
+  /** Removed partners keep their record so past orders still show who delivered them */
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeliveryAgentSchema = new Schema<IDeliveryAgent>(
+  {
+    sellerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    name: { type: String, required: true, trim: true },
+    phone: { type: String, required: true },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true }
+);
+
+DeliveryAgentSchema.index({ sellerId: 1, phone: 1 }, { unique: true });
+DeliveryAgentSchema.index({ phone: 1, isActive: 1 });
+
+export const DeliveryAgent = mongoose.model<IDeliveryAgent>("DeliveryAgent", DeliveryAgentSchema);
@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/**
+ * How many orders hold one of a shop's delivery slots on a given date. Created
+ * on the first booking; `booked` only goes up while it is below the slot's
+ * capacity (see services/deliverySlot.service.ts), so concurrent checkouts
+ * can't overfill a slot.
+ */
+export interface IDeliverySlotBooking extends Document {
+  shopId: Types.ObjectId;
+  /** Shop-local date, YYYY-MM-DD */
+  date: string;
+  /** The slot template on the shop (shop.deliverySlots.slots[]._id) */
+  slotId: Types.ObjectId;
+  booked: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeliverySlotBookingSchema = new Schema<IDeliverySlotBooking>(
+  {
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    date: { type: String, required: true },
+    slotId: { type: Schema.Types.ObjectId, required: true },
+    booked: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+DeliverySlotBookingSchema.index({ shopId: 1, date: 1, slotId: 1 }, { unique: true });
+
+export const DeliverySlotBooking = mongoose.model<IDeliverySlotBooking>("DeliverySlotBooking", DeliverySlotBookingSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * One Idempotency-Key sent by a client. While the first request runs the key
+ * is locked; once it succeeds the response is kept so retries get the same
+ * answer instead of repeating the write.
+ */
+export interface IIdempotencyKey extends Document {
+  /** Firebase uid of the caller; keys are only unique per user */
+  uid: string;
+  /** Which endpoint the key was used on, e.g. "create_order" */
+  scope: string;
+  key: string;
+  /** Hash of the method, path and body, so a key can't be reused for a different request */
+  fingerprint: string;
+  state: "in_progress" | "completed";
+  lockedAt: Date;
+  responseStatus?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    uid: { type: String, required: true },
+    scope: { type: String, required: true },
+    key: { type: String, required: true },
+    fingerprint: { type: String, required: true },
+    state: { type: String, enum: ["in_progress", "completed"], default: "in_progress" },
+    lockedAt: { type: Date, required: true },
+    responseStatus: { type: Number },
+    responseBody: { type: Schema.Types.Mixed },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+IdempotencyKeySchema.index({ uid: 1, scope: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>("IdempotencyKey", IdempotencyKeySchema);
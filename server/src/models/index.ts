@@ -11,10 +11,29 @@ export * from "./videoCall.model";
 export * from "./callInvoice.model";
 export * from "./scheduledCallback.model";
 export * from "./order.model";
+export * from "./deliverySlotBooking.model";
+export * from "./deliveryAgent.model";
 export * from "./invoice.model";
+export * from "./invoiceCounter.model";
 export * from "./payment.model";
 export * from "./review.model";
 export * from "./shopAd.model";
+export * from "./adEvent.model";
 export * from "./subscription.model";
 export * from "./notification.model";
-
+export * from "./coupon.model";
+export * from "./couponRedemption.model";
+export * from "./couponUsage.model";
+export * from "./wallet.model";
+export * from "./walletTransaction.model";
+export * from "./checkoutGroup.model";
+export * from "./cart.model";
+export * from "./wishlist.model";
+export * from "./returnRequest.model";
+export * from "./refund.model";
+export * from "./sellerLedgerEntry.model";
+export * from "./payout.model";
+export * from "./paymentReconciliation.model";
+export * from "./idempotencyKey.model";
+export * from "./searchSuggestion.model";
+export * from "./recentSearch.model";
@@ -4,12 +4,18 @@ import { OrderProductSnapshotSchema, OrderProductSnapshot } from "./order.model"
 
 export interface TaxBreakdownItem {
   name: string;
+  /** e.g. 0.025 for CGST 2.5% */
+  rate?: number;
   amount: number;
 }
 
+/** Seller and customer in the same state pay CGST + SGST; across states, IGST */
+export type SupplyType = "intra_state" | "inter_state";
+
 const TaxBreakdownItemSchema = new Schema<TaxBreakdownItem>(
   {
     name: { type: String, required: true },
+    rate: { type: Number },
     amount: { type: Number, required: true }
   },
   { _id: false }
@@ -17,10 +23,25 @@ const TaxBreakdownItemSchema = new Schema<TaxBreakdownItem>(
 
 export interface IInvoice extends Document {
   orderId: Types.ObjectId;
+  sellerId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  shopId: Types.ObjectId;
+  /** Unique per seller: INV/<financial year>/<sequence> */
   invoiceNumber: string;
+  financialYear: string;
+  sequence: number;
+  sellerGstin?: string;
+  /** State the goods are delivered to */
+  placeOfSupply: string;
+  supplyType: SupplyType;
   sellerDetailsSnapshot: SnapshotUser;
   customerDetailsSnapshot: SnapshotUser;
   items: OrderProductSnapshot[];
+  subtotal: number;
+  discountTotal: number;
+  platformFee: number;
+  deliveryFee: number;
+  taxableAmount: number;
   taxBreakdown: TaxBreakdownItem[];
   totalAmount: number;
   pdfUrl?: string;
@@ -37,13 +58,26 @@ const InvoiceSchema = new Schema<IInvoice>(
       required: true,
       unique: true
     },
-    invoiceNumber: { type: String, required: true, unique: true },
+    sellerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    invoiceNumber: { type: String, required: true },
+    financialYear: { type: String, required: true },
+    sequence: { type: Number, required: true },
+    sellerGstin: { type: String },
+    placeOfSupply: { type: String, default: "" },
+    supplyType: { type: String, enum: ["intra_state", "inter_state"], required: true },
     sellerDetailsSnapshot: { type: SnapshotUserSchema, required: true },
     customerDetailsSnapshot: { type: SnapshotUserSchema, required: true },
     items: {
       type: [OrderProductSnapshotSchema],
       required: true
     },
+    subtotal: { type: Number, required: true },
+    discountTotal: { type: Number, default: 0 },
+    platformFee: { type: Number, default: 0 },
+    deliveryFee: { type: Number, default: 0 },
+    taxableAmount: { type: Number, required: true },
     taxBreakdown: { type: [TaxBreakdownItemSchema], default: [] },
     totalAmount: { type: Number, required: true },
     pdfUrl: { type: String },
@@ -52,5 +86,8 @@ const InvoiceSchema = new Schema<IInvoice>(
   { timestamps: true }
 );
 
+InvoiceSchema.index({ sellerId: 1, invoiceNumber: 1 }, { unique: true });
+InvoiceSchema.index({ sellerId: 1, generatedAt: -1 });
+
 export const Invoice = mongoose.model<IInvoice>("Invoice", InvoiceSchema);
 
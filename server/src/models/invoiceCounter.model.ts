@@ -0,0 +1,24 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/** Last invoice number handed out to a seller in a financial year */
+export interface IInvoiceCounter extends Document {
+  sellerId: Types.ObjectId;
+  /** e.g. "2026-27" (April to March) */
+  financialYear: string;
+  sequence: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvoiceCounterSchema = new Schema<IInvoiceCounter>(
+  {
+    sellerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    financialYear: { type: String, required: true },
+    sequence: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+InvoiceCounterSchema.index({ sellerId: 1, financialYear: 1 }, { unique: true });
+
+export const InvoiceCounter = mongoose.model<IInvoiceCounter>("InvoiceCounter", InvoiceCounterSchema);
@@ -1,5 +1,5 @@
 import mongoose, { Schema, Document } from "mongoose";
-import { GeoLocationSchema, GeoLocation } from "./common";
+import { GeoLocationSchema, GeoLocation, GeoPointSchema, GeoPoint } from "./common";
 
 interface MarketImage {
   url: string;
@@ -18,6 +18,8 @@ export interface IMarket extends Document {
     center?: GeoLocation;
     radiusMeters?: number;
   };
+  /** Centre of geoBoundary, derived on save so markets can be found with 2dsphere queries */
+  location?: GeoPoint;
   totalShops: number;
   images?: MarketImage[];
   isActive: boolean;
@@ -50,6 +52,7 @@ const MarketSchema = new Schema<IMarket>(
     description: { type: String },
     ratingAverage: { type: Number },
     geoBoundary: { type: GeoBoundarySchema },
+    location: { type: GeoPointSchema, default: undefined },
     totalShops: { type: Number, default: 0 },
     images: { type: [MarketImageSchema], default: [] },
     isActive: { type: Boolean, default: true }
@@ -57,4 +60,32 @@ const MarketSchema = new Schema<IMarket>(
   { timestamps: true }
 );
 
+// Keep location at the boundary's centre (or the polygon's vertex average)
+MarketSchema.pre("validate", function () {
+  const boundary = this.geoBoundary;
+  let centre: GeoLocation | undefined = boundary?.center;
+  if (!centre && boundary?.polygon && boundary.polygon.length > 0) {
+    const first = boundary.polygon[0];
+    const last = boundary.polygon[boundary.polygon.length - 1];
+    // A closed ring repeats its first vertex; don't count it twice
+    const ring =
+      boundary.polygon.length > 1 && first.lat === last.lat && first.lng === last.lng
+        ? boundary.polygon.slice(0, -1)
+        : boundary.polygon;
+    centre = {
+      lat: ring.reduce((sum, p) => sum + p.lat, 0) / ring.length,
+      lng: ring.reduce((sum, p) => sum + p.lng, 0) / ring.length,
+    };
+  }
+  this.location = centre ? { type: "Point", coordinates: [centre.lng, centre.lat] } : undefined;
+});
+
+MarketSchema.index({ location: "2dsphere" });
+
+// Full-text search (GET /search)
+MarketSchema.index(
+  { name: "text", city: "text", state: "text", description: "text" },
+  { name: "market_text", weights: { name: 10, city: 5, state: 3, description: 1 } }
+);
+
 export const Market = mongoose.model<IMarket>("Market", MarketSchema);
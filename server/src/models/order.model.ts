@@ -1,21 +1,119 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
+import { GeoLocationSchema, type GeoLocation } from "./common";
 
 export interface IOrderItem {
   productId: Types.ObjectId;
+  /** Set for products sold in variants (size, colour...) */
+  variantId?: Types.ObjectId;
+  variantLabel?: string;
+  sku?: string;
   name: string;
   price: number;
   quantity: number;
   image?: string;
+  /** True while this line holds product stock; cleared when the stock is given back */
+  stockReserved?: boolean;
+}
+
+export type OrderStatus = "pending" | "confirmed" | "preparing" | "ready" | "delivered" | "cancelled";
+
+/** One step of the order timeline: who moved the order to `status` and when */
+export interface IOrderStatusChange {
+  status: OrderStatus;
+  at: Date;
+  actorId?: Types.ObjectId;
+  actorRole: "customer" | "seller" | "agent" | "system";
+  note?: string;
+}
+
+export interface IOrderDiscount {
+  /** Promo/coupon code that produced this discount, when there is one */
+  code?: string;
+  couponId?: Types.ObjectId;
+  label: string;
+  amount: number;
+}
+
+export interface IOrderTaxLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+/**
+ * Server-computed price breakdown. `grandTotal` is the order value;
+ * `payable` is what is left to collect after wallet credits.
+ */
+export interface IOrderPricing {
+  subtotal: number;
+  platformFee: number;
+  /** Charged by the shop for delivering to this address; not taxed */
+  deliveryFee: number;
+  discounts: IOrderDiscount[];
+  discountTotal: number;
+  taxBreakdown: IOrderTaxLine[];
+  taxTotal: number;
+  grandTotal: number;
+  walletApplied: number;
+  payable: number;
+}
+
+export type FulfilmentType = "delivery" | "pickup";
+
+/** Click-and-collect details; the code is only ever sent to the customer */
+export interface IOrderPickup {
+  slot: {
+    date: string;
+    start: string;
+    end: string;
+    startsAt: Date;
+    endsAt: Date;
+  };
+  code: string;
+  /** When the seller entered the right code and handed the order over */
+  verifiedAt?: Date;
+  failedAttempts: number;
+  lockedUntil?: Date;
+}
+
+export type AgentDeliveryStatus = "assigned" | "picked_up" | "out_for_delivery" | "delivered";
+
+/**
+ * The delivery partner carrying a delivery order. The OTP is only ever sent to
+ * the customer, who reads it out to the partner at the door.
+ */
+export interface IOrderAgentDelivery {
+  agentId: Types.ObjectId;
+  /** Copied from the agent when assigned, for the customer's tracking view */
+  name: string;
+  phone: string;
+  status: AgentDeliveryStatus;
+  assignedAt: Date;
+  pickedUpAt?: Date;
+  outForDeliveryAt?: Date;
+  deliveredAt?: Date;
+  otp: string;
+  failedAttempts: number;
+  lockedUntil?: Date;
+  /** Latest position the partner's app reported while carrying the order */
+  lastLocation?: GeoLocation & { at: Date };
 }
 
 export interface IOrder extends Document {
   customerId: Types.ObjectId;
+  /** Set when the order was placed together with orders from other shops */
+  checkoutGroupId?: Types.ObjectId;
   shopId: Types.ObjectId;
   sellerId: Types.ObjectId;
   items: IOrderItem[];
-  status: "pending" | "confirmed" | "preparing" | "ready" | "delivered" | "cancelled";
+  status: OrderStatus;
+  /** Every status the order has been in, oldest first (orders placed before this was added start empty) */
+  statusHistory: IOrderStatusChange[];
   totalAmount: number;
-  deliveryAddress: {
+  pricing?: IOrderPricing;
+  fulfilmentType: FulfilmentType;
+  /** Where to deliver; not set on pickup orders */
+  deliveryAddress?: {
     label: string;
     line1: string;
     line2?: string;
@@ -23,14 +121,30 @@ export interface IOrder extends Document {
     state: string;
     pincode: string;
     phone?: string;
+    /** Pin for the address when the customer shared it; used for distance-based delivery */
+    geoLocation?: GeoLocation;
   };
   deliverySchedule?: {
     date: string;
     timeSlot: string;
+    /** Set when the customer booked one of the shop's delivery slots */
+    slotId?: Types.ObjectId;
+    start?: string;
+    end?: string;
+    /** True while the order counts towards the slot's capacity */
+    slotReserved?: boolean;
   };
+  pickup?: IOrderPickup;
+  agentDelivery?: IOrderAgentDelivery;
   paymentStatus: "pending" | "paid" | "failed" | "refunded";
-  paymentMethod: "cod" | "online" | "upi";
+  paymentMethod: "cod" | "online" | "upi" | "wallet";
   paymentId?: string;
+  /** Total given back for returned items so far */
+  refundedAmount: number;
+  /** Set on the zero-value order that ships an exchange */
+  replacementFor?: Types.ObjectId;
+  /** When the seller's earnings for this order were added to their ledger */
+  ledgerAccruedAt?: Date;
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -39,10 +153,108 @@ export interface IOrder extends Document {
 export const OrderItemSchema = new Schema<IOrderItem>(
   {
     productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId },
+    variantLabel: { type: String },
+    sku: { type: String },
     name: { type: String, required: true },
     price: { type: Number, required: true },
     quantity: { type: Number, required: true, min: 1 },
     image: { type: String },
+    stockReserved: { type: Boolean },
+  },
+  { _id: false }
+);
+
+const OrderStatusChangeSchema = new Schema<IOrderStatusChange>(
+  {
+    status: {
+      type: String,
+      enum: ["pending", "confirmed", "preparing", "ready", "delivered", "cancelled"],
+      required: true,
+    },
+    at: { type: Date, required: true },
+    actorId: { type: Schema.Types.ObjectId, ref: "User" },
+    actorRole: { type: String, enum: ["customer", "seller", "agent", "system"], required: true },
+    note: { type: String },
+  },
+  { _id: false }
+);
+
+const OrderDiscountSchema = new Schema<IOrderDiscount>(
+  {
+    code: { type: String },
+    couponId: { type: Schema.Types.ObjectId, ref: "Coupon" },
+    label: { type: String, required: true },
+    amount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const OrderTaxLineSchema = new Schema<IOrderTaxLine>(
+  {
+    name: { type: String, required: true },
+    rate: { type: Number, required: true },
+    amount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const OrderPickupSchema = new Schema<IOrderPickup>(
+  {
+    slot: {
+      date: { type: String, required: true },
+      start: { type: String, required: true },
+      end: { type: String, required: true },
+      startsAt: { type: Date, required: true },
+      endsAt: { type: Date, required: true },
+    },
+    // Kept out of queries by default so seller-facing responses never carry it
+    code: { type: String, required: true, select: false },
+    verifiedAt: { type: Date },
+    failedAttempts: { type: Number, default: 0 },
+    lockedUntil: { type: Date },
+  },
+  { _id: false }
+);
+
+const OrderAgentDeliverySchema = new Schema<IOrderAgentDelivery>(
+  {
+    agentId: { type: Schema.Types.ObjectId, ref: "DeliveryAgent", required: true },
+    name: { type: String, required: true },
+    phone: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["assigned", "picked_up", "out_for_delivery", "delivered"],
+      default: "assigned",
+    },
+    assignedAt: { type: Date, required: true },
+    pickedUpAt: { type: Date },
+    outForDeliveryAt: { type: Date },
+    deliveredAt: { type: Date },
+    // Same as the pickup code: only the customer's own order responses select it
+    otp: { type: String, required: true, select: false },
+    failedAttempts: { type: Number, default: 0 },
+    lockedUntil: { type: Date },
+    lastLocation: {
+      type: new Schema({ lat: Number, lng: Number, at: Date }, { _id: false }),
+      required: false,
+    },
+  },
+  { _id: false }
+);
+
+export const OrderPricingSchema = new Schema<IOrderPricing>(
+  {
+    subtotal: { type: Number, required: true },
+    platformFee: { type: Number, required: true },
+    deliveryFee: { type: Number, default: 0 },
+    discounts: { type: [OrderDiscountSchema], default: [] },
+    discountTotal: { type: Number, default: 0 },
+    taxBreakdown: { type: [OrderTaxLineSchema], default: [] },
+    taxTotal: { type: Number, default: 0 },
+    grandTotal: { type: Number, required: true },
+    walletApplied: { type: Number, default: 0 },
+    payable: { type: Number, required: true },
   },
   { _id: false }
 );
@@ -55,6 +267,11 @@ const OrderSchema = new Schema<IOrder>(
       required: true,
       index: true,
     },
+    checkoutGroupId: {
+      type: Schema.Types.ObjectId,
+      ref: "CheckoutGroup",
+      index: true,
+    },
     shopId: {
       type: Schema.Types.ObjectId,
       ref: "Shop",
@@ -73,20 +290,38 @@ const OrderSchema = new Schema<IOrder>(
       enum: ["pending", "confirmed", "preparing", "ready", "delivered", "cancelled"],
       default: "pending",
     },
+    statusHistory: { type: [OrderStatusChangeSchema], default: [] },
     totalAmount: { type: Number, required: true },
+    pricing: { type: OrderPricingSchema },
+    fulfilmentType: { type: String, enum: ["delivery", "pickup"], default: "delivery" },
     deliveryAddress: {
-      label: { type: String, required: true },
-      line1: { type: String, required: true },
-      line2: { type: String },
-      city: { type: String, required: true },
-      state: { type: String, required: true },
-      pincode: { type: String, required: true },
-      phone: { type: String },
+      type: new Schema(
+        {
+          label: { type: String, required: true },
+          line1: { type: String, required: true },
+          line2: { type: String },
+          city: { type: String, required: true },
+          state: { type: String, required: true },
+          pincode: { type: String, required: true },
+          phone: { type: String },
+          geoLocation: { type: GeoLocationSchema, required: false },
+        },
+        { _id: false }
+      ),
+      required: function (this: IOrder) {
+        return this.fulfilmentType !== "pickup";
+      },
     },
     deliverySchedule: {
       date: { type: String },
       timeSlot: { type: String },
+      slotId: { type: Schema.Types.ObjectId },
+      start: { type: String },
+      end: { type: String },
+      slotReserved: { type: Boolean },
     },
+    pickup: { type: OrderPickupSchema },
+    agentDelivery: { type: OrderAgentDeliverySchema },
     paymentStatus: {
       type: String,
       enum: ["pending", "paid", "failed", "refunded"],
@@ -94,10 +329,13 @@ const OrderSchema = new Schema<IOrder>(
     },
     paymentMethod: {
       type: String,
-      enum: ["cod", "online", "upi"],
+      enum: ["cod", "online", "upi", "wallet"],
       default: "cod",
     },
     paymentId: { type: String },
+    refundedAmount: { type: Number, default: 0 },
+    replacementFor: { type: Schema.Types.ObjectId, ref: "ReturnRequest" },
+    ledgerAccruedAt: { type: Date },
     notes: { type: String },
   },
   { timestamps: true }
@@ -106,6 +344,7 @@ const OrderSchema = new Schema<IOrder>(
 // Indexes for efficient queries
 OrderSchema.index({ createdAt: -1 });
 OrderSchema.index({ status: 1 });
+OrderSchema.index({ "agentDelivery.agentId": 1, "agentDelivery.status": 1 });
 
 // Re-export item schema/type for use in other models (e.g. invoices)
 export type OrderProductSnapshot = IOrderItem;
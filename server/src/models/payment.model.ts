@@ -1,33 +1,81 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
-export type PaymentProvider = "Razorpay" | "PhonePe";
+/** "Fake" is the local provider used in development to run the payment flow without a gateway */
+export type PaymentProvider = "Razorpay" | "PhonePe" | "Fake";
+
+/** An earlier attempt the customer has since retried; its webhook can still arrive */
+export interface IPaymentAttempt {
+  paymentIntentId: string;
+  providerOrderId?: string;
+  provider: PaymentProvider;
+  startedAt: Date;
+}
 
 export interface IPayment extends Document {
-  orderId: Types.ObjectId;
+  /** Order being paid for; unset when paying for a whole checkout group */
+  orderId?: Types.ObjectId;
+  checkoutGroupId?: Types.ObjectId;
+  /** Seller plan purchase or renewal being paid for */
+  subscriptionId?: Types.ObjectId;
   provider: PaymentProvider;
+  /** Our transaction id for this attempt (PhonePe merchantTransactionId, Razorpay receipt) */
   paymentIntentId: string;
+  /** Gateway-side order created for the attempt (Razorpay order_id) */
+  providerOrderId?: string;
+  /** Gateway's id for the completed payment (PhonePe transactionId, Razorpay payment_id) */
+  providerPaymentId?: string;
+  /** Attempts replaced by a retry, oldest first */
+  previousAttempts: IPaymentAttempt[];
   paymentMethod?: string;
   amount: number;
   currency: string;
   status: "pending" | "succeeded" | "failed";
+  /** When the reconciler last asked the gateway about this attempt, and how many times it has */
+  lastReconciledAt?: Date;
+  reconcileAttempts: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const PaymentAttemptSchema = new Schema<IPaymentAttempt>(
+  {
+    paymentIntentId: { type: String, required: true },
+    providerOrderId: { type: String },
+    provider: { type: String, enum: ["Razorpay", "PhonePe", "Fake"], required: true },
+    startedAt: { type: Date, required: true }
+  },
+  { _id: false }
+);
+
 const PaymentSchema = new Schema<IPayment>(
   {
     orderId: {
       type: Schema.Types.ObjectId,
       ref: "Order",
-      required: true,
-      unique: true
+      unique: true,
+      sparse: true
+    },
+    checkoutGroupId: {
+      type: Schema.Types.ObjectId,
+      ref: "CheckoutGroup",
+      unique: true,
+      sparse: true
+    },
+    subscriptionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Subscription",
+      unique: true,
+      sparse: true
     },
     provider: {
       type: String,
-      enum: ["Razorpay", "PhonePe"],
+      enum: ["Razorpay", "PhonePe", "Fake"],
       required: true
     },
     paymentIntentId: { type: String, required: true, unique: true },
+    providerOrderId: { type: String, index: true, sparse: true },
+    providerPaymentId: { type: String },
+    previousAttempts: { type: [PaymentAttemptSchema], default: [] },
     paymentMethod: { type: String },
     amount: { type: Number, required: true },
     currency: { type: String, required: true },
@@ -35,10 +83,16 @@ const PaymentSchema = new Schema<IPayment>(
       type: String,
       enum: ["pending", "succeeded", "failed"],
       default: "pending"
-    }
+    },
+    lastReconciledAt: { type: Date },
+    reconcileAttempts: { type: Number, default: 0 }
   },
   { timestamps: true }
 );
 
+PaymentSchema.index({ status: 1, createdAt: 1 });
+PaymentSchema.index({ "previousAttempts.paymentIntentId": 1 });
+PaymentSchema.index({ "previousAttempts.providerOrderId": 1 });
+
 export const Payment = mongoose.model<IPayment>("Payment", PaymentSchema);
 
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+import type { IPayment } from "./payment.model";
+
+/**
+ * status_check: the reconciler asked the gateway about a pending payment
+ * order_cancelled: an unpaid online order timed out and was cancelled
+ */
+export type ReconciliationAction = "status_check" | "order_cancelled";
+
+/** Audit trail of the payment reconciler; one document per attempt */
+export interface IPaymentReconciliation extends Document {
+  action: ReconciliationAction;
+  paymentId?: Types.ObjectId;
+  provider?: IPayment["provider"];
+  transactionId?: string;
+  orderIds: Types.ObjectId[];
+  previousStatus?: IPayment["status"];
+  resultStatus?: IPayment["status"];
+  /** Set when the gateway couldn't be reached or the step failed */
+  error?: string;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentReconciliationSchema = new Schema<IPaymentReconciliation>(
+  {
+    action: { type: String, enum: ["status_check", "order_cancelled"], required: true },
+    paymentId: { type: Schema.Types.ObjectId, ref: "Payment" },
+    provider: { type: String, enum: ["Razorpay", "PhonePe", "Fake"] },
+    transactionId: { type: String },
+    orderIds: [{ type: Schema.Types.ObjectId, ref: "Order" }],
+    previousStatus: { type: String, enum: ["pending", "succeeded", "failed"] },
+    resultStatus: { type: String, enum: ["pending", "succeeded", "failed"] },
+    error: { type: String },
+    note: { type: String },
+  },
+  { timestamps: true }
+);
+
+PaymentReconciliationSchema.index({ paymentId: 1, createdAt: -1 });
+PaymentReconciliationSchema.index({ orderIds: 1 });
+PaymentReconciliationSchema.index({ createdAt: -1 });
+
+export const PaymentReconciliation = mongoose.model<IPaymentReconciliation>(
+  "PaymentReconciliation",
+  PaymentReconciliationSchema
+);
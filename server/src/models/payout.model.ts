@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/** processing: batched and waiting for the bank transfer; paid once the transfer reference is recorded */
+export type PayoutStatus = "processing" | "paid" | "failed";
+
+export interface IPayoutBankSnapshot {
+  accountHolder: string;
+  /** Only the last four digits are kept on the payout */
+  accountLast4: string;
+  bankName?: string;
+  ifscCode: string;
+}
+
+export interface IPayout extends Document {
+  sellerId: Types.ObjectId;
+  shopId: Types.ObjectId;
+  amount: number;
+  /** Ledger entries covered by this payout were created in this range */
+  periodStart: Date;
+  periodEnd: Date;
+  entryCount: number;
+  status: PayoutStatus;
+  bank: IPayoutBankSnapshot;
+  /** Bank transfer reference (UTR) */
+  reference?: string;
+  failureReason?: string;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PayoutBankSnapshotSchema = new Schema<IPayoutBankSnapshot>(
+  {
+    accountHolder: { type: String, required: true },
+    accountLast4: { type: String, required: true },
+    bankName: { type: String },
+    ifscCode: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const PayoutSchema = new Schema<IPayout>(
+  {
+    sellerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    amount: { type: Number, required: true, min: 0 },
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    entryCount: { type: Number, required: true },
+    status: { type: String, enum: ["processing", "paid", "failed"], default: "processing" },
+    bank: { type: PayoutBankSnapshotSchema, required: true },
+    reference: { type: String },
+    failureReason: { type: String },
+    paidAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+PayoutSchema.index({ sellerId: 1, createdAt: -1 });
+PayoutSchema.index({ shopId: 1, createdAt: -1 });
+
+export const Payout = mongoose.model<IPayout>("Payout", PayoutSchema);
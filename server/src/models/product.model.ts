@@ -1,5 +1,24 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
+/** A variant axis, e.g. { name: "Size", values: ["S", "M", "L"] } */
+export interface IProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface IProductVariant {
+  _id: Types.ObjectId;
+  sku?: string;
+  /** One value per option axis, e.g. [{ name: "Size", value: "M" }, { name: "Colour", value: "Red" }] */
+  options: { name: string; value: string }[];
+  price: number;
+  discountPrice?: number;
+  /** Untracked when unset, like the product-level stock */
+  stock?: number;
+  images: string[];
+  isAvailable: boolean;
+}
+
 export interface IProduct extends Document {
   shopId: Types.ObjectId;
   name: string;
@@ -9,11 +28,43 @@ export interface IProduct extends Document {
   discountPrice?: number;
   categoryId: Types.ObjectId;
   isAvailable: boolean;
+  /** Untracked when unset; otherwise decremented as orders are placed */
   stock?: number;
+  /** The seller is notified when stock drops to this level */
+  lowStockThreshold: number;
+  /** Set when running out of stock hid the product, so restocking can show it again */
+  soldOutAt?: Date;
+  /**
+   * When set, customers must pick a variant. `price`, `discountPrice` and `stock`
+   * then summarise the variants (lowest price, total stock) for listings.
+   */
+  options: IProductOption[];
+  variants: IProductVariant[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const ProductOptionSchema = new Schema<IProductOption>(
+  {
+    name: { type: String, required: true },
+    values: { type: [String], default: [] }
+  },
+  { _id: false }
+);
+
+const ProductVariantSchema = new Schema<IProductVariant>({
+  sku: { type: String },
+  options: {
+    type: [{ _id: false, name: { type: String, required: true }, value: { type: String, required: true } }],
+    default: []
+  },
+  price: { type: Number, required: true },
+  discountPrice: { type: Number },
+  stock: { type: Number, min: 0 },
+  images: { type: [String], default: [] },
+  isAvailable: { type: Boolean, default: true }
+});
+
 const ProductSchema = new Schema<IProduct>(
   {
     shopId: {
@@ -33,10 +84,21 @@ const ProductSchema = new Schema<IProduct>(
       required: true
     },
     isAvailable: { type: Boolean, default: true },
-    stock: { type: Number }
+    stock: { type: Number, min: 0 },
+    lowStockThreshold: { type: Number, default: 5, min: 0 },
+    soldOutAt: { type: Date },
+    options: { type: [ProductOptionSchema], default: [] },
+    variants: { type: [ProductVariantSchema], default: [] }
   },
   { timestamps: true }
 );
 
+ProductSchema.index({ categoryId: 1 });
+// Full-text search (GET /search)
+ProductSchema.index(
+  { name: "text", description: "text" },
+  { name: "product_text", weights: { name: 10, description: 2 } }
+);
+
 export const Product = mongoose.model<IProduct>("Product", ProductSchema);
 
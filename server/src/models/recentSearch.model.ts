@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/** A search the user ran, newest first in their suggestions; repeats bump `lastSearchedAt` */
+export interface IRecentSearch extends Document {
+  userId: Types.ObjectId;
+  query: string;
+  /** Normalised query, so "Kurti" and "kurti " are one entry */
+  key: string;
+  count: number;
+  lastSearchedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RecentSearchSchema = new Schema<IRecentSearch>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    query: { type: String, required: true },
+    key: { type: String, required: true },
+    count: { type: Number, default: 1 },
+    lastSearchedAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+RecentSearchSchema.index({ userId: 1, key: 1 }, { unique: true });
+RecentSearchSchema.index({ userId: 1, lastSearchedAt: -1 });
+
+export const RecentSearch = mongoose.model<IRecentSearch>("RecentSearch", RecentSearchSchema);
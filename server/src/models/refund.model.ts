@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import type { PaymentProvider } from "./payment.model";
+
+export type RefundStatus = "pending" | "succeeded" | "failed";
+
+/** Online payments go back through the gateway; wallet credit goes back to the wallet */
+export type RefundDestination = "gateway" | "wallet";
+
+export type RefundSource = "cancellation" | "return";
+
+export interface IRefund extends Document {
+  /** Our id for the refund, also sent to the gateway (PhonePe merchantTransactionId, Razorpay receipt) */
+  refundId: string;
+  orderId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  sellerId: Types.ObjectId;
+  /** The payment being refunded (gateway refunds only) */
+  paymentId?: Types.ObjectId;
+  returnRequestId?: Types.ObjectId;
+  source: RefundSource;
+  destination: RefundDestination;
+  provider?: PaymentProvider;
+  /** Full when it covers the whole order value, partial otherwise */
+  type: "full" | "partial";
+  amount: number;
+  reason: string;
+  status: RefundStatus;
+  providerRefundId?: string;
+  failureReason?: string;
+  /** The gateway refund failed, so the amount was credited to the customer's wallet instead */
+  walletFallback: boolean;
+  settledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundSchema = new Schema<IRefund>(
+  {
+    refundId: { type: String, required: true, unique: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, index: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    sellerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    paymentId: { type: Schema.Types.ObjectId, ref: "Payment" },
+    returnRequestId: { type: Schema.Types.ObjectId, ref: "ReturnRequest" },
+    source: { type: String, enum: ["cancellation", "return"], required: true },
+    destination: { type: String, enum: ["gateway", "wallet"], required: true },
+    provider: { type: String, enum: ["Razorpay", "PhonePe", "Fake"] },
+    type: { type: String, enum: ["full", "partial"], required: true },
+    amount: { type: Number, required: true, min: 0 },
+    reason: { type: String, required: true },
+    status: { type: String, enum: ["pending", "succeeded", "failed"], default: "pending" },
+    providerRefundId: { type: String, index: true, sparse: true },
+    failureReason: { type: String },
+    walletFallback: { type: Boolean, default: false },
+    settledAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+RefundSchema.index({ status: 1, destination: 1, createdAt: 1 });
+
+export const Refund = mongoose.model<IRefund>("Refund", RefundSchema);
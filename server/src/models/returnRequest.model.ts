@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type ReturnRequestType = "return" | "exchange";
+
+/**
+ * requested → approved → received → refunded (return) / replaced (exchange).
+ * A seller can reject a request, and a customer can withdraw it, while it is still requested.
+ */
+export type ReturnRequestStatus =
+  | "requested"
+  | "approved"
+  | "rejected"
+  | "cancelled"
+  | "received"
+  | "refunded"
+  | "replaced";
+
+export interface IReturnRequestItem {
+  productId: Types.ObjectId;
+  variantId?: Types.ObjectId;
+  variantLabel?: string;
+  name: string;
+  price: number;
+  quantity: number;
+  image?: string;
+}
+
+export interface IReturnRequestEvent {
+  status: ReturnRequestStatus;
+  at: Date;
+  actorId?: Types.ObjectId;
+  actorRole: "customer" | "seller" | "system";
+  note?: string;
+}
+
+export interface IReturnRequest extends Document {
+  orderId: Types.ObjectId;
+  customerId: Types.ObjectId;
+  shopId: Types.ObjectId;
+  sellerId: Types.ObjectId;
+  type: ReturnRequestType;
+  status: ReturnRequestStatus;
+  items: IReturnRequestItem[];
+  reason: string;
+  details?: string;
+  images: string[];
+  /** Seller's reason when rejecting, or any note added on approval */
+  sellerNote?: string;
+  /** Credited to the customer's wallet once the goods are back (returns only) */
+  refundAmount?: number;
+  /** Zero-value order that ships the replacement (exchanges only) */
+  replacementOrderId?: Types.ObjectId;
+  history: IReturnRequestEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReturnRequestItemSchema = new Schema<IReturnRequestItem>(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId },
+    variantLabel: { type: String },
+    name: { type: String, required: true },
+    price: { type: Number, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    image: { type: String },
+  },
+  { _id: false }
+);
+
+const ReturnRequestEventSchema = new Schema<IReturnRequestEvent>(
+  {
+    status: { type: String, required: true },
+    at: { type: Date, required: true },
+    actorId: { type: Schema.Types.ObjectId, ref: "User" },
+    actorRole: { type: String, enum: ["customer", "seller", "system"], required: true },
+    note: { type: String },
+  },
+  { _id: false }
+);
+
+const ReturnRequestSchema = new Schema<IReturnRequest>(
+  {
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, index: true },
+    customerId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    sellerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    type: { type: String, enum: ["return", "exchange"], required: true },
+    status: {
+      type: String,
+      enum: ["requested", "approved", "rejected", "cancelled", "received", "refunded", "replaced"],
+      default: "requested",
+    },
+    items: { type: [ReturnRequestItemSchema], required: true },
+    reason: { type: String, required: true },
+    details: { type: String },
+    images: [{ type: String }],
+    sellerNote: { type: String },
+    refundAmount: { type: Number },
+    replacementOrderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    history: { type: [ReturnRequestEventSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+ReturnRequestSchema.index({ sellerId: 1, status: 1, createdAt: -1 });
+
+export const ReturnRequest = mongoose.model<IReturnRequest>("ReturnRequest", ReturnRequestSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type SuggestionKind = "shop" | "product" | "category" | "market";
+
+/**
+ * One entry of the autocomplete index, rebuilt from shops, products,
+ * categories and markets by the suggestion indexer. Product names are
+ * completions of the search text (one entry per distinct name); the others
+ * point at the shop, category or market they name.
+ */
+export interface ISearchSuggestion extends Document {
+  kind: SuggestionKind;
+  refId?: Types.ObjectId;
+  label: string;
+  /** Shown under the label, e.g. a shop's city */
+  subtitle?: string;
+  /** Normalised label, for de-duplication */
+  key: string;
+  /** Spelling-normalised label starting at each word, so "kurti" also finds "Red Kurtis" */
+  keys: string[];
+  /** Popularity used to order completions */
+  weight: number;
+  syncedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SearchSuggestionSchema = new Schema<ISearchSuggestion>(
+  {
+    kind: { type: String, enum: ["shop", "product", "category", "market"], required: true },
+    refId: { type: Schema.Types.ObjectId },
+    label: { type: String, required: true },
+    subtitle: { type: String },
+    key: { type: String, required: true },
+    keys: { type: [String], default: [] },
+    weight: { type: Number, default: 1 },
+    syncedAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+SearchSuggestionSchema.index({ kind: 1, refId: 1, key: 1 }, { unique: true });
+SearchSuggestionSchema.index({ keys: 1 });
+SearchSuggestionSchema.index({ syncedAt: 1 });
+
+export const SearchSuggestion = mongoose.model<ISearchSuggestion>("SearchSuggestion", SearchSuggestionSchema);
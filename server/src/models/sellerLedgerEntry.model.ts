@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/**
+ * sale: what the customer paid for the goods (order value less the platform fee)
+ * commission: the platform's cut of the goods value
+ * cod_collected: cash the seller already took on delivery
+ * refund: the seller's share of money given back on a return
+ * payout: money sent to the seller's bank account
+ * subscription_fee: a plan renewal paid out of the seller's earnings
+ */
+export type LedgerEntryType = "sale" | "commission" | "cod_collected" | "refund" | "payout" | "subscription_fee";
+
+export interface ISellerLedgerEntry extends Document {
+  sellerId: Types.ObjectId;
+  shopId: Types.ObjectId;
+  orderId?: Types.ObjectId;
+  refundId?: Types.ObjectId;
+  subscriptionId?: Types.ObjectId;
+  /** Set once the entry is included in a payout batch (and on the payout entry itself) */
+  payoutId?: Types.ObjectId;
+  type: LedgerEntryType;
+  /** Positive when the platform owes the seller more, negative otherwise */
+  amount: number;
+  description: string;
+  /** Earnings are held for a while after delivery so returns can come out of them first */
+  availableAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SellerLedgerEntrySchema = new Schema<ISellerLedgerEntry>(
+  {
+    sellerId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop", required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order" },
+    refundId: { type: Schema.Types.ObjectId, ref: "Refund" },
+    subscriptionId: { type: Schema.Types.ObjectId, ref: "Subscription" },
+    payoutId: { type: Schema.Types.ObjectId, ref: "Payout" },
+    type: {
+      type: String,
+      enum: ["sale", "commission", "cod_collected", "refund", "payout", "subscription_fee"],
+      required: true,
+    },
+    amount: { type: Number, required: true },
+    description: { type: String, required: true },
+    availableAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+SellerLedgerEntrySchema.index({ sellerId: 1, createdAt: -1 });
+SellerLedgerEntrySchema.index({ shopId: 1, payoutId: 1, availableAt: 1 });
+// An order is accrued once, and each refund is charged once
+SellerLedgerEntrySchema.index(
+  { orderId: 1, type: 1 },
+  { unique: true, partialFilterExpression: { type: { $in: ["sale", "commission", "cod_collected"] } } }
+);
+SellerLedgerEntrySchema.index({ refundId: 1 }, { unique: true, partialFilterExpression: { type: "refund" } });
+SellerLedgerEntrySchema.index(
+  { subscriptionId: 1 },
+  { unique: true, partialFilterExpression: { type: "subscription_fee" } }
+);
+
+export const SellerLedgerEntry = mongoose.model<ISellerLedgerEntry>("SellerLedgerEntry", SellerLedgerEntrySchema);
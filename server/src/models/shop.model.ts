@@ -1,4 +1,5 @@
 import mongoose from "mongoose";
+import { GeoPointSchema } from "./common";
 
 const ShopSchema = new mongoose.Schema(
   {
@@ -18,6 +19,8 @@ const ShopSchema = new mongoose.Schema(
     city: { type: String, default: "" },
     state: { type: String, default: "" },
     pincode: { type: String, default: "" },
+    // Pin dropped by the seller; shops without one don't show up in "near me" results
+    location: { type: GeoPointSchema, default: undefined },
     categories: [{ type: String }],
     images: [{ type: String }],
     banner: { type: String, default: null },
@@ -65,13 +68,47 @@ const ShopSchema = new mongoose.Schema(
       description: { type: String, default: "" },
       active: { type: Boolean, default: false },
     },
+    // Where the shop delivers and what it charges; see services/delivery.service.ts
+    delivery: {
+      zoneType: { type: String, enum: ["anywhere", "pincodes", "radius"], default: "anywhere" },
+      pincodes: [{ type: String }],
+      radiusKm: { type: Number, default: 5 },
+      baseFee: { type: Number, default: 0 },
+      perKmFee: { type: Number, default: 0 },
+      freeKm: { type: Number, default: 0 },
+      freeAbove: { type: Number, default: null },
+    },
+    // Scheduled delivery windows with a cap on orders per window; see services/deliverySlot.service.ts
+    deliverySlots: {
+      enabled: { type: Boolean, default: false },
+      days: {
+        type: [String],
+        default: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"],
+      },
+      slots: [
+        {
+          start: { type: String, required: true },
+          end: { type: String, required: true },
+          capacity: { type: Number, required: true, min: 1 },
+        },
+      ],
+    },
     returnDays: { type: Number, default: null },
     exchangeDays: { type: Number, default: null },
+    // Placement from the seller's subscription plan (0 Basic, 1 Pro, 2 Premium); listings sort on it first
+    listingBoost: { type: Number, default: 0 },
   },
   { timestamps: true }
 );
 
 ShopSchema.index({ sellerId: 1 });
 ShopSchema.index({ marketId: 1 });
+ShopSchema.index({ isActive: 1, listingBoost: -1, ratingAverage: -1 });
+ShopSchema.index({ location: "2dsphere" });
+// Full-text search (GET /search); a name match outranks one in the description
+ShopSchema.index(
+  { name: "text", categories: "text", city: "text", addressLine: "text", description: "text" },
+  { name: "shop_text", weights: { name: 10, categories: 5, city: 3, addressLine: 2, description: 1 } }
+);
 
 export default mongoose.model("Shop", ShopSchema);
@@ -10,6 +10,9 @@ export interface IShopAd extends Document {
   budget: number;
   impressions: number;
   clicks: number;
+  /** Charged so far for impressions and clicks; serving stops when it reaches `budget` */
+  spent: number;
+  /** False while the seller has the campaign paused */
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -35,10 +38,14 @@ const ShopAdSchema = new Schema<IShopAd>(
     budget: { type: Number, required: true },
     impressions: { type: Number, default: 0 },
     clicks: { type: Number, default: 0 },
+    spent: { type: Number, default: 0 },
     isActive: { type: Boolean, default: true }
   },
   { timestamps: true }
 );
 
+ShopAdSchema.index({ isActive: 1, startDate: 1, endDate: 1 });
+ShopAdSchema.index({ shopId: 1, createdAt: -1 });
+
 export const ShopAd = mongoose.model<IShopAd>("ShopAd", ShopAdSchema);
 
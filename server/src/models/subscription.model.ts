@@ -1,9 +1,22 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
-export type SubscriptionStatus = "active" | "expired" | "cancelled" | "upcoming";
+/**
+ * pending_payment: created for a purchase or renewal, waiting for the payment
+ * upcoming: paid renewal that starts when the current period ends
+ * active: the seller's current plan
+ * past_due: the period ended without a paid renewal; perks stay until graceEndsAt
+ * expired: ended (the seller is back on Basic unless a newer one is active)
+ * cancelled: replaced by a plan change, or abandoned before payment
+ */
+export type SubscriptionStatus = "active" | "expired" | "cancelled" | "upcoming" | "pending_payment" | "past_due";
+
+/** new: first paid plan; change: mid-cycle plan change; renewal: next period of the same seller */
+export type SubscriptionKind = "new" | "change" | "renewal";
 
 export interface ISubscription extends Document {
   sellerId: Types.ObjectId;
+  /** The seller's user id (missing on subscriptions created before billing) */
+  userId?: Types.ObjectId;
   planName: string;
   features: string[];
   price: number;
@@ -11,6 +24,25 @@ export interface ISubscription extends Document {
   startDate: Date;
   endDate: Date;
   status: SubscriptionStatus;
+  kind: SubscriptionKind;
+  /** The subscription this one renews or replaces */
+  previousSubscriptionId?: Types.ObjectId;
+  /** Unused value of the previous plan taken off the price of a plan change */
+  proratedCredit: number;
+  /** What is charged for this period: price less proratedCredit */
+  amountDue: number;
+  autoRenew: boolean;
+  /** A downgrade waiting for the end of the period */
+  scheduledPlanName?: string;
+  graceEndsAt?: Date;
+  renewalAttempts: number;
+  lastRenewalAttemptAt?: Date;
+  /** Reminder notifications already sent, so the lifecycle job sends each once */
+  remindersSent: string[];
+  paidVia?: "gateway" | "payout_balance" | "credit";
+  paymentId?: Types.ObjectId;
+  paidAt?: Date;
+  cancelledAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,6 +55,7 @@ const SubscriptionSchema = new Schema<ISubscription>(
       required: true,
       index: true
     },
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
     planName: { type: String, required: true },
     features: { type: [String], default: [] },
     price: { type: Number, required: true },
@@ -31,15 +64,30 @@ const SubscriptionSchema = new Schema<ISubscription>(
     endDate: { type: Date, required: true },
     status: {
       type: String,
-      enum: ["active", "expired", "cancelled", "upcoming"],
+      enum: ["active", "expired", "cancelled", "upcoming", "pending_payment", "past_due"],
       default: "upcoming"
-    }
+    },
+    kind: { type: String, enum: ["new", "change", "renewal"], default: "new" },
+    previousSubscriptionId: { type: Schema.Types.ObjectId, ref: "Subscription" },
+    proratedCredit: { type: Number, default: 0 },
+    amountDue: { type: Number, default: 0 },
+    autoRenew: { type: Boolean, default: true },
+    scheduledPlanName: { type: String },
+    graceEndsAt: { type: Date },
+    renewalAttempts: { type: Number, default: 0 },
+    lastRenewalAttemptAt: { type: Date },
+    remindersSent: { type: [String], default: [] },
+    paidVia: { type: String, enum: ["gateway", "payout_balance", "credit"] },
+    paymentId: { type: Schema.Types.ObjectId, ref: "Payment" },
+    paidAt: { type: Date },
+    cancelledAt: { type: Date }
   },
   { timestamps: true }
 );
 
+SubscriptionSchema.index({ status: 1, endDate: 1 });
+
 export const Subscription = mongoose.model<ISubscription>(
   "Subscription",
   SubscriptionSchema
 );
-
@@ -3,7 +3,8 @@ import mongoose from "mongoose";
 const UserSchema = new mongoose.Schema(
   {
     uid: { type: String, required: true, unique: true },
-    role: { type: String, enum: ["customer", "seller"], required: true },
+    // Agents are delivery partners added by a seller (see deliveryAgent.model.ts)
+    role: { type: String, enum: ["customer", "seller", "agent"], required: true },
     phone: { type: String, default: null },
     email: { type: String, default: null },
     name: { type: String, default: null },
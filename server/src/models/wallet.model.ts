@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+/**
+ * Running balance per customer. Every change goes through WalletTransaction so
+ * the balance can always be explained by the ledger.
+ */
+export interface IWallet extends Document {
+  userId: Types.ObjectId;
+  balance: number;
+  currency: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletSchema = new Schema<IWallet>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+      index: true,
+    },
+    balance: { type: Number, default: 0, min: 0 },
+    currency: { type: String, default: "INR" },
+  },
+  { timestamps: true }
+);
+
+export const Wallet = mongoose.model<IWallet>("Wallet", WalletSchema);
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type WalletTransactionType = "credit" | "debit";
+
+export type WalletTransactionReason = "refund" | "cashback" | "order_payment" | "adjustment";
+
+export interface IWalletTransaction extends Document {
+  userId: Types.ObjectId;
+  type: WalletTransactionType;
+  reason: WalletTransactionReason;
+  amount: number;
+  /** Wallet balance right after this entry was applied */
+  balanceAfter: number;
+  orderId?: Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletTransactionSchema = new Schema<IWalletTransaction>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["credit", "debit"],
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: ["refund", "cashback", "order_payment", "adjustment"],
+      required: true,
+    },
+    amount: { type: Number, required: true, min: 0 },
+    balanceAfter: { type: Number, required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", index: true },
+    note: { type: String },
+  },
+  { timestamps: true }
+);
+
+WalletTransactionSchema.index({ userId: 1, createdAt: -1 });
+
+export const WalletTransaction = mongoose.model<IWalletTransaction>(
+  "WalletTransaction",
+  WalletTransactionSchema
+);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export type WishlistItemType = "shop" | "product";
+
+/** A saved shop or product, with enough details to render the wishlist offline */
+export interface IWishlistItem {
+  itemId: Types.ObjectId;
+  type: WishlistItemType;
+  name: string;
+  image?: string;
+  price?: number;
+  shopId?: Types.ObjectId;
+  shopName?: string;
+  rating?: number;
+  addedAt: Date;
+}
+
+export interface IWishlist extends Document {
+  userId: Types.ObjectId;
+  items: IWishlistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WishlistItemSchema = new Schema<IWishlistItem>(
+  {
+    itemId: { type: Schema.Types.ObjectId, required: true },
+    type: { type: String, enum: ["shop", "product"], required: true },
+    name: { type: String, required: true },
+    image: { type: String },
+    price: { type: Number },
+    shopId: { type: Schema.Types.ObjectId, ref: "Shop" },
+    shopName: { type: String },
+    rating: { type: Number },
+    addedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const WishlistSchema = new Schema<IWishlist>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+      index: true,
+    },
+    items: { type: [WishlistItemSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+export const Wishlist = mongoose.model<IWishlist>("Wishlist", WishlistSchema);
@@ -20,8 +20,19 @@ import { Conversation } from "./models/conversation.model";
 import { Message } from "./models/message.model";
 import { Notification } from "./models/notification.model";
 import { Payment } from "./models/payment.model";
+import { Coupon } from "./models/coupon.model";
+import { CheckoutGroup } from "./models/checkoutGroup.model";
+import { ReturnRequest } from "./models/returnRequest.model";
+import { Invoice } from "./models/invoice.model";
+import { Refund } from "./models/refund.model";
+import { Payout } from "./models/payout.model";
+import { SellerLedgerEntry } from "./models/sellerLedgerEntry.model";
+import { ShopAd } from "./models/shopAd.model";
+import { DeliveryAgent } from "./models/deliveryAgent.model";
 import cloudinary from "./config/cloudinary";
-import { authenticate } from "./middlewares/auth.middleware";
+import { authenticate, optionalAuthenticate } from "./middlewares/auth.middleware";
+import { rateLimit } from "./middlewares/rateLimit.middleware";
+import { idempotent } from "./middlewares/idempotency.middleware";
 import admin from "./config/firebase";
 import {
   createAndSendNotification,
@@ -31,7 +42,119 @@ import {
   unregisterFcmToken,
   sendIncomingCallPush,
 } from "./services/notification.service";
-import { createPhonePePaymentForOrder, handlePhonePeCallback } from "./services/phonepe.service";
+import {
+  getPaymentProvider,
+  initiatePayment,
+  handlePaymentWebhook,
+  refreshPaymentStatus,
+  findOrderPayment,
+  PaymentError,
+  type PaymentTarget,
+} from "./services/payment.service";
+import { simulateFakePayment, isFakePaymentProviderEnabled } from "./services/fakePayment.service";
+import { refundCancelledOrder, describeRefunds, refreshRefundStatus } from "./services/refund.service";
+import { buildCheckoutQuote, resolveOrderItems, PricingError } from "./services/pricing.service";
+import { placeOrders, normalizeCheckoutShops, CheckoutError } from "./services/checkout.service";
+import {
+  findApplicableCoupon,
+  normalizeCouponCode,
+} from "./services/coupon.service";
+import { getWalletBalance, listWalletTransactions } from "./services/wallet.service";
+import { loadCart, saveCart, mergeCart, sanitizeCartItems } from "./services/cart.service";
+import { parseProductVariants, applyVariantSummary, VariantError } from "./services/variant.service";
+import {
+  openReturnRequest,
+  approveReturnRequest,
+  rejectReturnRequest,
+  cancelReturnRequest,
+  receiveReturnRequest,
+  ReturnError,
+} from "./services/returns.service";
+import {
+  isOrderStatus,
+  transitionOrderStatus,
+  notifyOrderStatusChange,
+  OrderStatusError,
+} from "./services/orderStatus.service";
+import { loadWishlist, saveWishlist, mergeWishlist, sanitizeWishlistItems } from "./services/wishlist.service";
+import { ensureOrderInvoice, issueInvoicesFor } from "./services/invoice.service";
+import { renderInvoicePdf } from "./services/invoicePdf.service";
+import {
+  accrueOrderEarnings,
+  getLedgerSummary,
+  settlePayout,
+  verifySettlementSignature,
+} from "./services/payout.service";
+import {
+  SUBSCRIPTION_PLANS,
+  type SubscriptionPlanKey,
+  normalizePlanName,
+  getSellerEntitlements,
+  getPlanUsage,
+  assertCanAddProducts,
+  assertCanAddReel,
+  EntitlementError,
+} from "./services/subscription.service";
+import {
+  requestPlanChange,
+  paySubscription,
+  setAutoRenew,
+  currentSubscription,
+  pendingSubscriptionPayment,
+  subscriptionPaymentProvider,
+  SubscriptionError,
+} from "./services/subscriptionBilling.service";
+import { parseSearchParams, search, SearchError } from "./services/search.service";
+import {
+  DeliveryError,
+  checkDelivery,
+  deliveryDestinationFrom,
+  deliverySettingsOf,
+  parseDeliverySettings,
+} from "./services/delivery.service";
+import { pickupSlotsFor, verifyPickupCode, PickupError } from "./services/pickup.service";
+import {
+  DeliverySlotError,
+  deliverySlotSettingsOf,
+  deliverySlotsOn,
+  parseDeliverySlotSettings,
+  upcomingDeliverySlots,
+} from "./services/deliverySlot.service";
+import {
+  DeliveryAgentError,
+  advanceAgentDelivery,
+  agentIdsForUser,
+  assignAgent,
+  isAgentDeliveryStatus,
+  normalizeAgentPhone,
+  notifyAgentDeliveryChange,
+  publicAgentDelivery,
+} from "./services/deliveryAgent.service";
+import {
+  GeoError,
+  fromGeoPoint,
+  parseGeoLocation,
+  parseNearbyParams,
+  toGeoPoint,
+  resolveMarketAt,
+  findNearbyShops,
+  findNearbyMarkets,
+} from "./services/geo.service";
+import {
+  suggest,
+  recordRecentSearch,
+  listRecentSearches,
+  clearRecentSearches,
+} from "./services/searchSuggest.service";
+import {
+  createShopAd,
+  setAdActive,
+  serveAds,
+  recordAdEvent,
+  adSummary,
+  getAdPerformance,
+  AdError,
+} from "./services/shopAd.service";
 import {
   generateAgoraToken,
   generateChannelName,
@@ -231,15 +354,22 @@ router.post("/otp/complete-registration", async (req: Request, res: Response) =>
       });
     }
 
-    if (!["customer", "seller"].includes(role)) {
+    if (!["customer", "seller", "agent"].includes(role)) {
       return res.status(400).json({
-        message: "role must be customer or seller",
+        message: "role must be customer, seller or agent",
       });
     }
 
     // Format phone number
     const formattedPhone = phone.startsWith("+") ? phone : `+91${phone}`;
 
+    // Delivery partners can only sign up once a shop has added their number
+    if (role === "agent" && !(await DeliveryAgent.exists({ phone: formattedPhone, isActive: true }))) {
+      return res.status(403).json({
+        message: "Ask the shop you deliver for to add this number as a delivery partner first",
+      });
+    }
+
     // Check if user already exists
     let user = await User.findOne({ $or: [{ uid }, { phone: formattedPhone }] });
 
@@ -301,42 +431,9 @@ router.post("/otp/complete-registration", async (req: Request, res: Response) =>
 // SUBSCRIPTION ROUTES (SELLER)
 // =============================================================================
 
-const SUBSCRIPTION_PLANS = {
-  Basic: {
-    planName: "Basic",
-    price: 0,
-    billingCycle: "monthly",
-    features: [
-      "Up to 50 products",
-      "Basic analytics",
-      "Standard support"
-    ]
-  },
-  Pro: {
-    planName: "Pro",
-    price: 499,
-    billingCycle: "monthly",
-    features: [
-      "Up to 250 products",
-      "Priority listing in Explore",
-      "Advanced insights",
-      "Chat & call priority support"
-    ]
-  },
-  Premium: {
-    planName: "Premium",
-    price: 999,
-    billingCycle: "monthly",
-    features: [
-      "Unlimited products",
-      "Top placement in Explore",
-      "Full analytics suite",
-      "Dedicated account support"
-    ]
-  }
-} as const;
-
-type SubscriptionPlanKey = keyof typeof SUBSCRIPTION_PLANS;
+function entitlementErrorBody(err: EntitlementError) {
+  return { message: err.message, code: err.code, planName: err.planName, limit: err.limit, upgradeTo: err.upgradeTo };
+}
 
 // Get current seller subscription
 router.get("/subscriptions/me", authenticate, async (req: Request, res: Response) => {
@@ -352,14 +449,22 @@ router.get("/subscriptions/me", authenticate, async (req: Request, res: Response
       return res.status(403).json({ message: "Only sellers have subscriptions" });
     }
 
-    const sellerProfile = await SellerProfile.findOne({ userId: user._id }).populate("subscriptionId");
+    const sellerProfile = await SellerProfile.findOne({ userId: user._id });
     if (!sellerProfile) {
       return res.status(404).json({ message: "Seller profile not found" });
     }
 
-    const sub = (sellerProfile as any).subscriptionId as ISubscription | undefined;
+    const [{ subscription: sub, limits }, usage, pending] = await Promise.all([
+      getSellerEntitlements(user._id),
+      getPlanUsage(user._id),
+      pendingSubscriptionPayment(sellerProfile),
+    ]);
+    // A purchase or renewal the seller still has to pay for
+    const pendingPayment = pending
+      ? { subscriptionId: pending._id, planName: pending.planName, amountDue: pending.amountDue, kind: pending.kind }
+      : null;
     if (!sub) {
-      // Default to Basic when no subscription exists
+      // Default to Basic when no subscription is active
       const basic = SUBSCRIPTION_PLANS.Basic;
       return res.json({
         planName: basic.planName,
@@ -367,7 +472,10 @@ router.get("/subscriptions/me", authenticate, async (req: Request, res: Response
         billingCycle: basic.billingCycle,
         // clone to satisfy mutable array type
         features: [...basic.features],
-        status: "active"
+        status: "active",
+        limits,
+        usage,
+        pendingPayment
       });
     }
 
@@ -378,7 +486,13 @@ router.get("/subscriptions/me", authenticate, async (req: Request, res: Response
       features: sub.features,
       status: sub.status,
       startDate: sub.startDate,
-      endDate: sub.endDate
+      endDate: sub.endDate,
+      autoRenew: sub.autoRenew,
+      scheduledPlanName: sub.scheduledPlanName,
+      graceEndsAt: sub.graceEndsAt,
+      limits,
+      usage,
+      pendingPayment
     });
   } catch (err: any) {
     console.error("[Get Subscription Error]", err);
@@ -386,7 +500,50 @@ router.get("/subscriptions/me", authenticate, async (req: Request, res: Response
   }
 });
 
-// Upgrade seller subscription (no payments for now, just assign plan)
+function subscriptionSummary(sub: ISubscription) {
+  return {
+    _id: sub._id,
+    planName: sub.planName,
+    price: sub.price,
+    billingCycle: sub.billingCycle,
+    features: sub.features,
+    status: sub.status,
+    kind: sub.kind,
+    startDate: sub.startDate,
+    endDate: sub.endDate,
+    amountDue: sub.amountDue,
+    proratedCredit: sub.proratedCredit,
+    autoRenew: sub.autoRenew,
+    scheduledPlanName: sub.scheduledPlanName,
+    graceEndsAt: sub.graceEndsAt,
+    paidVia: sub.paidVia,
+    paidAt: sub.paidAt
+  };
+}
+
+/** The requesting seller and their profile, or an error response already sent */
+async function findSellerProfile(req: Request, res: Response) {
+  const firebaseUser = (req as any).user;
+  const user = await User.findOne({ uid: firebaseUser.uid });
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return null;
+  }
+  if (user.role !== "seller") {
+    res.status(403).json({ message: "Only sellers have subscriptions" });
+    return null;
+  }
+  const sellerProfile = await SellerProfile.findOne({ userId: user._id });
+  if (!sellerProfile) {
+    res.status(404).json({ message: "Seller profile not found" });
+    return null;
+  }
+  return { user, sellerProfile };
+}
+
+// Change the seller's plan. Upgrades are paid through the server's subscription
+// gateway (prorated against the current plan) and start once paid; downgrades and Basic take
+// effect when the current period ends.
 router.post("/subscriptions/upgrade", authenticate, async (req: Request, res: Response) => {
   try {
     const { planName } = req.body as { planName?: SubscriptionPlanKey | string };
@@ -395,78 +552,144 @@ router.post("/subscriptions/upgrade", authenticate, async (req: Request, res: Re
       return res.status(400).json({ message: "planName is required" });
     }
 
-    const normalizedPlanName =
-      planName === "basic" || planName === "Basic"
-        ? "Basic"
-        : planName === "pro" || planName === "Pro"
-        ? "Pro"
-        : planName === "premium" || planName === "Premium"
-        ? "Premium"
-        : null;
-
-    if (!normalizedPlanName || !(normalizedPlanName in SUBSCRIPTION_PLANS)) {
+    const normalizedPlanName = normalizePlanName(planName);
+    if (!normalizedPlanName) {
       return res.status(400).json({ message: "Invalid planName" });
     }
 
-    const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-
-    const user = await User.findOne({ uid });
-    if (!user) {
-      return res.status(404).json({ message: "User not found" });
-    }
-    if (user.role !== "seller") {
-      return res.status(403).json({ message: "Only sellers can upgrade subscriptions" });
+    const seller = await findSellerProfile(req, res);
+    if (!seller) return;
+
+    const gateway = subscriptionPaymentProvider();
+    const result = await requestPlanChange(seller.sellerProfile, normalizedPlanName, gateway);
+
+    return res.status(result.payment ? 202 : 201).json({
+      message: result.payment
+        ? "Complete the payment to start your plan"
+        : result.effectiveAt
+          ? "Plan change scheduled"
+          : "Subscription updated",
+      subscription: subscriptionSummary(result.subscription),
+      effectiveAt: result.effectiveAt,
+      payment: result.payment && {
+        provider: result.payment.provider,
+        transactionId: result.payment.transactionId,
+        redirectUrl: result.payment.checkout.redirectUrl,
+        ...result.payment.checkout.clientData,
+      },
+    });
+  } catch (err: any) {
+    if (err instanceof SubscriptionError || err instanceof PaymentError) {
+      return res.status(err.status).json({ message: err.message });
     }
+    console.error("[Upgrade Subscription Error]", err);
+    return res.status(500).json({ message: "Failed to upgrade subscription", error: err.message });
+  }
+});
 
-    const sellerProfile = await SellerProfile.findOne({ userId: user._id });
-    if (!sellerProfile) {
-      return res.status(404).json({ message: "Seller profile not found" });
+// Pay for a plan purchase or renewal that is waiting for payment
+router.post("/subscriptions/:subscriptionId/pay", authenticate, async (req: Request, res: Response) => {
+  try {
+    const seller = await findSellerProfile(req, res);
+    if (!seller) return;
+
+    const subscription = await Subscription.findById(req.params.subscriptionId);
+    if (!subscription || subscription.sellerId.toString() !== seller.sellerProfile._id.toString()) {
+      return res.status(404).json({ message: "Subscription not found" });
     }
 
-    const plan = SUBSCRIPTION_PLANS[normalizedPlanName as SubscriptionPlanKey];
+    const gateway = subscriptionPaymentProvider();
+    const { transactionId, checkout } = await paySubscription(subscription, gateway);
 
-    // Soft-expire existing active subscription
-    if (sellerProfile.subscriptionId) {
-      await Subscription.updateOne(
-        { _id: sellerProfile.subscriptionId, status: "active" },
-        { $set: { status: "expired" } }
-      );
+    return res.json({
+      message: "Payment initiated",
+      provider: gateway.key,
+      transactionId,
+      redirectUrl: checkout.redirectUrl,
+      ...checkout.clientData,
+    });
+  } catch (err: any) {
+    if (err instanceof SubscriptionError || err instanceof PaymentError) {
+      return res.status(err.status).json({ message: err.message });
     }
+    console.error("[Subscription Pay Error]", err);
+    return res.status(500).json({ message: "Failed to start payment", error: err.message });
+  }
+});
 
-    const now = new Date();
-    const end = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
-
-    const newSub = (await Subscription.create({
-      sellerId: sellerProfile._id,
-      planName: plan.planName,
-      // clone to satisfy mutable array type
-      features: [...plan.features],
-      price: plan.price,
-      billingCycle: plan.billingCycle,
-      startDate: now,
-      endDate: end,
-      status: "active"
-    })) as ISubscription;
-
-    sellerProfile.subscriptionId = newSub._id;
-    await sellerProfile.save();
+// Payment status of a subscription; a pending payment is re-checked with the gateway first
+router.get("/subscriptions/:subscriptionId/payment-status", authenticate, async (req: Request, res: Response) => {
+  try {
+    const seller = await findSellerProfile(req, res);
+    if (!seller) return;
 
-    return res.status(201).json({
-      message: "Subscription upgraded",
-      subscription: {
-        planName: newSub.planName,
-        price: newSub.price,
-        billingCycle: newSub.billingCycle,
-        features: newSub.features,
-        status: newSub.status,
-        startDate: newSub.startDate,
-        endDate: newSub.endDate
+    let subscription = await Subscription.findById(req.params.subscriptionId);
+    if (!subscription || subscription.sellerId.toString() !== seller.sellerProfile._id.toString()) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+
+    const payment = await Payment.findOne({ subscriptionId: subscription._id });
+    let paymentStatus = payment?.status ?? null;
+    if (payment?.status === "pending") {
+      try {
+        paymentStatus = (await refreshPaymentStatus(payment)).status;
+        subscription = (await Subscription.findById(subscription._id)) ?? subscription;
+      } catch (err) {
+        console.error("[Subscription Payment Refresh Error]", err);
       }
+    }
+
+    return res.json({
+      subscription: subscriptionSummary(subscription),
+      paymentStatus,
     });
   } catch (err: any) {
-    console.error("[Upgrade Subscription Error]", err);
-    return res.status(500).json({ message: "Failed to upgrade subscription", error: err.message });
+    console.error("[Subscription Payment Status Error]", err);
+    return res.status(500).json({ message: "Failed to get payment status", error: err.message });
+  }
+});
+
+// Turn renewal of the current plan off (it ends with the period) or back on
+router.put("/subscriptions/me/auto-renew", authenticate, async (req: Request, res: Response) => {
+  try {
+    if (typeof req.body?.autoRenew !== "boolean") {
+      return res.status(400).json({ message: "autoRenew must be true or false" });
+    }
+
+    const seller = await findSellerProfile(req, res);
+    if (!seller) return;
+
+    const current = await currentSubscription(seller.sellerProfile);
+    if (!current) {
+      return res.status(400).json({ message: "You're on the Basic plan" });
+    }
+
+    const subscription = await setAutoRenew(current, req.body.autoRenew);
+    return res.json({ message: "Subscription updated", subscription: subscriptionSummary(subscription) });
+  } catch (err: any) {
+    console.error("[Subscription Auto Renew Error]", err);
+    return res.status(500).json({ message: "Failed to update subscription", error: err.message });
+  }
+});
+
+// Every subscription the seller has had, newest first
+router.get("/subscriptions/history", authenticate, async (req: Request, res: Response) => {
+  try {
+    const seller = await findSellerProfile(req, res);
+    if (!seller) return;
+
+    // Paid periods (and plans from before billing); unpaid attempts are left out
+    const subscriptions = await Subscription.find({
+      sellerId: seller.sellerProfile._id,
+      $or: [{ paidAt: { $exists: true } }, { status: { $in: ["active", "past_due", "expired"] } }],
+    })
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    return res.json({ subscriptions: subscriptions.map(subscriptionSummary) });
+  } catch (err: any) {
+    console.error("[Subscription History Error]", err);
+    return res.status(500).json({ message: "Failed to get subscription history", error: err.message });
   }
 });
 
@@ -976,6 +1199,157 @@ router.delete("/me/saved-shops/:shopId", authenticate, async (req: Request, res:
   }
 });
 
+// =============================================================================
+// WALLET (customer only)
+// =============================================================================
+
+// Current wallet balance
+router.get("/me/wallet", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a wallet" });
+
+    const balance = await getWalletBalance(user._id);
+    return res.json({ balance, currency: "INR" });
+  } catch (err) {
+    console.error("[GET /me/wallet]", err);
+    return res.status(500).json({ message: "Failed to fetch wallet" });
+  }
+});
+
+// Wallet ledger (newest first)
+router.get("/me/wallet/transactions", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { limit = 20, skip = 0 } = req.query;
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a wallet" });
+
+    const { transactions, total } = await listWalletTransactions(user._id, Number(limit), Number(skip));
+    return res.json({ transactions, total, limit: Number(limit), skip: Number(skip) });
+  } catch (err) {
+    console.error("[GET /me/wallet/transactions]", err);
+    return res.status(500).json({ message: "Failed to fetch wallet transactions" });
+  }
+});
+
+// =============================================================================
+// CART & WISHLIST (customer only, synced across devices)
+// =============================================================================
+
+// Saved cart, revalidated against current prices and availability
+router.get("/me/cart", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a cart" });
+
+    const { items, changes } = await loadCart(user._id);
+    return res.json({ items, changes });
+  } catch (err) {
+    console.error("[GET /me/cart]", err);
+    return res.status(500).json({ message: "Failed to fetch cart" });
+  }
+});
+
+// Replace the saved cart with the device's current cart
+router.put("/me/cart", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a cart" });
+
+    const { items, changes } = await saveCart(user._id, sanitizeCartItems(req.body?.items));
+    return res.json({ items, changes });
+  } catch (err) {
+    console.error("[PUT /me/cart]", err);
+    return res.status(500).json({ message: "Failed to save cart" });
+  }
+});
+
+// Merge a device's local cart into the saved one (called after login)
+router.post("/me/cart/merge", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a cart" });
+
+    const { items, changes } = await mergeCart(user._id, sanitizeCartItems(req.body?.items));
+    return res.json({ items, changes });
+  } catch (err) {
+    console.error("[POST /me/cart/merge]", err);
+    return res.status(500).json({ message: "Failed to merge cart" });
+  }
+});
+
+// Empty the saved cart
+router.delete("/me/cart", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a cart" });
+
+    await saveCart(user._id, []);
+    return res.json({ message: "Cart cleared", items: [] });
+  } catch (err) {
+    console.error("[DELETE /me/cart]", err);
+    return res.status(500).json({ message: "Failed to clear cart" });
+  }
+});
+
+router.get("/me/wishlist", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a wishlist" });
+
+    const items = await loadWishlist(user._id);
+    return res.json({ items });
+  } catch (err) {
+    console.error("[GET /me/wishlist]", err);
+    return res.status(500).json({ message: "Failed to fetch wishlist" });
+  }
+});
+
+router.put("/me/wishlist", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a wishlist" });
+
+    const items = await saveWishlist(user._id, sanitizeWishlistItems(req.body?.items));
+    return res.json({ items });
+  } catch (err) {
+    console.error("[PUT /me/wishlist]", err);
+    return res.status(500).json({ message: "Failed to save wishlist" });
+  }
+});
+
+// Merge a device's local wishlist into the saved one (called after login)
+router.post("/me/wishlist/merge", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    if (user.role !== "customer") return res.status(400).json({ message: "Only customers have a wishlist" });
+
+    const items = await mergeWishlist(user._id, sanitizeWishlistItems(req.body?.items));
+    return res.json({ items });
+  } catch (err) {
+    console.error("[POST /me/wishlist/merge]", err);
+    return res.status(500).json({ message: "Failed to merge wishlist" });
+  }
+});
+
 // =============================================================================
 // HEALTH & DEBUG ROUTES
 // =============================================================================
@@ -1144,6 +1518,36 @@ router.get("/markets", async (_req: Request, res: Response) => {
   }
 });
 
+// Markets around a point, nearest first: /markets/nearby?lat=&lng=&radiusKm=&limit=
+router.get("/markets/nearby", async (req: Request, res: Response) => {
+  try {
+    const params = parseNearbyParams(req.query as Record<string, any>, "markets");
+    const markets = await findNearbyMarkets(params);
+    return res.json({ markets });
+  } catch (err: any) {
+    if (err instanceof GeoError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Nearby Markets Error]", err);
+    return res.status(500).json({ message: "Failed to fetch nearby markets", error: err.message });
+  }
+});
+
+// Which market a point lies in (by its boundary polygon, or centre and radius): /markets/at?lat=&lng=
+router.get("/markets/at", async (req: Request, res: Response) => {
+  try {
+    const point = parseGeoLocation(req.query.lat, req.query.lng);
+    const market = await resolveMarketAt(point);
+    return res.json({ market });
+  } catch (err: any) {
+    if (err instanceof GeoError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Resolve Market Error]", err);
+    return res.status(500).json({ message: "Failed to resolve market", error: err.message });
+  }
+});
+
 // Public categories list used by Home screen; sorted by shop count (desc)
 router.get("/categories", async (_req: Request, res: Response) => {
   try {
@@ -1171,7 +1575,7 @@ router.get("/markets/:marketId/shops", async (req: Request, res: Response) => {
     const { marketId } = req.params;
     const market = await Market.findById(marketId).lean();
     const shops = await Shop.find({ marketId, isActive: true })
-      .sort({ ratingAverage: -1 })
+      .sort({ listingBoost: -1, ratingAverage: -1 })
       .lean();
 
     const mapped = shops.map((s: any) => {
@@ -1191,106 +1595,83 @@ router.get("/markets/:marketId/shops", async (req: Request, res: Response) => {
   }
 });
 
-// Comprehensive search endpoint (shops, markets, products, locations)
-router.get("/search", async (req: Request, res: Response) => {
+// Comprehensive search endpoint (shops, markets, products, locations). Ranked by
+// text relevance, rating and plan; `type` narrows to one kind and pages with `cursor`.
+// Filters: category, market, city, minPrice, maxPrice, minRating, inStock. Sort:
+// relevance, rating, newest, price_asc, price_desc.
+router.get("/search", optionalAuthenticate, async (req: Request, res: Response) => {
   try {
-    const { q } = req.query;
-    const query = (q as string)?.trim() || "";
+    const params = parseSearchParams(req.query as Record<string, any>);
+    const results = await search(params);
 
-    if (!query || query.length < 2) {
-      return res.json({
-        shops: [],
-        markets: [],
-        products: [],
-      });
+    // Signed-in customers get the query in their recent searches (first page only)
+    const firebaseUser = (req as any).user;
+    if (firebaseUser && params.q && !params.cursor) {
+      try {
+        const user = await User.findOne({ uid: firebaseUser.uid }).select("_id");
+        if (user) await recordRecentSearch(user._id, params.q);
+      } catch (err) {
+        console.error("[Record Recent Search Error]", err);
+      }
+    }
+
+    return res.json(results);
+  } catch (err: any) {
+    if (err instanceof SearchError) {
+      return res.status(err.status).json({ message: err.message });
     }
+    console.error("[Search Error]", err);
+    return res.status(500).json({ message: "Search failed" });
+  }
+});
 
-    const searchRegex = new RegExp(query, "i");
+// Autocomplete while typing: shop, product, category and market names (tolerating
+// common misspellings), plus the caller's recent searches when signed in
+router.get("/search/suggest", optionalAuthenticate, async (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    const firebaseUser = (req as any).user;
+    const user = firebaseUser ? await User.findOne({ uid: firebaseUser.uid }).select("_id") : null;
 
-    // Search shops (by name, description, categories)
-    const shops = await Shop.find({
-      isActive: true,
-      $or: [
-        { name: searchRegex },
-        { description: searchRegex },
-        { categories: { $in: [searchRegex] } },
-      ],
-    })
-      // Include basic location fields so search results can show where the shop is
-      .select("name description images banner categories ratingAverage reviewCount promotion addressLine city state")
-      .limit(20)
-      .lean();
+    const suggestions = await suggest(q, { userId: user?._id, limit: Number(req.query.limit) || undefined });
+    return res.json({ query: q, suggestions });
+  } catch (err: any) {
+    console.error("[Search Suggest Error]", err);
+    return res.status(500).json({ message: "Failed to get suggestions", error: err.message });
+  }
+});
 
-    // Search markets (by name, city, state, description)
-    const markets = await Market.find({
-      isActive: true,
-      $or: [
-        { name: searchRegex },
-        { city: searchRegex },
-        { state: searchRegex },
-        { description: searchRegex },
-      ],
-    })
-      .select("name city state description images ratingAverage")
-      .limit(20)
-      .lean();
+// The user's recent searches, newest first
+router.get("/search/recent", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
 
-    // Search products (by name, description) - populate shop info
-    const products = await Product.find({
-      isAvailable: true,
-      $or: [{ name: searchRegex }, { description: searchRegex }],
-    })
-      .populate("shopId", "name images banner")
-      .populate("categoryId", "name")
-      .select("name description images price discountPrice shopId categoryId")
-      .limit(20)
-      .lean();
+    const searches = await listRecentSearches(user._id);
+    return res.json({ searches });
+  } catch (err: any) {
+    console.error("[Get Recent Searches Error]", err);
+    return res.status(500).json({ message: "Failed to get recent searches", error: err.message });
+  }
+});
 
-    return res.json({
-      shops: shops.map((s: any) => ({
-        _id: s._id,
-        name: s.name,
-        description: s.description,
-        images: s.images,
-        banner: s.banner,
-        categories: s.categories,
-        ratingAverage: s.ratingAverage,
-        reviewCount: s.reviewCount,
-        promotion: s.promotion,
-        addressLine: s.addressLine,
-        city: s.city,
-        state: s.state,
-      })),
-      markets: markets.map((m: any) => ({
-        _id: m._id,
-        name: m.name,
-        city: m.city,
-        state: m.state,
-        description: m.description,
-        images: m.images,
-        ratingAverage: m.ratingAverage,
-      })),
-      products: products.map((p: any) => ({
-        _id: p._id,
-        name: p.name,
-        description: p.description,
-        images: p.images,
-        price: p.price,
-        discountPrice: p.discountPrice,
-        shop: p.shopId
-          ? {
-              _id: (p.shopId as any)._id,
-              name: (p.shopId as any).name,
-              images: (p.shopId as any).images,
-              banner: (p.shopId as any).banner,
-            }
-          : null,
-        category: p.categoryId ? { _id: (p.categoryId as any)._id, name: (p.categoryId as any).name } : null,
-      })),
-    });
-  } catch (err) {
-    console.error("[Search Error]", err);
-    return res.status(500).json({ message: "Search failed" });
+// Clear the user's recent searches, or just one with /search/recent/:searchId
+router.delete(["/search/recent", "/search/recent/:searchId"], authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await clearRecentSearches(user._id, req.params.searchId);
+    return res.json({ message: "Recent searches cleared" });
+  } catch (err: any) {
+    console.error("[Clear Recent Searches Error]", err);
+    return res.status(500).json({ message: "Failed to clear recent searches", error: err.message });
   }
 });
 
@@ -1299,7 +1680,7 @@ router.get("/shops", async (_req: Request, res: Response) => {
   try {
     // Include basic market location info for each shop so the app can display city/state
     const shops = await Shop.find({ isActive: true })
-      .sort({ ratingAverage: -1 })
+      .sort({ listingBoost: -1, ratingAverage: -1 })
       .limit(10)
       .populate("marketId", "name city state")
       .lean();
@@ -1321,6 +1702,21 @@ router.get("/shops", async (_req: Request, res: Response) => {
   }
 });
 
+// Pinned shops around a point, nearest first: /shops/nearby?lat=&lng=&radiusKm=&limit=&category=
+router.get("/shops/nearby", async (req: Request, res: Response) => {
+  try {
+    const params = parseNearbyParams(req.query as Record<string, any>, "shops");
+    const shops = await findNearbyShops(params);
+    return res.json({ shops });
+  } catch (err: any) {
+    if (err instanceof GeoError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Nearby Shops Error]", err);
+    return res.status(500).json({ message: "Failed to fetch nearby shops", error: err.message });
+  }
+});
+
 // Get single shop by ID
 router.get("/shops/:shopId", async (req: Request, res: Response) => {
   try {
@@ -1390,7 +1786,7 @@ router.put("/shops/:shopId", authenticate, async (req: Request, res: Response) =
       return res.status(403).json({ message: "Not authorized to update this shop" });
     }
 
-    const { name, description, categories, isActive, callTimings, chatEnabled, videoEnabled, instantCallsEnabled, promotion, returnDays, exchangeDays } = req.body;
+    const { name, description, categories, isActive, callTimings, chatEnabled, videoEnabled, instantCallsEnabled, promotion, returnDays, exchangeDays, location, delivery, deliverySlots } = req.body;
 
     if (name !== undefined) shop.name = name;
     if (description !== undefined) shop.description = description;
@@ -1403,11 +1799,38 @@ router.put("/shops/:shopId", authenticate, async (req: Request, res: Response) =
     if (promotion !== undefined) (shop as any).promotion = promotion;
     if (returnDays !== undefined) (shop as any).returnDays = returnDays == null ? null : Number(returnDays);
     if (exchangeDays !== undefined) (shop as any).exchangeDays = exchangeDays == null ? null : Number(exchangeDays);
+    if (location !== undefined) {
+      if (location === null) {
+        if (deliverySettingsOf(shop).zoneType === "radius" && delivery?.zoneType === undefined) {
+          return res.status(400).json({ message: "Your shop delivers by distance from its pin; change the delivery area first" });
+        }
+        (shop as any).location = undefined;
+      } else {
+        const point = parseGeoLocation(location.lat, location.lng);
+        (shop as any).location = toGeoPoint(point);
+        // Shops registered without a market get the one their pin falls in
+        if (!shop.marketId) {
+          const market = await resolveMarketAt(point);
+          if (market) shop.marketId = market._id;
+        }
+      }
+    }
+
+    if (delivery !== undefined) {
+      const hasPin = !!(shop as any).location?.coordinates?.length;
+      (shop as any).delivery = parseDeliverySettings(delivery, deliverySettingsOf(shop), hasPin);
+    }
+    if (deliverySlots !== undefined) {
+      (shop as any).deliverySlots = parseDeliverySlotSettings(deliverySlots, deliverySlotSettingsOf(shop));
+    }
 
     await shop.save();
 
     return res.json({ message: "Shop updated", shop });
   } catch (err) {
+    if (err instanceof GeoError || err instanceof DeliveryError || err instanceof DeliverySlotError) {
+      return res.status(err.status).json({ message: err.message });
+    }
     console.error(err);
     return res.status(500).json({ message: "Failed to update shop" });
   }
@@ -1788,6 +2211,7 @@ router.post("/shops/:shopId/reels", authenticate, async (req: Request, res: Resp
     if (shop.sellerId.toString() !== user._id.toString()) {
       return res.status(403).json({ message: "Unauthorized: You can only upload reels to your own shop" });
     }
+    await assertCanAddReel(user._id);
 
     // Upload video to Cloudinary
     const videoUploadResult = await cloudinary.uploader.upload(
@@ -1832,6 +2256,9 @@ router.post("/shops/:shopId/reels", authenticate, async (req: Request, res: Resp
       shopId: shop._id,
     });
   } catch (err) {
+    if (err instanceof EntitlementError) {
+      return res.status(err.status).json(entitlementErrorBody(err));
+    }
     console.error("[Reel Upload Error]", err);
     return res.status(500).json({ message: "Failed to upload reel" });
   }
@@ -2205,7 +2632,7 @@ router.get("/categories/:categoryId/shops", async (req: Request, res: Response)
       categories: category.name, 
       isActive: true 
     })
-      .sort({ ratingAverage: -1 })
+      .sort({ listingBoost: -1, ratingAverage: -1 })
       .populate("marketId", "city state")
       .lean();
 
@@ -2278,14 +2705,16 @@ router.post("/shops/:shopId/products", authenticate, async (req: Request, res: R
     if (shop.sellerId.toString() !== user._id.toString()) {
       return res.status(403).json({ message: "Not authorized to add products to this shop" });
     }
+    await assertCanAddProducts(user._id);
 
-    const { name, description, price, discountPrice, categoryId, images, stock } = req.body;
+    const { name, description, price, discountPrice, categoryId, images, stock, lowStockThreshold } = req.body;
+    const { options, variants } = parseProductVariants(req.body);
 
-    if (!name || !price || !categoryId) {
+    if (!name || (!price && !variants.length) || !categoryId) {
       return res.status(400).json({ message: "name, price, and categoryId are required" });
     }
 
-    const product = await Product.create({
+    const product = new Product({
       shopId,
       name,
       description: description || "",
@@ -2294,11 +2723,23 @@ router.post("/shops/:shopId/products", authenticate, async (req: Request, res: R
       categoryId,
       images: images || [],
       stock,
-      isAvailable: true,
+      lowStockThreshold,
+      options,
+      variants,
     });
+    applyVariantSummary(product);
+    product.isAvailable = product.stock !== 0;
+    if (product.stock === 0) product.soldOutAt = new Date();
+    await product.save();
 
     return res.status(201).json({ message: "Product created", product });
   } catch (err) {
+    if (err instanceof VariantError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    if (err instanceof EntitlementError) {
+      return res.status(err.status).json(entitlementErrorBody(err));
+    }
     console.error(err);
     return res.status(500).json({ message: "Failed to create product" });
   }
@@ -2327,7 +2768,7 @@ router.put("/products/:productId", authenticate, async (req: Request, res: Respo
       return res.status(403).json({ message: "Not authorized to update this product" });
     }
 
-    const { name, description, price, discountPrice, categoryId, images, stock, isAvailable } = req.body;
+    const { name, description, price, discountPrice, categoryId, images, stock, lowStockThreshold, isAvailable } = req.body;
 
     if (name !== undefined) product.name = name;
     if (description !== undefined) product.description = description;
@@ -2336,12 +2777,35 @@ router.put("/products/:productId", authenticate, async (req: Request, res: Respo
     if (categoryId !== undefined) product.categoryId = categoryId;
     if (images !== undefined) product.images = images;
     if (stock !== undefined) product.stock = stock;
+    if (lowStockThreshold !== undefined) product.lowStockThreshold = lowStockThreshold;
     if (isAvailable !== undefined) product.isAvailable = isAvailable;
 
-    await product.save();
+    const variantsChanged = req.body.options !== undefined || req.body.variants !== undefined;
+    if (variantsChanged) {
+      const { options, variants } = parseProductVariants(req.body);
+      product.options = options;
+      product.variants = variants;
+    }
+    applyVariantSummary(product);
+
+    // Setting stock to 0 hides the product; restocking shows it again if selling out had hidden it
+    if (stock !== undefined || variantsChanged) {
+      if (product.stock === 0 && product.isAvailable) {
+        product.isAvailable = false;
+        product.soldOutAt = new Date();
+      } else if ((product.stock == null || product.stock > 0) && product.soldOutAt) {
+        product.isAvailable = true;
+      }
+    }
+    if (product.isAvailable) product.soldOutAt = undefined;
+
+    await product.save();
 
     return res.json({ message: "Product updated", product });
   } catch (err) {
+    if (err instanceof VariantError) {
+      return res.status(err.status).json({ message: err.message });
+    }
     console.error(err);
     return res.status(500).json({ message: "Failed to update product" });
   }
@@ -2574,6 +3038,33 @@ router.post("/debug/seed-new-categories", async (_req: Request, res: Response) =
   }
 });
 
+// Debug route to create platform-wide promo codes (SAVE5 used to be hard-coded in the app)
+router.post("/debug/seed-platform-coupons", async (_req: Request, res: Response) => {
+  try {
+    const couponsToAdd = [
+      { code: "SAVE5", description: "5% off", discountType: "percent" as const, value: 5, minOrderValue: 0 },
+    ];
+
+    const results = [];
+    for (const couponData of couponsToAdd) {
+      const existing = await Coupon.findOne({ code: couponData.code, shopId: null });
+      if (existing) {
+        Object.assign(existing, couponData);
+        await existing.save();
+        results.push({ code: couponData.code, status: "updated" });
+      } else {
+        await Coupon.create(couponData);
+        results.push({ code: couponData.code, status: "created" });
+      }
+    }
+
+    return res.status(201).json({ message: "Platform coupons seeded successfully", results });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to seed coupons" });
+  }
+});
+
 // Delete Footwear category
 router.delete("/debug/delete-footwear", async (_req: Request, res: Response) => {
   try {
@@ -3107,400 +3598,1757 @@ router.post("/debug/seed-test-seller", async (_req: Request, res: Response) => {
 });
 
 // =============================================================================
-// ORDER ROUTES
+// DELIVERY
 // =============================================================================
 
-// Create a new order (customer)
-router.post("/orders", authenticate, async (req: Request, res: Response) => {
+// Can these shops deliver to an address, and for how much? Used on the checkout address step.
+// Body: { shops: [{ shopId, subtotal? }] } (or { shopId, subtotal? }) and
+// address: { pincode, geoLocation?: { lat, lng } }
+router.post("/delivery/check", async (req: Request, res: Response) => {
   try {
-    const { shopId, items, deliveryAddress, deliverySchedule, paymentMethod, notes } = req.body;
+    const { address } = req.body;
+    const requested: { shopId: string; subtotal?: number }[] = Array.isArray(req.body.shops)
+      ? req.body.shops
+      : req.body.shopId
+        ? [{ shopId: req.body.shopId, subtotal: req.body.subtotal }]
+        : [];
 
-    if (!shopId || !items || !items.length || !deliveryAddress) {
-      return res.status(400).json({ message: "Missing required fields" });
+    if (!requested.length || !address) {
+      return res.status(400).json({ message: "shops and address are required" });
     }
 
-    // Get the MongoDB user from Firebase UID
-    const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-    const user = await User.findOne({ uid });
-    if (!user) {
-      return res.status(404).json({ message: "User not found" });
-    }
+    const shops = await Shop.find({ _id: { $in: requested.map((r) => r.shopId) } })
+      .select("name delivery location")
+      .lean();
+    const shopById = new Map(shops.map((s: any) => [s._id.toString(), s]));
+    const destination = deliveryDestinationFrom(address);
 
-    // Get shop to find seller
-    const shop = await Shop.findById(shopId);
+    const results = requested.map(({ shopId, subtotal }) => {
+      const shop: any = shopById.get(String(shopId));
+      if (!shop) {
+        return { shopId, serviceable: false, reason: "Shop not found", deliveryFee: 0 };
+      }
+      return {
+        shopId,
+        shopName: shop.name,
+        ...checkDelivery(shop, destination, Number(subtotal) || 0),
+      };
+    });
+
+    return res.json({ serviceable: results.every((r) => r.serviceable), results });
+  } catch (err: any) {
+    console.error("[Delivery Check Error]", err);
+    return res.status(500).json({ message: "Failed to check delivery", error: err.message });
+  }
+});
+
+// Scheduled delivery slots with the places left in each. ?date=YYYY-MM-DD for one day,
+// otherwise the next few days (?days=, up to 7). `enabled: false` means the shop delivers
+// as soon as it can and takes no slot.
+router.get("/shops/:shopId/delivery-slots", async (req: Request, res: Response) => {
+  try {
+    const shop = await Shop.findById(req.params.shopId).select("name deliverySlots isActive").lean();
     if (!shop) {
       return res.status(404).json({ message: "Shop not found" });
     }
 
-    // Validate delivery address has required fields
-    if (!deliveryAddress.line1) {
-      return res.status(400).json({ message: "Delivery address line1 is required" });
+    const enabled = deliverySlotSettingsOf(shop).enabled && shop.isActive !== false;
+    if (req.query.date) {
+      const slots = enabled ? await deliverySlotsOn(shop, String(req.query.date)) : [];
+      return res.json({ shopId: shop._id, enabled, date: String(req.query.date), slots });
     }
+    const days = enabled ? await upcomingDeliverySlots(shop, req.query.days ? Number(req.query.days) : undefined) : [];
+    return res.json({ shopId: shop._id, enabled, days });
+  } catch (err: any) {
+    if (err instanceof DeliverySlotError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Delivery Slots Error]", err);
+    return res.status(500).json({ message: "Failed to load delivery slots", error: err.message });
+  }
+});
 
-    // Calculate total amount
-    let totalAmount = 0;
-    const orderItems = [];
-
-    for (const item of items) {
-      let name: string;
-      let price: number;
-      let image: string;
-      let itemProductId: mongoose.Types.ObjectId;
-
-      const product = await Product.findById(item.productId);
-      if (product) {
-        name = product.name;
-        price = product.discountPrice ?? product.price;
-        image = product.images?.[0] || "";
-        itemProductId = product._id;
-      } else {
-        const callInvoice = await CallInvoice.findById(item.productId);
-        if (!callInvoice) {
-          return res.status(404).json({ message: `Product or invoice ${item.productId} not found` });
-        }
-        if (callInvoice.customerId.toString() !== user._id.toString()) {
-          return res.status(403).json({ message: "Call invoice does not belong to you" });
-        }
-        if (callInvoice.shopId.toString() !== shopId) {
-          return res.status(400).json({ message: "Call invoice shop does not match order shop" });
-        }
-        const expiresAt = (callInvoice as any).expiresAt;
-        // Missing expiresAt = old invoice (before 15-min rule); treat as expired
-        if (!expiresAt || new Date(expiresAt) < new Date()) {
-          return res.status(400).json({
-            message: "This invoice has expired. You have 15 minutes from when the seller sent it to place the order. Please request a new invoice from the seller.",
-          });
-        }
-        name = callInvoice.itemName;
-        price = callInvoice.price;
-        image = callInvoice.imageUrl || "";
-        itemProductId = callInvoice._id;
-      }
+// =============================================================================
+// STORE PICKUP
+// =============================================================================
 
-      totalAmount += price * item.quantity;
-      orderItems.push({
-        productId: itemProductId,
-        name,
-        price,
-        quantity: item.quantity,
-        image,
-      });
+// Times an order can be collected from the shop over the next few days (?days=, up to 7),
+// built from the shop's call timings. Also returns the address to show the customer.
+router.get("/shops/:shopId/pickup-slots", async (req: Request, res: Response) => {
+  try {
+    const shop = await Shop.findById(req.params.shopId)
+      .select("name addressLine city state pincode location callTimings isActive")
+      .lean();
+    if (!shop) {
+      return res.status(404).json({ message: "Shop not found" });
     }
 
-    // Create order with proper customerId from MongoDB user
-    const order = new Order({
-      customerId: user._id,
-      shopId: shop._id,
-      sellerId: shop.sellerId,
-      items: orderItems,
-      totalAmount,
-      deliveryAddress: {
-        label: deliveryAddress.label || 'Home',
-        line1: deliveryAddress.line1,
-        line2: deliveryAddress.line2 || '',
-        city: deliveryAddress.city || '',
-        state: deliveryAddress.state || '',
-        pincode: deliveryAddress.pincode || '',
-        phone: deliveryAddress.phone || user.phone || '',
+    const days = pickupSlotsFor(shop, { days: req.query.days ? Number(req.query.days) : undefined });
+    return res.json({
+      shop: {
+        _id: shop._id,
+        name: shop.name,
+        addressLine: shop.addressLine,
+        city: shop.city,
+        state: shop.state,
+        pincode: shop.pincode,
+        location: shop.location?.coordinates?.length ? fromGeoPoint(shop.location as any) : null,
       },
-      deliverySchedule,
-      paymentMethod: paymentMethod || "cod",
-      paymentStatus: paymentMethod === "cod" ? "pending" : "pending",
-      notes,
-    });
-
-    await order.save();
-
-    // Update customer's total orders
-    await CustomerProfile.findOneAndUpdate(
-      { userId: user._id },
-      { $inc: { totalOrders: 1 } }
-    );
-
-    // Notify seller of new order
-    const customerName = user.name || (user.phone ? `Customer ${user.phone.slice(-4)}` : "A customer");
-    await createAndSendNotification(
-      shop.sellerId.toString(),
-      "order",
-      "New order",
-      `${customerName} placed an order (₹${order.totalAmount.toLocaleString("en-IN")})`,
-      { orderId: order._id.toString(), shopId: shop._id.toString(), type: "new_order" }
-    );
-
-    return res.status(201).json({
-      message: "Order created successfully",
-      order,
+      days: shop.isActive === false ? [] : days,
     });
   } catch (err: any) {
-    console.error("[Create Order Error]", err);
-    return res.status(500).json({ message: "Failed to create order", error: err.message });
+    console.error("[Pickup Slots Error]", err);
+    return res.status(500).json({ message: "Failed to get pickup slots", error: err.message });
   }
 });
 
-// Get customer's orders
-router.get("/orders/my", authenticate, async (req: Request, res: Response) => {
+// Hand over a pickup order (seller). The customer's code marks it picked up (delivered).
+router.post("/orders/:orderId/pickup/verify", authenticate, async (req: Request, res: Response) => {
   try {
-    const { status, limit = 20, skip = 0 } = req.query;
-
-    // Get the MongoDB user from Firebase UID
     const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-    const user = await User.findOne({ uid });
+    const user = await User.findOne({ uid: firebaseUser.uid });
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    const query: any = { customerId: user._id };
-    if (status) query.status = status;
+    const order = await Order.findById(req.params.orderId).select("+pickup.code");
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    if (order.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Only the seller can hand over this order" });
+    }
 
-    const orders = await Order.find(query)
-      .sort({ createdAt: -1 })
-      .limit(Number(limit))
-      .skip(Number(skip))
-      .populate("shopId", "name images");
+    try {
+      await verifyPickupCode(order, req.body.code);
+    } catch (err) {
+      if (err instanceof PickupError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      throw err;
+    }
 
-    const total = await Order.countDocuments(query);
+    await transitionOrderStatus(order, "delivered", { id: user._id, role: "seller" }, "Collected at the shop");
+    await order.save();
+    await notifyOrderStatusChange(order);
+    issueInvoicesFor([order]);
+    accrueOrderEarnings(order).catch((err) => console.error("[Ledger Accrual Error]", err));
 
-    return res.json({ orders, total, limit: Number(limit), skip: Number(skip) });
+    const { code: _code, ...pickup } = order.toObject().pickup ?? {};
+    return res.json({ message: "Order picked up", order: { ...order.toObject(), pickup } });
   } catch (err: any) {
-    console.error("[Get My Orders Error]", err);
-    return res.status(500).json({ message: "Failed to get orders", error: err.message });
+    if (err instanceof OrderStatusError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Verify Pickup Error]", err);
+    return res.status(500).json({ message: "Failed to verify pickup", error: err.message });
   }
 });
 
-// Get seller's orders (for their shops)
-router.get("/orders/seller", authenticate, async (req: Request, res: Response) => {
-  try {
-    const { status, limit = 20, skip = 0 } = req.query;
+// =============================================================================
+// DELIVERY PARTNERS
+// =============================================================================
 
-    // Get the MongoDB user from Firebase UID
+// Seller's delivery partners (removed ones are left out unless ?all=true)
+router.get("/seller/agents", authenticate, async (req: Request, res: Response) => {
+  try {
     const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-    const user = await User.findOne({ uid });
+    const user = await User.findOne({ uid: firebaseUser.uid });
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
+    if (user.role !== "seller") {
+      return res.status(403).json({ message: "Only sellers have delivery partners" });
+    }
 
     const query: any = { sellerId: user._id };
-    if (status) query.status = status;
-
-    const orders = await Order.find(query)
-      .sort({ createdAt: -1 })
-      .limit(Number(limit))
-      .skip(Number(skip))
-      .populate("customerId", "name phone")
-      .populate("shopId", "name");
-
-    const total = await Order.countDocuments(query);
+    if (req.query.all !== "true") query.isActive = true;
+    const agents = await DeliveryAgent.find(query).sort({ name: 1 }).lean();
 
-    // Get order stats
-    const stats = await Order.aggregate([
-      { $match: { sellerId: user._id } },
+    // How many orders each partner is carrying or about to collect
+    const active = await Order.aggregate([
       {
-        $group: {
-          _id: "$status",
-          count: { $sum: 1 },
-          total: { $sum: "$totalAmount" },
+        $match: {
+          sellerId: user._id,
+          status: { $ne: "cancelled" },
+          "agentDelivery.status": { $in: ["assigned", "picked_up", "out_for_delivery"] },
         },
       },
+      { $group: { _id: "$agentDelivery.agentId", count: { $sum: 1 } } },
     ]);
+    const activeByAgent = new Map(active.map((a) => [a._id.toString(), a.count]));
 
-    return res.json({ orders, total, stats, limit: Number(limit), skip: Number(skip) });
+    return res.json({
+      agents: agents.map((a) => ({ ...a, activeOrders: activeByAgent.get(a._id.toString()) ?? 0 })),
+    });
   } catch (err: any) {
-    console.error("[Get Seller Orders Error]", err);
-    return res.status(500).json({ message: "Failed to get orders", error: err.message });
+    console.error("[Get Agents Error]", err);
+    return res.status(500).json({ message: "Failed to get delivery partners", error: err.message });
   }
 });
 
-// Get single order
-router.get("/orders/:orderId", authenticate, async (req: Request, res: Response) => {
+// Add a delivery partner by phone; they sign in with that number as a delivery partner.
+// Adding a removed partner again brings them back.
+router.post("/seller/agents", authenticate, async (req: Request, res: Response) => {
   try {
-    const { orderId } = req.params;
-
-    // Get the MongoDB user from Firebase UID
     const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-    const user = await User.findOne({ uid });
+    const user = await User.findOne({ uid: firebaseUser.uid });
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
+    if (user.role !== "seller") {
+      return res.status(403).json({ message: "Only sellers can add delivery partners" });
+    }
 
-    const order = await Order.findById(orderId)
-      .populate("shopId", "name images")
-      .populate("customerId", "name phone");
+    const shop = await Shop.findOne({ sellerId: user._id }).select("_id");
+    if (!shop) {
+      return res.status(404).json({ message: "Shop not found" });
+    }
 
-    if (!order) {
-      return res.status(404).json({ message: "Order not found" });
+    const name = String(req.body.name ?? "").trim();
+    if (!name) {
+      return res.status(400).json({ message: "name is required" });
     }
+    const phone = normalizeAgentPhone(req.body.phone);
 
-    // Verify user has access to this order
-    const userId = user._id.toString();
-    const orderCustomerId = (order.customerId as any)?._id?.toString() || order.customerId?.toString();
-    if (orderCustomerId !== userId && order.sellerId.toString() !== userId) {
-      return res.status(403).json({ message: "Not authorized to view this order" });
+    const existingUser = await User.findOne({ phone }).select("role");
+    if (existingUser && existingUser.role !== "agent") {
+      return res.status(409).json({ message: `This number is registered as a ${existingUser.role}` });
     }
 
-    return res.json(order);
+    const agent = await DeliveryAgent.findOneAndUpdate(
+      { sellerId: user._id, phone },
+      { $set: { name, isActive: true, shopId: shop._id } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    return res.status(201).json({ message: "Delivery partner added", agent });
   } catch (err: any) {
-    console.error("[Get Order Error]", err);
-    return res.status(500).json({ message: "Failed to get order", error: err.message });
+    if (err instanceof DeliveryAgentError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Add Agent Error]", err);
+    return res.status(500).json({ message: "Failed to add delivery partner", error: err.message });
   }
 });
 
-// Update order status (seller only)
-router.put("/orders/:orderId/status", authenticate, async (req: Request, res: Response) => {
+// Remove a delivery partner. Orders they already have stay with them until delivered.
+router.delete("/seller/agents/:agentId", authenticate, async (req: Request, res: Response) => {
   try {
-    const { orderId } = req.params;
-    const { status } = req.body;
-
-    // Get the MongoDB user from Firebase UID
     const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-    const user = await User.findOne({ uid });
+    const user = await User.findOne({ uid: firebaseUser.uid });
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    const validStatuses = ["pending", "confirmed", "preparing", "ready", "delivered", "cancelled"];
-    if (!status || !validStatuses.includes(status)) {
-      return res.status(400).json({ message: "Invalid status" });
-    }
-
-    const order = await Order.findById(orderId);
-    if (!order) {
-      return res.status(404).json({ message: "Order not found" });
-    }
-
-    // Only seller can update order status
-    if (order.sellerId.toString() !== user._id.toString()) {
-      return res.status(403).json({ message: "Only seller can update order status" });
-    }
-
-    order.status = status;
-    
-    // If delivered, mark payment as paid for COD
-    if (status === "delivered" && order.paymentMethod === "cod") {
-      order.paymentStatus = "paid";
+    const agent = await DeliveryAgent.findOneAndUpdate(
+      { _id: req.params.agentId, sellerId: user._id },
+      { $set: { isActive: false } },
+      { new: true }
+    );
+    if (!agent) {
+      return res.status(404).json({ message: "Delivery partner not found" });
     }
 
-    await order.save();
-
-    return res.json({ message: "Order status updated", order });
+    return res.json({ message: "Delivery partner removed", agent });
   } catch (err: any) {
-    console.error("[Update Order Status Error]", err);
-    return res.status(500).json({ message: "Failed to update order", error: err.message });
+    console.error("[Remove Agent Error]", err);
+    return res.status(500).json({ message: "Failed to remove delivery partner", error: err.message });
   }
 });
 
-// Cancel order (customer - only if pending/confirmed)
-router.put("/orders/:orderId/cancel", authenticate, async (req: Request, res: Response) => {
+// Give a delivery order to one of the seller's partners (or hand it to another before pickup).
+// Body: { agentId }
+router.post("/orders/:orderId/agent", authenticate, async (req: Request, res: Response) => {
   try {
-    const { orderId } = req.params;
-
-    // Get the MongoDB user from Firebase UID
     const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-    const user = await User.findOne({ uid });
+    const user = await User.findOne({ uid: firebaseUser.uid });
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
 
-    const order = await Order.findById(orderId);
+    const order = await Order.findById(req.params.orderId).select("+agentDelivery.otp");
     if (!order) {
       return res.status(404).json({ message: "Order not found" });
     }
-
-    // Only customer can cancel their own order
-    if (order.customerId.toString() !== user._id.toString()) {
-      return res.status(403).json({ message: "Not authorized to cancel this order" });
+    if (order.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Only the seller can assign a delivery partner" });
     }
 
-    // Can only cancel if pending or confirmed
-    if (!["pending", "confirmed"].includes(order.status)) {
-      return res.status(400).json({ message: "Order cannot be cancelled at this stage" });
+    const agent = req.body.agentId
+      ? await DeliveryAgent.findOne({ _id: req.body.agentId, sellerId: user._id })
+      : null;
+    if (!agent) {
+      return res.status(404).json({ message: "Delivery partner not found" });
     }
 
-    order.status = "cancelled";
+    assignAgent(order, agent);
     await order.save();
+    await notifyAgentDeliveryChange(order);
 
-    // Notify seller that customer cancelled the order
-    await createAndSendNotification(
-      order.sellerId.toString(),
-      "order",
-      "Order cancelled",
-      "A customer cancelled their order.",
-      { orderId: order._id.toString(), type: "order_cancelled" }
-    );
-
-    return res.json({ message: "Order cancelled", order });
+    return res.json({
+      message: "Delivery partner assigned",
+      order: { ...order.toObject(), agentDelivery: publicAgentDelivery(order) },
+    });
   } catch (err: any) {
-    console.error("[Cancel Order Error]", err);
-    return res.status(500).json({ message: "Failed to cancel order", error: err.message });
+    if (err instanceof DeliveryAgentError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Assign Agent Error]", err);
+    return res.status(500).json({ message: "Failed to assign delivery partner", error: err.message });
   }
 });
 
-// =============================================================================
-// PAYMENTS - PHONEPE
-// =============================================================================
-
-// Initiate PhonePe payment for an existing order
-router.post("/payments/phonepe/initiate", authenticate, async (req: Request, res: Response) => {
+// Orders assigned to the signed-in delivery partner: ?scope=active (default) or done
+router.get("/agent/deliveries", authenticate, async (req: Request, res: Response) => {
   try {
-    const { orderId } = req.body as { orderId?: string };
-    if (!orderId) {
-      return res.status(400).json({ message: "orderId is required" });
-    }
-
     const firebaseUser = (req as any).user;
-    const uid = firebaseUser.uid;
-    const user = await User.findOne({ uid });
+    const user = await User.findOne({ uid: firebaseUser.uid });
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
+    if (user.role !== "agent") {
+      return res.status(403).json({ message: "Only delivery partners have deliveries" });
+    }
 
-    const order = await Order.findById(orderId);
-    if (!order) {
-      return res.status(404).json({ message: "Order not found" });
+    const agentIds = await agentIdsForUser(user);
+    const query: any = { "agentDelivery.agentId": { $in: agentIds } };
+    if (req.query.scope === "done") {
+      query.$or = [{ "agentDelivery.status": "delivered" }, { status: "cancelled" }];
+    } else {
+      query["agentDelivery.status"] = { $ne: "delivered" };
+      query.status = { $ne: "cancelled" };
     }
 
+    const orders = await Order.find(query)
+      .sort(req.query.scope === "done" ? { updatedAt: -1 } : { "agentDelivery.assignedAt": 1 })
+      .limit(50)
+      .select("items status totalAmount paymentMethod paymentStatus deliveryAddress deliverySchedule agentDelivery notes createdAt")
+      .populate("shopId", "name addressLine city location")
+      .populate("customerId", "name phone");
+
+    return res.json({ orders });
+  } catch (err: any) {
+    console.error("[Get Agent Deliveries Error]", err);
+    return res.status(500).json({ message: "Failed to get deliveries", error: err.message });
+  }
+});
+
+// Delivery partner moves an order on: picked_up -> out_for_delivery -> delivered.
+// Body: { status, otp } (otp, from the customer's app, is needed to mark it delivered)
+router.post("/agent/deliveries/:orderId/status", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const { status, otp } = req.body;
+    if (!isAgentDeliveryStatus(status)) {
+      return res.status(400).json({ message: "status must be picked_up, out_for_delivery or delivered" });
+    }
+
+    const order = await Order.findById(req.params.orderId).select("+agentDelivery.otp");
+    if (!order || !order.agentDelivery) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    const agentIds = await agentIdsForUser(user);
+    if (!agentIds.some((id) => id.equals(order.agentDelivery!.agentId))) {
+      return res.status(403).json({ message: "This order isn't assigned to you" });
+    }
+
+    try {
+      await advanceAgentDelivery(order, status, otp);
+    } catch (err) {
+      if (err instanceof DeliveryAgentError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      throw err;
+    }
+
+    if (status === "delivered") {
+      await transitionOrderStatus(order, "delivered", { id: user._id, role: "agent" }, `Delivered by ${order.agentDelivery.name}`);
+    }
+    await order.save();
+    await notifyAgentDeliveryChange(order);
+    if (status === "delivered") {
+      await notifyOrderStatusChange(order);
+      issueInvoicesFor([order]);
+      accrueOrderEarnings(order).catch((err) => console.error("[Ledger Accrual Error]", err));
+    }
+
+    return res.json({
+      message: "Delivery updated",
+      order: { ...order.toObject(), agentDelivery: publicAgentDelivery(order) },
+    });
+  } catch (err: any) {
+    if (err instanceof OrderStatusError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Agent Delivery Status Error]", err);
+    return res.status(500).json({ message: "Failed to update delivery", error: err.message });
+  }
+});
+
+// =============================================================================
+// ORDER ROUTES
+// =============================================================================
+
+// Price a cart without placing it (customer). Uses the same engine as POST /orders.
+// Body is either { shopId, items } or { shops: [{ shopId, items }] } for a multi-shop cart;
+// with a deliveryAddress each shop quote also says whether it delivers there and for how much
+// (ignored when fulfilmentType is "pickup", which has no delivery fee).
+router.post("/orders/quote", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { promoCode, walletAmount, deliveryAddress, fulfilmentType } = req.body;
+    const shops = normalizeCheckoutShops(req.body);
+
+    if (!shops.length) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const shopCount = await Shop.countDocuments({ _id: { $in: shops.map((s) => s.shopId) } });
+    if (shopCount !== shops.length) {
+      return res.status(404).json({ message: "Shop not found" });
+    }
+
+    const quote = await buildCheckoutQuote(user._id, shops, {
+      promoCode,
+      walletAmount,
+      deliveryAddress: deliveryAddress && fulfilmentType !== "pickup" ? deliveryDestinationFrom(deliveryAddress) : undefined,
+    });
+    return res.json({ quote });
+  } catch (err: any) {
+    if (err instanceof PricingError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Order Quote Error]", err);
+    return res.status(500).json({ message: "Failed to price order", error: err.message });
+  }
+});
+
+// Create a new order (customer). A multi-shop cart becomes one order per shop,
+// linked by a checkout group that is paid for in a single payment.
+// Send an Idempotency-Key so a retried request doesn't place the orders twice.
+// For store pickup send fulfilmentType: "pickup" and pickupSlots: { [shopId]: { date, start } }
+// (or pickupSlot for a single-shop body) instead of a deliveryAddress.
+// Shops with delivery slots need deliverySlots: { [shopId]: { date, slotId } } (or deliverySlot);
+// a place in each slot is booked with the order and given back if it's cancelled.
+router.post("/orders", authenticate, idempotent("create_order"), async (req: Request, res: Response) => {
+  try {
+    const { deliveryAddress, deliverySchedule, paymentMethod, notes, promoCode, walletAmount } = req.body;
+    const fulfilmentType = req.body.fulfilmentType === "pickup" ? "pickup" : "delivery";
+    const shops = normalizeCheckoutShops(req.body);
+    const pickupSlots =
+      req.body.pickupSlots ?? (req.body.shopId && req.body.pickupSlot ? { [req.body.shopId]: req.body.pickupSlot } : undefined);
+    const deliverySlots =
+      req.body.deliverySlots ?? (req.body.shopId && req.body.deliverySlot ? { [req.body.shopId]: req.body.deliverySlot } : undefined);
+
+    if (!shops.length || (fulfilmentType === "delivery" && !deliveryAddress)) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+
+    // Get the MongoDB user from Firebase UID
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    // Price and place the orders server-side; the client total is only a preview
+    const { orders, checkoutGroup } = await placeOrders(user, {
+      shops,
+      fulfilmentType,
+      deliveryAddress: fulfilmentType === "delivery" ? deliveryAddress : undefined,
+      deliverySchedule,
+      deliverySlots,
+      pickupSlots,
+      paymentMethod,
+      notes,
+      promoCode,
+      walletAmount,
+    });
+
+    // Update customer's total orders
+    await CustomerProfile.findOneAndUpdate(
+      { userId: user._id },
+      { $inc: { totalOrders: orders.length } }
+    );
+
+    // Notify each seller of their new order
+    const customerName = user.name || (user.phone ? `Customer ${user.phone.slice(-4)}` : "A customer");
+    for (const order of orders) {
+      await createAndSendNotification(
+        order.sellerId.toString(),
+        "order",
+        "New order",
+        `${customerName} placed an order (₹${order.totalAmount.toLocaleString("en-IN")})`,
+        { orderId: order._id.toString(), shopId: order.shopId.toString(), type: "new_order" }
+      );
+    }
+
+    return res.status(201).json({
+      message: orders.length > 1 ? `${orders.length} orders created successfully` : "Order created successfully",
+      order: orders[0],
+      orders,
+      checkoutGroup,
+    });
+  } catch (err: any) {
+    if (err instanceof PricingError || err instanceof CheckoutError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Create Order Error]", err);
+    return res.status(500).json({ message: "Failed to create order", error: err.message });
+  }
+});
+
+// Combined receipt for a multi-shop checkout (customer)
+router.get("/checkout-groups/:groupId", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { groupId } = req.params;
+
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const checkoutGroup = await CheckoutGroup.findById(groupId);
+    if (!checkoutGroup) {
+      return res.status(404).json({ message: "Checkout not found" });
+    }
+    if (checkoutGroup.customerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Not authorized to view this checkout" });
+    }
+
+    const orders = await Order.find({ checkoutGroupId: checkoutGroup._id })
+      .sort({ createdAt: 1 })
+      .populate("shopId", "name images");
+
+    return res.json({ checkoutGroup, orders });
+  } catch (err: any) {
+    console.error("[Get Checkout Group Error]", err);
+    return res.status(500).json({ message: "Failed to get checkout", error: err.message });
+  }
+});
+
+// Get customer's orders
+router.get("/orders/my", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { status, limit = 20, skip = 0 } = req.query;
+
+    // Get the MongoDB user from Firebase UID
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const query: any = { customerId: user._id };
+    if (status) query.status = status;
+
+    const orders = await Order.find(query)
+      .select("+pickup.code +agentDelivery.otp")
+      .sort({ createdAt: -1 })
+      .limit(Number(limit))
+      .skip(Number(skip))
+      .populate("shopId", "name images returnDays exchangeDays addressLine city");
+
+    const total = await Order.countDocuments(query);
+
+    return res.json({ orders, total, limit: Number(limit), skip: Number(skip) });
+  } catch (err: any) {
+    console.error("[Get My Orders Error]", err);
+    return res.status(500).json({ message: "Failed to get orders", error: err.message });
+  }
+});
+
+// Get seller's orders (for their shops)
+router.get("/orders/seller", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { status, fulfilmentType, limit = 20, skip = 0 } = req.query;
+
+    // Get the MongoDB user from Firebase UID
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const query: any = { sellerId: user._id };
+    if (status) query.status = status;
+    // Orders from before store pickup have no fulfilmentType and are deliveries
+    if (fulfilmentType === "pickup") query.fulfilmentType = "pickup";
+    if (fulfilmentType === "delivery") query.fulfilmentType = { $ne: "pickup" };
+
+    const orders = await Order.find(query)
+      .sort({ createdAt: -1 })
+      .limit(Number(limit))
+      .skip(Number(skip))
+      .populate("customerId", "name phone")
+      .populate("shopId", "name");
+
+    const total = await Order.countDocuments(query);
+
+    // Get order stats
+    const stats = await Order.aggregate([
+      { $match: { sellerId: user._id } },
+      {
+        $group: {
+          _id: "$status",
+          count: { $sum: 1 },
+          total: { $sum: "$totalAmount" },
+        },
+      },
+    ]);
+
+    return res.json({ orders, total, stats, limit: Number(limit), skip: Number(skip) });
+  } catch (err: any) {
+    console.error("[Get Seller Orders Error]", err);
+    return res.status(500).json({ message: "Failed to get orders", error: err.message });
+  }
+});
+
+// Get single order
+router.get("/orders/:orderId", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    // Get the MongoDB user from Firebase UID
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const order = await Order.findById(orderId)
+      .select("+pickup.code +agentDelivery.otp")
+      .populate("shopId", "name images addressLine city")
+      .populate("customerId", "name phone");
+
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    // Verify user has access to this order
+    const userId = user._id.toString();
+    const orderCustomerId = (order.customerId as any)?._id?.toString() || order.customerId?.toString();
+    if (orderCustomerId !== userId && order.sellerId.toString() !== userId) {
+      return res.status(403).json({ message: "Not authorized to view this order" });
+    }
+
+    // The pickup code and delivery OTP are the customer's proof of receipt; the seller has to ask for them
+    if (orderCustomerId !== userId && (order.pickup || order.agentDelivery)) {
+      const { code: _code, ...pickup } = order.toObject().pickup ?? {};
+      return res.json({
+        ...order.toObject(),
+        pickup: order.pickup ? pickup : undefined,
+        agentDelivery: publicAgentDelivery(order),
+      });
+    }
+
+    return res.json(order);
+  } catch (err: any) {
+    console.error("[Get Order Error]", err);
+    return res.status(500).json({ message: "Failed to get order", error: err.message });
+  }
+});
+
+// Get an order's GST invoice (customer or seller), issuing it if the order is paid or delivered
+router.get("/orders/:orderId/invoice", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const userId = user._id.toString();
+    if (order.customerId.toString() !== userId && order.sellerId.toString() !== userId) {
+      return res.status(403).json({ message: "Not authorized to view this invoice" });
+    }
+
+    const invoice = await ensureOrderInvoice(order);
+    if (!invoice) {
+      return res.status(400).json({ message: "An invoice is issued once the order is paid or delivered" });
+    }
+
+    return res.json({ invoice });
+  } catch (err: any) {
+    console.error("[Get Invoice Error]", err);
+    return res.status(500).json({ message: "Failed to get invoice", error: err.message });
+  }
+});
+
+// Download an order's GST invoice as a PDF (customer or seller)
+router.get("/orders/:orderId/invoice/pdf", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const userId = user._id.toString();
+    if (order.customerId.toString() !== userId && order.sellerId.toString() !== userId) {
+      return res.status(403).json({ message: "Not authorized to view this invoice" });
+    }
+
+    const invoice = await ensureOrderInvoice(order);
+    if (!invoice) {
+      return res.status(400).json({ message: "An invoice is issued once the order is paid or delivered" });
+    }
+
+    const pdf = renderInvoicePdf(invoice);
+    const filename = invoice.invoiceNumber.replace(/\//g, "-");
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+    return res.send(pdf);
+  } catch (err: any) {
+    console.error("[Download Invoice Error]", err);
+    return res.status(500).json({ message: "Failed to download invoice", error: err.message });
+  }
+});
+
+// List the seller's invoices, newest first (for GST filing)
+router.get("/seller/invoices", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    // Drafts (sequence 0) are still waiting for their number
+    const filter: Record<string, any> = { sellerId: user._id, sequence: { $gt: 0 } };
+    if (typeof req.query.financialYear === "string") {
+      filter.financialYear = req.query.financialYear;
+    }
+
+    const invoices = await Invoice.find(filter)
+      .select("-items -sellerDetailsSnapshot")
+      .sort({ generatedAt: -1 })
+      .limit(200);
+
+    return res.json({ invoices });
+  } catch (err: any) {
+    console.error("[Seller Invoices Error]", err);
+    return res.status(500).json({ message: "Failed to get invoices", error: err.message });
+  }
+});
+
+// Refunds for an order (customer or seller). Pending gateway refunds are re-checked first.
+router.get("/orders/:orderId/refunds", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const userId = user._id.toString();
+    if (order.customerId.toString() !== userId && order.sellerId.toString() !== userId) {
+      return res.status(403).json({ message: "Not authorized to view these refunds" });
+    }
+
+    const refunds = await Refund.find({ orderId: order._id }).sort({ createdAt: -1 });
+    for (const refund of refunds) {
+      if (refund.status !== "pending") continue;
+      try {
+        await refreshRefundStatus(refund);
+      } catch (err) {
+        console.error("[Refund Status Refresh Error]", err);
+      }
+    }
+
+    return res.json({ refunds, refundedAmount: order.refundedAmount ?? 0, paymentStatus: order.paymentStatus });
+  } catch (err: any) {
+    console.error("[Get Refunds Error]", err);
+    return res.status(500).json({ message: "Failed to get refunds", error: err.message });
+  }
+});
+
+// Update order status (seller only)
+router.put("/orders/:orderId/status", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { status } = req.body;
+
+    // Get the MongoDB user from Firebase UID
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    if (!isOrderStatus(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    // Only seller can update order status
+    if (order.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Only seller can update order status" });
+    }
+
+    await transitionOrderStatus(order, status, { id: user._id, role: "seller" }, req.body.note);
+    const refunds = status === "cancelled" ? await refundCancelledOrder(order, "Order cancelled by shop") : [];
+    await order.save();
+    await notifyOrderStatusChange(order);
+    if (order.status === "delivered") {
+      issueInvoicesFor([order]);
+      accrueOrderEarnings(order).catch((err) => console.error("[Ledger Accrual Error]", err));
+    }
+    if (refunds.length) {
+      await createAndSendNotification(
+        order.customerId.toString(),
+        "order",
+        "Refund started",
+        `The shop cancelled your order. ${describeRefunds(refunds)}`,
+        { orderId: order._id.toString(), type: "order_refund" }
+      );
+    }
+
+    return res.json({ message: "Order status updated", order });
+  } catch (err: any) {
+    if (err instanceof OrderStatusError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Update Order Status Error]", err);
+    return res.status(500).json({ message: "Failed to update order", error: err.message });
+  }
+});
+
+// Cancel order (customer - only if pending/confirmed)
+router.put("/orders/:orderId/cancel", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    // Get the MongoDB user from Firebase UID
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    // Only customer can cancel their own order
+    if (order.customerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Not authorized to cancel this order" });
+    }
+
+    // Can only cancel if pending or confirmed
+    if (!["pending", "confirmed"].includes(order.status)) {
+      return res.status(400).json({ message: "Order cannot be cancelled at this stage" });
+    }
+
+    await transitionOrderStatus(order, "cancelled", { id: user._id, role: "customer" });
+    // Money already taken (wallet credit, plus the online payment if it went through) goes back
+    const refunds = await refundCancelledOrder(order, "Order cancelled");
+    await order.save();
+    await notifyOrderStatusChange(order);
+
+    if (refunds.length) {
+      await createAndSendNotification(
+        user._id.toString(),
+        "order",
+        "Refund started",
+        `For your cancelled order, ${describeRefunds(refunds)}`,
+        { orderId: order._id.toString(), type: "order_refund" }
+      );
+    }
+
+    // Notify seller that customer cancelled the order
+    await createAndSendNotification(
+      order.sellerId.toString(),
+      "order",
+      "Order cancelled",
+      "A customer cancelled their order.",
+      { orderId: order._id.toString(), type: "order_cancelled" }
+    );
+
+    return res.json({ message: "Order cancelled", order });
+  } catch (err: any) {
+    if (err instanceof OrderStatusError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Cancel Order Error]", err);
+    return res.status(500).json({ message: "Failed to cancel order", error: err.message });
+  }
+});
+
+// =============================================================================
+// RETURN & EXCHANGE ROUTES
+// =============================================================================
+
+// Open a return or exchange for items of a delivered order (customer)
+router.post("/orders/:orderId/returns", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+    const { type, items, reason, details, imagesBase64 } = req.body as {
+      type?: string;
+      items?: { productId: string; variantId?: string; quantity: number }[];
+      reason?: string;
+      details?: string;
+      imagesBase64?: string[];
+    };
+
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    if (type !== "return" && type !== "exchange") {
+      return res.status(400).json({ message: "type must be return or exchange" });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
     if (order.customerId.toString() !== user._id.toString()) {
-      return res.status(403).json({ message: "Not authorized to pay for this order" });
+      return res.status(403).json({ message: "Not authorized to return this order" });
+    }
+
+    // Upload photos of the item (optional)
+    const imageUrls: string[] = [];
+    if (Array.isArray(imagesBase64) && imagesBase64.length > 0) {
+      for (const base64 of imagesBase64.slice(0, 5)) {
+        if (!base64) continue;
+        try {
+          const uploadResult = await cloudinary.uploader.upload(`data:image/jpeg;base64,${base64}`, {
+            folder: "returns",
+            public_id: `return_${orderId}_${Date.now()}`,
+            overwrite: false,
+          });
+          if (uploadResult.secure_url) {
+            imageUrls.push(uploadResult.secure_url);
+          }
+        } catch (e) {
+          console.warn("[Returns] Failed to upload return image", e);
+        }
+      }
+    }
+
+    const request = await openReturnRequest(user._id, order, {
+      type,
+      items: Array.isArray(items) ? items : [],
+      reason: String(reason || ""),
+      details: details != null ? String(details) : undefined,
+      images: imageUrls,
+    });
+
+    return res.status(201).json({ message: "Request sent to the shop", returnRequest: request });
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Create Return Error]", err);
+    return res.status(500).json({ message: "Failed to create request", error: err.message });
+  }
+});
+
+// List the customer's return/exchange requests
+router.get("/me/returns", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const returnRequests = await ReturnRequest.find({ customerId: user._id })
+      .sort({ createdAt: -1 })
+      .populate("shopId", "name images");
+
+    return res.json({ returnRequests });
+  } catch (err: any) {
+    console.error("[Get My Returns Error]", err);
+    return res.status(500).json({ message: "Failed to get requests", error: err.message });
+  }
+});
+
+// Withdraw a request the shop hasn't answered yet (customer)
+router.put("/returns/:returnId/cancel", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const request = await ReturnRequest.findById(req.params.returnId);
+    if (!request) {
+      return res.status(404).json({ message: "Request not found" });
+    }
+    if (request.customerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Not authorized to change this request" });
+    }
+
+    await cancelReturnRequest(request, user._id);
+    return res.json({ message: "Request withdrawn", returnRequest: request });
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Cancel Return Error]", err);
+    return res.status(500).json({ message: "Failed to withdraw request", error: err.message });
+  }
+});
+
+// List return/exchange requests for the seller's shops
+router.get("/seller/returns", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const query: any = { sellerId: user._id };
+    if (status) query.status = status;
+
+    const returnRequests = await ReturnRequest.find(query)
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .populate("customerId", "name phone");
+
+    return res.json({ returnRequests });
+  } catch (err: any) {
+    console.error("[Get Seller Returns Error]", err);
+    return res.status(500).json({ message: "Failed to get requests", error: err.message });
+  }
+});
+
+// Approve, reject or mark the goods as received (seller only)
+router.put("/returns/:returnId/:action", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { returnId, action } = req.params;
+    const { note, restock } = req.body as { note?: string; restock?: boolean };
+
+    if (!["approve", "reject", "receive"].includes(action)) {
+      return res.status(404).json({ message: "Unknown action" });
+    }
+
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const request = await ReturnRequest.findById(returnId);
+    if (!request) {
+      return res.status(404).json({ message: "Request not found" });
+    }
+    if (request.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Only the seller can update this request" });
+    }
+
+    if (action === "approve") {
+      await approveReturnRequest(request, user._id, note);
+    } else if (action === "reject") {
+      await rejectReturnRequest(request, user._id, String(note || ""));
+    } else {
+      await receiveReturnRequest(request, user._id, restock !== false);
+    }
+
+    return res.json({ message: "Request updated", returnRequest: request });
+  } catch (err: any) {
+    if (err instanceof ReturnError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Update Return Error]", err);
+    return res.status(500).json({ message: "Failed to update request", error: err.message });
+  }
+});
+
+// =============================================================================
+// COUPON ROUTES
+// =============================================================================
+
+type CouponInput = {
+  code?: string;
+  description?: string;
+  discountType?: "percent" | "flat";
+  value?: number;
+  minOrderValue?: number;
+  maxDiscount?: number | null;
+  perUserLimit?: number | null;
+  usageLimit?: number | null;
+  validFrom?: string;
+  validUntil?: string | null;
+  isActive?: boolean;
+};
+
+// Validate seller-supplied coupon fields; returns an error message or the fields to set.
+// Updates pass the stored coupon so fields the body leaves out are checked as they are.
+function parseCouponInput(
+  body: CouponInput,
+  stored?: { discountType: "percent" | "flat"; value: number }
+): { error: string } | { fields: Record<string, any> } {
+  const isCreate = !stored;
+  const fields: Record<string, any> = {};
+
+  if (body.code !== undefined) {
+    const code = normalizeCouponCode(String(body.code));
+    if (!/^[A-Z0-9_-]{3,20}$/.test(code)) {
+      return { error: "code must be 3-20 letters, digits, - or _" };
+    }
+    fields.code = code;
+  } else if (isCreate) {
+    return { error: "code is required" };
+  }
+
+  if (body.discountType !== undefined) {
+    if (!["percent", "flat"].includes(body.discountType)) {
+      return { error: "discountType must be percent or flat" };
+    }
+    fields.discountType = body.discountType;
+  } else if (isCreate) {
+    return { error: "discountType is required" };
+  }
+
+  if (body.value !== undefined) {
+    const value = Number(body.value);
+    if (!Number.isFinite(value) || value <= 0) {
+      return { error: "value must be a positive number" };
+    }
+    fields.value = value;
+  } else if (isCreate) {
+    return { error: "value is required" };
+  }
+
+  const discountType = fields.discountType ?? stored?.discountType;
+  const value = fields.value ?? stored?.value;
+  if (discountType === "percent" && value > 100) {
+    return { error: "A percent coupon cannot exceed 100%" };
+  }
+
+  for (const key of ["minOrderValue", "maxDiscount", "perUserLimit", "usageLimit"] as const) {
+    const raw = body[key];
+    if (raw === undefined) continue;
+    if (raw === null) {
+      fields[key] = key === "minOrderValue" ? 0 : undefined;
+      continue;
+    }
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) {
+      return { error: `${key} must be a non-negative number` };
+    }
+    fields[key] = n;
+  }
+
+  if (body.validFrom !== undefined) {
+    const d = new Date(body.validFrom);
+    if (isNaN(d.getTime())) return { error: "validFrom is not a valid date" };
+    fields.validFrom = d;
+  }
+  if (body.validUntil !== undefined) {
+    if (body.validUntil === null) {
+      fields.validUntil = undefined;
+    } else {
+      const d = new Date(body.validUntil);
+      if (isNaN(d.getTime())) return { error: "validUntil is not a valid date" };
+      fields.validUntil = d;
+    }
+  }
+
+  if (body.description !== undefined) fields.description = body.description;
+  if (body.isActive !== undefined) fields.isActive = !!body.isActive;
+
+  return { fields };
+}
+
+// List a shop's coupons (seller only)
+router.get("/shops/:shopId/coupons", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { shopId } = req.params;
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const shop = await Shop.findById(shopId);
+    if (!shop) {
+      return res.status(404).json({ message: "Shop not found" });
+    }
+    if (shop.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Not authorized to view coupons for this shop" });
+    }
+
+    const coupons = await Coupon.find({ shopId }).sort({ createdAt: -1 });
+    return res.json({ coupons });
+  } catch (err: any) {
+    console.error("[Get Shop Coupons Error]", err);
+    return res.status(500).json({ message: "Failed to get coupons", error: err.message });
+  }
+});
+
+// Create a shop coupon (seller only)
+router.post("/shops/:shopId/coupons", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { shopId } = req.params;
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const shop = await Shop.findById(shopId);
+    if (!shop) {
+      return res.status(404).json({ message: "Shop not found" });
+    }
+    if (shop.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Not authorized to add coupons to this shop" });
+    }
+
+    const parsed = parseCouponInput(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    const existing = await Coupon.findOne({ code: parsed.fields.code, shopId });
+    if (existing) {
+      return res.status(409).json({ message: "A coupon with this code already exists for your shop" });
+    }
+
+    const coupon = await Coupon.create({ ...parsed.fields, shopId, createdBy: user._id });
+    return res.status(201).json({ message: "Coupon created", coupon });
+  } catch (err: any) {
+    console.error("[Create Coupon Error]", err);
+    return res.status(500).json({ message: "Failed to create coupon", error: err.message });
+  }
+});
+
+// Update a shop coupon (seller only)
+router.put("/coupons/:couponId", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { couponId } = req.params;
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const coupon = await Coupon.findById(couponId);
+    if (!coupon) {
+      return res.status(404).json({ message: "Coupon not found" });
+    }
+
+    // Platform-wide coupons have no shop and cannot be edited by sellers
+    const shop = coupon.shopId ? await Shop.findById(coupon.shopId) : null;
+    if (!shop || shop.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Not authorized to update this coupon" });
+    }
+
+    const parsed = parseCouponInput(req.body, coupon);
+    if ("error" in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    if (parsed.fields.code && parsed.fields.code !== coupon.code) {
+      const clash = await Coupon.findOne({ code: parsed.fields.code, shopId: coupon.shopId });
+      if (clash) {
+        return res.status(409).json({ message: "A coupon with this code already exists for your shop" });
+      }
+    }
+
+    coupon.set(parsed.fields);
+    await coupon.save();
+
+    return res.json({ message: "Coupon updated", coupon });
+  } catch (err: any) {
+    console.error("[Update Coupon Error]", err);
+    return res.status(500).json({ message: "Failed to update coupon", error: err.message });
+  }
+});
+
+// Deactivate a shop coupon (seller only). Kept for redemption history rather than deleted.
+router.delete("/coupons/:couponId", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { couponId } = req.params;
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const coupon = await Coupon.findById(couponId);
+    if (!coupon) {
+      return res.status(404).json({ message: "Coupon not found" });
+    }
+
+    const shop = coupon.shopId ? await Shop.findById(coupon.shopId) : null;
+    if (!shop || shop.sellerId.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Not authorized to delete this coupon" });
+    }
+
+    coupon.isActive = false;
+    await coupon.save();
+
+    return res.json({ message: "Coupon deactivated", coupon });
+  } catch (err: any) {
+    console.error("[Delete Coupon Error]", err);
+    return res.status(500).json({ message: "Failed to delete coupon", error: err.message });
+  }
+});
+
+// Check a promo code against the customer's cart (used by checkout before applying it)
+router.post("/coupons/validate", authenticate, async (req: Request, res: Response) => {
+  try {
+    const { code, shopId, items } = req.body;
+    if (!code || !shopId || !items || !items.length) {
+      return res.status(400).json({ message: "code, shopId and items are required" });
     }
 
-    if (order.paymentStatus === "paid") {
-      return res.status(400).json({ message: "Order is already paid" });
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
     }
 
-    const customerPhone = order.deliveryAddress?.phone || (user as any)?.phone || "";
-    const { redirectUrl, merchantTransactionId } = await createPhonePePaymentForOrder(order, customerPhone);
+    const lineItems = await resolveOrderItems(user._id, shopId, items);
+    const subtotal = lineItems.reduce((sum, item) => sum + item.lineTotal, 0);
+
+    const result = await findApplicableCoupon(code, user._id, shopId, subtotal);
+    if (!result.ok) {
+      return res.status(400).json({ valid: false, message: result.message });
+    }
 
     return res.json({
-      message: "PhonePe payment initiated",
-      redirectUrl,
-      transactionId: merchantTransactionId,
+      valid: true,
+      discount: result.amount,
+      coupon: {
+        code: result.coupon.code,
+        description: result.label,
+        discountType: result.coupon.discountType,
+        value: result.coupon.value,
+        minOrderValue: result.coupon.minOrderValue,
+        maxDiscount: result.coupon.maxDiscount,
+        validUntil: result.coupon.validUntil,
+        scope: result.coupon.shopId ? "shop" : "platform",
+      },
     });
   } catch (err: any) {
-    console.error("[PhonePe Initiate Error]", err);
-    return res.status(500).json({ message: err.message || "Failed to initiate PhonePe payment" });
+    if (err instanceof PricingError) {
+      return res.status(err.status).json({ valid: false, message: err.message });
+    }
+    console.error("[Validate Coupon Error]", err);
+    return res.status(500).json({ message: "Failed to validate coupon", error: err.message });
   }
 });
 
-// PhonePe callback (configured in PhonePe dashboard)
-router.post("/payments/phonepe/callback", async (req: Request, res: Response) => {
+// =============================================================================
+// SELLER PAYOUTS
+// =============================================================================
+
+// Seller ledger: balance summary and entries, newest first (`before` is the createdAt cursor)
+router.get("/seller/ledger", authenticate, async (req: Request, res: Response) => {
   try {
-    const xVerify = (req.headers["x-verify"] || req.headers["x-VERIFY"] || req.headers["X-VERIFY"]) as string | undefined;
-    await handlePhonePeCallback(req.body, xVerify);
-    return res.json({ success: true });
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    const filter: Record<string, any> = { sellerId: user._id };
+    if (typeof req.query.before === "string" && !isNaN(Date.parse(req.query.before))) {
+      filter.createdAt = { $lt: new Date(req.query.before) };
+    }
+    if (typeof req.query.payoutId === "string" && mongoose.isValidObjectId(req.query.payoutId)) {
+      filter.payoutId = req.query.payoutId;
+    }
+
+    const [summary, entries] = await Promise.all([
+      getLedgerSummary(user._id),
+      SellerLedgerEntry.find(filter).sort({ createdAt: -1 }).limit(limit),
+    ]);
+
+    return res.json({ summary, entries, hasMore: entries.length === limit });
+  } catch (err: any) {
+    console.error("[Seller Ledger Error]", err);
+    return res.status(500).json({ message: "Failed to get ledger", error: err.message });
+  }
+});
+
+// Seller payouts with the same balance summary as the ledger
+router.get("/seller/payouts", authenticate, async (req: Request, res: Response) => {
+  try {
+    const firebaseUser = (req as any).user;
+    const user = await User.findOne({ uid: firebaseUser.uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const [summary, payouts] = await Promise.all([
+      getLedgerSummary(user._id),
+      Payout.find({ sellerId: user._id }).sort({ createdAt: -1 }).limit(100),
+    ]);
+
+    return res.json({ summary, payouts });
+  } catch (err: any) {
+    console.error("[Seller Payouts Error]", err);
+    return res.status(500).json({ message: "Failed to get payouts", error: err.message });
+  }
+});
+
+// Payout settlement webhook (finance tooling). Body: { payoutId, status: "paid", reference } or
+// { payoutId, status: "failed", reason }, signed in x-payout-signature over the raw body.
+router.post("/payouts/settlement", async (req: Request, res: Response) => {
+  try {
+    const rawBody = (req as any).rawBody ?? JSON.stringify(req.body);
+    if (!verifySettlementSignature(rawBody, req.headers["x-payout-signature"])) {
+      return res.status(401).json({ message: "Invalid signature" });
+    }
+
+    const { payoutId, status, reference, reason } = req.body;
+    if (!mongoose.isValidObjectId(payoutId)) {
+      return res.status(400).json({ message: "payoutId is required" });
+    }
+    let result: Parameters<typeof settlePayout>[1];
+    if (status === "paid" && typeof reference === "string" && reference.trim()) {
+      result = { status: "paid", reference: reference.trim() };
+    } else if (status === "failed" && typeof reason === "string" && reason.trim()) {
+      result = { status: "failed", reason: reason.trim() };
+    } else {
+      return res.status(400).json({ message: "Send status paid with a reference, or failed with a reason" });
+    }
+
+    const payout = await settlePayout(payoutId, result);
+    if (!payout) {
+      return res.status(404).json({ message: "Payout not found" });
+    }
+    return res.json({ success: true, payout });
+  } catch (err: any) {
+    console.error("[Payout Settlement Error]", err);
+    return res.status(500).json({ message: "Failed to settle payout", error: err.message });
+  }
+});
+
+// =============================================================================
+// SPONSORED ADS
+// =============================================================================
+
+/** The requesting seller's shop, or an error response already sent */
+async function findSellerShop(req: Request, res: Response) {
+  const firebaseUser = (req as any).user;
+  const user = await User.findOne({ uid: firebaseUser.uid });
+  if (!user) {
+    res.status(404).json({ message: "User not found" });
+    return null;
+  }
+  const shop = await Shop.findOne({ sellerId: user._id });
+  if (!shop) {
+    res.status(404).json({ message: "Shop not found" });
+    return null;
+  }
+  return { user, shop };
+}
+
+/** One of the seller's campaigns, or an error response already sent */
+async function findSellerAd(req: Request, res: Response) {
+  const seller = await findSellerShop(req, res);
+  if (!seller) return null;
+  const ad = mongoose.isValidObjectId(req.params.adId) ? await ShopAd.findById(req.params.adId) : null;
+  if (!ad || ad.shopId.toString() !== seller.shop._id.toString()) {
+    res.status(404).json({ message: "Campaign not found" });
+    return null;
+  }
+  return ad;
+}
+
+// Who saw or tapped an ad, for de-duplication: the signed-in user, else the caller's IP.
+// Never anything from the request body, which a caller could vary to be charged for again.
+function adViewerKey(req: Request): string {
+  const uid = (req as any).user?.uid;
+  return uid ? `user:${uid}` : `ip:${req.ip}`;
+}
+
+// A Home screen shows a handful of ads; well above that from one IP is someone scripting events
+const adEventRateLimit = rateLimit({ windowMs: 60 * 1000, max: 60 });
+
+// List the seller's campaigns with their metrics, newest first
+router.get("/seller/ads", authenticate, async (req: Request, res: Response) => {
+  try {
+    const seller = await findSellerShop(req, res);
+    if (!seller) return;
+
+    const ads = await ShopAd.find({ shopId: seller.shop._id }).sort({ createdAt: -1 }).limit(100);
+    const now = new Date();
+    return res.json({ ads: ads.map((ad) => adSummary(ad, now)) });
+  } catch (err: any) {
+    console.error("[Get Seller Ads Error]", err);
+    return res.status(500).json({ message: "Failed to get campaigns", error: err.message });
+  }
+});
+
+// Create a campaign. The banner is an image URL, or `bannerImageBase64` to upload one.
+router.post("/seller/ads", authenticate, async (req: Request, res: Response) => {
+  try {
+    const seller = await findSellerShop(req, res);
+    if (!seller) return;
+
+    const { bannerImageBase64, ...input } = req.body ?? {};
+    if (typeof bannerImageBase64 === "string" && bannerImageBase64) {
+      const uploadResult = await cloudinary.uploader.upload(`data:image/jpeg;base64,${bannerImageBase64}`, {
+        folder: "shop-ads",
+        public_id: `ad_${seller.shop._id}_${Date.now()}`,
+        overwrite: false,
+        transformation: [{ width: 1200, height: 628, crop: "fill", gravity: "center" }],
+      });
+      input.bannerImage = uploadResult.secure_url;
+    }
+
+    const ad = await createShopAd(seller.shop._id, input);
+    return res.status(201).json({ message: "Campaign created", ad: adSummary(ad) });
+  } catch (err: any) {
+    if (err instanceof AdError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Create Ad Error]", err);
+    return res.status(500).json({ message: "Failed to create campaign", error: err.message });
+  }
+});
+
+// Pause a campaign (seller only)
+router.post("/seller/ads/:adId/pause", authenticate, async (req: Request, res: Response) => {
+  try {
+    const ad = await findSellerAd(req, res);
+    if (!ad) return;
+
+    await setAdActive(ad, false);
+    return res.json({ message: "Campaign paused", ad: adSummary(ad) });
+  } catch (err: any) {
+    console.error("[Pause Ad Error]", err);
+    return res.status(500).json({ message: "Failed to pause campaign", error: err.message });
+  }
+});
+
+// Resume a paused campaign (seller only)
+router.post("/seller/ads/:adId/resume", authenticate, async (req: Request, res: Response) => {
+  try {
+    const ad = await findSellerAd(req, res);
+    if (!ad) return;
+
+    await setAdActive(ad, true);
+    return res.json({ message: "Campaign resumed", ad: adSummary(ad) });
+  } catch (err: any) {
+    if (err instanceof AdError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Resume Ad Error]", err);
+    return res.status(500).json({ message: "Failed to resume campaign", error: err.message });
+  }
+});
+
+// Campaign performance: totals and a per-day breakdown (`days`, default 30)
+router.get("/seller/ads/:adId/performance", authenticate, async (req: Request, res: Response) => {
+  try {
+    const ad = await findSellerAd(req, res);
+    if (!ad) return;
+
+    const performance = await getAdPerformance(ad, Number(req.query.days) || 30);
+    return res.json(performance);
+  } catch (err: any) {
+    console.error("[Ad Performance Error]", err);
+    return res.status(500).json({ message: "Failed to get campaign performance", error: err.message });
+  }
+});
+
+// Ads to show on Home (no categoryId) or a category's shop list (public)
+router.get("/ads", async (req: Request, res: Response) => {
+  try {
+    const categoryId = typeof req.query.categoryId === "string" ? req.query.categoryId : undefined;
+    const ads = await serveAds({ categoryId, limit: Number(req.query.limit) || undefined });
+    return res.json({ ads });
+  } catch (err: any) {
+    if (err instanceof AdError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Serve Ads Error]", err);
+    return res.status(500).json({ message: "Failed to get ads", error: err.message });
+  }
+});
+
+// Record that an ad was shown or tapped (public). Repeats within a short window aren't counted again.
+router.post("/ads/:adId/:event(impression|click)", adEventRateLimit, optionalAuthenticate, async (req: Request, res: Response) => {
+  try {
+    const placement = req.body?.placement === "category" ? "category" : "home";
+    const counted = await recordAdEvent(
+      req.params.adId,
+      req.params.event as "impression" | "click",
+      adViewerKey(req),
+      placement
+    );
+    return res.json({ counted });
   } catch (err: any) {
-    console.error("[PhonePe Callback Error]", err);
-    return res.status(400).json({ success: false, message: err.message || "Callback verification failed" });
+    if (err instanceof AdError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Ad Event Error]", err);
+    return res.status(500).json({ message: "Failed to record ad event", error: err.message });
+  }
+});
+
+// =============================================================================
+// PAYMENTS
+// =============================================================================
+// One set of routes for every gateway; `:provider` is phonepe, razorpay or
+// fake (only when FAKE_PAYMENTS_ENABLED=true, see fakePayment.service.ts).
+
+// Initiate a payment for an existing order, or for all orders of a multi-shop checkout
+// (a retry with the same Idempotency-Key gets the same attempt back instead of starting another)
+router.post("/payments/:provider/initiate", authenticate, idempotent("initiate_payment"), async (req: Request, res: Response) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    const { orderId, checkoutGroupId } = req.body as { orderId?: string; checkoutGroupId?: string };
+    if (!orderId && !checkoutGroupId) {
+      return res.status(400).json({ message: "orderId or checkoutGroupId is required" });
+    }
+
+    const firebaseUser = (req as any).user;
+    const uid = firebaseUser.uid;
+    const user = await User.findOne({ uid });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    let target: PaymentTarget;
+    let customerPhone: string;
+    if (checkoutGroupId) {
+      const group = await CheckoutGroup.findById(checkoutGroupId);
+      if (!group) {
+        return res.status(404).json({ message: "Checkout not found" });
+      }
+      if (group.customerId.toString() !== user._id.toString()) {
+        return res.status(403).json({ message: "Not authorized to pay for this checkout" });
+      }
+      if (group.paymentStatus === "paid") {
+        return res.status(409).json({ message: "Checkout is already paid" });
+      }
+      if (await Order.exists({ checkoutGroupId: group._id, status: "cancelled" })) {
+        return res.status(409).json({ message: "An order in this checkout was cancelled" });
+      }
+
+      const firstOrder = await Order.findOne({ checkoutGroupId: group._id });
+      target = { group };
+      customerPhone = firstOrder?.deliveryAddress?.phone || (user as any)?.phone || "";
+    } else {
+      const order = await Order.findById(orderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      if (order.customerId.toString() !== user._id.toString()) {
+        return res.status(403).json({ message: "Not authorized to pay for this order" });
+      }
+
+      if (order.paymentStatus === "paid") {
+        return res.status(409).json({ message: "Order is already paid" });
+      }
+
+      if (order.status === "cancelled") {
+        return res.status(409).json({ message: "This order was cancelled" });
+      }
+
+      if (order.checkoutGroupId) {
+        return res.status(400).json({ message: "This order is part of a combined checkout; pay using checkoutGroupId" });
+      }
+
+      target = { order };
+      customerPhone = order.deliveryAddress?.phone || (user as any)?.phone || "";
+    }
+
+    const { transactionId, checkout } = await initiatePayment(provider, target, customerPhone);
+
+    return res.json({
+      message: "Payment initiated",
+      provider: provider.key,
+      transactionId,
+      redirectUrl: checkout.redirectUrl,
+      ...checkout.clientData,
+    });
+  } catch (err: any) {
+    if (err instanceof PaymentError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Payment Initiate Error]", err);
+    return res.status(500).json({ message: err.message || "Failed to initiate payment" });
   }
 });
 
-// Simple status endpoint so mobile app can poll payment status by order
-router.get("/payments/phonepe/status/:orderId", authenticate, async (req: Request, res: Response) => {
+// Gateway webhook (configured in each provider's dashboard). The signature is checked against the raw body.
+async function handleWebhookRequest(req: Request, res: Response) {
   try {
+    const provider = getPaymentProvider(req.params.provider);
+    const rawBody = (req as any).rawBody ?? JSON.stringify(req.body);
+    await handlePaymentWebhook(provider, rawBody, req.headers);
+    return res.json({ success: true });
+  } catch (err: any) {
+    console.error("[Payment Webhook Error]", err);
+    return res.status(err instanceof PaymentError ? err.status : 400).json({
+      success: false,
+      message: err.message || "Webhook verification failed",
+    });
+  }
+}
+router.post("/payments/:provider/webhook", handleWebhookRequest);
+// PhonePe dashboards configured before the generic routes still post here
+router.post("/payments/:provider/callback", handleWebhookRequest);
+
+// Payment status for an order, so the mobile app can poll after returning from the gateway.
+// A pending payment is re-checked with the gateway before answering.
+router.get("/payments/:provider/status/:orderId", authenticate, async (req: Request, res: Response) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
     const { orderId } = req.params;
 
     const firebaseUser = (req as any).user;
@@ -3510,7 +5358,7 @@ router.get("/payments/phonepe/status/:orderId", authenticate, async (req: Reques
       return res.status(404).json({ message: "User not found" });
     }
 
-    const order = await Order.findById(orderId);
+    let order = await Order.findById(orderId);
     if (!order) {
       return res.status(404).json({ message: "Order not found" });
     }
@@ -3521,7 +5369,16 @@ router.get("/payments/phonepe/status/:orderId", authenticate, async (req: Reques
       return res.status(403).json({ message: "Not authorized to view this payment" });
     }
 
-    const payment = await Payment.findOne({ orderId: order._id, provider: "PhonePe" });
+    let payment = await findOrderPayment(order, provider);
+    if (payment?.status === "pending") {
+      try {
+        payment = await refreshPaymentStatus(payment);
+        order = (await Order.findById(orderId)) ?? order;
+      } catch (err) {
+        // Answer with what we have; the gateway may just be slow
+        console.error("[Payment Status Refresh Error]", err);
+      }
+    }
 
     return res.json({
       orderId: order._id.toString(),
@@ -3529,6 +5386,7 @@ router.get("/payments/phonepe/status/:orderId", authenticate, async (req: Reques
       paymentMethod: order.paymentMethod,
       payment: payment
         ? {
+            provider: provider.key,
             status: payment.status,
             amount: payment.amount,
             currency: payment.currency,
@@ -3537,11 +5395,51 @@ router.get("/payments/phonepe/status/:orderId", authenticate, async (req: Reques
         : null,
     });
   } catch (err: any) {
-    console.error("[PhonePe Status Error]", err);
+    if (err instanceof PaymentError) {
+      return res.status(err.status).json({ message: err.message });
+    }
+    console.error("[Payment Status Error]", err);
     return res.status(500).json({ message: err.message || "Failed to fetch payment status" });
   }
 });
 
+// Fake gateway checkout page (development only). Paying here sends a signed webhook through the normal handler.
+// Not registered at all unless the fake gateway is enabled.
+if (isFakePaymentProviderEnabled()) {
+  router.get("/payments/fake/checkout/:transactionId", async (req: Request, res: Response) => {
+    try {
+      const provider = getPaymentProvider("fake");
+      const { transactionId } = req.params;
+      const outcome = req.query.outcome;
+
+      const payment = await Payment.findOne({ paymentIntentId: transactionId, provider: provider.name });
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      if (outcome === "success" || outcome === "failure") {
+        const { rawBody, headers } = simulateFakePayment(transactionId, outcome);
+        const settled = await handlePaymentWebhook(provider, rawBody, headers);
+        return res.json({ message: `Payment ${settled?.status ?? payment.status}`, status: settled?.status ?? payment.status });
+      }
+
+      res.setHeader("Content-Type", "text/html");
+      return res.send(
+        `<!doctype html><html><body style="font-family:sans-serif;text-align:center;padding:40px">` +
+          `<h2>Test payment</h2><p>Amount: &#8377;${payment.amount}</p>` +
+          `<p><a href="?outcome=success">Pay</a> &nbsp; <a href="?outcome=failure">Fail</a></p>` +
+          `</body></html>`
+      );
+    } catch (err: any) {
+      if (err instanceof PaymentError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error("[Fake Checkout Error]", err);
+      return res.status(500).json({ message: err.message || "Fake checkout failed" });
+    }
+  });
+}
+
 // =============================================================================
 // FCM TOKEN MANAGEMENT
 // =============================================================================
@@ -0,0 +1,201 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Product } from "../models/product.model";
+import { CallInvoice } from "../models/callInvoice.model";
+import { Cart, type ICartItem } from "../models/cart.model";
+import { describeVariant, findVariant, isVariantAvailable } from "./variant.service";
+
+export type CartChangeKind = "price_changed" | "quantity_reduced" | "unavailable" | "removed";
+
+/** Something that changed since the customer last saw the cart, shown as a notice in the app */
+export interface CartChange {
+  productId: string;
+  name: string;
+  kind: CartChangeKind;
+  message: string;
+}
+
+export interface CartSnapshot {
+  items: ICartItem[];
+  changes: CartChange[];
+}
+
+/** Lines are unique per product and variant */
+function lineKey(item: Pick<ICartItem, "productId" | "variantId">): string {
+  return item.variantId ? `${item.productId}:${item.variantId}` : item.productId.toString();
+}
+
+/**
+ * Validate cart items sent by the app. Invalid lines are dropped rather than
+ * rejected so an old local cart can still be merged; repeated products keep the last line.
+ */
+export function sanitizeCartItems(input: unknown): ICartItem[] {
+  if (!Array.isArray(input)) return [];
+
+  const byLine = new Map<string, ICartItem>();
+  for (const raw of input as any[]) {
+    const quantity = Number(raw?.quantity);
+    if (!Types.ObjectId.isValid(raw?.productId) || !Types.ObjectId.isValid(raw?.shopId)) continue;
+    if (!Number.isInteger(quantity) || quantity < 1) continue;
+
+    const item: ICartItem = {
+      productId: new Types.ObjectId(String(raw.productId)),
+      variantId: Types.ObjectId.isValid(raw.variantId) ? new Types.ObjectId(String(raw.variantId)) : undefined,
+      variantLabel: raw.variantLabel ? String(raw.variantLabel) : undefined,
+      shopId: new Types.ObjectId(String(raw.shopId)),
+      shopName: String(raw.shopName || ""),
+      name: String(raw.name || ""),
+      price: Number(raw.price) || 0,
+      quantity,
+      image: raw.image ? String(raw.image) : undefined,
+      invoiceExpiresAt: raw.invoiceExpiresAt ? new Date(raw.invoiceExpiresAt) : undefined,
+    };
+    byLine.set(lineKey(item), item);
+  }
+  return [...byLine.values()];
+}
+
+/** Combine a device's cart with the saved one; a line in both keeps the larger quantity */
+export function mergeCartItems(saved: ICartItem[], incoming: ICartItem[]): ICartItem[] {
+  const merged = new Map<string, ICartItem>();
+  for (const item of saved) merged.set(lineKey(item), item);
+  for (const item of incoming) {
+    const existing = merged.get(lineKey(item));
+    merged.set(lineKey(item), existing ? { ...existing, quantity: Math.max(existing.quantity, item.quantity) } : item);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Refresh name, price and image from the catalogue and drop lines that can no
+ * longer be ordered (deleted, unavailable, out of stock, expired call invoices).
+ */
+export async function revalidateCartItems(customerId: Types.ObjectId, items: ICartItem[]): Promise<CartSnapshot> {
+  const ids = items.map((i) => i.productId);
+  const [products, invoices] = await Promise.all([
+    Product.find({ _id: { $in: ids } }),
+    CallInvoice.find({ _id: { $in: ids } }),
+  ]);
+  const shops = await Shop.find({
+    _id: { $in: [...products.map((p) => p.shopId), ...invoices.map((inv) => inv.shopId)] },
+  }).select("name isActive");
+  const productById = new Map(products.map((p) => [p._id.toString(), p]));
+  const invoiceById = new Map(invoices.map((inv) => [inv._id.toString(), inv]));
+  const shopById = new Map(shops.map((s: any) => [s._id.toString(), s]));
+
+  const valid: ICartItem[] = [];
+  const changes: CartChange[] = [];
+  const now = new Date();
+
+  for (const item of items) {
+    const productId = item.productId.toString();
+    const product = productById.get(productId);
+    const invoice = invoiceById.get(productId);
+    const shop = shopById.get((product ?? invoice)?.shopId.toString() ?? "");
+
+    if (!product && !invoice) {
+      changes.push({ productId, name: item.name, kind: "removed", message: `${item.name} is no longer sold` });
+      continue;
+    }
+    if (!shop || shop.isActive === false) {
+      changes.push({ productId, name: item.name, kind: "unavailable", message: `${item.name}'s shop is not taking orders` });
+      continue;
+    }
+
+    if (invoice) {
+      const expired = !invoice.expiresAt || invoice.expiresAt < now;
+      if (invoice.customerId.toString() !== customerId.toString() || expired) {
+        changes.push({ productId, name: item.name, kind: "removed", message: `The call invoice for ${item.name} has expired` });
+        continue;
+      }
+      valid.push({
+        productId: item.productId,
+        shopId: invoice.shopId,
+        shopName: shop.name,
+        name: invoice.itemName,
+        price: invoice.price,
+        quantity: item.quantity,
+        image: invoice.imageUrl || item.image,
+        invoiceExpiresAt: invoice.expiresAt,
+      });
+      continue;
+    }
+
+    const variant = findVariant(product!, item.variantId);
+    const displayName = variant ? `${product!.name} (${describeVariant(variant)})` : product!.name;
+    if (product!.variants.length && !variant) {
+      changes.push({ productId, name: product!.name, kind: "removed", message: `Choose a size or colour for ${product!.name} again` });
+      continue;
+    }
+
+    const stock = variant ? variant.stock : product!.stock;
+    if (!product!.isAvailable || stock === 0 || (variant && !isVariantAvailable(variant))) {
+      changes.push({ productId, name: displayName, kind: "unavailable", message: `${displayName} is out of stock` });
+      continue;
+    }
+
+    let quantity = item.quantity;
+    if (stock != null && quantity > stock) {
+      quantity = stock;
+      changes.push({
+        productId,
+        name: displayName,
+        kind: "quantity_reduced",
+        message: `Only ${quantity} of ${displayName} left, quantity updated`,
+      });
+    }
+
+    const price = variant ? variant.discountPrice ?? variant.price : product!.discountPrice ?? product!.price;
+    if (item.price && price !== item.price) {
+      changes.push({
+        productId,
+        name: displayName,
+        kind: "price_changed",
+        message: `${displayName} is now ₹${price} (was ₹${item.price})`,
+      });
+    }
+
+    valid.push({
+      productId: product!._id as Types.ObjectId,
+      variantId: variant?._id,
+      variantLabel: variant ? describeVariant(variant) : undefined,
+      shopId: product!.shopId,
+      shopName: shop.name,
+      name: product!.name,
+      price,
+      quantity,
+      image: variant?.images?.[0] || product!.images?.[0] || item.image,
+    });
+  }
+
+  return { items: valid, changes };
+}
+
+/** Load the saved cart with fresh prices; the refreshed lines are written back */
+export async function loadCart(customerId: Types.ObjectId): Promise<CartSnapshot> {
+  const cart = await Cart.findOne({ userId: customerId });
+  if (!cart || cart.items.length === 0) return { items: [], changes: [] };
+
+  const snapshot = await revalidateCartItems(customerId, cart.toObject().items);
+  cart.items = snapshot.items;
+  await cart.save();
+  return snapshot;
+}
+
+/** Replace the saved cart with `items` (after revalidating them) */
+export async function saveCart(customerId: Types.ObjectId, items: ICartItem[]): Promise<CartSnapshot> {
+  const snapshot = await revalidateCartItems(customerId, items);
+  await Cart.findOneAndUpdate(
+    { userId: customerId },
+    { $set: { items: snapshot.items } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  return snapshot;
+}
+
+/** Fold a device's local cart into the saved one, e.g. right after login */
+export async function mergeCart(customerId: Types.ObjectId, incoming: ICartItem[]): Promise<CartSnapshot> {
+  const cart = await Cart.findOne({ userId: customerId });
+  return saveCart(customerId, mergeCartItems(cart?.toObject().items ?? [], incoming));
+}
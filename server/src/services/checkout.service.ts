@@ -0,0 +1,273 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Order, type IOrder, type FulfilmentType } from "../models/order.model";
+import { CheckoutGroup, type ICheckoutGroup } from "../models/checkoutGroup.model";
+import { buildCheckoutQuote, type CheckoutShopInput, type QuoteOptions } from "./pricing.service";
+import { reserveCouponUse, releaseCouponUse, recordCouponRedemption } from "./coupon.service";
+import { creditWallet, debitWallet } from "./wallet.service";
+import { reserveOrderStock, releaseOrderStock, InventoryError } from "./inventory.service";
+import { issueInvoicesFor } from "./invoice.service";
+import { deliveryDestinationFrom } from "./delivery.service";
+import { parsePickupSlot, generatePickupCode, PickupError, type PickupSlot } from "./pickup.service";
+import {
+  deliverySlotSettingsOf,
+  resolveDeliverySlot,
+  reserveDeliverySlots,
+  releaseDeliverySlot,
+  DeliverySlotError,
+  type ResolvedDeliverySlot,
+} from "./deliverySlot.service";
+
+/** Thrown when orders cannot be placed; `status` is the HTTP status to respond with */
+export class CheckoutError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "CheckoutError";
+    this.status = status;
+  }
+}
+
+export interface CheckoutCustomer {
+  _id: Types.ObjectId;
+  phone?: string | null;
+}
+
+export interface DeliveryAddressInput {
+  label?: string;
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+  phone?: string;
+  /** Pin for the address; needed by shops that deliver within a radius */
+  geoLocation?: { lat: number; lng: number } | null;
+}
+
+export interface PlaceOrdersInput extends QuoteOptions {
+  shops: CheckoutShopInput[];
+  fulfilmentType?: FulfilmentType;
+  /** Required for delivery orders */
+  deliveryAddress?: DeliveryAddressInput;
+  /** Free-form schedule, only for shops that haven't set up delivery slots */
+  deliverySchedule?: { date?: string; timeSlot?: string };
+  /** Chosen delivery slot ({ date, slotId }) per shop id, for shops with delivery slots */
+  deliverySlots?: Record<string, { date?: string; slotId?: string }>;
+  /** Chosen pickup slot ({ date, start }) per shop id, for pickup orders */
+  pickupSlots?: Record<string, { date?: string; start?: string }>;
+  paymentMethod?: IOrder["paymentMethod"];
+  notes?: string;
+}
+
+export interface PlacedCheckout {
+  orders: IOrder[];
+  /** Only set when the checkout spanned more than one shop */
+  checkoutGroup: ICheckoutGroup | null;
+}
+
+/**
+ * Accept both the single-shop body ({ shopId, items }) and the multi-shop one
+ * ({ shops: [{ shopId, items }] }) used by POST /orders and POST /orders/quote.
+ */
+export function normalizeCheckoutShops(body: any): CheckoutShopInput[] {
+  if (Array.isArray(body?.shops) && body.shops.length) {
+    return body.shops.map((s: any) => ({ shopId: String(s.shopId), items: s.items || [] }));
+  }
+  if (body?.shopId && Array.isArray(body.items) && body.items.length) {
+    return [{ shopId: String(body.shopId), items: body.items }];
+  }
+  return [];
+}
+
+/**
+ * Price and create one order per shop. Coupon uses, stock and wallet debits are
+ * taken before the orders are saved and given back if anything fails part-way.
+ */
+export async function placeOrders(customer: CheckoutCustomer, input: PlaceOrdersInput): Promise<PlacedCheckout> {
+  const shops = await Shop.find({ _id: { $in: input.shops.map((s) => s.shopId) } });
+  const shopById = new Map(shops.map((s: any) => [s._id.toString(), s]));
+  for (const { shopId } of input.shops) {
+    if (!shopById.has(shopId)) {
+      throw new CheckoutError(404, "Shop not found");
+    }
+  }
+
+  const isPickup = input.fulfilmentType === "pickup";
+  const address = input.deliveryAddress;
+  if (!isPickup && !address?.line1) {
+    throw new CheckoutError(400, "Delivery address line1 is required");
+  }
+
+  // Pickup slots are checked up front so a stale choice fails before anything is reserved
+  const pickupSlotByShop = new Map<string, PickupSlot>();
+  if (isPickup) {
+    for (const { shopId } of input.shops) {
+      try {
+        pickupSlotByShop.set(shopId, parsePickupSlot(shopById.get(shopId), input.pickupSlots?.[shopId]));
+      } catch (err) {
+        if (err instanceof PickupError) throw new CheckoutError(err.status, err.message);
+        throw err;
+      }
+    }
+  }
+
+  // Same for delivery slots; shops without slots keep the free-form schedule
+  const deliverySlotByShop = new Map<string, ResolvedDeliverySlot>();
+  if (!isPickup) {
+    for (const { shopId } of input.shops) {
+      const shop = shopById.get(shopId);
+      if (!deliverySlotSettingsOf(shop).enabled) continue;
+      try {
+        deliverySlotByShop.set(shopId, await resolveDeliverySlot(shop, input.deliverySlots?.[shopId]));
+      } catch (err) {
+        if (err instanceof DeliverySlotError) throw new CheckoutError(err.status, err.message);
+        throw err;
+      }
+    }
+  }
+
+  const destination = isPickup ? undefined : deliveryDestinationFrom(address);
+  const quote = await buildCheckoutQuote(customer._id, input.shops, {
+    promoCode: input.promoCode,
+    walletAmount: input.walletAmount,
+    deliveryAddress: destination,
+  });
+
+  const unserviceable = quote.shops.find((q) => q.delivery && !q.delivery.serviceable);
+  if (unserviceable) {
+    const shopName = shopById.get(unserviceable.shopId)?.name || "This shop";
+    throw new CheckoutError(422, `${shopName} doesn't deliver to this address. ${unserviceable.delivery!.reason ?? ""}`.trim());
+  }
+
+  // Fully covered by wallet credit: nothing left to collect
+  const paidByWallet = quote.pricing.payable === 0 && quote.pricing.walletApplied > 0;
+  const paymentMethod = paidByWallet ? "wallet" : input.paymentMethod || "cod";
+  const paymentStatus = paidByWallet ? "paid" : "pending";
+  const checkoutGroupId = quote.shops.length > 1 ? new Types.ObjectId() : undefined;
+
+  const orders = quote.shops.map(({ shopId, lineItems, pricing }) => {
+    const shop = shopById.get(shopId);
+    const pickupSlot = pickupSlotByShop.get(shopId);
+    const deliverySlot = deliverySlotByShop.get(shopId);
+    return new Order({
+      customerId: customer._id,
+      checkoutGroupId,
+      shopId: shop._id,
+      sellerId: shop.sellerId,
+      statusHistory: [{ status: "pending", at: new Date(), actorId: customer._id, actorRole: "customer" }],
+      items: lineItems.map(({ lineTotal, ...item }) => item),
+      totalAmount: pricing.payable,
+      pricing,
+      fulfilmentType: isPickup ? "pickup" : "delivery",
+      deliveryAddress:
+        address && destination
+          ? {
+              label: address.label || "Home",
+              line1: address.line1,
+              line2: address.line2 || "",
+              city: address.city || "",
+              state: address.state || "",
+              pincode: address.pincode || "",
+              phone: address.phone || customer.phone || "",
+              geoLocation: destination.geoLocation ?? undefined,
+            }
+          : undefined,
+      deliverySchedule: isPickup ? undefined : deliverySlot ?? input.deliverySchedule,
+      pickup: pickupSlot ? { slot: pickupSlot, code: generatePickupCode(), failedAttempts: 0 } : undefined,
+      paymentMethod,
+      paymentStatus,
+      notes: input.notes,
+    });
+  });
+
+  // Take a use of the coupon before the orders exist so concurrent checkouts can't exceed its limits
+  const couponOrder = orders.find((o) => o.pricing?.discounts.some((d) => d.couponId));
+  const couponDiscount = couponOrder?.pricing?.discounts.find((d) => d.couponId);
+  if (couponDiscount) {
+    const reservation = await reserveCouponUse(couponDiscount.couponId!, customer._id);
+    if (!reservation.ok) throw new CheckoutError(400, reservation.message);
+  }
+
+  const debited: { orderId: Types.ObjectId; amount: number }[] = [];
+  const saved: IOrder[] = [];
+  let stockReserved = false;
+  const rollback = async () => {
+    if (saved.length) await Order.deleteMany({ _id: { $in: saved.map((o) => o._id) } });
+    if (stockReserved) {
+      for (const order of orders) await releaseOrderStock(order);
+    }
+    for (const order of orders) await releaseDeliverySlot(order);
+    for (const d of debited) {
+      await creditWallet(customer._id, d.amount, "refund", { orderId: d.orderId, note: "Order could not be placed" });
+    }
+    if (couponDiscount) await releaseCouponUse(couponDiscount.couponId!, customer._id);
+  };
+
+  try {
+    try {
+      await reserveOrderStock(orders);
+      stockReserved = true;
+    } catch (err) {
+      if (err instanceof InventoryError) throw new CheckoutError(err.status, err.message);
+      throw err;
+    }
+
+    // The slot may have filled since it was shown; the capacity check and the booking are one update
+    try {
+      await reserveDeliverySlots(orders, shopById);
+    } catch (err) {
+      if (err instanceof DeliverySlotError) throw new CheckoutError(err.status, err.message);
+      throw err;
+    }
+
+    // Debit wallet credit atomically; the balance may have changed since the quote
+    for (const order of orders) {
+      const amount = order.pricing?.walletApplied ?? 0;
+      if (amount <= 0) continue;
+      const debit = await debitWallet(customer._id, amount, "order_payment", { orderId: order._id as Types.ObjectId });
+      if (!debit) {
+        throw new CheckoutError(400, "Insufficient wallet balance. Please review your order total.");
+      }
+      debited.push({ orderId: order._id as Types.ObjectId, amount });
+    }
+
+    for (const order of orders) {
+      await order.save();
+      saved.push(order);
+    }
+  } catch (err) {
+    await rollback();
+    throw err;
+  }
+
+  if (couponOrder && couponDiscount) {
+    await recordCouponRedemption(
+      couponDiscount.couponId!,
+      customer._id,
+      couponOrder._id as Types.ObjectId,
+      couponDiscount.code || "",
+      couponDiscount.amount
+    );
+  }
+
+  let checkoutGroup: ICheckoutGroup | null = null;
+  if (checkoutGroupId) {
+    checkoutGroup = await CheckoutGroup.create({
+      _id: checkoutGroupId,
+      customerId: customer._id,
+      orderIds: orders.map((o) => o._id),
+      pricing: quote.pricing,
+      paymentMethod,
+      paymentStatus,
+    });
+  }
+
+  if (paidByWallet) {
+    issueInvoicesFor(orders);
+  }
+
+  return { orders, checkoutGroup };
+}
@@ -0,0 +1,145 @@
+import { Types } from "mongoose";
+
+import { Coupon, type ICoupon } from "../models/coupon.model";
+import { CouponRedemption } from "../models/couponRedemption.model";
+import { CouponUsage } from "../models/couponUsage.model";
+
+export type CouponLookupResult =
+  | { ok: true; coupon: ICoupon; amount: number; label: string }
+  | { ok: false; message: string };
+
+export type CouponReservation = { ok: true } | { ok: false; message: string };
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Human readable summary, e.g. "10% off (up to ₹100)" or "₹50 off" */
+export function describeCoupon(coupon: ICoupon): string {
+  if (coupon.description) return coupon.description;
+  if (coupon.discountType === "flat") return `₹${coupon.value} off`;
+  return coupon.maxDiscount ? `${coupon.value}% off (up to ₹${coupon.maxDiscount})` : `${coupon.value}% off`;
+}
+
+/** Rupee discount a coupon gives on a subtotal, never more than the subtotal itself */
+export function computeCouponDiscount(coupon: ICoupon, subtotal: number): number {
+  let amount =
+    coupon.discountType === "percent" ? Math.round((subtotal * coupon.value) / 100) : Math.round(coupon.value);
+  if (coupon.maxDiscount != null) amount = Math.min(amount, coupon.maxDiscount);
+  return Math.max(0, Math.min(amount, subtotal));
+}
+
+/**
+ * Find the coupon a customer typed for a cart and check every rule on it.
+ * A shop's own coupon takes precedence over a platform-wide one with the same code.
+ */
+export async function findApplicableCoupon(
+  code: string,
+  userId: Types.ObjectId,
+  shopId: string,
+  subtotal: number
+): Promise<CouponLookupResult> {
+  const normalized = normalizeCouponCode(code);
+  const candidates = await Coupon.find({
+    code: normalized,
+    isActive: true,
+    $or: [{ shopId }, { shopId: null }],
+  });
+  const coupon = candidates.find((c) => c.shopId?.toString() === shopId) ?? candidates[0];
+  if (!coupon) {
+    return { ok: false, message: "Invalid promo code" };
+  }
+
+  const now = new Date();
+  if (coupon.validFrom && coupon.validFrom > now) {
+    return { ok: false, message: "This promo code is not active yet" };
+  }
+  if (coupon.validUntil && coupon.validUntil < now) {
+    return { ok: false, message: "This promo code has expired" };
+  }
+  if (coupon.usageLimit != null && coupon.usedCount >= coupon.usageLimit) {
+    return { ok: false, message: "This promo code has reached its usage limit" };
+  }
+  if (subtotal < coupon.minOrderValue) {
+    return { ok: false, message: `Add items worth ₹${coupon.minOrderValue} or more to use this code` };
+  }
+  if (coupon.perUserLimit != null) {
+    const used = await CouponRedemption.countDocuments({ couponId: coupon._id, userId, status: "applied" });
+    if (used >= coupon.perUserLimit) {
+      return { ok: false, message: "You have already used this promo code" };
+    }
+  }
+
+  return { ok: true, coupon, amount: computeCouponDiscount(coupon, subtotal), label: describeCoupon(coupon) };
+}
+
+/**
+ * Atomically take one use of a coupon for a customer. Fails if the overall or
+ * the per-customer limit was reached between validation and order placement.
+ */
+export async function reserveCouponUse(
+  couponId: Types.ObjectId | string,
+  userId: Types.ObjectId
+): Promise<CouponReservation> {
+  const coupon = await Coupon.findOneAndUpdate(
+    {
+      _id: couponId,
+      $or: [{ usageLimit: null }, { $expr: { $lt: ["$usedCount", "$usageLimit"] } }],
+    },
+    { $inc: { usedCount: 1 } },
+    { new: true }
+  );
+  if (!coupon) {
+    return { ok: false, message: "This promo code has reached its usage limit" };
+  }
+
+  // Customers who used the code before their counter existed start from their redemptions
+  if (!(await CouponUsage.exists({ couponId, userId }))) {
+    const used = await CouponRedemption.countDocuments({ couponId, userId, status: "applied" });
+    try {
+      await CouponUsage.updateOne({ couponId, userId }, { $setOnInsert: { used } }, { upsert: true });
+    } catch (err: any) {
+      if (err?.code !== 11000) throw err;
+    }
+  }
+
+  const perUser = coupon.perUserLimit != null ? { used: { $lt: coupon.perUserLimit } } : {};
+  const taken = await CouponUsage.updateOne({ couponId, userId, ...perUser }, { $inc: { used: 1 } });
+  if (taken.modifiedCount === 0) {
+    await Coupon.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+    return { ok: false, message: "You have already used this promo code" };
+  }
+  return { ok: true };
+}
+
+/** Give back a use taken by reserveCouponUse (e.g. order creation failed) */
+export async function releaseCouponUse(couponId: Types.ObjectId | string, userId: Types.ObjectId): Promise<void> {
+  await Coupon.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+  await CouponUsage.updateOne({ couponId, userId, used: { $gt: 0 } }, { $inc: { used: -1 } });
+}
+
+export async function recordCouponRedemption(
+  couponId: Types.ObjectId | string,
+  userId: Types.ObjectId,
+  orderId: Types.ObjectId,
+  code: string,
+  amount: number
+): Promise<void> {
+  await CouponRedemption.create({ couponId, userId, orderId, code, amount, status: "applied" });
+}
+
+/**
+ * Undo the redemptions of a cancelled order so the customer can use the code
+ * again. Each redemption is flipped atomically, so a use is only given back once.
+ */
+export async function reverseCouponRedemptions(orderId: Types.ObjectId): Promise<void> {
+  const redemptions = await CouponRedemption.find({ orderId, status: "applied" }).select("_id");
+  for (const { _id } of redemptions) {
+    const reversed = await CouponRedemption.findOneAndUpdate(
+      { _id, status: "applied" },
+      { $set: { status: "reversed" } },
+      { new: true }
+    );
+    if (reversed) await releaseCouponUse(reversed.couponId, reversed.userId);
+  }
+}
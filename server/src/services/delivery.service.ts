@@ -0,0 +1,203 @@
+import type { GeoLocation, GeoPoint } from "../models/common";
+import { distanceMeters, fromGeoPoint } from "./geo.service";
+
+/*
+ * Where a shop delivers and what it charges. A shop either delivers anywhere
+ * (the default, so existing shops keep working), to a list of pincodes, or
+ * within a radius of its map pin. The fee is a base amount plus a per-km charge
+ * beyond the first few km, waived once the order value reaches `freeAbove`.
+ * Distances are straight-line from the shop pin to the address pin.
+ */
+
+/** Thrown when a shop's delivery settings are invalid; `status` is the HTTP status to respond with */
+export class DeliveryError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "DeliveryError";
+    this.status = status;
+  }
+}
+
+export type DeliveryZoneType = "anywhere" | "pincodes" | "radius";
+
+export interface DeliverySettings {
+  zoneType: DeliveryZoneType;
+  pincodes: string[];
+  radiusKm: number;
+  baseFee: number;
+  perKmFee: number;
+  /** Kilometres included in the base fee */
+  freeKm: number;
+  /** Order value (before discounts) from which delivery is free; null never waives */
+  freeAbove: number | null;
+}
+
+export const DEFAULT_DELIVERY_SETTINGS: DeliverySettings = {
+  zoneType: "anywhere",
+  pincodes: [],
+  radiusKm: 5,
+  baseFee: 0,
+  perKmFee: 0,
+  freeKm: 0,
+  freeAbove: null,
+};
+
+const MAX_RADIUS_KM = 50;
+const MAX_FEE = 1000;
+const MAX_PINCODES = 500;
+
+/** Where the order is going; the pin is optional but radius zones need it */
+export interface DeliveryDestination {
+  pincode?: string;
+  geoLocation?: GeoLocation | null;
+}
+
+export type DeliveryRejection = "outside_zone" | "pincode_not_served" | "location_required";
+
+export interface DeliveryCheck {
+  serviceable: boolean;
+  /** Why the address can't be served; `location_required` means the address needs a pin */
+  code?: DeliveryRejection;
+  reason?: string;
+  distanceKm?: number;
+  deliveryFee: number;
+}
+
+const normalizePincode = (value: unknown) => String(value ?? "").replace(/\D/g, "");
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** A shop's delivery settings with defaults filled in (older shops have none) */
+export function deliverySettingsOf(shop: any): DeliverySettings {
+  const d = shop?.delivery ?? {};
+  return {
+    zoneType: d.zoneType ?? DEFAULT_DELIVERY_SETTINGS.zoneType,
+    pincodes: Array.isArray(d.pincodes) ? d.pincodes : [],
+    radiusKm: d.radiusKm ?? DEFAULT_DELIVERY_SETTINGS.radiusKm,
+    baseFee: d.baseFee ?? 0,
+    perKmFee: d.perKmFee ?? 0,
+    freeKm: d.freeKm ?? 0,
+    freeAbove: d.freeAbove ?? null,
+  };
+}
+
+function parseAmount(value: unknown, field: string, max: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0 || n > max) {
+    throw new DeliveryError(400, `${field} must be between 0 and ${max}`);
+  }
+  return Math.round(n * 100) / 100;
+}
+
+/** Validate seller input for PUT /shops/:shopId; fields left out keep their current value */
+export function parseDeliverySettings(input: any, current: DeliverySettings, shopHasPin: boolean): DeliverySettings {
+  if (!input || typeof input !== "object") {
+    throw new DeliveryError(400, "delivery must be an object");
+  }
+  const next: DeliverySettings = { ...current };
+
+  if (input.zoneType !== undefined) {
+    if (!["anywhere", "pincodes", "radius"].includes(input.zoneType)) {
+      throw new DeliveryError(400, "zoneType must be anywhere, pincodes or radius");
+    }
+    next.zoneType = input.zoneType;
+  }
+  if (input.pincodes !== undefined) {
+    const list = Array.isArray(input.pincodes) ? input.pincodes : String(input.pincodes).split(/[\s,]+/);
+    const pincodes = [...new Set(list.map(normalizePincode).filter(Boolean))] as string[];
+    if (pincodes.some((p) => p.length !== 6)) {
+      throw new DeliveryError(400, "Pincodes must be 6 digits");
+    }
+    if (pincodes.length > MAX_PINCODES) {
+      throw new DeliveryError(400, `At most ${MAX_PINCODES} pincodes`);
+    }
+    next.pincodes = pincodes;
+  }
+  if (input.radiusKm !== undefined) {
+    const km = Number(input.radiusKm);
+    if (!Number.isFinite(km) || km <= 0 || km > MAX_RADIUS_KM) {
+      throw new DeliveryError(400, `radiusKm must be more than 0 and at most ${MAX_RADIUS_KM}`);
+    }
+    next.radiusKm = round1(km);
+  }
+  if (input.baseFee !== undefined) next.baseFee = parseAmount(input.baseFee, "baseFee", MAX_FEE);
+  if (input.perKmFee !== undefined) next.perKmFee = parseAmount(input.perKmFee, "perKmFee", MAX_FEE);
+  if (input.freeKm !== undefined) next.freeKm = parseAmount(input.freeKm, "freeKm", MAX_RADIUS_KM);
+  if (input.freeAbove !== undefined) {
+    next.freeAbove = input.freeAbove === null || input.freeAbove === "" ? null : parseAmount(input.freeAbove, "freeAbove", 1_000_000);
+  }
+
+  if (next.zoneType === "pincodes" && next.pincodes.length === 0) {
+    throw new DeliveryError(400, "Add at least one pincode to deliver to");
+  }
+  if (next.zoneType === "radius" && !shopHasPin) {
+    throw new DeliveryError(400, "Pin your shop on the map before delivering by distance");
+  }
+  return next;
+}
+
+/** Fee for an order of `subtotal` travelling `distanceKm` (unknown distance pays the base fee) */
+export function deliveryFeeFor(settings: DeliverySettings, subtotal: number, distanceKm?: number): number {
+  if (settings.freeAbove != null && subtotal >= settings.freeAbove) return 0;
+  const extraKm = distanceKm === undefined ? 0 : Math.max(0, Math.ceil(distanceKm - settings.freeKm));
+  return Math.round(settings.baseFee + extraKm * settings.perKmFee);
+}
+
+/** Whether the shop delivers to the destination, and for how much */
+export function checkDelivery(shop: any, destination: DeliveryDestination, subtotal: number): DeliveryCheck {
+  const settings = deliverySettingsOf(shop);
+  const shopPin: GeoPoint | undefined = shop?.location?.coordinates?.length === 2 ? shop.location : undefined;
+  const distanceKm =
+    shopPin && destination.geoLocation
+      ? round1(distanceMeters(fromGeoPoint(shopPin), destination.geoLocation) / 1000)
+      : undefined;
+
+  if (settings.zoneType === "pincodes") {
+    const pincode = normalizePincode(destination.pincode);
+    if (!settings.pincodes.includes(pincode)) {
+      return {
+        serviceable: false,
+        code: "pincode_not_served",
+        reason: pincode ? `Doesn't deliver to pincode ${pincode}` : "Add a pincode to check delivery",
+        distanceKm,
+        deliveryFee: 0,
+      };
+    }
+  }
+
+  // A radius zone on a shop whose pin was later removed can't be checked; let it through
+  if (settings.zoneType === "radius" && shopPin) {
+    if (distanceKm === undefined) {
+      return {
+        serviceable: false,
+        code: "location_required",
+        reason: "Share this address's location so we can check the delivery distance",
+        deliveryFee: 0,
+      };
+    }
+    if (distanceKm > settings.radiusKm) {
+      return {
+        serviceable: false,
+        code: "outside_zone",
+        reason: `Delivers within ${settings.radiusKm} km; this address is ${distanceKm} km away`,
+        distanceKm,
+        deliveryFee: 0,
+      };
+    }
+  }
+
+  return { serviceable: true, distanceKm, deliveryFee: deliveryFeeFor(settings, subtotal, distanceKm) };
+}
+
+/** Destination from request input; ignores a malformed pin rather than failing */
+export function deliveryDestinationFrom(address: any): DeliveryDestination {
+  const pin = address?.geoLocation;
+  const lat = pin?.lat == null ? NaN : Number(pin.lat);
+  const lng = pin?.lng == null ? NaN : Number(pin.lng);
+  const valid = Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+  return {
+    pincode: address?.pincode,
+    geoLocation: valid ? { lat, lng } : null,
+  };
+}
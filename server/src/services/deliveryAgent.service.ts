@@ -0,0 +1,247 @@
+import { randomInt } from "crypto";
+import { Types } from "mongoose";
+
+import User from "../models/user.model";
+import Shop from "../models/shop.model";
+import { DeliveryAgent, type IDeliveryAgent } from "../models/deliveryAgent.model";
+import { Order, type AgentDeliveryStatus, type IOrder, type OrderStatus } from "../models/order.model";
+import { settleCodeAttempt, takeCodeAttempt } from "./handoverCode.service";
+import { createAndSendNotification } from "./notification.service";
+import { emitToUser } from "./socket.service";
+
+/*
+ * Delivery partners. A seller adds partners by phone number and gives a
+ * delivery order to one of them; the partner then marks it picked up (once the
+ * shop has it ready), out for delivery, and delivered. Delivered needs the OTP
+ * the customer sees in their app, which is what moves the order itself to
+ * delivered. While carrying an order the partner's app sends its position over
+ * the socket and it is relayed to the customer and seller.
+ */
+
+/** Thrown for delivery partner requests we can't act on; `status` is the HTTP status to respond with */
+export class DeliveryAgentError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "DeliveryAgentError";
+    this.status = status;
+  }
+}
+
+/** The one step a partner can take from each status */
+const NEXT_STEP: Record<AgentDeliveryStatus, AgentDeliveryStatus | null> = {
+  assigned: "picked_up",
+  picked_up: "out_for_delivery",
+  out_for_delivery: "delivered",
+  delivered: null,
+};
+
+const STEP_LABELS: Record<AgentDeliveryStatus, string> = {
+  assigned: "assigned",
+  picked_up: "picked up",
+  out_for_delivery: "out for delivery",
+  delivered: "delivered",
+};
+
+/** A partner can be lined up as soon as the order is confirmed, but only collects it once it's ready */
+const ASSIGNABLE_ORDER_STATUSES: OrderStatus[] = ["confirmed", "preparing", "ready"];
+/** Steps during which the partner has the order and is sharing their location */
+const CARRYING: AgentDeliveryStatus[] = ["picked_up", "out_for_delivery"];
+const OTP_LIMITS = { maxAttempts: 5, lockMinutes: 15 };
+/** Pings closer together than this are relayed live but not written to the order */
+const LOCATION_SAVE_INTERVAL_MS = 30 * 1000;
+
+export function isAgentDeliveryStatus(value: unknown): value is AgentDeliveryStatus {
+  return typeof value === "string" && value in NEXT_STEP;
+}
+
+/** "98765 43210", "+919876543210" -> "+919876543210", the format User.phone is stored in */
+export function normalizeAgentPhone(value: unknown): string {
+  const digits = String(value ?? "").replace(/\D/g, "");
+  if (digits.length < 10) throw new DeliveryAgentError(400, "Enter the partner's 10-digit phone number");
+  return `+91${digits.slice(-10)}`;
+}
+
+/** Agent records (across shops) that belong to a signed-in partner */
+export async function agentIdsForUser(user: { role?: string | null; phone?: string | null }): Promise<Types.ObjectId[]> {
+  if (user.role !== "agent" || !user.phone) return [];
+  return DeliveryAgent.find({ phone: user.phone }).distinct("_id");
+}
+
+/** Four-digit code the customer reads out at the door */
+export function generateDeliveryOtp(): string {
+  return String(randomInt(0, 10_000)).padStart(4, "0");
+}
+
+/**
+ * Give the order to `agent` (load the order with `+agentDelivery.otp` so a
+ * reassignment keeps the customer's code). Only before it has been picked up.
+ */
+export function assignAgent(order: IOrder, agent: IDeliveryAgent, now = new Date()): void {
+  if (order.fulfilmentType === "pickup") {
+    throw new DeliveryAgentError(400, "Pickup orders are collected at the shop");
+  }
+  if (!agent.isActive) {
+    throw new DeliveryAgentError(400, `${agent.name} is no longer one of your delivery partners`);
+  }
+  if (!ASSIGNABLE_ORDER_STATUSES.includes(order.status)) {
+    throw new DeliveryAgentError(409, `A ${order.status} order can't be given to a delivery partner`);
+  }
+  const current = order.agentDelivery;
+  if (current && current.status !== "assigned") {
+    throw new DeliveryAgentError(409, `${current.name} already has this order (${STEP_LABELS[current.status]})`);
+  }
+
+  order.agentDelivery = {
+    agentId: agent._id as Types.ObjectId,
+    name: agent.name,
+    phone: agent.phone,
+    status: "assigned",
+    assignedAt: now,
+    otp: current?.otp || generateDeliveryOtp(),
+    failedAttempts: 0,
+  };
+}
+
+/**
+ * Move the partner's delivery one step on. Delivering checks the customer's OTP
+ * (load the order with `+agentDelivery.otp`); every try is counted on the stored
+ * order before the code is compared, and wrong codes lead to a short lock. The
+ * caller then moves the order to delivered and saves it.
+ */
+export async function advanceAgentDelivery(
+  order: IOrder,
+  to: AgentDeliveryStatus,
+  otp?: unknown,
+  now = new Date()
+): Promise<void> {
+  const delivery = order.agentDelivery;
+  if (!delivery) {
+    throw new DeliveryAgentError(404, "No delivery partner is assigned to this order");
+  }
+  if (order.status === "cancelled") {
+    throw new DeliveryAgentError(409, "This order was cancelled");
+  }
+  if (NEXT_STEP[delivery.status] !== to) {
+    throw new DeliveryAgentError(
+      409,
+      `This delivery is ${STEP_LABELS[delivery.status]}; it can't be marked ${STEP_LABELS[to]} now`
+    );
+  }
+  if (to === "picked_up" && order.status !== "ready") {
+    throw new DeliveryAgentError(409, "The shop hasn't marked this order ready yet");
+  }
+
+  if (to === "delivered") {
+    const lockedMinutes = await takeCodeAttempt(order._id, "agentDelivery", OTP_LIMITS, now);
+    if (lockedMinutes !== null) {
+      throw new DeliveryAgentError(429, `Too many wrong codes. Try again in ${lockedMinutes} min.`);
+    }
+    const matched = String(otp ?? "").replace(/\D/g, "") === delivery.otp;
+    await settleCodeAttempt(order._id, "agentDelivery", OTP_LIMITS, matched, now);
+    if (!matched) {
+      throw new DeliveryAgentError(400, "That code doesn't match. Ask the customer for the code in their app.");
+    }
+    delivery.failedAttempts = 0;
+    delivery.lockedUntil = undefined;
+  }
+
+  delivery.status = to;
+  if (to === "picked_up") delivery.pickedUpAt = now;
+  if (to === "out_for_delivery") delivery.outForDeliveryAt = now;
+  if (to === "delivered") delivery.deliveredAt = now;
+}
+
+/** The delivery as the seller and partner may see it (no OTP or attempt counters) */
+export function publicAgentDelivery(order: IOrder) {
+  const delivery = order.toObject().agentDelivery;
+  if (!delivery) return undefined;
+  const { otp: _otp, failedAttempts: _attempts, lockedUntil: _locked, ...rest } = delivery;
+  return rest;
+}
+
+const CUSTOMER_MESSAGES: Partial<Record<AgentDeliveryStatus, (agent: string, shop: string) => [string, string]>> = {
+  assigned: (agent, shop) => ["Delivery partner assigned", `${agent} will deliver your order from ${shop}.`],
+  picked_up: (agent, shop) => ["Order picked up", `${agent} has collected your order from ${shop}.`],
+  out_for_delivery: (agent) => [
+    "Out for delivery",
+    `${agent} is on the way. Share the delivery code in your app when they arrive.`,
+  ],
+};
+
+/**
+ * Tell the customer about the delivery's latest step and push it to everyone's
+ * open screens. Delivered is announced by notifyOrderStatusChange instead.
+ */
+export async function notifyAgentDeliveryChange(order: IOrder): Promise<void> {
+  const delivery = order.agentDelivery;
+  if (!delivery) return;
+
+  const orderId = (order._id as Types.ObjectId).toString();
+  const shop = await Shop.findById(order.shopId).select("name");
+  const message = CUSTOMER_MESSAGES[delivery.status];
+  if (message) {
+    const [title, body] = message(delivery.name, shop?.name || "the shop");
+    await createAndSendNotification(order.customerId.toString(), "order", title, body, {
+      orderId,
+      status: delivery.status,
+      type: "order_delivery",
+    });
+  }
+
+  const agentUser = await User.findOne({ phone: delivery.phone, role: "agent" }).select("_id");
+  if (agentUser && delivery.status === "assigned") {
+    await createAndSendNotification(
+      agentUser._id.toString(),
+      "order",
+      "New delivery",
+      `Collect an order from ${shop?.name || "the shop"} for ${order.deliveryAddress?.city || "delivery"}.`,
+      { orderId, type: "agent_assigned" }
+    );
+  }
+
+  const payload = { orderId, agentDelivery: publicAgentDelivery(order) };
+  emitToUser(order.customerId.toString(), "order_delivery_updated", payload);
+  emitToUser(order.sellerId.toString(), "order_delivery_updated", payload);
+  if (agentUser) emitToUser(agentUser._id.toString(), "order_delivery_updated", payload);
+}
+
+/**
+ * A position ping from a partner's app (socket `agent_location`). Only accepted
+ * from the partner carrying the order; relayed to the customer and seller as
+ * `order_location`, and saved on the order every so often for screens opened later.
+ */
+export async function recordAgentLocation(userId: string, input: any, now = new Date()): Promise<void> {
+  const lat = Number(input?.lat);
+  const lng = Number(input?.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new DeliveryAgentError(400, "lat and lng must be valid coordinates");
+  }
+  if (!Types.ObjectId.isValid(String(input?.orderId))) {
+    throw new DeliveryAgentError(400, "orderId is required");
+  }
+
+  const [user, order] = await Promise.all([
+    User.findById(userId).select("role phone"),
+    Order.findById(input.orderId).select("customerId sellerId agentDelivery"),
+  ]);
+  const delivery = order?.agentDelivery;
+  if (!user || !order || !delivery) {
+    throw new DeliveryAgentError(404, "Order not found");
+  }
+  const agentIds = await agentIdsForUser(user);
+  if (!agentIds.some((id) => id.equals(delivery.agentId)) || !CARRYING.includes(delivery.status)) {
+    throw new DeliveryAgentError(403, "You aren't carrying this order");
+  }
+
+  const location = { lat, lng, at: now };
+  const lastSaved = delivery.lastLocation?.at?.getTime() ?? 0;
+  if (now.getTime() - lastSaved >= LOCATION_SAVE_INTERVAL_MS) {
+    await Order.updateOne({ _id: order._id }, { $set: { "agentDelivery.lastLocation": location } });
+  }
+
+  const payload = { orderId: (order._id as Types.ObjectId).toString(), ...location };
+  emitToUser(order.customerId.toString(), "order_location", payload);
+  emitToUser(order.sellerId.toString(), "order_location", payload);
+}
@@ -0,0 +1,282 @@
+import { Types } from "mongoose";
+
+import { DeliverySlotBooking } from "../models/deliverySlotBooking.model";
+import type { IOrder } from "../models/order.model";
+
+/*
+ * Scheduled delivery. A seller sets up slot templates (e.g. 10:00–12:00, up to
+ * 8 orders) that repeat on the days they deliver. Each order that picks a slot
+ * takes one unit of that slot's capacity on that date; the increment only
+ * succeeds while the slot has room, so two checkouts can't both take the last
+ * place. Cancelling an order gives its place back. Times are shop-local (IST).
+ */
+
+/** Thrown when a delivery slot can't be set up or booked; `status` is the HTTP status to respond with */
+export class DeliverySlotError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "DeliverySlotError";
+    this.status = status;
+  }
+}
+
+export interface DeliverySlotTemplate {
+  _id: Types.ObjectId;
+  start: string;
+  end: string;
+  capacity: number;
+}
+
+export interface DeliverySlotSettings {
+  enabled: boolean;
+  days: string[];
+  slots: DeliverySlotTemplate[];
+}
+
+export interface DeliverySlotAvailability {
+  slotId: string;
+  date: string;
+  start: string;
+  end: string;
+  capacity: number;
+  booked: number;
+  remaining: number;
+  /** Has room and is far enough ahead to still be booked */
+  available: boolean;
+}
+
+export interface DeliverySlotDay {
+  date: string;
+  day: string;
+  slots: DeliverySlotAvailability[];
+}
+
+/** What goes on the order's deliverySchedule once a slot is chosen */
+export interface ResolvedDeliverySlot {
+  date: string;
+  timeSlot: string;
+  slotId: Types.ObjectId;
+  start: string;
+  end: string;
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+/** A slot stops taking orders this long before it starts */
+const BOOKING_CUTOFF_MINUTES = 60;
+const MAX_SLOTS = 12;
+const MAX_CAPACITY = 500;
+const DEFAULT_DAYS_AHEAD = 3;
+const MAX_DAYS_AHEAD = 7;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function parseClock(value: unknown): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? "").trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+const formatClock = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/** Shop-local midnight of `date` as a UTC-fielded Date, so getUTCDay() is the local weekday */
+const localMidnight = (date: string) => new Date(`${date}T00:00:00Z`);
+
+function shopToday(now: Date): string {
+  const local = new Date(now.getTime() + IST_OFFSET_MS);
+  return `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`;
+}
+
+function slotStartsAt(date: string, start: string): Date {
+  return new Date(localMidnight(date).getTime() + (parseClock(start) ?? 0) * 60 * 1000 - IST_OFFSET_MS);
+}
+
+/** A shop's slot setup with defaults filled in (older shops have none) */
+export function deliverySlotSettingsOf(shop: any): DeliverySlotSettings {
+  const d = shop?.deliverySlots ?? {};
+  return {
+    enabled: !!d.enabled,
+    days: Array.isArray(d.days) ? d.days : WEEK_DAYS.slice(1).concat("Sun"),
+    slots: Array.isArray(d.slots)
+      ? d.slots.map((s: any) => ({ _id: s._id, start: s.start, end: s.end, capacity: s.capacity }))
+      : [],
+  };
+}
+
+/**
+ * Validate seller input for PUT /shops/:shopId. Slots that come back with
+ * their `_id` keep it, so bookings already made against them still count.
+ */
+export function parseDeliverySlotSettings(input: any, current: DeliverySlotSettings): DeliverySlotSettings {
+  if (!input || typeof input !== "object") {
+    throw new DeliverySlotError(400, "deliverySlots must be an object");
+  }
+  const next: DeliverySlotSettings = { ...current };
+
+  if (input.enabled !== undefined) next.enabled = !!input.enabled;
+  if (input.days !== undefined) {
+    if (!Array.isArray(input.days) || input.days.some((d: unknown) => !WEEK_DAYS.includes(String(d)))) {
+      throw new DeliverySlotError(400, "days must be a list like Mon, Tue, ...");
+    }
+    next.days = WEEK_DAYS.filter((d) => input.days.includes(d));
+  }
+  if (input.slots !== undefined) {
+    if (!Array.isArray(input.slots)) throw new DeliverySlotError(400, "slots must be a list");
+    if (input.slots.length > MAX_SLOTS) throw new DeliverySlotError(400, `At most ${MAX_SLOTS} delivery slots`);
+
+    const existing = new Set(current.slots.map((s) => s._id?.toString()));
+    const slots = input.slots.map((s: any) => {
+      const start = parseClock(s?.start);
+      const end = parseClock(s?.end);
+      if (start === null || end === null) throw new DeliverySlotError(400, "Slot times must be HH:MM");
+      if (end <= start) throw new DeliverySlotError(400, `Slot ${formatClock(start)} must end after it starts`);
+      const capacity = Math.floor(Number(s?.capacity));
+      if (!Number.isFinite(capacity) || capacity < 1 || capacity > MAX_CAPACITY) {
+        throw new DeliverySlotError(400, `Capacity must be between 1 and ${MAX_CAPACITY} orders`);
+      }
+      const id = s?._id && existing.has(String(s._id)) ? new Types.ObjectId(String(s._id)) : new Types.ObjectId();
+      return { _id: id, start: formatClock(start), end: formatClock(end), capacity, startMin: start, endMin: end };
+    });
+
+    slots.sort((a: any, b: any) => a.startMin - b.startMin);
+    for (let i = 1; i < slots.length; i++) {
+      if (slots[i].startMin < slots[i - 1].endMin) {
+        throw new DeliverySlotError(400, `Slots ${slots[i - 1].start} and ${slots[i].start} overlap`);
+      }
+    }
+    next.slots = slots.map(({ startMin, endMin, ...slot }: any) => slot);
+  }
+
+  if (next.enabled && next.slots.length === 0) {
+    throw new DeliverySlotError(400, "Add at least one delivery slot");
+  }
+  if (next.enabled && next.days.length === 0) {
+    throw new DeliverySlotError(400, "Choose at least one delivery day");
+  }
+  return next;
+}
+
+/** Slots on one date with how many places are left; empty when the shop doesn't deliver that day */
+export async function deliverySlotsOn(shop: any, date: string, now = new Date()): Promise<DeliverySlotAvailability[]> {
+  if (!DATE_PATTERN.test(date)) throw new DeliverySlotError(400, "date must be YYYY-MM-DD");
+  const settings = deliverySlotSettingsOf(shop);
+  if (!settings.enabled || !settings.days.includes(WEEK_DAYS[localMidnight(date).getUTCDay()])) return [];
+
+  const bookings = await DeliverySlotBooking.find({ shopId: shop._id, date }).select("slotId booked").lean();
+  const bookedBySlot = new Map(bookings.map((b) => [b.slotId.toString(), b.booked]));
+  const cutoff = now.getTime() + BOOKING_CUTOFF_MINUTES * 60 * 1000;
+
+  return settings.slots
+    .filter((s) => slotStartsAt(date, s.start).getTime() > now.getTime())
+    .map((s) => {
+      const booked = bookedBySlot.get(s._id.toString()) ?? 0;
+      const remaining = Math.max(0, s.capacity - booked);
+      return {
+        slotId: s._id.toString(),
+        date,
+        start: s.start,
+        end: s.end,
+        capacity: s.capacity,
+        booked,
+        remaining,
+        available: remaining > 0 && slotStartsAt(date, s.start).getTime() >= cutoff,
+      };
+    });
+}
+
+/** The next `days` days (today included) that have slots, for the checkout picker */
+export async function upcomingDeliverySlots(shop: any, days = DEFAULT_DAYS_AHEAD, now = new Date()): Promise<DeliverySlotDay[]> {
+  const count = Math.min(Math.max(Math.floor(days) || DEFAULT_DAYS_AHEAD, 1), MAX_DAYS_AHEAD);
+  const today = localMidnight(shopToday(now));
+  const result: DeliverySlotDay[] = [];
+  for (let i = 0; i < count; i++) {
+    const midnight = new Date(today.getTime() + i * DAY_MS);
+    const date = midnight.toISOString().slice(0, 10);
+    const slots = await deliverySlotsOn(shop, date, now);
+    if (slots.length) result.push({ date, day: WEEK_DAYS[midnight.getUTCDay()], slots });
+  }
+  return result;
+}
+
+/** Check the customer's choice ({ date, slotId }) against the shop's current slots */
+export async function resolveDeliverySlot(shop: any, input: any, now = new Date()): Promise<ResolvedDeliverySlot> {
+  if (!input?.date || !input?.slotId) {
+    throw new DeliverySlotError(400, `Choose a delivery slot for ${shop?.name || "each shop"}`);
+  }
+  const slots = await deliverySlotsOn(shop, String(input.date), now);
+  const slot = slots.find((s) => s.slotId === String(input.slotId));
+  if (!slot || !slot.available) {
+    throw new DeliverySlotError(
+      409,
+      slot && slot.remaining === 0
+        ? `The ${slot.start}–${slot.end} slot at ${shop?.name || "this shop"} is full. Please choose another.`
+        : `That delivery slot is no longer available at ${shop?.name || "this shop"}. Please choose another.`
+    );
+  }
+  return {
+    date: slot.date,
+    timeSlot: `${slot.start} - ${slot.end}`,
+    slotId: new Types.ObjectId(slot.slotId),
+    start: slot.start,
+    end: slot.end,
+  };
+}
+
+/** Take one place in the order's slot; false when the slot filled up in the meantime */
+async function takeSlot(order: IOrder, capacity: number): Promise<boolean> {
+  const key = { shopId: order.shopId, date: order.deliverySchedule!.date, slotId: order.deliverySchedule!.slotId };
+  try {
+    await DeliverySlotBooking.updateOne(key, { $setOnInsert: { booked: 0 } }, { upsert: true });
+  } catch (err: any) {
+    // Another checkout created the counter first
+    if (err?.code !== 11000) throw err;
+  }
+  const result = await DeliverySlotBooking.updateOne({ ...key, booked: { $lt: capacity } }, { $inc: { booked: 1 } });
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Book the slot of every order that chose one. All-or-nothing: if one slot is
+ * full, the places already taken are given back. `shopById` supplies the
+ * current capacities.
+ */
+export async function reserveDeliverySlots(orders: IOrder[], shopById: Map<string, any>): Promise<void> {
+  const taken: IOrder[] = [];
+  try {
+    for (const order of orders) {
+      const schedule = order.deliverySchedule;
+      if (!schedule?.slotId || schedule.slotReserved) continue;
+      const shop = shopById.get(order.shopId.toString());
+      const template = deliverySlotSettingsOf(shop).slots.find((s) => s._id.toString() === schedule.slotId!.toString());
+      if (!template || !(await takeSlot(order, template.capacity))) {
+        throw new DeliverySlotError(
+          409,
+          `The ${schedule.timeSlot} delivery slot at ${shop?.name || "this shop"} just filled up. Please choose another.`
+        );
+      }
+      schedule.slotReserved = true;
+      taken.push(order);
+    }
+  } catch (err) {
+    for (const order of taken) await releaseDeliverySlot(order);
+    throw err;
+  }
+}
+
+/**
+ * Give back the slot place an order holds (cancellation or failed checkout).
+ * Safe to call more than once; the caller saves the order.
+ */
+export async function releaseDeliverySlot(order: IOrder): Promise<void> {
+  const schedule = order.deliverySchedule;
+  if (!schedule?.slotReserved || !schedule.slotId) return;
+  await DeliverySlotBooking.updateOne(
+    { shopId: order.shopId, date: schedule.date, slotId: schedule.slotId, booked: { $gt: 0 } },
+    { $inc: { booked: -1 } }
+  );
+  schedule.slotReserved = false;
+}
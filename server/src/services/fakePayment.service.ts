@@ -0,0 +1,105 @@
+import crypto from "crypto";
+
+import type { IPayment } from "../models/payment.model";
+import type { IRefund } from "../models/refund.model";
+import type {
+  CreatePaymentInput,
+  CreatedPayment,
+  PaymentProviderAdapter,
+  PaymentStatusUpdate,
+  RefundInput,
+  RefundResult,
+  WebhookHeaders,
+} from "./payment.service";
+
+/*
+ * A gateway that lives in this process, for running the whole payment flow
+ * locally and in staging without network access: initiate returns a checkout
+ * page on this server, paying there signs a webhook exactly like a real
+ * gateway would, and refunds settle immediately. Off unless
+ * FAKE_PAYMENTS_ENABLED=true and FAKE_PAYMENT_SECRET are both set; anyone who
+ * can reach it can mark orders paid, so never enable it in production.
+ */
+
+type FakeOutcome = "success" | "failure";
+
+/** Attempts we've seen, so status polls answer like a gateway would. Forgotten on restart. */
+const fakeTransactions = new Map<string, { amount: number; status: PaymentStatusUpdate["status"]; paymentId?: string }>();
+
+let warnedMissingSecret = false;
+
+export function isFakePaymentProviderEnabled(): boolean {
+  if (process.env.FAKE_PAYMENTS_ENABLED !== "true") return false;
+  if (!process.env.FAKE_PAYMENT_SECRET) {
+    if (!warnedMissingSecret) {
+      console.warn("[Fake Payments] FAKE_PAYMENTS_ENABLED is set but FAKE_PAYMENT_SECRET is not; the fake gateway stays off");
+      warnedMissingSecret = true;
+    }
+    return false;
+  }
+  return true;
+}
+
+function sign(rawBody: string): string {
+  return crypto.createHmac("sha256", process.env.FAKE_PAYMENT_SECRET as string).update(rawBody).digest("hex");
+}
+
+async function createPayment({ transactionId, amount }: CreatePaymentInput): Promise<CreatedPayment> {
+  fakeTransactions.set(transactionId, { amount, status: "pending" });
+  const baseUrl = process.env.API_BASE_URL || `http://localhost:${process.env.PORT || 5000}`;
+  return { redirectUrl: `${baseUrl}/api/payments/fake/checkout/${transactionId}` };
+}
+
+/**
+ * Build the signed webhook the fake gateway would send when the customer
+ * pays (or fails to) on the checkout page.
+ */
+export function simulateFakePayment(transactionId: string, outcome: FakeOutcome): { rawBody: string; headers: WebhookHeaders } {
+  const paymentId = `fakepay_${crypto.randomBytes(8).toString("hex")}`;
+  const status = outcome === "success" ? "succeeded" : "failed";
+  const known = fakeTransactions.get(transactionId);
+  fakeTransactions.set(transactionId, { amount: known?.amount ?? 0, status, paymentId });
+
+  const rawBody = JSON.stringify({ event: "payment.completed", transactionId, paymentId, status });
+  return { rawBody, headers: { "x-fake-signature": sign(rawBody) } };
+}
+
+function parseWebhook(rawBody: string, headers: WebhookHeaders): PaymentStatusUpdate | null {
+  if (!isFakePaymentProviderEnabled()) {
+    throw new Error("Fake payments are disabled");
+  }
+  const signature = headers["x-fake-signature"];
+  if (typeof signature !== "string" || signature !== sign(rawBody)) {
+    throw new Error("Fake payment signature verification failed");
+  }
+
+  const body = JSON.parse(rawBody);
+  return { transactionId: body.transactionId, providerPaymentId: body.paymentId, status: body.status };
+}
+
+async function fetchStatus(payment: IPayment): Promise<PaymentStatusUpdate> {
+  const tx = fakeTransactions.get(payment.paymentIntentId);
+  return {
+    transactionId: payment.paymentIntentId,
+    providerPaymentId: tx?.paymentId,
+    status: tx?.status ?? "pending",
+  };
+}
+
+async function refund({ refundId }: RefundInput): Promise<RefundResult> {
+  return { providerRefundId: `fakerfnd_${refundId}`, status: "succeeded" };
+}
+
+async function fetchRefundStatus(refund: IRefund): Promise<RefundResult> {
+  return { providerRefundId: refund.providerRefundId, status: "succeeded" };
+}
+
+export const fakePaymentProvider: PaymentProviderAdapter = {
+  key: "fake",
+  name: "Fake",
+  createPayment,
+  parseWebhook,
+  fetchStatus,
+  refund,
+  fetchRefundStatus,
+};
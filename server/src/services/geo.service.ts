@@ -0,0 +1,187 @@
+import { PipelineStage } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Market, type IMarket } from "../models/market.model";
+import type { GeoLocation, GeoPoint } from "../models/common";
+
+/*
+ * "Near me" lookups. Shops carry a GeoJSON pin and markets a centre derived from
+ * their geoBoundary, both behind 2dsphere indexes, so nearby results come back
+ * from $geoNear already sorted by distance. Whether a point lies inside a market
+ * is decided from the boundary itself: the polygon when there is one, otherwise
+ * the centre and radius.
+ */
+
+/** Thrown for location input we can't use; `status` is the HTTP status to respond with */
+export class GeoError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "GeoError";
+    this.status = status;
+  }
+}
+
+const DEFAULT_SHOP_RADIUS_KM = 5;
+const DEFAULT_MARKET_RADIUS_KM = 15;
+const MAX_RADIUS_KM = 50;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+/** How far from a market's centre we look when resolving which market a point is in */
+const MARKET_RESOLVE_REACH_METERS = 25_000;
+const EARTH_RADIUS_METERS = 6_371_000;
+
+export function toGeoPoint(loc: GeoLocation): GeoPoint {
+  return { type: "Point", coordinates: [loc.lng, loc.lat] };
+}
+
+export function fromGeoPoint(point: GeoPoint): GeoLocation {
+  return { lat: point.coordinates[1], lng: point.coordinates[0] };
+}
+
+/** Validated {lat, lng} from request input (query strings or a JSON body) */
+export function parseGeoLocation(lat: unknown, lng: unknown): GeoLocation {
+  const latNum = Number(lat);
+  const lngNum = Number(lng);
+  if (lat === undefined || lat === "" || lng === undefined || lng === "" || !Number.isFinite(latNum) || !Number.isFinite(lngNum)) {
+    throw new GeoError(400, "lat and lng are required");
+  }
+  if (latNum < -90 || latNum > 90 || lngNum < -180 || lngNum > 180) {
+    throw new GeoError(400, "lat must be within ±90 and lng within ±180");
+  }
+  return { lat: latNum, lng: lngNum };
+}
+
+function parseRadiusKm(value: unknown, fallback: number): number {
+  if (value === undefined || value === "") return fallback;
+  const km = Number(value);
+  if (!Number.isFinite(km) || km <= 0) throw new GeoError(400, "radiusKm must be a positive number");
+  return Math.min(km, MAX_RADIUS_KM);
+}
+
+function parseLimit(value: unknown): number {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, MAX_LIMIT) : DEFAULT_LIMIT;
+}
+
+/** Great-circle distance in metres */
+export function distanceMeters(a: GeoLocation, b: GeoLocation): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Ray casting; fine at market scale where the earth is flat enough */
+function pointInPolygon(point: GeoLocation, polygon: GeoLocation[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = a.lat > point.lat !== b.lat > point.lat;
+    if (crosses && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Whether the point falls inside the market's boundary (polygon first, then centre + radius) */
+export function marketContains(market: Pick<IMarket, "geoBoundary">, point: GeoLocation): boolean {
+  const boundary = market.geoBoundary;
+  if (!boundary) return false;
+  if (boundary.polygon && boundary.polygon.length >= 3) {
+    return pointInPolygon(point, boundary.polygon);
+  }
+  if (boundary.center && boundary.radiusMeters) {
+    return distanceMeters(boundary.center, point) <= boundary.radiusMeters;
+  }
+  return false;
+}
+
+/** The market a point lies in, or null; the closest centre wins when boundaries overlap */
+export async function resolveMarketAt(point: GeoLocation) {
+  const candidates = await Market.find({
+    isActive: true,
+    location: {
+      $nearSphere: { $geometry: toGeoPoint(point), $maxDistance: MARKET_RESOLVE_REACH_METERS },
+    },
+  })
+    .limit(20)
+    .lean();
+  return candidates.find((m) => marketContains(m, point)) ?? null;
+}
+
+export type NearbyParams = {
+  point: GeoLocation;
+  radiusKm: number;
+  limit: number;
+  category?: string;
+};
+
+/** Reads lat, lng, radiusKm, limit and category from a query string */
+export function parseNearbyParams(query: Record<string, any>, kind: "shops" | "markets"): NearbyParams {
+  const point = parseGeoLocation(query.lat, query.lng);
+  const radiusKm = parseRadiusKm(query.radiusKm, kind === "shops" ? DEFAULT_SHOP_RADIUS_KM : DEFAULT_MARKET_RADIUS_KM);
+  const category = typeof query.category === "string" && query.category.trim() ? query.category.trim() : undefined;
+  return { point, radiusKm, limit: parseLimit(query.limit), category };
+}
+
+const roundKm = (meters: number) => Math.round(meters / 100) / 10;
+
+/** Active shops with a pin within the radius, nearest first */
+export async function findNearbyShops({ point, radiusKm, limit, category }: NearbyParams) {
+  const query: Record<string, any> = { isActive: true };
+  if (category) query.categories = category;
+
+  const pipeline: PipelineStage[] = [
+    {
+      $geoNear: {
+        near: toGeoPoint(point),
+        key: "location",
+        distanceField: "distanceMeters",
+        maxDistance: radiusKm * 1000,
+        spherical: true,
+        query,
+      },
+    },
+    { $limit: limit },
+    { $lookup: { from: "markets", localField: "marketId", foreignField: "_id", as: "market" } },
+    { $unwind: { path: "$market", preserveNullAndEmptyArrays: true } },
+    { $project: { reels: 0, bankDetails: 0 } },
+  ];
+  const shops = await Shop.aggregate(pipeline);
+
+  return shops.map((s: any) => ({
+    ...s,
+    city: s.city || s.market?.city || "",
+    state: s.state || s.market?.state || "",
+    market: s.market ? { _id: s.market._id, name: s.market.name } : null,
+    distanceKm: roundKm(s.distanceMeters),
+  }));
+}
+
+/** Active markets whose centre is within the radius, nearest first, flagging the one the point is inside */
+export async function findNearbyMarkets({ point, radiusKm, limit }: NearbyParams) {
+  const markets = await Market.aggregate([
+    {
+      $geoNear: {
+        near: toGeoPoint(point),
+        key: "location",
+        distanceField: "distanceMeters",
+        maxDistance: radiusKm * 1000,
+        spherical: true,
+        query: { isActive: true },
+      },
+    },
+    { $limit: limit },
+  ]);
+
+  return markets.map((m: any) => ({
+    ...m,
+    distanceKm: roundKm(m.distanceMeters),
+    containsPoint: marketContains(m, point),
+  }));
+}
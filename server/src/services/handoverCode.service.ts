@@ -0,0 +1,75 @@
+import { Types } from "mongoose";
+
+import { Order } from "../models/order.model";
+
+/*
+ * Guess limits for the codes that hand an order over (the pickup code and the
+ * delivery partner's OTP). A guess is counted in the database before the code
+ * is compared, so parallel requests can't get more than the allowed guesses in
+ * before the lock lands.
+ */
+
+/** Where the code's counters live on the order */
+export type HandoverCodePath = "pickup" | "agentDelivery";
+
+export interface HandoverCodeLimits {
+  maxAttempts: number;
+  lockMinutes: number;
+}
+
+/**
+ * Take one guess for the order's code. Returns the minutes left on the lock
+ * when no guesses are left, otherwise null and the guess is counted.
+ */
+export async function takeCodeAttempt(
+  orderId: Types.ObjectId,
+  path: HandoverCodePath,
+  limits: HandoverCodeLimits,
+  now = new Date()
+): Promise<number | null> {
+  const taken = await Order.updateOne(
+    {
+      _id: orderId,
+      [`${path}.failedAttempts`]: { $not: { $gte: limits.maxAttempts } },
+      $or: [{ [`${path}.lockedUntil`]: null }, { [`${path}.lockedUntil`]: { $lte: now } }],
+    },
+    { $inc: { [`${path}.failedAttempts`]: 1 } }
+  );
+  if (taken.modifiedCount > 0) return null;
+
+  // Locked, or the last guess is still being checked and about to lock it
+  const current = await Order.findById(orderId).select(`${path}.lockedUntil`).lean();
+  const lockedUntil: Date | undefined = (current as any)?.[path]?.lockedUntil;
+  return lockedUntil && lockedUntil > now
+    ? Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000)
+    : limits.lockMinutes;
+}
+
+/**
+ * Settle a guess taken with takeCodeAttempt. A right code clears the count; a
+ * wrong one that used up the last guess starts the lock.
+ */
+export async function settleCodeAttempt(
+  orderId: Types.ObjectId,
+  path: HandoverCodePath,
+  limits: HandoverCodeLimits,
+  matched: boolean,
+  now = new Date()
+): Promise<void> {
+  if (matched) {
+    await Order.updateOne(
+      { _id: orderId },
+      { $set: { [`${path}.failedAttempts`]: 0 }, $unset: { [`${path}.lockedUntil`]: 1 } }
+    );
+    return;
+  }
+  await Order.updateOne(
+    { _id: orderId, [`${path}.failedAttempts`]: { $gte: limits.maxAttempts } },
+    {
+      $set: {
+        [`${path}.failedAttempts`]: 0,
+        [`${path}.lockedUntil`]: new Date(now.getTime() + limits.lockMinutes * 60 * 1000),
+      },
+    }
+  );
+}
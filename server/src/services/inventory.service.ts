@@ -0,0 +1,164 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Product, type IProduct } from "../models/product.model";
+import type { IOrder, IOrderItem } from "../models/order.model";
+import { createAndSendNotification } from "./notification.service";
+import { describeVariant, findVariant } from "./variant.service";
+
+/** Thrown when an order asks for more than is in stock; `status` is the HTTP status to respond with */
+export class InventoryError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "InventoryError";
+    this.status = status;
+  }
+}
+
+async function notifySeller(product: IProduct, title: string, body: string, type: string) {
+  const shop = await Shop.findById(product.shopId).select("sellerId");
+  if (!shop) return;
+  await createAndSendNotification(shop.sellerId.toString(), "system", title, body, {
+    productId: (product._id as Types.ObjectId).toString(),
+    type,
+  });
+}
+
+/**
+ * Hide a product that just sold out and warn the seller when it crosses its
+ * low-stock level. For variant products the warning is per variant.
+ */
+async function afterStockTaken(product: IProduct, item: IOrderItem) {
+  const stock = product.stock ?? 0;
+  if (product.stock != null && stock <= 0) {
+    await Product.updateOne(
+      { _id: product._id, stock: { $lte: 0 }, isAvailable: true },
+      { $set: { isAvailable: false, soldOutAt: new Date() } }
+    );
+    await notifySeller(product, "Out of stock", `${product.name} sold out and is hidden from customers.`, "out_of_stock");
+    return;
+  }
+
+  const variant = findVariant(product, item.variantId);
+  const left = variant ? variant.stock ?? 0 : stock;
+  const name = variant ? `${product.name} (${describeVariant(variant)})` : product.name;
+  if (left + item.quantity > product.lowStockThreshold && left <= product.lowStockThreshold) {
+    await notifySeller(
+      product,
+      "Low stock",
+      left > 0 ? `Only ${left} left of ${name}.` : `${name} is sold out.`,
+      "low_stock"
+    );
+  }
+}
+
+/**
+ * Decrement stock for one order line; null when there isn't enough left.
+ * A variant line takes from the variant, then from the product's total when
+ * the total is tracked (see applyVariantSummary).
+ */
+async function takeStock(item: IOrderItem) {
+  if (!item.variantId) {
+    return Product.findOneAndUpdate(
+      { _id: item.productId, stock: { $gte: item.quantity } },
+      { $inc: { stock: -item.quantity } },
+      { new: true }
+    );
+  }
+  const product = await Product.findOneAndUpdate(
+    { _id: item.productId, variants: { $elemMatch: { _id: item.variantId, stock: { $gte: item.quantity } } } },
+    { $inc: { "variants.$.stock": -item.quantity } },
+    { new: true }
+  );
+  if (!product || product.stock == null) return product;
+  const updated = await Product.findOneAndUpdate(
+    { _id: product._id, stock: { $gte: item.quantity } },
+    { $inc: { stock: -item.quantity } },
+    { new: true }
+  );
+  if (!updated) {
+    // The total is short of the variant; give the variant back so both stay in step
+    await Product.updateOne(
+      { _id: product._id, "variants._id": item.variantId },
+      { $inc: { "variants.$.stock": item.quantity } }
+    );
+  }
+  return updated;
+}
+
+type StockLine = Pick<IOrderItem, "productId" | "variantId" | "quantity">;
+
+async function returnStock(item: StockLine) {
+  if (!item.variantId) {
+    return Product.findOneAndUpdate(
+      { _id: item.productId, stock: { $ne: null } },
+      { $inc: { stock: item.quantity } },
+      { new: true }
+    );
+  }
+  const product = await Product.findOneAndUpdate(
+    { _id: item.productId, "variants._id": item.variantId },
+    { $inc: { "variants.$.stock": item.quantity } },
+    { new: true }
+  );
+  if (!product || product.stock == null) return product;
+  return Product.findByIdAndUpdate(product._id, { $inc: { stock: item.quantity } }, { new: true });
+}
+
+/**
+ * Take stock for every line of the given orders. Each decrement only succeeds
+ * while enough stock is left, so concurrent checkouts can't oversell. Lines
+ * for call invoices or products without a stock count are left alone.
+ * All-or-nothing: if one line can't be filled, what was taken is given back.
+ */
+export async function reserveOrderStock(orders: IOrder[]): Promise<void> {
+  const taken: IOrder[] = [];
+  try {
+    for (const order of orders) {
+      taken.push(order);
+      for (const item of order.items) {
+        const product = await takeStock(item);
+        if (!product) {
+          const current = await Product.findById(item.productId).select("name stock variants");
+          const variant = current ? findVariant(current, item.variantId) : undefined;
+          const left = variant ? variant.stock : current?.stock;
+          if (!current || left == null) continue;
+          const name = variant ? `${current.name} (${describeVariant(variant)})` : current.name;
+          throw new InventoryError(409, left > 0 ? `Only ${left} of ${name} left` : `${name} is out of stock`);
+        }
+        item.stockReserved = true;
+        await afterStockTaken(product, item);
+      }
+    }
+  } catch (err) {
+    for (const order of taken) await releaseOrderStock(order);
+    throw err;
+  }
+}
+
+/**
+ * Give back the stock an order holds (cancellation or failed checkout).
+ * Safe to call more than once; the caller saves the order.
+ */
+export async function releaseOrderStock(order: IOrder): Promise<void> {
+  for (const item of order.items) {
+    if (!item.stockReserved) continue;
+    await restockLine(item);
+    item.stockReserved = false;
+  }
+}
+
+async function restockLine(item: StockLine) {
+  const product = await returnStock(item);
+  // Only undo hiding we did ourselves; a seller-hidden product stays hidden
+  if (product?.soldOutAt && (product.stock ?? 0) > 0) {
+    await Product.updateOne({ _id: product._id }, { $set: { isAvailable: true }, $unset: { soldOutAt: 1 } });
+  }
+}
+
+/** Put returned goods back into stock (products without a stock count are left alone) */
+export async function restockReturnedItems(items: StockLine[]): Promise<void> {
+  for (const item of items) await restockLine(item);
+}
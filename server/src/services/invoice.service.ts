@@ -0,0 +1,333 @@
+import { Types } from "mongoose";
+
+import cloudinary from "../config/cloudinary";
+import type { Address, SnapshotUser } from "../models/common";
+import { Invoice, type IInvoice, type SupplyType, type TaxBreakdownItem } from "../models/invoice.model";
+import { InvoiceCounter } from "../models/invoiceCounter.model";
+import type { IOrder, IOrderTaxLine } from "../models/order.model";
+import { SellerProfile } from "../models/sellerProfile.model";
+import Shop from "../models/shop.model";
+import User from "../models/user.model";
+import { renderInvoicePdf } from "./invoicePdf.service";
+
+/** GST state codes; the first two digits of a GSTIN are the seller's state */
+const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
+/** Other spellings customers and sellers type for the same state */
+const STATE_ALIASES: Record<string, string> = {
+  newdelhi: "Delhi",
+  nctofdelhi: "Delhi",
+  orissa: "Odisha",
+  pondicherry: "Puducherry",
+  uttaranchal: "Uttarakhand",
+  jammuandkashmir: "Jammu and Kashmir",
+  damananddiu: "Dadra and Nagar Haveli and Daman and Diu",
+  dadraandnagarhaveli: "Dadra and Nagar Haveli and Daman and Diu",
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z0-9]{13}$/;
+
+function normalizeState(name: string): string {
+  return name.toLowerCase().replace(/&/g, "and").replace(/[^a-z]/g, "");
+}
+
+const STATE_CODE_BY_NAME = new Map(Object.entries(GST_STATE_CODES).map(([code, name]) => [normalizeState(name), code]));
+
+/** GST state code for a state name as typed in an address, if we recognise it */
+function stateCode(name: string | undefined): string | undefined {
+  if (!name) return undefined;
+  const key = normalizeState(name);
+  const alias = STATE_ALIASES[key];
+  return STATE_CODE_BY_NAME.get(alias ? normalizeState(alias) : key);
+}
+
+/**
+ * Intra-state unless we can tell the seller and the delivery address are in
+ * different states. The seller's state comes from their GSTIN when they have
+ * one, otherwise from the shop address.
+ */
+export function supplyTypeFor(sellerGstin: string | undefined, shopState: string | undefined, deliveryState: string): SupplyType {
+  const sellerCode = sellerGstin && GSTIN_PATTERN.test(sellerGstin) ? sellerGstin.slice(0, 2) : stateCode(shopState);
+  const buyerCode = stateCode(deliveryState);
+  return sellerCode && buyerCode && sellerCode !== buyerCode ? "inter_state" : "intra_state";
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Split the order's GST into CGST + SGST (half each) or IGST. Other tax lines are copied as they are. */
+export function splitGst(lines: IOrderTaxLine[], supplyType: SupplyType): TaxBreakdownItem[] {
+  return lines.flatMap((line): TaxBreakdownItem[] => {
+    if (line.name !== "GST") return [{ name: line.name, rate: line.rate, amount: line.amount }];
+    if (supplyType === "inter_state") return [{ name: "IGST", rate: line.rate, amount: line.amount }];
+    const cgst = round2(line.amount / 2);
+    return [
+      { name: "CGST", rate: line.rate / 2, amount: cgst },
+      { name: "SGST", rate: line.rate / 2, amount: round2(line.amount - cgst) },
+    ];
+  });
+}
+
+/** Indian financial year (April to March) a date falls in, e.g. "2026-27" */
+export function financialYearOf(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String(startYear + 1).slice(-2)}`;
+}
+
+/**
+ * Take the seller's next invoice number for the year. Numbers restart every
+ * April and must have no gaps (GST), so only call this once the invoice it's
+ * for is saved and claimed (see numberInvoice).
+ */
+async function nextInvoiceSequence(sellerId: Types.ObjectId, financialYear: string): Promise<number> {
+  const counter = await InvoiceCounter.findOneAndUpdate(
+    { sellerId, financialYear },
+    { $inc: { sequence: 1 } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  return counter.sequence;
+}
+
+/** Drafts hold a placeholder number until numberInvoice gives them the next one */
+const UNNUMBERED = 0;
+/** A claim older than this is from a process that died mid-numbering and can be taken over */
+const NUMBERING_CLAIM_MS = 60 * 1000;
+
+function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `INV/${financialYear}/${String(sequence).padStart(5, "0")}`;
+}
+
+/**
+ * Give a draft invoice its number. The draft is claimed first, so of two
+ * callers only one ever takes a number from the counter. Returns null when
+ * another caller holds the claim.
+ */
+async function numberInvoice(draft: IInvoice): Promise<IInvoice | null> {
+  const orderId = draft.orderId.toString();
+  const claimed = await Invoice.findOneAndUpdate(
+    {
+      _id: draft._id,
+      sequence: UNNUMBERED,
+      $or: [
+        { invoiceNumber: `DRAFT/${orderId}` },
+        { invoiceNumber: `NUMBERING/${orderId}`, updatedAt: { $lt: new Date(Date.now() - NUMBERING_CLAIM_MS) } },
+      ],
+    },
+    { $set: { invoiceNumber: `NUMBERING/${orderId}` } },
+    { new: true }
+  );
+  if (!claimed) return null;
+
+  const sequence = await nextInvoiceSequence(claimed.sellerId, claimed.financialYear);
+  claimed.sequence = sequence;
+  claimed.invoiceNumber = formatInvoiceNumber(claimed.financialYear, sequence);
+  await claimed.save();
+
+  try {
+    claimed.pdfUrl = await uploadInvoicePdf(claimed);
+    await claimed.save();
+  } catch (err) {
+    console.error("[Invoice PDF Upload Error]", err);
+  }
+  return claimed;
+}
+
+/** Wait briefly for another caller to finish numbering the order's invoice */
+async function awaitNumberedInvoice(orderId: Types.ObjectId): Promise<IInvoice> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const invoice = await Invoice.findOne({ orderId });
+    if (invoice && invoice.sequence !== UNNUMBERED) return invoice;
+  }
+  throw new Error("The invoice is still being issued; try again shortly");
+}
+
+/** Orders get an invoice once they are paid or delivered; exchange replacements are never billed */
+export function isInvoiceable(order: IOrder): boolean {
+  if (order.status === "cancelled" || order.replacementFor) return false;
+  return order.status === "delivered" || order.paymentStatus === "paid" || order.paymentStatus === "refunded";
+}
+
+/** AddressSchema needs every field, so only snapshot an address when it is complete */
+function completeAddress(address: Partial<Address>): Address | undefined {
+  const { name, phone, street, city, state, pincode } = address;
+  if (!name || !phone || !street || !city || !state || !pincode) return undefined;
+  return { name, phone, street, city, state, pincode };
+}
+
+async function uploadInvoicePdf(invoice: IInvoice): Promise<string> {
+  const pdf = renderInvoicePdf(invoice);
+  const result = await cloudinary.uploader.upload(`data:application/pdf;base64,${pdf.toString("base64")}`, {
+    folder: "invoices",
+    public_id: `${invoice.sellerId.toString()}_${invoice.financialYear}_${invoice.sequence}.pdf`,
+    resource_type: "raw",
+    overwrite: true,
+  });
+  return result.secure_url;
+}
+
+/**
+ * Return the order's invoice, issuing it first if the order is paid or
+ * delivered and doesn't have one yet. Returns null for orders that can't be
+ * invoiced. The invoice is saved as a draft before it takes a number, so a
+ * concurrent or failed insert never uses one up. A failed PDF upload doesn't
+ * stop the invoice being issued; the PDF can still be rendered on download.
+ */
+export async function ensureOrderInvoice(order: IOrder): Promise<IInvoice | null> {
+  const existing = await Invoice.findOne({ orderId: order._id });
+  if (existing) {
+    if (existing.sequence !== UNNUMBERED) return existing;
+    return (await numberInvoice(existing)) ?? awaitNumberedInvoice(order._id as Types.ObjectId);
+  }
+  if (!isInvoiceable(order)) return null;
+
+  const [shop, sellerProfile, seller, customer] = await Promise.all([
+    Shop.findById(order.shopId),
+    SellerProfile.findOne({ userId: order.sellerId }),
+    User.findById(order.sellerId),
+    User.findById(order.customerId),
+  ]);
+
+  const gstNumber = sellerProfile?.gstNumber?.trim().toUpperCase() || undefined;
+  const sellerName = sellerProfile?.businessName || (shop as any)?.name || seller?.name || "Seller";
+  const sellerPhone = (shop as any)?.businessPhone || seller?.phone || undefined;
+  const sellerDetailsSnapshot: SnapshotUser = {
+    name: sellerName,
+    phone: sellerPhone,
+    email: (shop as any)?.businessEmail || seller?.email || undefined,
+    address: completeAddress({
+      name: sellerName,
+      phone: sellerPhone,
+      street: (shop as any)?.addressLine,
+      city: (shop as any)?.city,
+      state: (shop as any)?.state,
+      pincode: (shop as any)?.pincode,
+    }),
+  };
+
+  // Pickup orders have no address; the goods are supplied at the shop
+  const delivery = order.deliveryAddress;
+  const placeOfSupply = delivery?.state || (shop as any)?.state || "";
+  const customerName = customer?.name || delivery?.label || "Customer";
+  const customerPhone = delivery?.phone || customer?.phone || undefined;
+  const customerDetailsSnapshot: SnapshotUser = {
+    name: customerName,
+    phone: customerPhone,
+    email: customer?.email || undefined,
+    address: delivery
+      ? completeAddress({
+          name: customerName,
+          phone: customerPhone,
+          street: [delivery.line1, delivery.line2].filter(Boolean).join(", "),
+          city: delivery.city,
+          state: delivery.state,
+          pincode: delivery.pincode,
+        })
+      : undefined,
+  };
+
+  const supplyType = supplyTypeFor(gstNumber, (shop as any)?.state, placeOfSupply);
+  const items = order.items.map(({ productId, variantId, variantLabel, sku, name, price, quantity, image }) => ({
+    productId,
+    variantId,
+    variantLabel,
+    sku,
+    name,
+    price,
+    quantity,
+    image,
+  }));
+
+  // Orders placed before server-side pricing only have a total and no tax lines
+  const pricing = order.pricing;
+  const subtotal = pricing?.subtotal ?? items.reduce((sum, i) => sum + i.price * i.quantity, 0);
+  const discountTotal = pricing?.discountTotal ?? 0;
+  const platformFee = pricing?.platformFee ?? 0;
+  const deliveryFee = pricing?.deliveryFee ?? 0;
+
+  const generatedAt = new Date();
+  const financialYear = financialYearOf(generatedAt);
+
+  let draft: IInvoice;
+  try {
+    draft = await Invoice.create({
+      orderId: order._id,
+      sellerId: order.sellerId,
+      customerId: order.customerId,
+      shopId: order.shopId,
+      invoiceNumber: `DRAFT/${(order._id as Types.ObjectId).toString()}`,
+      financialYear,
+      sequence: UNNUMBERED,
+      sellerGstin: gstNumber,
+      placeOfSupply,
+      supplyType,
+      sellerDetailsSnapshot,
+      customerDetailsSnapshot,
+      items,
+      subtotal,
+      discountTotal,
+      platformFee,
+      deliveryFee,
+      taxableAmount: Math.max(0, subtotal - discountTotal + platformFee),
+      taxBreakdown: splitGst(pricing?.taxBreakdown ?? [], supplyType),
+      totalAmount: pricing?.grandTotal ?? order.totalAmount,
+      generatedAt,
+    });
+  } catch (err: any) {
+    // Issued concurrently (e.g. payment callback and delivery at the same moment)
+    if (err?.code === 11000) {
+      const raced = await Invoice.findOne({ orderId: order._id });
+      if (raced) {
+        return raced.sequence !== UNNUMBERED ? raced : awaitNumberedInvoice(order._id as Types.ObjectId);
+      }
+    }
+    throw err;
+  }
+
+  return (await numberInvoice(draft)) ?? awaitNumberedInvoice(order._id as Types.ObjectId);
+}
+
+/** Issue invoices in the background once orders are paid or delivered; failures are logged, not thrown */
+export function issueInvoicesFor(orders: IOrder[]): void {
+  for (const order of orders) {
+    if (!isInvoiceable(order)) continue;
+    ensureOrderInvoice(order).catch((err) => console.error("[Invoice Error]", err));
+  }
+}
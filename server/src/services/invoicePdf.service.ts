@@ -0,0 +1,253 @@
+import type { IInvoice } from "../models/invoice.model";
+import type { SnapshotUser } from "../models/common";
+
+/*
+ * A small single-purpose PDF writer for GST invoices. It only needs text and
+ * rules in the built-in Helvetica fonts, so it avoids pulling in a full PDF
+ * library. Text is written in WinAnsi encoding; characters outside Latin-1
+ * (₹ included) are replaced, so amounts are printed as "Rs.".
+ */
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const BOTTOM_LIMIT = 90;
+
+type Font = "regular" | "bold";
+
+interface TextOptions {
+  size?: number;
+  font?: Font;
+  align?: "left" | "right";
+}
+
+/** Helvetica advance widths (per 1000 units) for the characters we print most; everything else uses 556 */
+const NARROW_CHARS: Record<string, number> = {
+  " ": 278, ".": 278, ",": 278, ":": 278, "/": 278, "-": 333, "(": 333, ")": 333,
+  i: 222, l: 222, j: 222, f: 278, t: 278, r: 333, I: 278, "%": 889, m: 833, w: 722, M: 833, W: 944,
+};
+
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const ch of text) units += NARROW_CHARS[ch] ?? 556;
+  return (units * size) / 1000;
+}
+
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+/** Trim text with an ellipsis so it fits in `maxWidth` */
+function fitText(text: string, size: number, maxWidth: number): string {
+  if (textWidth(text, size) <= maxWidth) return text;
+  let out = text;
+  while (out.length > 1 && textWidth(out + "...", size) > maxWidth) out = out.slice(0, -1);
+  return out + "...";
+}
+
+class PdfCanvas {
+  pages: string[][] = [[]];
+  y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, text: string, { size = 10, font = "regular", align = "left" }: TextOptions = {}) {
+    const left = align === "right" ? x - textWidth(text, size) : x;
+    const fontRef = font === "bold" ? "F2" : "F1";
+    this.ops.push(`BT /${fontRef} ${size} Tf ${left.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.ops.push(`${width} w ${x1} ${y1.toFixed(2)} m ${x2} ${y2.toFixed(2)} l S`);
+  }
+
+  /** Start a new page when fewer than `needed` points are left above the footer; returns true if it did */
+  ensureSpace(needed: number): boolean {
+    if (this.y - needed >= BOTTOM_LIMIT) return false;
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    return true;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    add(""); // pages tree, filled in once the page object numbers are known
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const pageRefs: string[] = [];
+    for (const ops of this.pages) {
+      const content = ops.join("\n");
+      add(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+      const contentRef = objects.length;
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+      );
+      pageRefs.push(`${objects.length} 0 R`);
+    }
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`;
+
+    let pdf = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(pdf, "latin1"));
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = Buffer.byteLength(pdf, "latin1");
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(pdf, "latin1");
+  }
+}
+
+function formatMoney(amount: number): string {
+  return `Rs. ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "Asia/Kolkata" });
+}
+
+function partyLines(party: SnapshotUser): string[] {
+  const lines: string[] = [];
+  const address = party.address;
+  if (address) {
+    if (address.street) lines.push(address.street);
+    lines.push([address.city, address.state, address.pincode].filter(Boolean).join(", "));
+  }
+  if (party.phone) lines.push(`Phone: ${party.phone}`);
+  if (party.email) lines.push(party.email);
+  return lines.filter(Boolean);
+}
+
+/** Render an invoice as a PDF document */
+export function renderInvoicePdf(invoice: IInvoice): Buffer {
+  const pdf = new PdfCanvas();
+  const right = PAGE_WIDTH - MARGIN;
+  const seller = invoice.sellerDetailsSnapshot;
+  const customer = invoice.customerDetailsSnapshot;
+
+  // Header
+  pdf.text(MARGIN, pdf.y, "TAX INVOICE", { size: 18, font: "bold" });
+  pdf.text(right, pdf.y, invoice.invoiceNumber, { size: 11, font: "bold", align: "right" });
+  pdf.y -= 16;
+  pdf.text(right, pdf.y, `Date: ${formatDate(invoice.generatedAt)}`, { size: 9, align: "right" });
+  pdf.y -= 12;
+  pdf.text(right, pdf.y, `Order: ${invoice.orderId.toString()}`, { size: 9, align: "right" });
+  pdf.y -= 20;
+  pdf.line(MARGIN, pdf.y, right, pdf.y, 1);
+  pdf.y -= 20;
+
+  // Seller and buyer blocks side by side
+  const colX = PAGE_WIDTH / 2 + 10;
+  const blockTop = pdf.y;
+  pdf.text(MARGIN, pdf.y, "Sold by", { size: 8, font: "bold" });
+  pdf.y -= 14;
+  pdf.text(MARGIN, pdf.y, fitText(seller.name || "", 11, colX - MARGIN - 20), { size: 11, font: "bold" });
+  for (const line of partyLines(seller)) {
+    pdf.y -= 12;
+    pdf.text(MARGIN, pdf.y, fitText(line, 9, colX - MARGIN - 20), { size: 9 });
+  }
+  pdf.y -= 12;
+  pdf.text(MARGIN, pdf.y, `GSTIN: ${invoice.sellerGstin || "Unregistered"}`, { size: 9, font: "bold" });
+  const sellerBottom = pdf.y;
+
+  pdf.y = blockTop;
+  pdf.text(colX, pdf.y, "Bill to / Ship to", { size: 8, font: "bold" });
+  pdf.y -= 14;
+  pdf.text(colX, pdf.y, fitText(customer.name || "Customer", 11, right - colX), { size: 11, font: "bold" });
+  for (const line of partyLines(customer)) {
+    pdf.y -= 12;
+    pdf.text(colX, pdf.y, fitText(line, 9, right - colX), { size: 9 });
+  }
+  pdf.y -= 12;
+  pdf.text(colX, pdf.y, `Place of supply: ${invoice.placeOfSupply || "-"}`, { size: 9, font: "bold" });
+
+  pdf.y = Math.min(pdf.y, sellerBottom) - 26;
+
+  // Items table
+  const cols = { index: MARGIN, item: MARGIN + 24, qty: 370, rate: 460, amount: right };
+  const drawTableHeader = () => {
+    pdf.line(MARGIN, pdf.y + 12, right, pdf.y + 12);
+    pdf.text(cols.index, pdf.y, "#", { size: 9, font: "bold" });
+    pdf.text(cols.item, pdf.y, "Item", { size: 9, font: "bold" });
+    pdf.text(cols.qty, pdf.y, "Qty", { size: 9, font: "bold", align: "right" });
+    pdf.text(cols.rate, pdf.y, "Rate", { size: 9, font: "bold", align: "right" });
+    pdf.text(cols.amount, pdf.y, "Amount", { size: 9, font: "bold", align: "right" });
+    pdf.y -= 6;
+    pdf.line(MARGIN, pdf.y, right, pdf.y);
+    pdf.y -= 14;
+  };
+  drawTableHeader();
+
+  invoice.items.forEach((item, idx) => {
+    const hasSubline = Boolean(item.variantLabel || item.sku);
+    if (pdf.ensureSpace(hasSubline ? 28 : 16)) drawTableHeader();
+    pdf.text(cols.index, pdf.y, String(idx + 1), { size: 9 });
+    pdf.text(cols.item, pdf.y, fitText(item.name, 9, cols.qty - cols.item - 40), { size: 9 });
+    pdf.text(cols.qty, pdf.y, String(item.quantity), { size: 9, align: "right" });
+    pdf.text(cols.rate, pdf.y, formatMoney(item.price), { size: 9, align: "right" });
+    pdf.text(cols.amount, pdf.y, formatMoney(item.price * item.quantity), { size: 9, align: "right" });
+    if (hasSubline) {
+      pdf.y -= 11;
+      const subline = [item.variantLabel, item.sku && `SKU ${item.sku}`].filter(Boolean).join(" · ");
+      pdf.text(cols.item, pdf.y, fitText(subline, 8, cols.qty - cols.item - 40), { size: 8 });
+    }
+    pdf.y -= 16;
+  });
+  pdf.line(MARGIN, pdf.y + 8, right, pdf.y + 8);
+  pdf.y -= 8;
+
+  // Totals
+  const totals: [string, string, Font?][] = [["Subtotal", formatMoney(invoice.subtotal)]];
+  if (invoice.discountTotal > 0) totals.push(["Discount", `- ${formatMoney(invoice.discountTotal)}`]);
+  if (invoice.platformFee > 0) totals.push(["Platform fee", formatMoney(invoice.platformFee)]);
+  totals.push(["Taxable value", formatMoney(invoice.taxableAmount)]);
+  for (const tax of invoice.taxBreakdown) {
+    totals.push([tax.rate != null ? `${tax.name} @ ${formatRate(tax.rate)}` : tax.name, formatMoney(tax.amount)]);
+  }
+  if (invoice.deliveryFee > 0) totals.push(["Delivery", formatMoney(invoice.deliveryFee)]);
+  totals.push(["Invoice total", formatMoney(invoice.totalAmount), "bold"]);
+
+  pdf.ensureSpace(totals.length * 16 + 20);
+  for (const [label, value, font] of totals) {
+    const size = font === "bold" ? 11 : 9;
+    pdf.text(cols.rate, pdf.y, label, { size, font, align: "right" });
+    pdf.text(cols.amount, pdf.y, value, { size, font, align: "right" });
+    pdf.y -= font === "bold" ? 18 : 14;
+  }
+
+  pdf.y -= 10;
+  pdf.text(
+    MARGIN,
+    pdf.y,
+    invoice.supplyType === "inter_state"
+      ? "Inter-state supply: IGST charged."
+      : "Intra-state supply: CGST and SGST charged.",
+    { size: 8 }
+  );
+
+  // Footer on every page
+  pdf.pages.forEach((ops, i) => {
+    ops.push(`BT /F1 8 Tf ${MARGIN} 40 Td (${escapePdfText("This is a computer-generated invoice and does not require a signature.")}) Tj ET`);
+    const pageLabel = `Page ${i + 1} of ${pdf.pages.length}`;
+    ops.push(`BT /F1 8 Tf ${(right - textWidth(pageLabel, 8)).toFixed(2)} 40 Td (${pageLabel}) Tj ET`);
+  });
+
+  return pdf.toBuffer();
+}
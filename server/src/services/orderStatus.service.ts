@@ -0,0 +1,155 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Order, type IOrder, type IOrderStatusChange, type OrderStatus } from "../models/order.model";
+import { createAndSendNotification } from "./notification.service";
+import { emitToUser } from "./socket.service";
+import { releaseOrderStock } from "./inventory.service";
+import { releaseDeliverySlot } from "./deliverySlot.service";
+import { reverseCouponRedemptions } from "./coupon.service";
+
+/** Thrown when an order can't move to the requested status; `status` is the HTTP status to respond with */
+export class OrderStatusError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "OrderStatusError";
+    this.status = status;
+  }
+}
+
+export const ORDER_STATUSES: OrderStatus[] = ["pending", "confirmed", "preparing", "ready", "delivered", "cancelled"];
+
+/** Where an order can go next. Delivered and cancelled orders are final. */
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["ready", "cancelled"],
+  ready: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+/** Customer-facing names, matching the labels in the app */
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "placed",
+  confirmed: "confirmed",
+  preparing: "ready for dispatch",
+  ready: "dispatched",
+  delivered: "delivered",
+  cancelled: "cancelled",
+};
+
+/** Pickup orders share the statuses but are packed, then wait at the counter, then get collected */
+const PICKUP_STATUS_LABELS: Record<OrderStatus, string> = {
+  ...STATUS_LABELS,
+  preparing: "being packed",
+  ready: "ready for pickup",
+  delivered: "picked up",
+};
+
+const labelsFor = (order: Pick<IOrder, "fulfilmentType">) =>
+  order.fulfilmentType === "pickup" ? PICKUP_STATUS_LABELS : STATUS_LABELS;
+
+export interface OrderActor {
+  id?: Types.ObjectId;
+  role: IOrderStatusChange["actorRole"];
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && (ORDER_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Move an order to `to` and record the step in its timeline. Cancelling puts
+ * reserved stock back and frees its delivery slot and promo code; delivering a COD order marks it paid. A pickup order is
+ * only delivered once its pickup code has been verified, and an order with a
+ * delivery partner once the partner has entered the customer's OTP. A cancel
+ * is claimed in the database before anything is given back, so when the
+ * customer, the shop and the reconciler cancel at once only one of them
+ * releases stock; the others get a 409. The caller saves the order and then
+ * calls notifyOrderStatusChange.
+ */
+export async function transitionOrderStatus(order: IOrder, to: OrderStatus, actor: OrderActor, note?: string): Promise<void> {
+  const from = order.status;
+  const labels = labelsFor(order);
+  if (!ORDER_STATUS_TRANSITIONS[from].includes(to)) {
+    const allowed = ORDER_STATUS_TRANSITIONS[from];
+    throw new OrderStatusError(
+      409,
+      allowed.length
+        ? `A ${labels[from]} order can only be marked ${allowed.map((s) => labels[s]).join(" or ")}`
+        : `This order is already ${labels[from]}`
+    );
+  }
+  if (to === "delivered" && order.fulfilmentType === "pickup" && !order.pickup?.verifiedAt) {
+    throw new OrderStatusError(409, "Enter the customer's pickup code to hand this order over");
+  }
+  if (to === "delivered" && order.agentDelivery && order.agentDelivery.status !== "delivered") {
+    throw new OrderStatusError(409, `${order.agentDelivery.name} is delivering this order; it's delivered once they enter the customer's code`);
+  }
+
+  if (to === "cancelled") {
+    const claimed = await Order.updateOne({ _id: order._id, status: from }, { $set: { status: "cancelled" } });
+    if (claimed.modifiedCount === 0) {
+      throw new OrderStatusError(409, "This order was updated in the meantime; refresh and try again");
+    }
+    await releaseOrderStock(order);
+    await releaseDeliverySlot(order);
+    await reverseCouponRedemptions(order._id as Types.ObjectId);
+  }
+  if (to === "delivered" && order.paymentMethod === "cod") {
+    order.paymentStatus = "paid";
+  }
+
+  order.status = to;
+  order.statusHistory.push({ status: to, at: new Date(), actorId: actor.id, actorRole: actor.role, note });
+}
+
+const CUSTOMER_MESSAGES: Record<OrderStatus, (shopName: string, change: IOrderStatusChange) => [string, string]> = {
+  pending: (shop) => ["Order placed", `Your order from ${shop} has been placed.`],
+  confirmed: (shop) => ["Order confirmed", `${shop} confirmed your order.`],
+  preparing: (shop) => ["Order being packed", `${shop} is getting your order ready for dispatch.`],
+  ready: (shop) => ["Order dispatched", `Your order from ${shop} is on its way.`],
+  delivered: (shop) => ["Order delivered", `Your order from ${shop} has been delivered.`],
+  cancelled: (shop, change) => [
+    "Order cancelled",
+    change.actorRole === "customer"
+      ? `You cancelled your order from ${shop}.`
+      : change.actorRole === "system"
+        ? `Your order from ${shop} was cancelled.${change.note ? ` ${change.note}` : ""}`
+        : `${shop} cancelled your order.`,
+  ],
+};
+
+const PICKUP_CUSTOMER_MESSAGES: Partial<typeof CUSTOMER_MESSAGES> = {
+  preparing: (shop) => ["Order being packed", `${shop} is packing your order for pickup.`],
+  ready: (shop) => ["Ready for pickup", `Your order is ready at ${shop}. Show your pickup code at the counter.`],
+  delivered: (shop) => ["Order picked up", `You collected your order from ${shop}.`],
+};
+
+/**
+ * Tell the customer about the order's latest status (in-app, push and socket),
+ * and push the new timeline to both sides so open screens update live.
+ */
+export async function notifyOrderStatusChange(order: IOrder): Promise<void> {
+  const change = order.statusHistory[order.statusHistory.length - 1];
+  if (!change) return;
+
+  const shop = await Shop.findById(order.shopId).select("name");
+  const message =
+    (order.fulfilmentType === "pickup" && PICKUP_CUSTOMER_MESSAGES[change.status]) || CUSTOMER_MESSAGES[change.status];
+  const [title, body] = message(shop?.name || "The shop", change);
+  const orderId = (order._id as Types.ObjectId).toString();
+
+  await createAndSendNotification(order.customerId.toString(), "order", title, body, {
+    orderId,
+    status: change.status,
+    type: "order_status",
+  });
+
+  const payload = { orderId, status: order.status, paymentStatus: order.paymentStatus, statusHistory: order.statusHistory };
+  emitToUser(order.customerId.toString(), "order_status_changed", payload);
+  emitToUser(order.sellerId.toString(), "order_status_changed", payload);
+}
@@ -0,0 +1,349 @@
+import { Types } from "mongoose";
+
+import { Order, type IOrder } from "../models/order.model";
+import { CheckoutGroup, type ICheckoutGroup } from "../models/checkoutGroup.model";
+import { Payment, type IPayment, type PaymentProvider } from "../models/payment.model";
+import type { IRefund } from "../models/refund.model";
+import type { ISubscription } from "../models/subscription.model";
+import { issueInvoicesFor } from "./invoice.service";
+import { phonePeProvider } from "./phonepe.service";
+import { razorpayProvider } from "./razorpay.service";
+import { fakePaymentProvider, isFakePaymentProviderEnabled } from "./fakePayment.service";
+import { settleRefundFromGateway, refundOrderPayment, describeRefunds } from "./refund.service";
+import { settleSubscriptionPayment } from "./subscriptionBilling.service";
+import { createAndSendNotification } from "./notification.service";
+
+/** Thrown for payment requests we can't act on; `status` is the HTTP status to respond with */
+export class PaymentError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "PaymentError";
+    this.status = status;
+  }
+}
+
+export type PaymentProviderKey = "phonepe" | "razorpay" | "fake";
+
+export type GatewayPaymentStatus = IPayment["status"];
+
+export interface CreatePaymentInput {
+  transactionId: string;
+  /** In rupees */
+  amount: number;
+  customerId: string;
+  customerPhone?: string;
+}
+
+export interface CreatedPayment {
+  /** Where to send the customer to pay (PhonePe pay page, fake checkout) */
+  redirectUrl?: string;
+  providerOrderId?: string;
+  /** Anything the app needs to open the gateway's own checkout (Razorpay key and order id) */
+  clientData?: Record<string, unknown>;
+}
+
+/** What the gateway says about a payment attempt, from a webhook or a status query */
+export interface PaymentStatusUpdate {
+  kind?: "payment";
+  transactionId?: string;
+  providerOrderId?: string;
+  providerPaymentId?: string;
+  status: GatewayPaymentStatus;
+}
+
+export interface RefundInput {
+  /** Our id for the refund; gateways use it to de-duplicate retries */
+  refundId: string;
+  /** In rupees */
+  amount: number;
+  payment: IPayment;
+  customerId: string;
+}
+
+export interface RefundResult {
+  providerRefundId?: string;
+  status: "pending" | "succeeded" | "failed";
+}
+
+/** What the gateway says about a refund, from a webhook */
+export interface RefundStatusUpdate extends RefundResult {
+  kind: "refund";
+  refundId?: string;
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+/** One payment gateway. Amounts are in rupees; adapters convert to paise. */
+export interface PaymentProviderAdapter {
+  key: PaymentProviderKey;
+  name: PaymentProvider;
+  createPayment(input: CreatePaymentInput): Promise<CreatedPayment>;
+  /** Check the webhook signature and read the update. Throws if the signature doesn't match; null for events we ignore. */
+  parseWebhook(rawBody: string, headers: WebhookHeaders): PaymentStatusUpdate | RefundStatusUpdate | null;
+  fetchStatus(payment: IPayment): Promise<PaymentStatusUpdate>;
+  refund(input: RefundInput): Promise<RefundResult>;
+  fetchRefundStatus(refund: IRefund): Promise<RefundResult>;
+}
+
+const PROVIDERS: Record<PaymentProviderKey, PaymentProviderAdapter> = {
+  phonepe: phonePeProvider,
+  razorpay: razorpayProvider,
+  fake: fakePaymentProvider,
+};
+
+/** Look up a provider from the `:provider` route segment */
+export function getPaymentProvider(key: string): PaymentProviderAdapter {
+  const provider = PROVIDERS[key.toLowerCase() as PaymentProviderKey];
+  if (!provider || (provider.key === "fake" && !isFakePaymentProviderEnabled())) {
+    throw new PaymentError(404, "Unknown payment provider");
+  }
+  return provider;
+}
+
+/** The provider that handled a stored payment or refund */
+export function providerNamed(name: PaymentProvider): PaymentProviderAdapter {
+  const provider = Object.values(PROVIDERS).find((p) => p.name === name);
+  if (!provider) {
+    throw new PaymentError(500, `No adapter for payment provider ${name}`);
+  }
+  return provider;
+}
+
+export type PaymentTarget =
+  | { order: IOrder; group?: undefined; subscription?: undefined }
+  | { group: ICheckoutGroup; order?: undefined; subscription?: undefined }
+  | { subscription: ISubscription; order?: undefined; group?: undefined };
+
+/**
+ * Transaction ids are unique per attempt, since gateways reject a reused id
+ * when the customer retries after a failed or abandoned payment. They stay
+ * within PhonePe's 35 character limit.
+ */
+function newTransactionId(target: PaymentTarget): string {
+  const attempt = Date.now().toString(36);
+  if (target.subscription) return `BZS${target.subscription._id.toString()}${attempt}`;
+  return target.group ? `BZG${target.group._id.toString()}${attempt}` : `BZ${target.order._id.toString()}${attempt}`;
+}
+
+/** Start a payment for an order, every order of a multi-shop checkout, or a seller plan, and record the attempt */
+export async function initiatePayment(
+  provider: PaymentProviderAdapter,
+  target: PaymentTarget,
+  customerPhone: string | undefined
+): Promise<{ payment: IPayment; transactionId: string; checkout: CreatedPayment }> {
+  const amount = target.subscription
+    ? target.subscription.amountDue
+    : target.group
+      ? target.group.pricing.payable
+      : target.order.totalAmount;
+  const customerId = target.subscription
+    ? target.subscription.userId!.toString()
+    : (target.group ?? target.order).customerId.toString();
+  if (!(amount > 0)) {
+    throw new PaymentError(400, "Nothing to pay for this order");
+  }
+
+  const transactionId = newTransactionId(target);
+  const checkout = await provider.createPayment({ transactionId, amount, customerId, customerPhone });
+
+  const filter = target.subscription
+    ? { subscriptionId: target.subscription._id }
+    : target.group
+      ? { checkoutGroupId: target.group._id }
+      : { orderId: target.order._id };
+
+  // Keep the attempt being replaced so a late webhook for it still finds this payment
+  const current = await Payment.findOne(filter).select("paymentIntentId providerOrderId provider createdAt updatedAt");
+  const replaced = current && {
+    paymentIntentId: current.paymentIntentId,
+    providerOrderId: current.providerOrderId,
+    provider: current.provider,
+    startedAt: current.updatedAt ?? current.createdAt,
+  };
+
+  const payment = await Payment.findOneAndUpdate(
+    filter,
+    {
+      ...(replaced && { $push: { previousAttempts: replaced } }),
+      $set: {
+        ...filter,
+        provider: provider.name,
+        paymentIntentId: transactionId,
+        providerOrderId: checkout.providerOrderId,
+        amount,
+        currency: "INR",
+        status: "pending",
+      },
+      $unset: { providerPaymentId: 1 },
+    },
+    { upsert: true, new: true }
+  );
+
+  return { payment: payment!, transactionId, checkout };
+}
+
+/** The money arrived after the order was cancelled (e.g. it timed out waiting for payment), so send it straight back */
+async function refundLatePayment(order: IOrder): Promise<void> {
+  const refunds = await refundOrderPayment(order, order.totalAmount, {
+    reason: "Payment received after the order was cancelled",
+    source: "cancellation",
+  });
+  await order.save();
+  await createAndSendNotification(
+    order.customerId.toString(),
+    "order",
+    "Refund started",
+    `Your payment arrived after the order was cancelled. ${describeRefunds(refunds)}`,
+    { orderId: order._id!.toString(), type: "order_refund" }
+  );
+}
+
+/**
+ * A webhook for an attempt the customer has since retried. A failure there
+ * changes nothing, but a success means the money was taken, so that attempt
+ * becomes the payment's current one and is settled. Returns false when the
+ * update should be ignored.
+ */
+function reviveEarlierAttempt(payment: IPayment, update: PaymentStatusUpdate): boolean {
+  const index = payment.previousAttempts.findIndex((attempt) =>
+    update.transactionId
+      ? attempt.paymentIntentId === update.transactionId
+      : attempt.providerOrderId === update.providerOrderId
+  );
+  if (index < 0 || update.status !== "succeeded") return false;
+  if (payment.status === "succeeded") {
+    console.error(
+      `[Payment] Attempt ${payment.previousAttempts[index].paymentIntentId} was captured after ${payment.paymentIntentId} already succeeded; refund it from the gateway dashboard`
+    );
+    return false;
+  }
+
+  const [earlier] = payment.previousAttempts.splice(index, 1);
+  payment.previousAttempts.push({
+    paymentIntentId: payment.paymentIntentId,
+    providerOrderId: payment.providerOrderId,
+    provider: payment.provider,
+    startedAt: payment.updatedAt,
+  });
+  payment.paymentIntentId = earlier.paymentIntentId;
+  payment.providerOrderId = earlier.providerOrderId;
+  payment.status = "pending";
+  return true;
+}
+
+/**
+ * Settle the orders behind a payment once the gateway has a final answer.
+ * Only a pending payment moves, so repeated webhooks and status polls are harmless.
+ */
+async function applyPaymentStatus(payment: IPayment, update: PaymentStatusUpdate): Promise<IPayment> {
+  if (payment.status !== "pending" || update.status === "pending") {
+    return payment;
+  }
+
+  payment.status = update.status;
+  if (update.providerPaymentId) payment.providerPaymentId = update.providerPaymentId;
+  await payment.save();
+
+  if (payment.subscriptionId) {
+    await settleSubscriptionPayment(payment);
+    return payment;
+  }
+
+  // A group payment settles every order placed in that checkout
+  const orders = payment.checkoutGroupId
+    ? await Order.find({ checkoutGroupId: payment.checkoutGroupId })
+    : await Order.find({ _id: payment.orderId });
+  for (const order of orders) {
+    if (payment.status === "succeeded") {
+      order.paymentStatus = "paid";
+      order.paymentMethod = "online";
+      order.paymentId = payment.paymentIntentId;
+    } else {
+      order.paymentStatus = "failed";
+    }
+    await order.save();
+    if (payment.status === "succeeded" && order.status === "cancelled") {
+      await refundLatePayment(order);
+    }
+  }
+  if (payment.status === "succeeded") {
+    issueInvoicesFor(orders);
+  }
+
+  if (payment.checkoutGroupId) {
+    await CheckoutGroup.updateOne(
+      { _id: payment.checkoutGroupId },
+      payment.status === "succeeded"
+        ? { $set: { paymentStatus: "paid", paymentMethod: "online", paymentId: payment.paymentIntentId } }
+        : { $set: { paymentStatus: "failed" } }
+    );
+  }
+
+  return payment;
+}
+
+/** Verify and apply a gateway webhook. Returns the payment it settled, or null for refund and ignored events. */
+export async function handlePaymentWebhook(
+  provider: PaymentProviderAdapter,
+  rawBody: string,
+  headers: WebhookHeaders
+): Promise<IPayment | null> {
+  const update = provider.parseWebhook(rawBody, headers);
+  if (!update) return null;
+  if (update.kind === "refund") {
+    await settleRefundFromGateway(provider, update);
+    return null;
+  }
+
+  // The attempt may be the current one or one the customer has since retried
+  const payment = update.transactionId
+    ? await Payment.findOne({
+        provider: provider.name,
+        $or: [{ paymentIntentId: update.transactionId }, { "previousAttempts.paymentIntentId": update.transactionId }],
+      })
+    : update.providerOrderId
+      ? await Payment.findOne({
+          provider: provider.name,
+          $or: [{ providerOrderId: update.providerOrderId }, { "previousAttempts.providerOrderId": update.providerOrderId }],
+        })
+      : null;
+  if (!payment && update.transactionId) {
+    // PhonePe reports refunds on the same callback, keyed by the refund's transaction id
+    const refund = await settleRefundFromGateway(provider, {
+      kind: "refund",
+      refundId: update.transactionId,
+      providerRefundId: update.providerPaymentId,
+      status: update.status,
+    });
+    if (refund) return null;
+  }
+  if (!payment) {
+    throw new PaymentError(404, "Payment not found for transaction id");
+  }
+
+  const isCurrent = update.transactionId
+    ? payment.paymentIntentId === update.transactionId
+    : payment.providerOrderId === update.providerOrderId;
+  if (!isCurrent && !reviveEarlierAttempt(payment, update)) {
+    return payment;
+  }
+  return applyPaymentStatus(payment, update);
+}
+
+/** Ask the gateway about a payment that is still pending and apply the answer */
+export async function refreshPaymentStatus(payment: IPayment): Promise<IPayment> {
+  if (payment.status !== "pending") return payment;
+  const update = await providerNamed(payment.provider).fetchStatus(payment);
+  return applyPaymentStatus(payment, update);
+}
+
+/** The latest payment attempt for an order, whether it was paid alone or as part of a checkout */
+export async function findOrderPayment(order: IOrder, provider?: PaymentProviderAdapter): Promise<IPayment | null> {
+  const filter: Record<string, unknown> = order.checkoutGroupId
+    ? { checkoutGroupId: order.checkoutGroupId as Types.ObjectId }
+    : { orderId: order._id };
+  if (provider) filter.provider = provider.name;
+  return Payment.findOne(filter);
+}
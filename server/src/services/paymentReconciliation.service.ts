@@ -0,0 +1,184 @@
+import { Types } from "mongoose";
+
+import { Order, type IOrder } from "../models/order.model";
+import { CheckoutGroup } from "../models/checkoutGroup.model";
+import { Payment, type IPayment } from "../models/payment.model";
+import { PaymentReconciliation } from "../models/paymentReconciliation.model";
+import { findOrderPayment, refreshPaymentStatus } from "./payment.service";
+import { refundCancelledOrder, describeRefunds } from "./refund.service";
+import { transitionOrderStatus, notifyOrderStatusChange, OrderStatusError } from "./orderStatus.service";
+import { createAndSendNotification } from "./notification.service";
+
+/*
+ * Payments are normally settled by the gateway's webhook or the app polling
+ * the status route. When neither happens (the customer closed the app, the
+ * webhook was lost) the payment would stay pending forever, so this job asks
+ * the gateway itself, and cancels online orders that were never paid.
+ */
+
+/** Leave a payment alone this long before asking the gateway, so webhooks get a chance first */
+const RECONCILE_AFTER_MINUTES = Number(process.env.PAYMENT_RECONCILE_AFTER_MINUTES ?? 10);
+/** Unpaid online orders are cancelled (and their stock released) after this long */
+const PAYMENT_TIMEOUT_MINUTES = Number(process.env.PAYMENT_TIMEOUT_MINUTES ?? 30);
+/** Gateways settle within a day; after that a pending attempt is abandoned */
+const RECONCILE_MAX_AGE_HOURS = 24;
+const RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+const MINUTE_MS = 60 * 1000;
+
+async function ordersForPayment(payment: IPayment): Promise<IOrder[]> {
+  if (payment.subscriptionId) return [];
+  return payment.checkoutGroupId
+    ? Order.find({ checkoutGroupId: payment.checkoutGroupId })
+    : Order.find({ _id: payment.orderId });
+}
+
+/** Ask the gateway about one pending payment, apply the answer and record the attempt */
+export async function reconcilePayment(payment: IPayment, note?: string): Promise<IPayment> {
+  const previousStatus = payment.status;
+  const orderIds = (await ordersForPayment(payment)).map((o) => o._id as Types.ObjectId);
+  let error: string | undefined;
+
+  try {
+    payment = await refreshPaymentStatus(payment);
+  } catch (err: any) {
+    console.error("[Payment Reconcile Error]", payment.paymentIntentId, err);
+    error = err?.message || "Status check failed";
+  }
+
+  await Payment.updateOne(
+    { _id: payment._id },
+    { $set: { lastReconciledAt: new Date() }, $inc: { reconcileAttempts: 1 } }
+  );
+  await PaymentReconciliation.create({
+    action: "status_check",
+    paymentId: payment._id,
+    provider: payment.provider,
+    transactionId: payment.paymentIntentId,
+    orderIds,
+    previousStatus,
+    resultStatus: payment.status,
+    error,
+    note,
+  });
+  return payment;
+}
+
+/** Re-check payments that have been pending longer than RECONCILE_AFTER_MINUTES */
+export async function reconcilePendingPayments(now = new Date()): Promise<number> {
+  const checkedBefore = new Date(now.getTime() - RECONCILE_AFTER_MINUTES * MINUTE_MS);
+  const payments = await Payment.find({
+    status: "pending",
+    createdAt: { $lte: checkedBefore, $gte: new Date(now.getTime() - RECONCILE_MAX_AGE_HOURS * 60 * MINUTE_MS) },
+    $or: [{ lastReconciledAt: { $exists: false } }, { lastReconciledAt: { $lte: checkedBefore } }],
+  })
+    .sort({ createdAt: 1 })
+    .limit(BATCH_SIZE);
+
+  for (const payment of payments) {
+    await reconcilePayment(payment);
+  }
+  return payments.length;
+}
+
+/**
+ * Cancel one unpaid online order: a last status check first in case the money
+ * did arrive, then the stock goes back and any wallet credit used is returned.
+ */
+async function cancelUnpaidOrder(order: IOrder): Promise<boolean> {
+  const payment = await findOrderPayment(order);
+  if (payment?.status === "pending") {
+    await reconcilePayment(payment, "Final check before payment timeout");
+    const fresh = await Order.findById(order._id);
+    if (!fresh || fresh.paymentStatus === "paid") return false;
+    order = fresh;
+  }
+  if (order.status !== "pending" && order.status !== "confirmed") return false;
+
+  const previousStatus = payment?.status;
+  try {
+    await transitionOrderStatus(order, "cancelled", { role: "system" }, "Payment wasn't completed in time.");
+  } catch (err) {
+    // Cancelled or moved on by the customer or shop since we loaded it
+    if (err instanceof OrderStatusError) return false;
+    throw err;
+  }
+  if (order.paymentStatus === "pending") order.paymentStatus = "failed";
+  const refunds = await refundCancelledOrder(order, "Order cancelled: payment not completed");
+  await order.save();
+
+  if (order.checkoutGroupId) {
+    await CheckoutGroup.updateOne(
+      { _id: order.checkoutGroupId, paymentStatus: "pending" },
+      { $set: { paymentStatus: "failed" } }
+    );
+  }
+  await PaymentReconciliation.create({
+    action: "order_cancelled",
+    paymentId: payment?._id,
+    provider: payment?.provider,
+    transactionId: payment?.paymentIntentId,
+    orderIds: [order._id],
+    previousStatus,
+    resultStatus: payment ? (await Payment.findById(payment._id).select("status"))?.status : undefined,
+    note: `Unpaid after ${PAYMENT_TIMEOUT_MINUTES} minutes`,
+  });
+
+  await notifyOrderStatusChange(order);
+  if (refunds.length) {
+    await createAndSendNotification(
+      order.customerId.toString(),
+      "order",
+      "Refund started",
+      describeRefunds(refunds),
+      { orderId: order._id!.toString(), type: "order_refund" }
+    );
+  }
+  return true;
+}
+
+/** Cancel online orders still unpaid PAYMENT_TIMEOUT_MINUTES after they were placed */
+export async function cancelUnpaidOrders(now = new Date()): Promise<number> {
+  const orders = await Order.find({
+    status: { $in: ["pending", "confirmed"] },
+    paymentMethod: { $in: ["online", "upi"] },
+    paymentStatus: { $in: ["pending", "failed"] },
+    createdAt: { $lte: new Date(now.getTime() - PAYMENT_TIMEOUT_MINUTES * MINUTE_MS) },
+  })
+    .sort({ createdAt: 1 })
+    .limit(BATCH_SIZE);
+
+  let cancelled = 0;
+  for (const order of orders) {
+    try {
+      if (await cancelUnpaidOrder(order)) cancelled++;
+    } catch (err: any) {
+      console.error("[Unpaid Order Cancel Error]", order._id, err);
+      await PaymentReconciliation.create({
+        action: "order_cancelled",
+        orderIds: [order._id],
+        error: err?.message || "Cancel failed",
+      });
+    }
+  }
+  return cancelled;
+}
+
+/** Run the reconciler every few minutes while the server is up */
+export function startPaymentReconciler(): void {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await reconcilePendingPayments();
+      await cancelUnpaidOrders();
+    } catch (err) {
+      console.error("[Payment Reconciler Error]", err);
+    } finally {
+      running = false;
+    }
+  };
+  setInterval(tick, RECONCILE_INTERVAL_MS).unref();
+}
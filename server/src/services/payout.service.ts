@@ -0,0 +1,319 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Order, type IOrder } from "../models/order.model";
+import { Refund, type IRefund } from "../models/refund.model";
+import { Payout, type IPayout } from "../models/payout.model";
+import { SellerLedgerEntry } from "../models/sellerLedgerEntry.model";
+import { createAndSendNotification } from "./notification.service";
+
+/*
+ * Seller settlement. When an order is delivered its earnings go into the
+ * seller's ledger: the sale (order value less the platform fee), minus the
+ * platform commission on the goods, minus any cash the seller already took on
+ * delivery. Returns are charged back pro rata. Earnings are held for
+ * PAYOUT_HOLD_DAYS so returns come out of them first, then batched into a
+ * payout to the shop's bank account every PAYOUT_INTERVAL_DAYS.
+ */
+
+/** Share of the goods value (after discounts) the platform keeps */
+export const PLATFORM_COMMISSION_RATE = Number(process.env.PLATFORM_COMMISSION_RATE ?? 0.05);
+const PAYOUT_HOLD_DAYS = Number(process.env.PAYOUT_HOLD_DAYS ?? 7);
+const PAYOUT_INTERVAL_DAYS = Number(process.env.PAYOUT_INTERVAL_DAYS ?? 7);
+/** Smaller balances roll over to the next cycle */
+const MIN_PAYOUT_AMOUNT = Number(process.env.MIN_PAYOUT_AMOUNT ?? 100);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const formatAmount = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+const orderRef = (orderId: Types.ObjectId) => `#${orderId.toString().slice(-6).toUpperCase()}`;
+
+function isDuplicateKey(err: any): boolean {
+  return err?.code === 11000 || err?.writeErrors?.every?.((e: any) => e.code === 11000);
+}
+
+/** What the seller earns on an order before any refunds */
+function orderEarnings(order: IOrder) {
+  const grandTotal = order.pricing?.grandTotal ?? order.totalAmount;
+  const platformFee = order.pricing?.platformFee ?? 0;
+  const subtotal = order.pricing?.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const goodsValue = Math.max(0, subtotal - (order.pricing?.discountTotal ?? 0));
+
+  const sale = round2(grandTotal - platformFee);
+  const commission = round2(goodsValue * PLATFORM_COMMISSION_RATE);
+  return { grandTotal, sale, commission, net: sale - commission };
+}
+
+function refundEntry(order: IOrder, refund: IRefund, shopId: Types.ObjectId) {
+  const { grandTotal, net } = orderEarnings(order);
+  const share = grandTotal > 0 ? round2((refund.amount * net) / grandTotal) : 0;
+  return {
+    sellerId: order.sellerId,
+    shopId,
+    orderId: order._id,
+    refundId: refund._id,
+    type: "refund" as const,
+    amount: -share,
+    description: `Refund on order ${orderRef(order._id as Types.ObjectId)}`,
+    availableAt: new Date(),
+  };
+}
+
+/**
+ * Add a delivered order's earnings to the seller's ledger, along with any
+ * return refunds already made on it. Safe to call more than once; only the
+ * first call writes. The order is saved.
+ */
+export async function accrueOrderEarnings(order: IOrder): Promise<void> {
+  if (order.ledgerAccruedAt || order.status !== "delivered" || order.replacementFor) return;
+  if (order.paymentStatus !== "paid" && order.paymentStatus !== "refunded") return;
+
+  const shopId = order.shopId as Types.ObjectId;
+  const ref = orderRef(order._id as Types.ObjectId);
+  const { sale, commission } = orderEarnings(order);
+  const availableAt = new Date(Date.now() + PAYOUT_HOLD_DAYS * DAY_MS);
+  const base = { sellerId: order.sellerId, shopId, orderId: order._id, availableAt };
+
+  const entries: Record<string, unknown>[] = [
+    { ...base, type: "sale", amount: sale, description: `Order ${ref}` },
+  ];
+  if (commission > 0) {
+    entries.push({ ...base, type: "commission", amount: -commission, description: `Platform commission on order ${ref}` });
+  }
+  if (order.paymentMethod === "cod" && order.totalAmount > 0) {
+    entries.push({ ...base, type: "cod_collected", amount: -order.totalAmount, description: `Cash collected for order ${ref}` });
+  }
+  const refunds = await Refund.find({ orderId: order._id, source: "return" });
+  for (const refund of refunds) entries.push(refundEntry(order, refund, shopId));
+
+  try {
+    await SellerLedgerEntry.insertMany(entries, { ordered: false });
+  } catch (err) {
+    if (!isDuplicateKey(err)) throw err;
+  }
+
+  order.ledgerAccruedAt = new Date();
+  await order.save();
+}
+
+/** Charge return refunds back to the seller. Orders that haven't been accrued yet pick them up when they are. */
+export async function chargeRefundsToSeller(order: IOrder, refunds: IRefund[]): Promise<void> {
+  if (!order.ledgerAccruedAt || !refunds.length) return;
+  const entries = refunds.map((refund) => refundEntry(order, refund, order.shopId as Types.ObjectId));
+  try {
+    await SellerLedgerEntry.insertMany(entries, { ordered: false });
+  } catch (err) {
+    if (!isDuplicateKey(err)) throw err;
+  }
+}
+
+export interface LedgerSummary {
+  /** Everything earned and not yet paid out (can be negative when cash collected exceeds earnings) */
+  balance: number;
+  /** Past the hold period, goes out with the next payout */
+  available: number;
+  /** Still inside the hold period */
+  onHold: number;
+  totalPaidOut: number;
+  /** Set when the shop can't be paid until bank details are added */
+  bankDetailsMissing: boolean;
+  nextPayoutAfter: Date | null;
+  holdDays: number;
+  intervalDays: number;
+}
+
+function bankSnapshot(shop: any): IPayout["bank"] | null {
+  const bank = shop?.bankDetails;
+  const accountNumber = String(bank?.accountNumber ?? "").replace(/\s/g, "");
+  if (!bank?.accountHolder || !bank?.ifscCode || accountNumber.length < 4) return null;
+  return {
+    accountHolder: bank.accountHolder,
+    accountLast4: accountNumber.slice(-4),
+    bankName: bank.bankName || undefined,
+    ifscCode: String(bank.ifscCode).toUpperCase(),
+  };
+}
+
+export async function getLedgerSummary(sellerId: Types.ObjectId): Promise<LedgerSummary> {
+  const now = new Date();
+  const [totals] = await SellerLedgerEntry.aggregate([
+    { $match: { sellerId } },
+    {
+      $group: {
+        _id: null,
+        balance: { $sum: "$amount" },
+        available: {
+          $sum: {
+            $cond: [{ $and: [{ $not: ["$payoutId"] }, { $lte: ["$availableAt", now] }] }, "$amount", 0],
+          },
+        },
+        onHold: {
+          $sum: { $cond: [{ $and: [{ $not: ["$payoutId"] }, { $gt: ["$availableAt", now] }] }, "$amount", 0] },
+        },
+        totalPaidOut: { $sum: { $cond: [{ $eq: ["$type", "payout"] }, { $multiply: ["$amount", -1] }, 0] } },
+      },
+    },
+  ]);
+
+  const shop = await Shop.findOne({ sellerId });
+  const lastPayout = await Payout.findOne({ sellerId }).sort({ createdAt: -1 }).select("createdAt");
+  return {
+    balance: round2(totals?.balance ?? 0),
+    available: round2(totals?.available ?? 0),
+    onHold: round2(totals?.onHold ?? 0),
+    totalPaidOut: round2(totals?.totalPaidOut ?? 0),
+    bankDetailsMissing: !bankSnapshot(shop),
+    nextPayoutAfter: lastPayout ? new Date(lastPayout.createdAt.getTime() + PAYOUT_INTERVAL_DAYS * DAY_MS) : null,
+    holdDays: PAYOUT_HOLD_DAYS,
+    intervalDays: PAYOUT_INTERVAL_DAYS,
+  };
+}
+
+/** Batch one shop's available entries into a payout, if it's due and there's enough to send */
+async function createShopPayout(shop: any, now: Date): Promise<IPayout | null> {
+  const bank = bankSnapshot(shop);
+  if (!bank) return null;
+
+  const lastPayout = await Payout.findOne({ shopId: shop._id }).sort({ createdAt: -1 }).select("createdAt");
+  if (lastPayout && now.getTime() - lastPayout.createdAt.getTime() < PAYOUT_INTERVAL_DAYS * DAY_MS) return null;
+
+  const entries = await SellerLedgerEntry.find({
+    shopId: shop._id,
+    payoutId: { $exists: false },
+    availableAt: { $lte: now },
+  }).select("_id amount createdAt");
+  const amount = round2(entries.reduce((sum, e) => sum + e.amount, 0));
+  if (amount < MIN_PAYOUT_AMOUNT) return null;
+
+  const payout = await Payout.create({
+    sellerId: shop.sellerId,
+    shopId: shop._id,
+    amount,
+    periodStart: entries.reduce((min, e) => (e.createdAt < min ? e.createdAt : min), entries[0].createdAt),
+    periodEnd: now,
+    entryCount: entries.length,
+    bank,
+  });
+  await SellerLedgerEntry.updateMany({ _id: { $in: entries.map((e) => e._id) } }, { $set: { payoutId: payout._id } });
+  await SellerLedgerEntry.create({
+    sellerId: shop.sellerId,
+    shopId: shop._id,
+    payoutId: payout._id,
+    type: "payout",
+    amount: -amount,
+    description: `Payout to account ending ${bank.accountLast4}`,
+    availableAt: now,
+  });
+
+  await createAndSendNotification(
+    shop.sellerId.toString(),
+    "order",
+    "Payout on its way",
+    `${formatAmount(amount)} is being transferred to your account ending ${bank.accountLast4}.`,
+    { payoutId: payout._id.toString(), type: "payout_created" }
+  );
+  return payout;
+}
+
+/**
+ * One settlement cycle: accrue delivered orders that were missed (placed
+ * before the ledger existed, or a failed write), then batch every shop that
+ * is due a payout.
+ */
+export async function runPayoutCycle(now = new Date()): Promise<IPayout[]> {
+  const unaccrued = await Order.find({
+    status: "delivered",
+    paymentStatus: { $in: ["paid", "refunded"] },
+    ledgerAccruedAt: { $exists: false },
+    replacementFor: { $exists: false },
+  }).limit(500);
+  for (const order of unaccrued) {
+    try {
+      await accrueOrderEarnings(order);
+    } catch (err) {
+      console.error("[Ledger Accrual Error]", order._id, err);
+    }
+  }
+
+  const shopIds = await SellerLedgerEntry.distinct("shopId", { payoutId: { $exists: false }, availableAt: { $lte: now } });
+  const payouts: IPayout[] = [];
+  for (const shop of await Shop.find({ _id: { $in: shopIds } })) {
+    try {
+      const payout = await createShopPayout(shop, now);
+      if (payout) payouts.push(payout);
+    } catch (err) {
+      console.error("[Payout Batch Error]", shop._id, err);
+    }
+  }
+  return payouts;
+}
+
+/** Whether a settlement webhook body was signed with PAYOUT_WEBHOOK_SECRET (hex HMAC-SHA256) */
+export function verifySettlementSignature(rawBody: string, signature: unknown): boolean {
+  const secret = process.env.PAYOUT_WEBHOOK_SECRET;
+  if (!secret || typeof signature !== "string") return false;
+  const expected = Buffer.from(crypto.createHmac("sha256", secret).update(rawBody).digest("hex"));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Record the bank transfer for a payout. Finance runs the transfers and posts
+ * the UTR (or the failure reason) to the settlement webhook. A failed payout
+ * gives its entries back so they go out with the next batch. Only a payout
+ * still processing is settled, so a repeated webhook changes nothing.
+ */
+export async function settlePayout(
+  payoutId: Types.ObjectId | string,
+  result: { status: "paid"; reference: string } | { status: "failed"; reason: string }
+): Promise<IPayout | null> {
+  const update =
+    result.status === "paid"
+      ? { status: "paid", reference: result.reference, paidAt: new Date() }
+      : { status: "failed", failureReason: result.reason };
+  const payout = await Payout.findOneAndUpdate(
+    { _id: payoutId, status: "processing" },
+    { $set: update },
+    { new: true }
+  );
+  if (!payout) return Payout.findById(payoutId);
+
+  if (result.status === "failed") {
+    await SellerLedgerEntry.deleteOne({ payoutId: payout._id, type: "payout" });
+    await SellerLedgerEntry.updateMany({ payoutId: payout._id }, { $unset: { payoutId: 1 } });
+  }
+
+  await createAndSendNotification(
+    payout.sellerId.toString(),
+    "order",
+    result.status === "paid" ? "Payout sent" : "Payout failed",
+    result.status === "paid"
+      ? `${formatAmount(payout.amount)} was sent to your account ending ${payout.bank.accountLast4}.`
+      : `We couldn't send ${formatAmount(payout.amount)} to your account ending ${payout.bank.accountLast4}. Please check your bank details.`,
+    { payoutId: payout._id.toString(), type: "payout_update" }
+  );
+  return payout;
+}
+
+const PAYOUT_CYCLE_CHECK_MS = 60 * 60 * 1000;
+
+/** Check for due payouts every hour while the server is up */
+export function startPayoutScheduler(): void {
+  // A slow batch must not overlap the next tick and pay sellers twice
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runPayoutCycle();
+    } catch (err) {
+      console.error("[Payout Cycle Error]", err);
+    } finally {
+      running = false;
+    }
+  };
+  setInterval(tick, PAYOUT_CYCLE_CHECK_MS).unref();
+  setTimeout(tick, 60 * 1000).unref();
+}
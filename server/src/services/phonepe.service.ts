@@ -1,7 +1,16 @@
 import crypto from "crypto";
 
-import { Order, type IOrder } from "../models/order.model";
-import { Payment } from "../models/payment.model";
+import type { IPayment } from "../models/payment.model";
+import type { IRefund } from "../models/refund.model";
+import type {
+  CreatePaymentInput,
+  CreatedPayment,
+  PaymentProviderAdapter,
+  PaymentStatusUpdate,
+  RefundInput,
+  RefundResult,
+  WebhookHeaders,
+} from "./payment.service";
 
 const PHONEPE_BASE_URL = process.env.PHONEPE_BASE_URL || "https://api-preprod.phonepe.com/apis/hermes";
 const PHONEPE_MERCHANT_ID = process.env.PHONEPE_MERCHANT_ID || "";
@@ -9,6 +18,7 @@ const PHONEPE_SALT_KEY = process.env.PHONEPE_SALT_KEY || "";
 const PHONEPE_SALT_INDEX = process.env.PHONEPE_SALT_INDEX || "1";
 
 const PHONEPE_PAY_PATH = "/pg/v1/pay";
+const PHONEPE_REFUND_PATH = "/pg/v1/refund";
 
 function requirePhonePeConfig() {
   if (!PHONEPE_MERCHANT_ID || !PHONEPE_SALT_KEY || !PHONEPE_BASE_URL) {
@@ -22,40 +32,22 @@ function buildXVerify(payloadBase64: string, path: string): string {
   return `${hash}###${PHONEPE_SALT_INDEX}`;
 }
 
-export async function createPhonePePaymentForOrder(order: IOrder, customerPhone: string | undefined) {
-  requirePhonePeConfig();
-
-  const amountPaise = Math.round(order.totalAmount * 100); // totalAmount is in rupees
+function toPaise(amount: number, what: string): number {
+  const amountPaise = Math.round(amount * 100); // amount is in rupees
   if (!Number.isFinite(amountPaise) || amountPaise <= 0) {
-    throw new Error("Invalid order amount for PhonePe payment");
+    throw new Error(`Invalid ${what} amount for PhonePe`);
   }
+  return amountPaise;
+}
 
-  const merchantTransactionId = `BAZAARIO_${order._id.toString()}`;
-
-  const payload: any = {
-    merchantId: PHONEPE_MERCHANT_ID,
-    merchantTransactionId,
-    merchantUserId: order.customerId.toString(),
-    amount: amountPaise,
-    redirectUrl: `${process.env.APP_BASE_URL || ""}/payments/phonepe/redirect`, // optional, mostly for web flows
-    callbackUrl: `${process.env.API_BASE_URL || process.env.APP_BASE_URL || ""}/api/payments/phonepe/callback`,
-    mobileNumber: customerPhone || undefined,
-    paymentInstrument: {
-      type: "PAY_PAGE",
-    },
-  };
-
-  const payloadJson = JSON.stringify(payload);
-  const payloadBase64 = Buffer.from(payloadJson).toString("base64");
-  const xVerify = buildXVerify(payloadBase64, PHONEPE_PAY_PATH);
-
-  const url = `${PHONEPE_BASE_URL}${PHONEPE_PAY_PATH}`;
-
-  const res = await fetch(url, {
+/** POST a base64-encoded payload to a PhonePe endpoint and return the parsed response */
+async function postToPhonePe(path: string, payload: Record<string, unknown>): Promise<any> {
+  const payloadBase64 = Buffer.from(JSON.stringify(payload)).toString("base64");
+  const res = await fetch(`${PHONEPE_BASE_URL}${path}`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      "X-VERIFY": xVerify,
+      "X-VERIFY": buildXVerify(payloadBase64, path),
       "X-MERCHANT-ID": PHONEPE_MERCHANT_ID,
       accept: "application/json",
     },
@@ -64,10 +56,56 @@ export async function createPhonePePaymentForOrder(order: IOrder, customerPhone:
 
   if (!res.ok) {
     const text = await res.text();
-    throw new Error(`[PhonePe] Initiate failed (${res.status}): ${text}`);
+    throw new Error(`[PhonePe] ${path} failed (${res.status}): ${text}`);
+  }
+  return res.json();
+}
+
+/** Status of a payment or refund transaction, keyed by our merchantTransactionId */
+export async function fetchPhonePeTransaction(merchantTransactionId: string): Promise<any> {
+  requirePhonePeConfig();
+  const path = `/pg/v1/status/${PHONEPE_MERCHANT_ID}/${merchantTransactionId}`;
+  const hash = crypto.createHash("sha256").update(path + PHONEPE_SALT_KEY).digest("hex");
+  const res = await fetch(`${PHONEPE_BASE_URL}${path}`, {
+    headers: {
+      "Content-Type": "application/json",
+      "X-VERIFY": `${hash}###${PHONEPE_SALT_INDEX}`,
+      "X-MERCHANT-ID": PHONEPE_MERCHANT_ID,
+      accept: "application/json",
+    },
+  });
+
+  if (!res.ok && res.status !== 404) {
+    const text = await res.text();
+    throw new Error(`[PhonePe] Status check failed (${res.status}): ${text}`);
+  }
+  return res.json();
+}
+
+/** Map PhonePe's response codes/states to our payment status */
+export function phonePeStatus(code: string | undefined): PaymentStatusUpdate["status"] {
+  if (code === "PAYMENT_SUCCESS" || code === "SUCCESS" || code === "COMPLETED") return "succeeded";
+  if (code === "PAYMENT_ERROR" || code === "PAYMENT_DECLINED" || code === "FAILED" || code === "TRANSACTION_NOT_FOUND") {
+    return "failed";
   }
+  return "pending";
+}
+
+async function createPayment({ transactionId, amount, customerId, customerPhone }: CreatePaymentInput): Promise<CreatedPayment> {
+  requirePhonePeConfig();
 
-  const data: any = await res.json();
+  const data: any = await postToPhonePe(PHONEPE_PAY_PATH, {
+    merchantId: PHONEPE_MERCHANT_ID,
+    merchantTransactionId: transactionId,
+    merchantUserId: customerId,
+    amount: toPaise(amount, "order"),
+    redirectUrl: `${process.env.APP_BASE_URL || ""}/payments/phonepe/redirect`, // optional, mostly for web flows
+    callbackUrl: `${process.env.API_BASE_URL || process.env.APP_BASE_URL || ""}/api/payments/phonepe/webhook`,
+    mobileNumber: customerPhone || undefined,
+    paymentInstrument: {
+      type: "PAY_PAGE",
+    },
+  });
 
   if (!data || data.success !== true || !data.data) {
     throw new Error("[PhonePe] Unexpected initiate response");
@@ -82,27 +120,19 @@ export async function createPhonePePaymentForOrder(order: IOrder, customerPhone:
     throw new Error("[PhonePe] Missing redirect URL in response");
   }
 
-  // Upsert payment record
-  await Payment.findOneAndUpdate(
-    { orderId: order._id },
-    {
-      orderId: order._id,
-      provider: "PhonePe",
-      paymentIntentId: merchantTransactionId,
-      amount: order.totalAmount,
-      currency: "INR",
-      status: "pending",
-    },
-    { upsert: true, new: true }
-  );
-
-  return { redirectUrl, merchantTransactionId };
+  return { redirectUrl };
 }
 
-export async function handlePhonePeCallback(body: any, xVerifyHeader: string | undefined) {
+/**
+ * PhonePe's server-to-server callback is `{ response: <base64 JSON> }` signed
+ * as sha256(response + salt key)###salt index. Older integrations posted the
+ * JSON directly, signed over the raw body; both are accepted.
+ */
+function parseWebhook(rawBody: string, headers: WebhookHeaders): PaymentStatusUpdate | null {
   requirePhonePeConfig();
 
-  if (!xVerifyHeader) {
+  const xVerifyHeader = headers["x-verify"];
+  if (typeof xVerifyHeader !== "string" || !xVerifyHeader) {
     throw new Error("Missing X-VERIFY header");
   }
 
@@ -111,47 +141,65 @@ export async function handlePhonePeCallback(body: any, xVerifyHeader: string | u
     throw new Error("Invalid X-VERIFY header format");
   }
 
-  const rawBody = typeof body === "string" ? body : JSON.stringify(body);
-  const toSign = rawBody + PHONEPE_SALT_KEY;
-  const expectedChecksum = crypto.createHash("sha256").update(toSign).digest("hex");
-
+  const parsed = JSON.parse(rawBody || "{}");
+  const signed = typeof parsed?.response === "string" ? parsed.response : rawBody;
+  const expectedChecksum = crypto.createHash("sha256").update(signed + PHONEPE_SALT_KEY).digest("hex");
   if (expectedChecksum !== receivedChecksum || receivedIndex !== PHONEPE_SALT_INDEX) {
     throw new Error("PhonePe checksum verification failed");
   }
 
+  const body = typeof parsed?.response === "string" ? JSON.parse(Buffer.from(parsed.response, "base64").toString("utf8")) : parsed;
   const txId: string | undefined =
     body?.data?.merchantTransactionId || body?.merchantTransactionId || body?.transactionId;
-  const status: string | undefined =
-    body?.data?.state || body?.state || body?.code;
-
   if (!txId) {
     throw new Error("PhonePe callback missing transaction id");
   }
 
-  const payment = await Payment.findOne({ paymentIntentId: txId });
-  if (!payment) {
-    throw new Error("Payment not found for transaction id");
-  }
+  return {
+    transactionId: txId,
+    providerPaymentId: body?.data?.transactionId,
+    status: phonePeStatus(body?.code || body?.data?.state || body?.state),
+  };
+}
 
-  if (status === "SUCCESS" || status === "COMPLETED") {
-    payment.status = "succeeded";
-  } else if (status === "FAILED") {
-    payment.status = "failed";
-  }
-  await payment.save();
-
-  const order = await Order.findById(payment.orderId);
-  if (order) {
-    if (payment.status === "succeeded") {
-      order.paymentStatus = "paid";
-      order.paymentMethod = "online";
-      order.paymentId = txId;
-    } else if (payment.status === "failed") {
-      order.paymentStatus = "failed";
-    }
-    await order.save();
+async function fetchStatus(payment: IPayment): Promise<PaymentStatusUpdate> {
+  const data = await fetchPhonePeTransaction(payment.paymentIntentId);
+  return {
+    transactionId: payment.paymentIntentId,
+    providerPaymentId: data?.data?.transactionId,
+    status: phonePeStatus(data?.code),
+  };
+}
+
+async function refund({ refundId, amount, payment, customerId }: RefundInput): Promise<RefundResult> {
+  requirePhonePeConfig();
+
+  const data: any = await postToPhonePe(PHONEPE_REFUND_PATH, {
+    merchantId: PHONEPE_MERCHANT_ID,
+    merchantUserId: customerId,
+    originalTransactionId: payment.paymentIntentId,
+    merchantTransactionId: refundId,
+    amount: toPaise(amount, "refund"),
+    callbackUrl: `${process.env.API_BASE_URL || process.env.APP_BASE_URL || ""}/api/payments/phonepe/webhook`,
+  });
+
+  if (data?.success === false) {
+    return { status: "failed" };
   }
+  return { providerRefundId: data?.data?.transactionId, status: phonePeStatus(data?.code) };
+}
 
-  return { payment, order };
+async function fetchRefundStatus(refund: IRefund): Promise<RefundResult> {
+  const data = await fetchPhonePeTransaction(refund.refundId);
+  return { providerRefundId: data?.data?.transactionId, status: phonePeStatus(data?.code) };
 }
 
+export const phonePeProvider: PaymentProviderAdapter = {
+  key: "phonepe",
+  name: "PhonePe",
+  createPayment,
+  parseWebhook,
+  fetchStatus,
+  refund,
+  fetchRefundStatus,
+};
@@ -0,0 +1,155 @@
+import { randomInt } from "crypto";
+
+import type { IOrder } from "../models/order.model";
+import { settleCodeAttempt, takeCodeAttempt } from "./handoverCode.service";
+
+/*
+ * Click-and-collect. Pickup windows are hour-long slots inside the shop's
+ * callTimings (the hours someone is at the counter), on the days it is open,
+ * starting far enough ahead to pack the order. Times are shop-local (IST).
+ * Each pickup order gets a code the customer shows at the shop; the seller
+ * enters it to hand the order over, which is what marks it delivered.
+ */
+
+/** Thrown for pickup requests we can't act on; `status` is the HTTP status to respond with */
+export class PickupError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "PickupError";
+    this.status = status;
+  }
+}
+
+export interface PickupSlot {
+  /** Shop-local date, YYYY-MM-DD */
+  date: string;
+  /** Shop-local HH:MM */
+  start: string;
+  end: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface PickupDay {
+  date: string;
+  /** "Mon".."Sun", as used in callTimings.days */
+  day: string;
+  slots: PickupSlot[];
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const SLOT_MINUTES = 60;
+/** Time the shop gets to pack an order before the first slot it can be collected in */
+const PACKING_LEAD_MINUTES = 30;
+const DEFAULT_DAYS_AHEAD = 3;
+const MAX_DAYS_AHEAD = 7;
+const CODE_LIMITS = { maxAttempts: 5, lockMinutes: 15 };
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function parseClock(value: unknown): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? "").trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[1]) < 24 && Number(match[2]) < 60 ? minutes : null;
+}
+
+const formatClock = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/** Instant for a shop-local date (UTC fields of `istMidnight`) plus minutes past midnight */
+const atShopTime = (istMidnight: Date, minutes: number) =>
+  new Date(istMidnight.getTime() + minutes * 60 * 1000 - IST_OFFSET_MS);
+
+/** Collection slots for the next `days` days (today included), earliest first */
+export function pickupSlotsFor(shop: any, options: { days?: number; now?: Date } = {}): PickupDay[] {
+  const now = options.now ?? new Date();
+  const days = Math.min(Math.max(Math.floor(options.days ?? DEFAULT_DAYS_AHEAD), 1), MAX_DAYS_AHEAD);
+  const timings = shop?.callTimings ?? {};
+  const open = parseClock(timings.start ?? "10:00");
+  const close = parseClock(timings.end ?? "20:00");
+  const openDays: string[] = Array.isArray(timings.days) ? timings.days : WEEK_DAYS;
+  if (open === null || close === null || close <= open) return [];
+
+  const earliest = now.getTime() + PACKING_LEAD_MINUTES * 60 * 1000;
+  const shopNow = new Date(now.getTime() + IST_OFFSET_MS);
+  const todayMidnight = new Date(Date.UTC(shopNow.getUTCFullYear(), shopNow.getUTCMonth(), shopNow.getUTCDate()));
+
+  const result: PickupDay[] = [];
+  for (let i = 0; i < days; i++) {
+    const midnight = new Date(todayMidnight.getTime() + i * 24 * 60 * 60 * 1000);
+    const day = WEEK_DAYS[midnight.getUTCDay()];
+    if (!openDays.includes(day)) continue;
+
+    const date = `${midnight.getUTCFullYear()}-${pad(midnight.getUTCMonth() + 1)}-${pad(midnight.getUTCDate())}`;
+    const slots: PickupSlot[] = [];
+    for (let start = open; start + SLOT_MINUTES <= close; start += SLOT_MINUTES) {
+      const startsAt = atShopTime(midnight, start);
+      if (startsAt.getTime() < earliest) continue;
+      slots.push({
+        date,
+        start: formatClock(start),
+        end: formatClock(start + SLOT_MINUTES),
+        startsAt,
+        endsAt: atShopTime(midnight, start + SLOT_MINUTES),
+      });
+    }
+    if (slots.length) result.push({ date, day, slots });
+  }
+  return result;
+}
+
+/** The slot the customer picked ({ date, start }), checked against what the shop currently offers */
+export function parsePickupSlot(shop: any, input: any, now = new Date()): PickupSlot {
+  if (!input?.date || !input?.start) {
+    throw new PickupError(400, `Choose a pickup time for ${shop?.name || "each shop"}`);
+  }
+  const slot = pickupSlotsFor(shop, { days: MAX_DAYS_AHEAD, now })
+    .flatMap((d) => d.slots)
+    .find((s) => s.date === String(input.date) && s.start === String(input.start));
+  if (!slot) {
+    throw new PickupError(409, `That pickup time is no longer available at ${shop?.name || "this shop"}. Please choose another.`);
+  }
+  return slot;
+}
+
+/** Six-digit code the customer shows at the counter */
+export function generatePickupCode(): string {
+  return String(randomInt(0, 1_000_000)).padStart(6, "0");
+}
+
+/**
+ * Check the code the seller typed against the order (loaded with `+pickup.code`).
+ * Every try is counted on the stored order before the code is compared, and wrong
+ * codes lead to a short lock so the code can't be guessed at the counter. On
+ * success the order is marked as verified; the caller then moves it to delivered
+ * and saves it.
+ */
+export async function verifyPickupCode(order: IOrder, code: unknown, now = new Date()): Promise<void> {
+  const pickup = order.pickup;
+  if (order.fulfilmentType !== "pickup" || !pickup) {
+    throw new PickupError(400, "This order is for delivery, not pickup");
+  }
+  if (pickup.verifiedAt) {
+    throw new PickupError(409, "This order has already been picked up");
+  }
+  if (order.status !== "ready") {
+    throw new PickupError(409, "Mark the order ready for pickup before handing it over");
+  }
+
+  const lockedMinutes = await takeCodeAttempt(order._id, "pickup", CODE_LIMITS, now);
+  if (lockedMinutes !== null) {
+    throw new PickupError(429, `Too many wrong codes. Try again in ${lockedMinutes} min.`);
+  }
+  const matched = String(code ?? "").replace(/\D/g, "") === pickup.code;
+  await settleCodeAttempt(order._id, "pickup", CODE_LIMITS, matched, now);
+  if (!matched) {
+    throw new PickupError(400, "That pickup code doesn't match this order");
+  }
+
+  pickup.failedAttempts = 0;
+  pickup.lockedUntil = undefined;
+  pickup.verifiedAt = now;
+}
@@ -0,0 +1,299 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Product } from "../models/product.model";
+import { CallInvoice } from "../models/callInvoice.model";
+import type { IOrderItem, IOrderDiscount, IOrderPricing } from "../models/order.model";
+import { findApplicableCoupon } from "./coupon.service";
+import { getWalletBalance } from "./wallet.service";
+import { describeVariant, findVariant, isVariantAvailable } from "./variant.service";
+import { checkDelivery, type DeliveryCheck, type DeliveryDestination } from "./delivery.service";
+
+// Rates shown to the customer at checkout. Keep in sync with the app's invoice screen copy.
+export const PLATFORM_FEE_RATE = 0.02;
+export const TAX_RATE = 0.05;
+
+/** Thrown when a cart cannot be priced; `status` is the HTTP status to respond with */
+export class PricingError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "PricingError";
+    this.status = status;
+  }
+}
+
+export interface PricingItemInput {
+  productId: string;
+  /** Required for products that have variants */
+  variantId?: string;
+  quantity: number;
+}
+
+export interface QuoteLineItem extends IOrderItem {
+  lineTotal: number;
+}
+
+export interface QuoteOptions {
+  promoCode?: string;
+  /** Wallet credit the customer wants to use; capped at balance and order value */
+  walletAmount?: number;
+  /** Where the orders go; when given, each shop is checked for serviceability and charges its delivery fee */
+  deliveryAddress?: DeliveryDestination;
+}
+
+export interface CheckoutShopInput {
+  shopId: string;
+  items: PricingItemInput[];
+}
+
+export interface ShopQuote {
+  shopId: string;
+  lineItems: QuoteLineItem[];
+  pricing: IOrderPricing;
+  /** Set when the quote was for a delivery address */
+  delivery?: DeliveryCheck;
+}
+
+/** One quote per shop plus the combined breakdown the customer pays */
+export interface CheckoutQuote {
+  shops: ShopQuote[];
+  pricing: IOrderPricing;
+}
+
+/**
+ * Resolve cart items into order line items using current product prices.
+ * An item id may also be a call invoice the seller sent this customer during a video call.
+ */
+export async function resolveOrderItems(
+  customerId: Types.ObjectId,
+  shopId: string,
+  items: PricingItemInput[]
+): Promise<QuoteLineItem[]> {
+  const lineItems: QuoteLineItem[] = [];
+
+  for (const item of items) {
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new PricingError(400, `Invalid quantity for item ${item.productId}`);
+    }
+
+    let name: string;
+    let price: number;
+    let image: string;
+    let itemProductId: Types.ObjectId;
+    let variant: Pick<QuoteLineItem, "variantId" | "variantLabel" | "sku"> = {};
+
+    const product = Types.ObjectId.isValid(item.productId) ? await Product.findById(item.productId) : null;
+    if (product) {
+      if (product.shopId.toString() !== shopId) {
+        throw new PricingError(400, `${product.name} is not sold by this shop`);
+      }
+      if (!product.isAvailable) {
+        throw new PricingError(400, `${product.name} is currently unavailable`);
+      }
+      name = product.name;
+      price = product.discountPrice ?? product.price;
+      image = product.images?.[0] || "";
+      itemProductId = product._id as Types.ObjectId;
+
+      if (product.variants.length) {
+        const selected = findVariant(product, item.variantId);
+        if (!selected) {
+          throw new PricingError(400, `Please choose ${product.options.map((o) => o.name.toLowerCase()).join(" and ")} for ${product.name}`);
+        }
+        if (!isVariantAvailable(selected)) {
+          throw new PricingError(400, `${product.name} (${describeVariant(selected)}) is currently unavailable`);
+        }
+        price = selected.discountPrice ?? selected.price;
+        image = selected.images?.[0] || image;
+        variant = { variantId: selected._id, variantLabel: describeVariant(selected), sku: selected.sku };
+      }
+    } else {
+      const callInvoice = Types.ObjectId.isValid(item.productId) ? await CallInvoice.findById(item.productId) : null;
+      if (!callInvoice) {
+        throw new PricingError(404, `Product or invoice ${item.productId} not found`);
+      }
+      if (callInvoice.customerId.toString() !== customerId.toString()) {
+        throw new PricingError(403, "Call invoice does not belong to you");
+      }
+      if (callInvoice.shopId.toString() !== shopId) {
+        throw new PricingError(400, "Call invoice shop does not match order shop");
+      }
+      const expiresAt = (callInvoice as any).expiresAt;
+      // Missing expiresAt = old invoice (before 15-min rule); treat as expired
+      if (!expiresAt || new Date(expiresAt) < new Date()) {
+        throw new PricingError(
+          400,
+          "This invoice has expired. You have 15 minutes from when the seller sent it to place the order. Please request a new invoice from the seller."
+        );
+      }
+      name = callInvoice.itemName;
+      price = callInvoice.price;
+      image = callInvoice.imageUrl || "";
+      itemProductId = callInvoice._id as Types.ObjectId;
+    }
+
+    lineItems.push({
+      productId: itemProductId,
+      ...variant,
+      name,
+      price,
+      quantity,
+      image,
+      lineTotal: price * quantity,
+    });
+  }
+
+  return lineItems;
+}
+
+/**
+ * Turn a promo code into a discount on one order of the checkout: the shop the
+ * coupon belongs to, or for platform-wide codes the first order that qualifies.
+ */
+async function resolveCheckoutPromo(
+  promoCode: string | undefined,
+  customerId: Types.ObjectId,
+  orders: { shopId: string; subtotal: number }[]
+): Promise<{ index: number; discount: IOrderDiscount } | null> {
+  if (!promoCode?.trim()) return null;
+
+  let firstError: string | null = null;
+  let platformMatch: { index: number; discount: IOrderDiscount } | null = null;
+
+  for (let index = 0; index < orders.length; index++) {
+    const { shopId, subtotal } = orders[index];
+    const result = await findApplicableCoupon(promoCode, customerId, shopId, subtotal);
+    if (!result.ok) {
+      firstError = firstError ?? result.message;
+      continue;
+    }
+    const discount: IOrderDiscount = {
+      code: result.coupon.code,
+      couponId: result.coupon._id as Types.ObjectId,
+      label: result.label,
+      amount: result.amount,
+    };
+    if (result.coupon.shopId) return { index, discount };
+    platformMatch = platformMatch ?? { index, discount };
+  }
+
+  if (platformMatch) return platformMatch;
+  throw new PricingError(400, firstError ?? "Invalid promo code");
+}
+
+/**
+ * Compute the price breakdown for a set of line items.
+ * Tax is charged on the discounted subtotal plus the platform fee; the
+ * delivery fee is added untaxed. Wallet credit is applied last and does not
+ * reduce tax.
+ */
+export function computePricing(
+  lineItems: QuoteLineItem[],
+  discounts: IOrderDiscount[] = [],
+  walletAmount = 0,
+  deliveryFee = 0
+): IOrderPricing {
+  const subtotal = lineItems.reduce((sum, item) => sum + item.lineTotal, 0);
+  const platformFee = Math.round(subtotal * PLATFORM_FEE_RATE);
+  const discountTotal = discounts.reduce((sum, d) => sum + d.amount, 0);
+
+  const taxable = Math.max(0, subtotal - discountTotal + platformFee);
+  const taxTotal = Math.round(taxable * TAX_RATE);
+  const taxBreakdown = [{ name: "GST", rate: TAX_RATE, amount: taxTotal }];
+
+  const grandTotal = Math.max(0, subtotal + platformFee - discountTotal + taxTotal) + deliveryFee;
+  const walletApplied = Math.max(0, Math.min(walletAmount, grandTotal));
+
+  return {
+    subtotal,
+    platformFee,
+    deliveryFee,
+    discounts,
+    discountTotal,
+    taxBreakdown,
+    taxTotal,
+    grandTotal,
+    walletApplied,
+    payable: grandTotal - walletApplied,
+  };
+}
+
+/** Add up per-order breakdowns into one summary for the whole checkout */
+export function sumPricing(pricings: IOrderPricing[]): IOrderPricing {
+  const total = (pick: (p: IOrderPricing) => number) => pricings.reduce((sum, p) => sum + pick(p), 0);
+
+  const taxByName = new Map<string, { name: string; rate: number; amount: number }>();
+  for (const line of pricings.flatMap((p) => p.taxBreakdown)) {
+    const existing = taxByName.get(line.name);
+    if (existing) existing.amount += line.amount;
+    else taxByName.set(line.name, { ...line });
+  }
+
+  return {
+    subtotal: total((p) => p.subtotal),
+    platformFee: total((p) => p.platformFee),
+    deliveryFee: total((p) => p.deliveryFee ?? 0),
+    discounts: pricings.flatMap((p) => p.discounts),
+    discountTotal: total((p) => p.discountTotal),
+    taxBreakdown: [...taxByName.values()],
+    taxTotal: total((p) => p.taxTotal),
+    grandTotal: total((p) => p.grandTotal),
+    walletApplied: total((p) => p.walletApplied),
+    payable: total((p) => p.payable),
+  };
+}
+
+/**
+ * Price a checkout exactly as POST /orders will charge it. Each shop becomes
+ * its own order; wallet credit is spent on the orders in the given sequence.
+ */
+export async function buildCheckoutQuote(
+  customerId: Types.ObjectId,
+  shops: CheckoutShopInput[],
+  options: QuoteOptions = {}
+): Promise<CheckoutQuote> {
+  const shopIds = shops.map((s) => String(s.shopId));
+  if (new Set(shopIds).size !== shopIds.length) {
+    throw new PricingError(400, "Each shop may only appear once in a checkout");
+  }
+
+  const resolved: { shopId: string; lineItems: QuoteLineItem[]; subtotal: number }[] = [];
+  for (const shop of shops) {
+    if (!shop.items?.length) {
+      throw new PricingError(400, `No items for shop ${shop.shopId}`);
+    }
+    const shopId = String(shop.shopId);
+    const lineItems = await resolveOrderItems(customerId, shopId, shop.items);
+    resolved.push({ shopId, lineItems, subtotal: lineItems.reduce((sum, item) => sum + item.lineTotal, 0) });
+  }
+
+  const promo = await resolveCheckoutPromo(options.promoCode, customerId, resolved);
+
+  let walletRemaining = 0;
+  const requestedWallet = Number(options.walletAmount) || 0;
+  if (requestedWallet > 0) {
+    walletRemaining = Math.min(requestedWallet, await getWalletBalance(customerId));
+  }
+
+  const deliveryByShop = new Map<string, DeliveryCheck>();
+  if (options.deliveryAddress) {
+    const shopDocs = await Shop.find({ _id: { $in: shopIds } }).select("delivery location").lean();
+    const shopById = new Map(shopDocs.map((s: any) => [s._id.toString(), s]));
+    for (const { shopId, subtotal } of resolved) {
+      deliveryByShop.set(shopId, checkDelivery(shopById.get(shopId), options.deliveryAddress, subtotal));
+    }
+  }
+
+  const quotes: ShopQuote[] = resolved.map(({ shopId, lineItems }, index) => {
+    const discounts = promo && promo.index === index ? [promo.discount] : [];
+    const delivery = deliveryByShop.get(shopId);
+    const pricing = computePricing(lineItems, discounts, walletRemaining, delivery?.deliveryFee ?? 0);
+    walletRemaining -= pricing.walletApplied;
+    return delivery ? { shopId, lineItems, pricing, delivery } : { shopId, lineItems, pricing };
+  });
+
+  return { shops: quotes, pricing: sumPricing(quotes.map((q) => q.pricing)) };
+}
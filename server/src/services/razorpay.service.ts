@@ -0,0 +1,149 @@
+import Razorpay from "razorpay";
+
+import type { IPayment } from "../models/payment.model";
+import type { IRefund } from "../models/refund.model";
+import type {
+  CreatePaymentInput,
+  CreatedPayment,
+  PaymentProviderAdapter,
+  PaymentStatusUpdate,
+  RefundInput,
+  RefundResult,
+  RefundStatusUpdate,
+  WebhookHeaders,
+} from "./payment.service";
+
+const RAZORPAY_KEY_ID = process.env.RAZORPAY_KEY_ID || "";
+const RAZORPAY_KEY_SECRET = process.env.RAZORPAY_KEY_SECRET || "";
+const RAZORPAY_WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || "";
+
+let client: Razorpay | null = null;
+
+function razorpayClient(): Razorpay {
+  if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET) {
+    throw new Error("Razorpay configuration is missing. Please set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET in server/.env");
+  }
+  if (!client) {
+    client = new Razorpay({ key_id: RAZORPAY_KEY_ID, key_secret: RAZORPAY_KEY_SECRET });
+  }
+  return client;
+}
+
+function toPaise(amount: number, what: string): number {
+  const amountPaise = Math.round(amount * 100);
+  if (!Number.isFinite(amountPaise) || amountPaise <= 0) {
+    throw new Error(`Invalid ${what} amount for Razorpay`);
+  }
+  return amountPaise;
+}
+
+function paymentStatus(status: string | undefined): PaymentStatusUpdate["status"] {
+  if (status === "captured" || status === "paid") return "succeeded";
+  if (status === "failed") return "failed";
+  return "pending";
+}
+
+/**
+ * Razorpay payments start from a gateway order; the app opens Razorpay
+ * Checkout with the key and order id, so there is no redirect URL.
+ */
+async function createPayment({ transactionId, amount, customerId }: CreatePaymentInput): Promise<CreatedPayment> {
+  const order = await razorpayClient().orders.create({
+    amount: toPaise(amount, "order"),
+    currency: "INR",
+    receipt: transactionId,
+    notes: { transactionId, customerId },
+  });
+
+  return {
+    providerOrderId: order.id,
+    clientData: { keyId: RAZORPAY_KEY_ID, orderId: order.id, amount: order.amount, currency: order.currency },
+  };
+}
+
+function refundStatus(status: string | undefined): RefundResult["status"] {
+  if (status === "processed") return "succeeded";
+  if (status === "failed") return "failed";
+  return "pending";
+}
+
+/** Webhooks are signed with HMAC-SHA256 of the raw body using the webhook secret */
+function parseWebhook(rawBody: string, headers: WebhookHeaders): PaymentStatusUpdate | RefundStatusUpdate | null {
+  if (!RAZORPAY_WEBHOOK_SECRET) {
+    throw new Error("Razorpay webhook secret is missing. Please set RAZORPAY_WEBHOOK_SECRET in server/.env");
+  }
+  const signature = headers["x-razorpay-signature"];
+  if (typeof signature !== "string" || !signature) {
+    throw new Error("Missing X-Razorpay-Signature header");
+  }
+  if (!Razorpay.validateWebhookSignature(rawBody, signature, RAZORPAY_WEBHOOK_SECRET)) {
+    throw new Error("Razorpay signature verification failed");
+  }
+
+  const body = JSON.parse(rawBody);
+  if (body?.event === "refund.processed" || body?.event === "refund.failed") {
+    const refund = body?.payload?.refund?.entity;
+    if (!refund?.id) return null;
+    return { kind: "refund", refundId: refund.notes?.refundId, providerRefundId: refund.id, status: refundStatus(refund.status) };
+  }
+
+  const payment = body?.payload?.payment?.entity;
+  if (!payment?.order_id || !["payment.captured", "payment.failed", "order.paid"].includes(body?.event)) {
+    return null;
+  }
+
+  return {
+    providerOrderId: payment.order_id,
+    providerPaymentId: payment.id,
+    status: paymentStatus(payment.status),
+  };
+}
+
+/** Paid once any payment against the gateway order is captured; failed only when every attempt failed */
+async function fetchStatus(payment: IPayment): Promise<PaymentStatusUpdate> {
+  if (!payment.providerOrderId) {
+    return { transactionId: payment.paymentIntentId, status: "pending" };
+  }
+
+  const { items } = await razorpayClient().orders.fetchPayments(payment.providerOrderId);
+  const captured = items.find((p) => p.status === "captured");
+  const allFailed = items.length > 0 && items.every((p) => p.status === "failed");
+  return {
+    transactionId: payment.paymentIntentId,
+    providerOrderId: payment.providerOrderId,
+    providerPaymentId: captured?.id,
+    status: captured ? "succeeded" : allFailed ? "failed" : "pending",
+  };
+}
+
+async function refund({ refundId, amount, payment }: RefundInput): Promise<RefundResult> {
+  if (!payment.providerPaymentId) {
+    throw new Error("Razorpay payment id is missing; the payment may not have been captured");
+  }
+
+  const result = await razorpayClient().payments.refund(payment.providerPaymentId, {
+    amount: toPaise(amount, "refund"),
+    receipt: refundId,
+    notes: { refundId },
+  });
+
+  return { providerRefundId: result.id, status: refundStatus(result.status) };
+}
+
+async function fetchRefundStatus(refund: IRefund): Promise<RefundResult> {
+  if (!refund.providerRefundId) {
+    return { status: "pending" };
+  }
+  const result = await razorpayClient().refunds.fetch(refund.providerRefundId);
+  return { providerRefundId: result.id, status: refundStatus(result.status) };
+}
+
+export const razorpayProvider: PaymentProviderAdapter = {
+  key: "razorpay",
+  name: "Razorpay",
+  createPayment,
+  parseWebhook,
+  fetchStatus,
+  refund,
+  fetchRefundStatus,
+};
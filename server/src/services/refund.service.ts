@@ -0,0 +1,213 @@
+import { Types } from "mongoose";
+
+import type { IOrder } from "../models/order.model";
+import type { IPayment } from "../models/payment.model";
+import { Refund, type IRefund, type RefundSource, type RefundStatus } from "../models/refund.model";
+import { createAndSendNotification } from "./notification.service";
+import { creditWallet } from "./wallet.service";
+import { chargeRefundsToSeller } from "./payout.service";
+import {
+  findOrderPayment,
+  providerNamed,
+  type PaymentProviderAdapter,
+  type RefundStatusUpdate,
+} from "./payment.service";
+
+interface RefundOptions {
+  reason: string;
+  source: RefundSource;
+  returnRequestId?: Types.ObjectId;
+}
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+const orderRef = (orderId: Types.ObjectId) => `#${orderId.toString().slice(-6).toUpperCase()}`;
+
+/** Unique per refund and within PhonePe's 35 character transaction id limit */
+function newRefundId(order: IOrder, destination: IRefund["destination"]): string {
+  return `R${destination === "gateway" ? "G" : "W"}${order._id!.toString()}${Date.now().toString(36)}`;
+}
+
+/** How much of the order's online payment hasn't been (or isn't being) refunded yet */
+async function gatewayRefundable(order: IOrder, payment: IPayment | null): Promise<number> {
+  if (order.paymentMethod !== "online" || !payment || payment.status !== "succeeded") return 0;
+  const refunds = await Refund.find({ orderId: order._id, destination: "gateway", status: { $ne: "failed" } }).select("amount");
+  const alreadyRefunded = refunds.reduce((sum, r) => sum + r.amount, 0);
+  return Math.max(0, order.totalAmount - alreadyRefunded);
+}
+
+async function refundToWallet(order: IOrder, amount: number, type: IRefund["type"], options: RefundOptions): Promise<IRefund> {
+  await creditWallet(order.customerId, amount, "refund", { orderId: order._id as Types.ObjectId, note: options.reason });
+  return Refund.create({
+    refundId: newRefundId(order, "wallet"),
+    orderId: order._id,
+    customerId: order.customerId,
+    sellerId: order.sellerId,
+    returnRequestId: options.returnRequestId,
+    source: options.source,
+    destination: "wallet",
+    type,
+    amount,
+    reason: options.reason,
+    status: "succeeded",
+    settledAt: new Date(),
+  });
+}
+
+async function refundToGateway(
+  order: IOrder,
+  payment: IPayment,
+  amount: number,
+  type: IRefund["type"],
+  options: RefundOptions
+): Promise<IRefund> {
+  const refund = await Refund.create({
+    refundId: newRefundId(order, "gateway"),
+    orderId: order._id,
+    customerId: order.customerId,
+    sellerId: order.sellerId,
+    paymentId: payment._id,
+    returnRequestId: options.returnRequestId,
+    source: options.source,
+    destination: "gateway",
+    provider: payment.provider,
+    type,
+    amount,
+    reason: options.reason,
+  });
+
+  try {
+    const result = await providerNamed(payment.provider).refund({
+      refundId: refund.refundId,
+      amount,
+      payment,
+      customerId: order.customerId.toString(),
+    });
+    if (result.providerRefundId) refund.providerRefundId = result.providerRefundId;
+    await settleRefund(refund, result.status, { notify: false });
+  } catch (err: any) {
+    console.error("[Gateway Refund Error]", err);
+    await settleRefund(refund, "failed", { notify: false, failureReason: err?.message });
+  }
+  return refund;
+}
+
+/**
+ * Give `amount` of an order back to the customer. Whatever was paid online goes
+ * back through the gateway; the rest (wallet credit, cash on delivery) goes to
+ * the wallet. Updates the order's refunded total and payment status; the
+ * caller saves the order and tells the customer (see describeRefunds).
+ */
+export async function refundOrderPayment(order: IOrder, amount: number, options: RefundOptions): Promise<IRefund[]> {
+  if (!(amount > 0)) return [];
+
+  const grandTotal = order.pricing?.grandTotal ?? order.totalAmount;
+  const type = amount >= grandTotal ? "full" : "partial";
+  const payment = await findOrderPayment(order);
+  const gatewayPart = Math.min(amount, await gatewayRefundable(order, payment));
+  const walletPart = Math.round((amount - gatewayPart) * 100) / 100;
+
+  const refunds: IRefund[] = [];
+  if (gatewayPart > 0) refunds.push(await refundToGateway(order, payment!, gatewayPart, type, options));
+  if (walletPart > 0) refunds.push(await refundToWallet(order, walletPart, type, options));
+  if (options.source === "return") await chargeRefundsToSeller(order, refunds);
+
+  order.refundedAmount = (order.refundedAmount ?? 0) + amount;
+  if (order.paymentStatus === "paid" && order.refundedAmount >= grandTotal) {
+    order.paymentStatus = "refunded";
+  }
+
+  await createAndSendNotification(
+    order.sellerId.toString(),
+    "order",
+    "Refund issued",
+    `${formatAmount(amount)} was refunded to the customer for order ${orderRef(order._id as Types.ObjectId)}.`,
+    { orderId: order._id!.toString(), type: "refund_issued" }
+  );
+
+  return refunds;
+}
+
+/**
+ * Everything the customer paid for a cancelled order: wallet credit used at
+ * checkout, plus the online payment if it went through.
+ */
+export async function refundCancelledOrder(order: IOrder, reason: string): Promise<IRefund[]> {
+  const paidOnline = order.paymentStatus === "paid" && order.paymentMethod !== "cod" && order.paymentMethod !== "wallet";
+  const amount = (order.pricing?.walletApplied ?? 0) + (paidOnline ? order.totalAmount : 0);
+  return refundOrderPayment(order, amount, { reason, source: "cancellation" });
+}
+
+/** One sentence for the customer about where their money is going */
+export function describeRefunds(refunds: IRefund[]): string {
+  const parts = refunds.map((r) => {
+    if (r.destination === "wallet" || r.walletFallback) return `${formatAmount(r.amount)} was added to your Bazaario wallet`;
+    if (r.status === "succeeded") return `${formatAmount(r.amount)} was refunded to your original payment method`;
+    return `${formatAmount(r.amount)} will be refunded to your original payment method in 5-7 working days`;
+  });
+  return parts.length ? `${parts.join(" and ")}.` : "";
+}
+
+/**
+ * Record the gateway's final answer for a refund. A refund the gateway
+ * couldn't make is credited to the wallet instead, so the customer is never
+ * left without their money.
+ */
+async function settleRefund(
+  refund: IRefund,
+  status: RefundStatus,
+  { notify = true, failureReason }: { notify?: boolean; failureReason?: string } = {}
+): Promise<void> {
+  if (refund.status !== "pending" || status === "pending") {
+    await refund.save();
+    return;
+  }
+
+  refund.status = status;
+  refund.settledAt = new Date();
+  if (status === "failed") {
+    refund.failureReason = failureReason || refund.failureReason || "Refund failed at the payment gateway";
+    await creditWallet(refund.customerId, refund.amount, "refund", {
+      orderId: refund.orderId,
+      note: "Refund to original payment method failed",
+    });
+    refund.walletFallback = true;
+  }
+  await refund.save();
+
+  if (!notify) return;
+  await createAndSendNotification(
+    refund.customerId.toString(),
+    "order",
+    status === "succeeded" ? "Refund processed" : "Refund added to wallet",
+    status === "succeeded"
+      ? `${formatAmount(refund.amount)} has been refunded to your original payment method.`
+      : `We couldn't refund ${formatAmount(refund.amount)} to your original payment method, so it was added to your Bazaario wallet.`,
+    { orderId: refund.orderId.toString(), refundId: refund.refundId, status: refund.status, type: "refund_update" }
+  );
+}
+
+/** Apply a refund update from a gateway webhook. Returns null when no refund matches. */
+export async function settleRefundFromGateway(
+  provider: PaymentProviderAdapter,
+  update: RefundStatusUpdate
+): Promise<IRefund | null> {
+  const refund = update.refundId
+    ? await Refund.findOne({ refundId: update.refundId, provider: provider.name })
+    : update.providerRefundId
+      ? await Refund.findOne({ providerRefundId: update.providerRefundId, provider: provider.name })
+      : null;
+  if (!refund) return null;
+
+  if (update.providerRefundId && !refund.providerRefundId) refund.providerRefundId = update.providerRefundId;
+  await settleRefund(refund, update.status);
+  return refund;
+}
+
+/** Ask the gateway about a refund that is still pending and apply the answer */
+export async function refreshRefundStatus(refund: IRefund): Promise<IRefund> {
+  if (refund.status !== "pending" || refund.destination !== "gateway" || !refund.provider) return refund;
+  const result = await providerNamed(refund.provider).fetchRefundStatus(refund);
+  if (result.providerRefundId && !refund.providerRefundId) refund.providerRefundId = result.providerRefundId;
+  await settleRefund(refund, result.status);
+  return refund;
+}
@@ -0,0 +1,346 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Order, type IOrder } from "../models/order.model";
+import {
+  ReturnRequest,
+  type IReturnRequest,
+  type IReturnRequestEvent,
+  type IReturnRequestItem,
+  type ReturnRequestStatus,
+  type ReturnRequestType,
+} from "../models/returnRequest.model";
+import { createAndSendNotification } from "./notification.service";
+import { refundOrderPayment, describeRefunds } from "./refund.service";
+import { reserveOrderStock, restockReturnedItems, InventoryError } from "./inventory.service";
+import { pickupSlotsFor, generatePickupCode } from "./pickup.service";
+
+/** Thrown when a return/exchange request can't be opened or moved on; `status` is the HTTP status to respond with */
+export class ReturnError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ReturnError";
+    this.status = status;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RETURN_TRANSITIONS: Record<ReturnRequestStatus, ReturnRequestStatus[]> = {
+  requested: ["approved", "rejected", "cancelled"],
+  approved: ["received"],
+  received: ["refunded", "replaced"],
+  rejected: [],
+  cancelled: [],
+  refunded: [],
+  replaced: [],
+};
+
+/** Requests that still hold (or used up) the order's quantities */
+const ACTIVE_STATUSES: ReturnRequestStatus[] = ["requested", "approved", "received", "refunded", "replaced"];
+
+type Actor = Pick<IReturnRequestEvent, "actorId" | "actorRole">;
+
+export interface ReturnItemInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export interface OpenReturnInput {
+  type: ReturnRequestType;
+  items: ReturnItemInput[];
+  reason: string;
+  details?: string;
+  images: string[];
+}
+
+function lineKey(item: { productId: Types.ObjectId | string; variantId?: Types.ObjectId | string }): string {
+  return item.variantId ? `${item.productId}:${item.variantId}` : item.productId.toString();
+}
+
+/** When the order reached the customer; older orders without a timeline fall back to their last update */
+export function orderDeliveredAt(order: IOrder): Date | null {
+  if (order.status !== "delivered") return null;
+  const delivered = order.statusHistory.find((h) => h.status === "delivered");
+  return delivered?.at ?? order.updatedAt;
+}
+
+/** Last day a return or exchange can be opened, or null when the shop doesn't offer it */
+export function returnDeadline(order: IOrder, shop: { returnDays?: number | null; exchangeDays?: number | null }, type: ReturnRequestType): Date | null {
+  const deliveredAt = orderDeliveredAt(order);
+  const days = type === "return" ? shop.returnDays : shop.exchangeDays;
+  if (!deliveredAt || !days || days <= 0) return null;
+  return new Date(deliveredAt.getTime() + days * DAY_MS);
+}
+
+function moveRequest(request: IReturnRequest, to: ReturnRequestStatus, actor: Actor, note?: string) {
+  if (!RETURN_TRANSITIONS[request.status].includes(to)) {
+    throw new ReturnError(409, `This request is already ${request.status}`);
+  }
+  request.status = to;
+  request.history.push({ status: to, at: new Date(), ...actor, note });
+}
+
+/** Quantities of each order line already covered by other requests */
+async function claimedQuantities(orderId: Types.ObjectId): Promise<Map<string, number>> {
+  const requests = await ReturnRequest.find({ orderId, status: { $in: ACTIVE_STATUSES } }).select("items");
+  const claimed = new Map<string, number>();
+  for (const request of requests) {
+    for (const item of request.items) {
+      claimed.set(lineKey(item), (claimed.get(lineKey(item)) ?? 0) + item.quantity);
+    }
+  }
+  return claimed;
+}
+
+/**
+ * Open a return or exchange for some items of a delivered order, as long as the
+ * shop's window for that kind of request is still open.
+ */
+export async function openReturnRequest(customerId: Types.ObjectId, order: IOrder, input: OpenReturnInput): Promise<IReturnRequest> {
+  if (order.status !== "delivered") {
+    throw new ReturnError(400, "Only delivered orders can be returned or exchanged");
+  }
+  const shop = await Shop.findById(order.shopId).select("name returnDays exchangeDays");
+  if (!shop) throw new ReturnError(404, "Shop not found");
+
+  const kind = input.type === "return" ? "returns" : "exchanges";
+  const deadline = returnDeadline(order, shop, input.type);
+  if (!deadline) {
+    throw new ReturnError(400, `${shop.name} doesn't accept ${kind}`);
+  }
+  if (deadline < new Date()) {
+    throw new ReturnError(400, `The ${input.type} window for this order closed on ${deadline.toLocaleDateString("en-IN")}`);
+  }
+
+  const reason = input.reason?.trim();
+  if (!reason) throw new ReturnError(400, "Please tell the shop why");
+  if (!input.items.length) throw new ReturnError(400, "Choose at least one item");
+
+  const claimed = await claimedQuantities(order._id as Types.ObjectId);
+  const items: IReturnRequestItem[] = input.items.map((requested) => {
+    const line = order.items.find((i) => lineKey(i) === lineKey(requested));
+    if (!line) throw new ReturnError(400, "That item isn't part of this order");
+    const left = line.quantity - (claimed.get(lineKey(line)) ?? 0);
+    const quantity = Number(requested.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) throw new ReturnError(400, `Invalid quantity for ${line.name}`);
+    if (quantity > left) {
+      throw new ReturnError(400, left > 0 ? `Only ${left} of ${line.name} can still be ${input.type}ed` : `${line.name} already has a request`);
+    }
+    return {
+      productId: line.productId,
+      variantId: line.variantId,
+      variantLabel: line.variantLabel,
+      name: line.name,
+      price: line.price,
+      quantity,
+      image: line.image,
+    };
+  });
+
+  const request = await ReturnRequest.create({
+    orderId: order._id,
+    customerId,
+    shopId: order.shopId,
+    sellerId: order.sellerId,
+    type: input.type,
+    items,
+    reason,
+    details: input.details?.trim() || undefined,
+    images: input.images,
+    history: [{ status: "requested", at: new Date(), actorId: customerId, actorRole: "customer" }],
+  });
+
+  const count = items.reduce((sum, i) => sum + i.quantity, 0);
+  await createAndSendNotification(
+    order.sellerId.toString(),
+    "order",
+    input.type === "return" ? "Return requested" : "Exchange requested",
+    `A customer wants to ${input.type} ${count} item${count === 1 ? "" : "s"}: ${reason}`,
+    { orderId: order._id!.toString(), returnId: request._id!.toString(), type: "return_requested" }
+  );
+  return request;
+}
+
+export async function approveReturnRequest(request: IReturnRequest, sellerId: Types.ObjectId, note?: string): Promise<void> {
+  moveRequest(request, "approved", { actorId: sellerId, actorRole: "seller" }, note);
+  request.sellerNote = note || request.sellerNote;
+  await request.save();
+  await notifyCustomer(
+    request,
+    request.type === "return" ? "Return approved" : "Exchange approved",
+    `Please hand the item${request.items.length === 1 ? "" : "s"} back to the shop.${note ? ` ${note}` : ""}`
+  );
+}
+
+export async function rejectReturnRequest(request: IReturnRequest, sellerId: Types.ObjectId, note: string): Promise<void> {
+  if (!note?.trim()) throw new ReturnError(400, "Please give the customer a reason");
+  moveRequest(request, "rejected", { actorId: sellerId, actorRole: "seller" }, note.trim());
+  request.sellerNote = note.trim();
+  await request.save();
+  await notifyCustomer(
+    request,
+    request.type === "return" ? "Return declined" : "Exchange declined",
+    `The shop declined your request: ${note.trim()}`
+  );
+}
+
+export async function cancelReturnRequest(request: IReturnRequest, customerId: Types.ObjectId): Promise<void> {
+  moveRequest(request, "cancelled", { actorId: customerId, actorRole: "customer" });
+  await request.save();
+  await createAndSendNotification(
+    request.sellerId.toString(),
+    "order",
+    "Request withdrawn",
+    `The customer withdrew their ${request.type} request.`,
+    { orderId: request.orderId.toString(), returnId: request._id!.toString(), type: "return_cancelled" }
+  );
+}
+
+/**
+ * The seller has the goods back. Returns are refunded the way they were paid (gateway or wallet);
+ * exchanges get a zero-value replacement order that goes through the usual order flow.
+ * Returned goods go back into stock unless `restock` is false (e.g. damaged items).
+ */
+export async function receiveReturnRequest(request: IReturnRequest, sellerId: Types.ObjectId, restock = true): Promise<void> {
+  const order = await Order.findById(request.orderId);
+  if (!order) throw new ReturnError(404, "Order not found");
+  const seller = { actorId: sellerId, actorRole: "seller" as const };
+  moveRequest(request, "received", seller);
+
+  // Claim the request before refunding or restocking, so a repeated call can't do either twice
+  const claimed = await ReturnRequest.updateOne({ _id: request._id, status: "approved" }, { $set: { status: "received" } });
+  if (claimed.modifiedCount === 0) {
+    throw new ReturnError(409, "This request was updated in the meantime; refresh and try again");
+  }
+
+  if (request.type === "exchange") {
+    let replacement: IOrder;
+    try {
+      replacement = await createReplacementOrder(request, order);
+    } catch (err) {
+      // Nothing has happened yet; let the seller try again once the shop can send one
+      await ReturnRequest.updateOne({ _id: request._id, status: "received" }, { $set: { status: "approved" } });
+      throw err;
+    }
+    if (restock) await restockReturnedItems(request.items);
+    request.replacementOrderId = replacement._id as Types.ObjectId;
+    moveRequest(request, "replaced", seller);
+    await request.save();
+    if (replacement.fulfilmentType === "pickup") {
+      await notifyCustomer(request, "Replacement to collect", "The shop received your item. Collect the replacement with your new pickup code.");
+    } else {
+      await notifyCustomer(request, "Replacement on its way", "The shop received your item and is sending a replacement.");
+    }
+    return;
+  }
+
+  if (restock) await restockReturnedItems(request.items);
+  const amount = await refundShare(request, order);
+  const refunds = await refundOrderPayment(order, amount, {
+    reason: "Returned items",
+    source: "return",
+    returnRequestId: request._id as Types.ObjectId,
+  });
+  await order.save();
+
+  request.refundAmount = amount;
+  moveRequest(request, "refunded", seller);
+  await request.save();
+  await notifyCustomer(
+    request,
+    refunds.length ? "Refund started" : "Return received",
+    refunds.length ? `The shop received your returned items. ${describeRefunds(refunds)}` : "The shop received your returned items."
+  );
+}
+
+/**
+ * What the returned items are worth out of what was paid for the order: their
+ * share of the grand total (so discounts, fees and tax are split pro rata).
+ * The last return of an order gets whatever is left, so rounding never leaves money behind.
+ */
+async function refundShare(request: IReturnRequest, order: IOrder): Promise<number> {
+  if (order.paymentStatus !== "paid") return 0;
+
+  const grandTotal = order.pricing?.grandTotal ?? order.totalAmount;
+  const remaining = Math.max(0, grandTotal - (order.refundedAmount ?? 0));
+  const subtotal = order.pricing?.subtotal ?? order.items.reduce((sum, i) => sum + i.price * i.quantity, 0);
+  if (!subtotal) return 0;
+
+  const refunded = await ReturnRequest.find({ orderId: order._id, type: "return", status: "refunded" }).select("items");
+  const returned = new Map<string, number>();
+  for (const item of [...refunded.flatMap((r) => r.items), ...request.items]) {
+    returned.set(lineKey(item), (returned.get(lineKey(item)) ?? 0) + item.quantity);
+  }
+  const everythingBack = order.items.every((i) => (returned.get(lineKey(i)) ?? 0) >= i.quantity);
+  if (everythingBack) return remaining;
+
+  const value = request.items.reduce((sum, i) => sum + i.price * i.quantity, 0);
+  return Math.min(remaining, Math.round((grandTotal * value) / subtotal));
+}
+
+/** A pickup order's replacement is collected too, at the shop's next slot with a fresh code */
+async function replacementPickup(original: IOrder): Promise<IOrder["pickup"]> {
+  if (original.fulfilmentType !== "pickup") return undefined;
+  const shop = await Shop.findById(original.shopId).select("name callTimings");
+  const slot = pickupSlotsFor(shop)[0]?.slots[0];
+  if (!slot) {
+    throw new ReturnError(409, "The shop has no pickup times in the next few days for the replacement");
+  }
+  return { slot, code: generatePickupCode(), failedAttempts: 0 };
+}
+
+async function createReplacementOrder(request: IReturnRequest, original: IOrder): Promise<IOrder> {
+  const now = new Date();
+  const pickup = await replacementPickup(original);
+  const replacement = new Order({
+    customerId: original.customerId,
+    shopId: original.shopId,
+    sellerId: original.sellerId,
+    items: request.items.map((i) => ({
+      productId: i.productId,
+      variantId: i.variantId,
+      variantLabel: i.variantLabel,
+      name: i.name,
+      price: i.price,
+      quantity: i.quantity,
+      image: i.image,
+    })),
+    status: "confirmed",
+    statusHistory: [
+      { status: "pending", at: now, actorRole: "system", note: "Replacement for an exchange" },
+      { status: "confirmed", at: now, actorId: request.sellerId, actorRole: "seller" },
+    ],
+    totalAmount: 0,
+    fulfilmentType: original.fulfilmentType ?? "delivery",
+    deliveryAddress: original.deliveryAddress,
+    pickup,
+    paymentMethod: "cod",
+    paymentStatus: "paid",
+    replacementFor: request._id,
+    notes: `Replacement for order #${original._id!.toString().slice(-6).toUpperCase()}`,
+  });
+
+  try {
+    await reserveOrderStock([replacement]);
+  } catch (err) {
+    if (err instanceof InventoryError) {
+      throw new ReturnError(err.status, `${err.message}, so a replacement can't be sent yet`);
+    }
+    throw err;
+  }
+  await replacement.save();
+  return replacement;
+}
+
+async function notifyCustomer(request: IReturnRequest, title: string, body: string) {
+  await createAndSendNotification(request.customerId.toString(), "order", title, body, {
+    orderId: request.orderId.toString(),
+    returnId: request._id!.toString(),
+    status: request.status,
+    type: "return_update",
+  });
+}
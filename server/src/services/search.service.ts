@@ -0,0 +1,414 @@
+import { Types, type PipelineStage } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Product } from "../models/product.model";
+import { Market } from "../models/market.model";
+import { Category } from "../models/category.model";
+
+/*
+ * Search over shops, products and markets using their text indexes. Matches
+ * are ranked by Mongo's text score, nudged up for well-rated shops and for
+ * Pro/Premium plans (listingBoost), so a better match still beats a bigger
+ * shop. With filters but no query the same routes browse by rating and plan.
+ * Pages use an opaque cursor (the last row's sort value and id) rather than
+ * an offset, so results don't shift while the customer scrolls.
+ */
+
+/** Thrown for search queries we can't run; `status` is the HTTP status to respond with */
+export class SearchError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "SearchError";
+    this.status = status;
+  }
+}
+
+export type SearchType = "shops" | "products" | "markets";
+export type SearchSort = "relevance" | "rating" | "newest" | "price_asc" | "price_desc";
+
+const SEARCH_TYPES: SearchType[] = ["shops", "products", "markets"];
+const SEARCH_SORTS: SearchSort[] = ["relevance", "rating", "newest", "price_asc", "price_desc"];
+
+const MIN_QUERY_LENGTH = 2;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+/** Score multiplier per rating star (a 5-star shop ranks 25% higher) */
+const RATING_WEIGHT = 0.05;
+/** Score multiplier per listingBoost step (Premium ranks 30% higher) */
+const TIER_WEIGHT = 0.15;
+
+export interface SearchParams {
+  q: string;
+  types: SearchType[];
+  categoryId?: string;
+  marketId?: string;
+  city?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock: boolean;
+  sort: SearchSort;
+  cursor?: string;
+  limit: number;
+}
+
+interface SortSpec {
+  /** Aggregation expression the rows are ordered by (ties broken by _id) */
+  expr: any;
+  dir: 1 | -1;
+}
+
+interface Cursor {
+  t: SearchType;
+  s: SearchSort;
+  v: number | string | null;
+  /** `v` is an ISO date */
+  d?: 1;
+  id: string;
+}
+
+/** Match `value` literally inside a RegExp */
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function optionalNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new SearchError(400, `${name} must be a non-negative number`);
+  return n;
+}
+
+function optionalId(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string" || !Types.ObjectId.isValid(value)) throw new SearchError(400, `Invalid ${name}`);
+  return value;
+}
+
+/** Read and validate the query string of GET /search */
+export function parseSearchParams(query: Record<string, any>): SearchParams {
+  const q = typeof query.q === "string" ? query.q.trim().slice(0, 100) : "";
+
+  let types = SEARCH_TYPES;
+  if (typeof query.type === "string" && query.type && query.type !== "all") {
+    if (!SEARCH_TYPES.includes(query.type as SearchType)) throw new SearchError(400, "Invalid type");
+    types = [query.type as SearchType];
+  }
+
+  const sort = (typeof query.sort === "string" && query.sort ? query.sort : "relevance") as SearchSort;
+  if (!SEARCH_SORTS.includes(sort)) throw new SearchError(400, "Invalid sort");
+
+  const cursor = typeof query.cursor === "string" && query.cursor ? query.cursor : undefined;
+  if (cursor && types.length !== 1) throw new SearchError(400, "cursor needs a single type");
+
+  const minPrice = optionalNumber(query.minPrice, "minPrice");
+  const maxPrice = optionalNumber(query.maxPrice, "maxPrice");
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    throw new SearchError(400, "minPrice can't be more than maxPrice");
+  }
+
+  return {
+    q,
+    types,
+    categoryId: optionalId(query.category, "category"),
+    marketId: optionalId(query.market, "market"),
+    city: typeof query.city === "string" && query.city.trim() ? query.city.trim() : undefined,
+    minPrice,
+    maxPrice,
+    minRating: optionalNumber(query.minRating, "minRating"),
+    inStock: query.inStock === "true" || query.inStock === "1",
+    sort,
+    cursor,
+    limit: Math.min(MAX_LIMIT, Math.max(1, Math.floor(Number(query.limit) || DEFAULT_LIMIT))),
+  };
+}
+
+function hasFilters(params: SearchParams): boolean {
+  return Boolean(
+    params.categoryId ||
+      params.marketId ||
+      params.city ||
+      params.minPrice !== undefined ||
+      params.maxPrice !== undefined ||
+      params.minRating !== undefined ||
+      params.inStock
+  );
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string, type: SearchType, sort: SearchSort): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8")) as Cursor;
+    if (cursor.t === type && cursor.s === sort && Types.ObjectId.isValid(cursor.id)) return cursor;
+  } catch {
+    // fall through
+  }
+  throw new SearchError(400, "Invalid cursor");
+}
+
+/** Text score (1 when browsing without a query) scaled up by rating and plan */
+function scoreExpr(hasQuery: boolean, rating: string, boost?: string) {
+  const multiplier: any[] = [1, { $multiply: [RATING_WEIGHT, { $ifNull: [rating, 0] }] }];
+  if (boost) multiplier.push({ $multiply: [TIER_WEIGHT, { $ifNull: [boost, 0] }] });
+  return { $multiply: [hasQuery ? { $meta: "textScore" } : 1, { $add: multiplier }] };
+}
+
+/** Order by `_sort` then `_id`, resuming after the cursor row when there is one */
+function pageStages(spec: SortSpec, params: SearchParams, type: SearchType): PipelineStage[] {
+  const stages: PipelineStage[] = [{ $addFields: { _sort: spec.expr } }];
+  if (params.cursor) {
+    const cursor = decodeCursor(params.cursor, type, params.sort);
+    const value = cursor.d && typeof cursor.v === "string" ? new Date(cursor.v) : cursor.v;
+    const id = new Types.ObjectId(cursor.id);
+    const op = spec.dir === -1 ? "$lt" : "$gt";
+    stages.push({ $match: { $or: [{ _sort: { [op]: value } }, { _sort: value, _id: { [op]: id } }] } });
+  }
+  stages.push({ $sort: { _sort: spec.dir, _id: spec.dir } }, { $limit: params.limit + 1 });
+  return stages;
+}
+
+function toPage<T>(rows: any[], params: SearchParams, type: SearchType, map: (row: any) => T) {
+  const hasMore = rows.length > params.limit;
+  const items = rows.slice(0, params.limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    hasMore && last
+      ? encodeCursor({
+          t: type,
+          s: params.sort,
+          v: last._sort instanceof Date ? last._sort.toISOString() : last._sort ?? null,
+          d: last._sort instanceof Date ? 1 : undefined,
+          id: last._id.toString(),
+        })
+      : null;
+  return { items: items.map(map), nextCursor };
+}
+
+/** Exact city name, any case */
+const cityMatch = (city: string) => new RegExp(`^${escapeRegex(city)}$`, "i");
+
+async function searchShops(params: SearchParams, categoryName?: string) {
+  const match: Record<string, any> = { isActive: true };
+  if (params.q) match.$text = { $search: params.q };
+  if (categoryName) match.categories = categoryName;
+  if (params.marketId) match.marketId = new Types.ObjectId(params.marketId);
+  if (params.city) match.city = cityMatch(params.city);
+  if (params.minRating !== undefined) match.ratingAverage = { $gte: params.minRating };
+
+  const sort: SortSpec =
+    params.sort === "rating"
+      ? { expr: { $ifNull: ["$ratingAverage", 0] }, dir: -1 }
+      : params.sort === "newest"
+        ? { expr: "$createdAt", dir: -1 }
+        : { expr: "$_score", dir: -1 };
+
+  const rows = await Shop.aggregate([
+    { $match: match },
+    { $addFields: { _score: scoreExpr(Boolean(params.q), "$ratingAverage", "$listingBoost") } },
+    ...pageStages(sort, params, "shops"),
+  ]);
+
+  return toPage(rows, params, "shops", (s) => ({
+    _id: s._id,
+    name: s.name,
+    description: s.description,
+    images: s.images,
+    banner: s.banner,
+    categories: s.categories,
+    ratingAverage: s.ratingAverage,
+    reviewCount: s.reviewCount,
+    promotion: s.promotion,
+    addressLine: s.addressLine,
+    city: s.city,
+    state: s.state,
+  }));
+}
+
+async function searchProducts(params: SearchParams) {
+  const match: Record<string, any> = { isAvailable: true };
+  if (params.q) match.$text = { $search: params.q };
+  if (params.categoryId) match.categoryId = new Types.ObjectId(params.categoryId);
+  if (params.inStock) match.$or = [{ stock: { $exists: false } }, { stock: null }, { stock: { $gt: 0 } }];
+
+  const priceMatch: Record<string, number> = {};
+  if (params.minPrice !== undefined) priceMatch.$gte = params.minPrice;
+  if (params.maxPrice !== undefined) priceMatch.$lte = params.maxPrice;
+
+  // Filters on the selling shop
+  const shopMatch: Record<string, any> = { "shop.isActive": true };
+  if (params.marketId) shopMatch["shop.marketId"] = new Types.ObjectId(params.marketId);
+  if (params.city) shopMatch["shop.city"] = cityMatch(params.city);
+  if (params.minRating !== undefined) shopMatch["shop.ratingAverage"] = { $gte: params.minRating };
+
+  const sort: SortSpec =
+    params.sort === "price_asc" || params.sort === "price_desc"
+      ? { expr: "$effectivePrice", dir: params.sort === "price_asc" ? 1 : -1 }
+      : params.sort === "rating"
+        ? { expr: { $ifNull: ["$shop.ratingAverage", 0] }, dir: -1 }
+        : params.sort === "newest"
+          ? { expr: "$createdAt", dir: -1 }
+          : { expr: "$_score", dir: -1 };
+
+  const rows = await Product.aggregate([
+    { $match: match },
+    {
+      $addFields: {
+        _text: params.q ? { $meta: "textScore" } : 1,
+        effectivePrice: {
+          $cond: [
+            { $and: [{ $gt: ["$discountPrice", 0] }, { $lt: ["$discountPrice", "$price"] }] },
+            "$discountPrice",
+            "$price",
+          ],
+        },
+      },
+    },
+    ...(Object.keys(priceMatch).length ? [{ $match: { effectivePrice: priceMatch } }] : []),
+    {
+      $lookup: {
+        from: Shop.collection.name,
+        let: { shopId: "$shopId" },
+        pipeline: [
+          { $match: { $expr: { $eq: ["$_id", "$$shopId"] } } },
+          { $project: { name: 1, images: 1, banner: 1, city: 1, marketId: 1, ratingAverage: 1, listingBoost: 1, isActive: 1 } },
+        ],
+        as: "shop",
+      },
+    },
+    { $unwind: "$shop" },
+    { $match: shopMatch },
+    {
+      $addFields: {
+        _score: {
+          $multiply: [
+            "$_text",
+            {
+              $add: [
+                1,
+                { $multiply: [RATING_WEIGHT, { $ifNull: ["$shop.ratingAverage", 0] }] },
+                { $multiply: [TIER_WEIGHT, { $ifNull: ["$shop.listingBoost", 0] }] },
+              ],
+            },
+          ],
+        },
+      },
+    },
+    ...pageStages(sort, params, "products"),
+    {
+      $lookup: {
+        from: Category.collection.name,
+        let: { categoryId: "$categoryId" },
+        pipeline: [{ $match: { $expr: { $eq: ["$_id", "$$categoryId"] } } }, { $project: { name: 1 } }],
+        as: "category",
+      },
+    },
+  ]);
+
+  return toPage(rows, params, "products", (p) => ({
+    _id: p._id,
+    name: p.name,
+    description: p.description,
+    images: p.images,
+    price: p.price,
+    discountPrice: p.discountPrice,
+    stock: p.stock,
+    shop: {
+      _id: p.shop._id,
+      name: p.shop.name,
+      images: p.shop.images,
+      banner: p.shop.banner,
+      city: p.shop.city,
+      ratingAverage: p.shop.ratingAverage,
+    },
+    category: p.category[0] ? { _id: p.category[0]._id, name: p.category[0].name } : null,
+  }));
+}
+
+async function searchMarkets(params: SearchParams) {
+  const match: Record<string, any> = { isActive: true };
+  if (params.q) match.$text = { $search: params.q };
+  if (params.city) match.city = cityMatch(params.city);
+  if (params.minRating !== undefined) match.ratingAverage = { $gte: params.minRating };
+
+  const sort: SortSpec =
+    params.sort === "rating"
+      ? { expr: { $ifNull: ["$ratingAverage", 0] }, dir: -1 }
+      : params.sort === "newest"
+        ? { expr: "$createdAt", dir: -1 }
+        : { expr: "$_score", dir: -1 };
+
+  const rows = await Market.aggregate([
+    { $match: match },
+    { $addFields: { _score: scoreExpr(Boolean(params.q), "$ratingAverage") } },
+    ...pageStages(sort, params, "markets"),
+  ]);
+
+  return toPage(rows, params, "markets", (m) => ({
+    _id: m._id,
+    name: m.name,
+    city: m.city,
+    state: m.state,
+    description: m.description,
+    images: m.images,
+    ratingAverage: m.ratingAverage,
+  }));
+}
+
+type Page = { items: any[]; nextCursor: string | null };
+
+export interface SearchResults {
+  shops: any[];
+  products: any[];
+  markets: any[];
+  /** Pass back as `cursor` (with the same type, sort and filters) for the next page; null when there is none */
+  nextCursor: Record<SearchType, string | null>;
+}
+
+/**
+ * Run a search. Filters apply where they make sense: price and stock to
+ * products, category to shops and products, market to shops and products,
+ * city and rating to all three (a product's shop for products). A market
+ * filter leaves markets out, as does a product-only filter.
+ */
+export async function search(params: SearchParams): Promise<SearchResults> {
+  const empty: SearchResults = {
+    shops: [],
+    products: [],
+    markets: [],
+    nextCursor: { shops: null, products: null, markets: null },
+  };
+  if (params.q.length < MIN_QUERY_LENGTH && !hasFilters(params)) return empty;
+  if (params.q.length < MIN_QUERY_LENGTH) params = { ...params, q: "" };
+
+  let categoryName: string | undefined;
+  if (params.categoryId) {
+    const category = await Category.findById(params.categoryId).select("name");
+    if (!category) throw new SearchError(404, "Category not found");
+    categoryName = category.name;
+  }
+
+  const productOnly = params.minPrice !== undefined || params.maxPrice !== undefined || params.inStock;
+  const wanted = (type: SearchType) => {
+    if (!params.types.includes(type)) return false;
+    if (type === "shops") return !productOnly;
+    if (type === "markets") return !productOnly && !params.categoryId && !params.marketId;
+    return true;
+  };
+
+  const none = Promise.resolve<Page>({ items: [], nextCursor: null });
+  const [shops, products, markets] = await Promise.all([
+    wanted("shops") ? searchShops(params, categoryName) : none,
+    wanted("products") ? searchProducts(params) : none,
+    wanted("markets") ? searchMarkets(params) : none,
+  ]);
+
+  return {
+    shops: shops.items,
+    products: products.items,
+    markets: markets.items,
+    nextCursor: { shops: shops.nextCursor, products: products.nextCursor, markets: markets.nextCursor },
+  };
+}
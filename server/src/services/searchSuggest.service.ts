@@ -0,0 +1,321 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Product } from "../models/product.model";
+import { Market } from "../models/market.model";
+import { Category } from "../models/category.model";
+import { SearchSuggestion, type SuggestionKind } from "../models/searchSuggestion.model";
+import { RecentSearch } from "../models/recentSearch.model";
+import { escapeRegex } from "./search.service";
+
+/*
+ * Autocomplete for the search bar. Names of shops, products, categories and
+ * markets are copied into a small index (SearchSuggestion) with a spelling
+ * "skeleton" of every word: plurals dropped and the usual romanised-Hindi
+ * variations folded together (kurtis/kurti/kurtee, khadi/khaadi, saree/sari),
+ * so a prefix lookup matches whichever spelling the customer types. When that
+ * finds too little, near misses within one or two typos are tried as well.
+ * The index is rebuilt in the background; it doesn't need to be exact.
+ */
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+const RECENT_LIMIT = 20;
+/** Recent searches shown above the completions while typing */
+const RECENT_IN_SUGGESTIONS = 3;
+/** Candidates fetched for typo matching */
+const FUZZY_CANDIDATES = 300;
+/** Distinct product names indexed */
+const MAX_PRODUCT_NAMES = 20000;
+const INDEX_INTERVAL_MS = 30 * 60 * 1000;
+const BULK_SIZE = 500;
+
+/** Lower case, accents and punctuation removed, single spaces */
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0900-\u097f]+/g, " ")
+    .trim();
+}
+
+// Spellings that romanised Hindi (and hurried typing) use interchangeably
+const SPELLING_VARIANTS: [RegExp, string][] = [
+  [/ph/g, "f"],
+  [/([kgcjtdb])h/g, "$1"],
+  [/sh/g, "s"],
+  [/ck/g, "k"],
+  [/q/g, "k"],
+  [/c(?=[aoukr])/g, "k"],
+  [/z/g, "j"],
+  [/w/g, "v"],
+  [/x/g, "ks"],
+  [/ee|ea|ie/g, "i"],
+  [/oo|ou/g, "u"],
+  [/(.)\1+/g, "$1"],
+];
+
+/**
+ * Spelling skeleton of one word. `complete` words also lose a plural "s" and
+ * a final "y" becomes "i" (kurtis, kurty -> kurti); a word still being typed
+ * keeps its ending so "sty" stays a prefix of "style".
+ */
+function wordSkeleton(word: string, complete: boolean): string {
+  let w = word;
+  if (complete && w.length > 3 && w.endsWith("s") && !w.endsWith("ss")) w = w.slice(0, -1);
+  for (const [pattern, replacement] of SPELLING_VARIANTS) w = w.replace(pattern, replacement);
+  if (complete && w.length > 2 && w.endsWith("y")) w = `${w.slice(0, -1)}i`;
+  return w;
+}
+
+function phraseSkeleton(words: string[], lastComplete: boolean): string {
+  return words.map((w, i) => wordSkeleton(w, i < words.length - 1 || lastComplete)).join(" ");
+}
+
+/** Skeletons of a label starting at each of its words */
+function labelKeys(label: string): string[] {
+  const words = normalizeSearchText(label).split(" ").filter(Boolean);
+  const skeletons = words.map((w) => wordSkeleton(w, true));
+  const keys = new Set<string>();
+  for (let i = 0; i < skeletons.length; i++) keys.add(skeletons.slice(i).join(" "));
+  return [...keys];
+}
+
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+/** Typos allowed for a query skeleton of this length */
+const allowedTypos = (length: number) => (length >= 7 ? 2 : length >= 4 ? 1 : 0);
+
+/** Fewest edits turning `form` into a prefix of `key` */
+function prefixDistance(form: string, key: string): number {
+  let best = Infinity;
+  for (let len = Math.max(1, form.length - 2); len <= Math.min(key.length, form.length + 2); len++) {
+    best = Math.min(best, editDistance(form, key.slice(0, len)));
+  }
+  return best;
+}
+
+export interface Suggestion {
+  type: SuggestionKind | "recent";
+  label: string;
+  /** Shop, category or market to open; recent-search id for "recent" */
+  id?: string;
+  subtitle?: string;
+  /** Matched despite a spelling mistake */
+  corrected?: boolean;
+}
+
+/** Completions for what the customer has typed so far, recent searches first */
+export async function suggest(
+  q: string,
+  options: { userId?: Types.ObjectId | string; limit?: number } = {}
+): Promise<Suggestion[]> {
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(options.limit ?? DEFAULT_LIMIT)));
+  const text = normalizeSearchText(q.slice(0, 100));
+
+  if (!text) {
+    // Nothing typed yet: just the recent searches
+    return options.userId ? listRecentSearches(options.userId, limit) : [];
+  }
+
+  const recent = options.userId
+    ? (await listRecentSearches(options.userId, RECENT_LIMIT)).filter((r) => normalizeSearchText(r.label).startsWith(text))
+    : [];
+
+  const words = text.split(" ");
+  const forms = [...new Set([phraseSkeleton(words, false), phraseSkeleton(words, true)])];
+
+  type Scored = { entry: any; rank: number; corrected: boolean };
+  const scored = new Map<string, Scored>();
+  const consider = (entry: any, corrected: boolean) => {
+    const id = entry._id.toString();
+    // A match at the start of the name beats one on a later word
+    const atStart = forms.some((f) => entry.keys[0]?.startsWith(f));
+    const rank = entry.weight * (atStart ? 2 : 1) * (corrected ? 0.5 : 1);
+    const existing = scored.get(id);
+    if (!existing || existing.rank < rank) scored.set(id, { entry, rank, corrected });
+  };
+
+  const exact = await SearchSuggestion.find({ keys: { $in: forms.map((f) => new RegExp(`^${escapeRegex(f)}`)) } })
+    .sort({ weight: -1 })
+    .limit(limit * 5)
+    .lean();
+  exact.forEach((entry) => consider(entry, false));
+
+  const longest = forms.reduce((a, b) => (b.length > a.length ? b : a));
+  const typos = allowedTypos(longest.length);
+  if (scored.size < limit && typos > 0) {
+    // Assume the first two letters are right; that keeps the candidate set small
+    const candidates = await SearchSuggestion.find({ keys: new RegExp(`^${escapeRegex(longest.slice(0, 2))}`) })
+      .sort({ weight: -1 })
+      .limit(FUZZY_CANDIDATES)
+      .lean();
+    for (const entry of candidates) {
+      if (scored.has(entry._id.toString())) continue;
+      if (entry.keys.some((key: string) => forms.some((f) => prefixDistance(f, key) <= typos))) {
+        consider(entry, true);
+      }
+    }
+  }
+
+  const recentKeys = new Set(recent.map((r) => normalizeSearchText(r.label)));
+  const completions = [...scored.values()]
+    .sort((a, b) => b.rank - a.rank)
+    .filter(({ entry }) => !(entry.kind === "product" && recentKeys.has(entry.key)))
+    .map<Suggestion>(({ entry, corrected }) => ({
+      type: entry.kind,
+      label: entry.label,
+      id: entry.refId?.toString(),
+      subtitle: entry.subtitle,
+      corrected: corrected || undefined,
+    }));
+
+  return [...recent.slice(0, RECENT_IN_SUGGESTIONS), ...completions].slice(0, limit);
+}
+
+// ---------------------------------------------------------------------------
+// Recent searches
+// ---------------------------------------------------------------------------
+
+/** Remember a search the user ran; only the latest RECENT_LIMIT are kept */
+export async function recordRecentSearch(userId: Types.ObjectId | string, query: string): Promise<void> {
+  const label = query.trim().replace(/\s+/g, " ").slice(0, 100);
+  const key = normalizeSearchText(label);
+  if (key.length < 2) return;
+
+  await RecentSearch.updateOne(
+    { userId, key },
+    { $set: { query: label, lastSearchedAt: new Date() }, $inc: { count: 1 } },
+    { upsert: true }
+  );
+
+  const overflow = await RecentSearch.find({ userId })
+    .sort({ lastSearchedAt: -1 })
+    .skip(RECENT_LIMIT)
+    .select("_id")
+    .lean();
+  if (overflow.length) {
+    await RecentSearch.deleteMany({ _id: { $in: overflow.map((r) => r._id) } });
+  }
+}
+
+export async function listRecentSearches(userId: Types.ObjectId | string, limit = RECENT_LIMIT): Promise<Suggestion[]> {
+  const recent = await RecentSearch.find({ userId }).sort({ lastSearchedAt: -1 }).limit(limit).lean();
+  return recent.map((r) => ({ type: "recent" as const, label: r.query, id: r._id.toString() }));
+}
+
+/** Forget one recent search, or all of them when `searchId` is left out */
+export async function clearRecentSearches(userId: Types.ObjectId | string, searchId?: string): Promise<void> {
+  if (searchId) {
+    if (!Types.ObjectId.isValid(searchId)) return;
+    await RecentSearch.deleteOne({ _id: searchId, userId });
+    return;
+  }
+  await RecentSearch.deleteMany({ userId });
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+type IndexEntry = { kind: SuggestionKind; refId?: Types.ObjectId; label: string; subtitle?: string; weight: number };
+
+async function writeEntries(entries: IndexEntry[], syncedAt: Date): Promise<void> {
+  for (let i = 0; i < entries.length; i += BULK_SIZE) {
+    const ops = entries.slice(i, i + BULK_SIZE).map((e) => {
+      const key = normalizeSearchText(e.label);
+      return {
+        updateOne: {
+          filter: { kind: e.kind, refId: e.refId ?? null, key },
+          update: {
+            $set: { label: e.label, subtitle: e.subtitle, keys: labelKeys(e.label), weight: e.weight, syncedAt },
+          },
+          upsert: true,
+        },
+      };
+    });
+    if (ops.length) await SearchSuggestion.bulkWrite(ops, { ordered: false });
+  }
+}
+
+/** Rebuild the suggestion index from the current catalogue and drop entries that no longer exist */
+export async function rebuildSuggestionIndex(): Promise<number> {
+  const syncedAt = new Date();
+
+  const [shops, categories, markets, productNames] = await Promise.all([
+    Shop.find({ isActive: true }).select("name city ratingAverage listingBoost").lean(),
+    Category.find({ isActive: true }).select("name").lean(),
+    Market.find({ isActive: true }).select("name city state totalShops").lean(),
+    Product.aggregate<{ _id: string; label: string; count: number }>([
+      { $match: { isAvailable: true } },
+      { $group: { _id: { $toLower: "$name" }, label: { $first: "$name" }, count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+      { $limit: MAX_PRODUCT_NAMES },
+    ]),
+  ]);
+
+  const entries: IndexEntry[] = [
+    ...categories.map((c) => ({ kind: "category" as const, refId: c._id as Types.ObjectId, label: c.name, weight: 4 })),
+    ...markets.map((m) => ({
+      kind: "market" as const,
+      refId: m._id as Types.ObjectId,
+      label: m.name,
+      subtitle: [m.city, m.state].filter(Boolean).join(", "),
+      weight: 2 + Math.min(2, (m.totalShops ?? 0) / 50),
+    })),
+    ...shops.map((s: any) => ({
+      kind: "shop" as const,
+      refId: s._id as Types.ObjectId,
+      label: s.name,
+      subtitle: s.city || undefined,
+      weight: 1 + (s.listingBoost ?? 0) * 0.5 + (s.ratingAverage ?? 0) / 5,
+    })),
+  ];
+
+  // Product names differing only in case or punctuation become one completion
+  const seen = new Set<string>();
+  for (const p of productNames) {
+    const key = normalizeSearchText(p.label);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    entries.push({ kind: "product", label: p.label.trim(), weight: 1 + Math.log10(p.count) });
+  }
+
+  await writeEntries(
+    entries.filter((e) => normalizeSearchText(e.label)),
+    syncedAt
+  );
+  await SearchSuggestion.deleteMany({ syncedAt: { $lt: syncedAt } });
+  return entries.length;
+}
+
+/** Build the index now and keep it fresh while the server is up */
+export function startSuggestionIndexer(): void {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await rebuildSuggestionIndex();
+    } catch (err) {
+      console.error("[Suggestion Index Error]", err);
+    } finally {
+      running = false;
+    }
+  };
+  tick();
+  setInterval(tick, INDEX_INTERVAL_MS).unref();
+}
@@ -0,0 +1,295 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Category } from "../models/category.model";
+import { ShopAd, type IShopAd } from "../models/shopAd.model";
+import { AdEvent, type AdEventType, type AdPlacement } from "../models/adEvent.model";
+
+/*
+ * Sponsored shop ads. A campaign pays for each impression and click out of its
+ * budget, and spending is paced evenly over the campaign's days so an ad
+ * doesn't burn its whole budget on the first morning. Seeing or tapping the
+ * same ad again within a short window is counted (and charged) once.
+ */
+
+/** Thrown for ad requests we can't act on; `status` is the HTTP status to respond with */
+export class AdError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "AdError";
+    this.status = status;
+  }
+}
+
+export const AD_COST_PER_IMPRESSION = Number(process.env.AD_COST_PER_IMPRESSION ?? 0.25);
+export const AD_COST_PER_CLICK = Number(process.env.AD_COST_PER_CLICK ?? 3);
+export const MIN_AD_BUDGET = Number(process.env.MIN_AD_BUDGET ?? 100);
+const MAX_AD_DAYS = 90;
+/** Repeat impressions from one viewer inside this window count once */
+const IMPRESSION_WINDOW_MINUTES = 30;
+/** Repeat clicks from one viewer inside this window count once */
+const CLICK_WINDOW_HOURS = 24;
+const MAX_ADS_PER_REQUEST = 5;
+/** Candidates looked at per request before pacing and rotation */
+const CANDIDATE_LIMIT = 200;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export type AdStatus = "scheduled" | "running" | "paused" | "ended" | "budget_spent";
+
+export function adStatus(ad: IShopAd, now = new Date()): AdStatus {
+  if (!ad.isActive) return "paused";
+  if (ad.endDate <= now) return "ended";
+  if ((ad.spent ?? 0) >= ad.budget) return "budget_spent";
+  if (ad.startDate > now) return "scheduled";
+  return "running";
+}
+
+/** What the campaign may have spent by `now`: an equal share per day, today's share included */
+export function pacedBudget(ad: IShopAd, now = new Date()): number {
+  const totalDays = Math.max(1, Math.ceil((ad.endDate.getTime() - ad.startDate.getTime()) / DAY_MS));
+  const daysStarted = Math.floor((now.getTime() - ad.startDate.getTime()) / DAY_MS) + 1;
+  return round2((ad.budget * Math.min(totalDays, Math.max(0, daysStarted))) / totalDays);
+}
+
+/** Campaign fields and derived metrics, as shown to the seller */
+export function adSummary(ad: IShopAd, now = new Date()) {
+  const spent = round2(ad.spent ?? 0);
+  return {
+    _id: ad._id,
+    shopId: ad.shopId,
+    title: ad.title,
+    bannerImage: ad.bannerImage,
+    targetCategories: ad.targetCategories,
+    startDate: ad.startDate,
+    endDate: ad.endDate,
+    budget: ad.budget,
+    spent,
+    remainingBudget: round2(Math.max(0, ad.budget - spent)),
+    impressions: ad.impressions,
+    clicks: ad.clicks,
+    ctr: ad.impressions > 0 ? round2((ad.clicks / ad.impressions) * 100) : 0,
+    isActive: ad.isActive,
+    status: adStatus(ad, now),
+    createdAt: ad.createdAt,
+  };
+}
+
+export interface AdInput {
+  title?: string;
+  bannerImage?: string;
+  targetCategories?: string[];
+  startDate?: string;
+  endDate?: string;
+  budget?: number | string;
+}
+
+/** Validate a new campaign and create it for the shop */
+export async function createShopAd(shopId: Types.ObjectId | string, input: AdInput, now = new Date()): Promise<IShopAd> {
+  const title = String(input.title ?? "").trim();
+  if (!title) throw new AdError(400, "title is required");
+  if (title.length > 80) throw new AdError(400, "title must be 80 characters or fewer");
+
+  const bannerImage = String(input.bannerImage ?? "").trim();
+  if (!bannerImage) throw new AdError(400, "bannerImage is required");
+
+  const budget = Number(input.budget);
+  if (!Number.isFinite(budget) || budget < MIN_AD_BUDGET) {
+    throw new AdError(400, `budget must be at least ₹${MIN_AD_BUDGET}`);
+  }
+
+  const startDate = input.startDate ? new Date(input.startDate) : now;
+  const endDate = input.endDate ? new Date(input.endDate) : null;
+  if (isNaN(startDate.getTime())) throw new AdError(400, "startDate is not a valid date");
+  if (!endDate || isNaN(endDate.getTime())) throw new AdError(400, "endDate is required");
+  if (endDate <= startDate || endDate <= now) throw new AdError(400, "endDate must be in the future and after startDate");
+  if (endDate.getTime() - startDate.getTime() > MAX_AD_DAYS * DAY_MS) {
+    throw new AdError(400, `A campaign can run for at most ${MAX_AD_DAYS} days`);
+  }
+
+  const categoryIds = [...new Set((input.targetCategories ?? []).map(String))];
+  if (categoryIds.some((id) => !Types.ObjectId.isValid(id))) {
+    throw new AdError(400, "targetCategories contains an invalid id");
+  }
+  if (categoryIds.length) {
+    const found = await Category.countDocuments({ _id: { $in: categoryIds } });
+    if (found !== categoryIds.length) throw new AdError(400, "targetCategories contains an unknown category");
+  }
+
+  return ShopAd.create({
+    shopId,
+    title,
+    bannerImage,
+    targetCategories: categoryIds,
+    startDate,
+    endDate,
+    budget: round2(budget),
+  });
+}
+
+/** Pause or resume a campaign. A campaign that has ended or spent its budget can't be resumed. */
+export async function setAdActive(ad: IShopAd, isActive: boolean, now = new Date()): Promise<IShopAd> {
+  if (isActive && !ad.isActive) {
+    if (ad.endDate <= now) throw new AdError(400, "This campaign has ended");
+    if ((ad.spent ?? 0) >= ad.budget) throw new AdError(400, "This campaign has spent its budget");
+  }
+  ad.isActive = isActive;
+  await ad.save();
+  return ad;
+}
+
+export interface ServedAd {
+  _id: Types.ObjectId;
+  title: string;
+  bannerImage: string;
+  shop: { _id: Types.ObjectId; name: string; banner?: string | null; city?: string; ratingAverage?: number };
+}
+
+/**
+ * Pick up to `limit` ads for a placement: running campaigns targeting the
+ * category (or no category at all) that are still within today's paced
+ * budget, one per shop. Campaigns with more budget left for today are more
+ * likely to be shown, so delivery evens out over the day.
+ */
+export async function serveAds(
+  options: { categoryId?: string; limit?: number },
+  now = new Date()
+): Promise<ServedAd[]> {
+  const limit = Math.min(MAX_ADS_PER_REQUEST, Math.max(1, Math.floor(options.limit ?? 3)));
+  const filter: Record<string, any> = {
+    isActive: true,
+    startDate: { $lte: now },
+    endDate: { $gt: now },
+    $expr: { $lt: ["$spent", "$budget"] },
+  };
+  if (options.categoryId) {
+    if (!Types.ObjectId.isValid(options.categoryId)) throw new AdError(400, "Invalid categoryId");
+    filter.$or = [{ targetCategories: options.categoryId }, { targetCategories: { $size: 0 } }];
+  }
+
+  const ads = await ShopAd.find(filter).limit(CANDIDATE_LIMIT);
+  const paced = ads
+    .map((ad) => ({ ad, headroom: pacedBudget(ad, now) - (ad.spent ?? 0) }))
+    .filter((c) => c.headroom > 0);
+  if (!paced.length) return [];
+
+  const shops = await Shop.find({ _id: { $in: paced.map((c) => c.ad.shopId) }, isActive: true })
+    .select("name banner city ratingAverage")
+    .lean();
+  const shopsById = new Map(shops.map((s: any) => [s._id.toString(), s]));
+
+  // Weighted draw without replacement, skipping shops already picked
+  const pool = paced.filter((c) => shopsById.has(c.ad.shopId.toString()));
+  const picked: ServedAd[] = [];
+  const pickedShops = new Set<string>();
+  while (picked.length < limit && pool.length) {
+    const total = pool.reduce((sum, c) => sum + c.headroom, 0);
+    let target = Math.random() * total;
+    let index = pool.findIndex((c) => (target -= c.headroom) <= 0);
+    if (index < 0) index = pool.length - 1;
+    const [{ ad }] = pool.splice(index, 1);
+
+    const shopKey = ad.shopId.toString();
+    if (pickedShops.has(shopKey)) continue;
+    pickedShops.add(shopKey);
+
+    const shop: any = shopsById.get(shopKey);
+    picked.push({
+      _id: ad._id as Types.ObjectId,
+      title: ad.title,
+      bannerImage: ad.bannerImage,
+      shop: { _id: shop._id, name: shop.name, banner: shop.banner, city: shop.city, ratingAverage: shop.ratingAverage },
+    });
+  }
+  return picked;
+}
+
+/**
+ * Count an impression or click and charge it to the campaign. Returns false
+ * when the viewer already had one counted in the current window. Events on a
+ * campaign that is no longer running (the app may show an ad it fetched a
+ * moment earlier), or whose budget ran out meanwhile, are counted but not charged.
+ */
+export async function recordAdEvent(
+  adId: string,
+  type: AdEventType,
+  viewerKey: string,
+  placement?: AdPlacement,
+  now = new Date()
+): Promise<boolean> {
+  if (!Types.ObjectId.isValid(adId)) throw new AdError(404, "Ad not found");
+  const ad = await ShopAd.findById(adId);
+  if (!ad) throw new AdError(404, "Ad not found");
+
+  const windowMs = type === "impression" ? IMPRESSION_WINDOW_MINUTES * MINUTE_MS : CLICK_WINDOW_HOURS * 60 * MINUTE_MS;
+  const rate = type === "impression" ? AD_COST_PER_IMPRESSION : AD_COST_PER_CLICK;
+  const cost = adStatus(ad, now) === "running" ? round2(Math.min(rate, ad.budget - (ad.spent ?? 0))) : 0;
+
+  let event;
+  try {
+    event = await AdEvent.create({
+      adId: ad._id,
+      shopId: ad.shopId,
+      type,
+      viewerKey,
+      bucket: Math.floor(now.getTime() / windowMs),
+      placement,
+      cost,
+    });
+  } catch (err: any) {
+    if (err?.code !== 11000) throw err;
+    return false;
+  }
+
+  const counter = type === "impression" ? "impressions" : "clicks";
+  if (cost > 0) {
+    // Charge only while the budget still covers it; concurrent events read the same `spent`
+    const charged = await ShopAd.updateOne(
+      { _id: ad._id, $expr: { $lte: [{ $add: [{ $ifNull: ["$spent", 0] }, cost] }, "$budget"] } },
+      { $inc: { [counter]: 1, spent: cost } }
+    );
+    if (charged.modifiedCount > 0) return true;
+    await AdEvent.updateOne({ _id: event._id }, { $set: { cost: 0 } });
+  }
+  await ShopAd.updateOne({ _id: ad._id }, { $inc: { [counter]: 1 } });
+  return true;
+}
+
+/** Campaign summary plus impressions, clicks and spend per day (IST) for the last `days` days */
+export async function getAdPerformance(ad: IShopAd, days = 30, now = new Date()) {
+  const span = Math.min(90, Math.max(1, Math.floor(days)));
+  const since = new Date(now.getTime() - span * DAY_MS);
+  const rows: { _id: { date: string; type: AdEventType }; count: number; cost: number }[] = await AdEvent.aggregate([
+    { $match: { adId: ad._id, createdAt: { $gte: since } } },
+    {
+      $group: {
+        _id: {
+          date: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt", timezone: "Asia/Kolkata" } },
+          type: "$type",
+        },
+        count: { $sum: 1 },
+        cost: { $sum: "$cost" },
+      },
+    },
+  ]);
+
+  const byDate = new Map<string, { date: string; impressions: number; clicks: number; spent: number }>();
+  for (const row of rows) {
+    const day = byDate.get(row._id.date) ?? { date: row._id.date, impressions: 0, clicks: 0, spent: 0 };
+    if (row._id.type === "impression") day.impressions += row.count;
+    else day.clicks += row.count;
+    day.spent = round2(day.spent + row.cost);
+    byDate.set(row._id.date, day);
+  }
+
+  return {
+    ad: adSummary(ad, now),
+    pacedBudget: pacedBudget(ad, now),
+    daily: [...byDate.values()].sort((a, b) => b.date.localeCompare(a.date)),
+  };
+}
@@ -7,6 +7,7 @@ import { Conversation } from "../models/conversation.model";
 import { Message } from "../models/message.model";
 import { VideoCall } from "../models/videoCall.model";
 import { createAndSendNotification } from "./notification.service";
+import { recordAgentLocation } from "./deliveryAgent.service";
 
 let io: Server | null = null;
 
@@ -305,6 +306,16 @@ export function initializeSocketServer(httpServer: HttpServer): Server {
       }
     });
 
+    // Delivery partner's position while carrying an order; relayed to the customer and seller
+    socket.on("agent_location", async (data: { orderId: string; lat: number; lng: number }) => {
+      if (userRole !== "agent") return;
+      try {
+        await recordAgentLocation(userId, data);
+      } catch (error: any) {
+        socket.emit("error", { message: error?.message || "Could not share location" });
+      }
+    });
+
     // Handle disconnect
     socket.on("disconnect", () => {
       console.log(`[Socket] User disconnected: ${userId}`);
@@ -0,0 +1,171 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Product } from "../models/product.model";
+import { SellerProfile } from "../models/sellerProfile.model";
+import { Subscription, type ISubscription } from "../models/subscription.model";
+
+/** Thrown when a seller's plan doesn't allow an action; `status` is 402 so the app can offer an upgrade */
+export class EntitlementError extends Error {
+  status: number;
+  code: "plan_limit_reached";
+  planName: SubscriptionPlanKey;
+  limit: number;
+  upgradeTo?: SubscriptionPlanKey;
+
+  constructor(message: string, planName: SubscriptionPlanKey, limit: number, upgradeTo?: SubscriptionPlanKey) {
+    super(message);
+    this.name = "EntitlementError";
+    this.status = 402;
+    this.code = "plan_limit_reached";
+    this.planName = planName;
+    this.limit = limit;
+    this.upgradeTo = upgradeTo;
+  }
+}
+
+/**
+ * What each plan costs and unlocks. `limits` of null mean unlimited;
+ * `listingBoost` orders shops in listings and search (higher first).
+ */
+export const SUBSCRIPTION_PLANS = {
+  Basic: {
+    planName: "Basic",
+    price: 0,
+    billingCycle: "monthly",
+    features: [
+      "Up to 50 products",
+      "Up to 5 reels",
+      "Basic analytics",
+      "Standard support"
+    ],
+    limits: { products: 50, reels: 5 },
+    listingBoost: 0,
+  },
+  Pro: {
+    planName: "Pro",
+    price: 499,
+    billingCycle: "monthly",
+    features: [
+      "Up to 250 products",
+      "Up to 25 reels",
+      "Priority listing in Explore",
+      "Advanced insights",
+      "Chat & call priority support"
+    ],
+    limits: { products: 250, reels: 25 },
+    listingBoost: 1,
+  },
+  Premium: {
+    planName: "Premium",
+    price: 999,
+    billingCycle: "monthly",
+    features: [
+      "Unlimited products",
+      "Unlimited reels",
+      "Top placement in Explore",
+      "Full analytics suite",
+      "Dedicated account support"
+    ],
+    limits: { products: null, reels: null },
+    listingBoost: 2,
+  },
+} as const;
+
+export type SubscriptionPlanKey = keyof typeof SUBSCRIPTION_PLANS;
+
+const PLAN_ORDER: SubscriptionPlanKey[] = ["Basic", "Pro", "Premium"];
+
+/** "pro", "Pro" -> "Pro"; null for anything that isn't a plan */
+export function normalizePlanName(name: unknown): SubscriptionPlanKey | null {
+  if (typeof name !== "string") return null;
+  return PLAN_ORDER.find((key) => key.toLowerCase() === name.trim().toLowerCase()) ?? null;
+}
+
+export interface PlanLimits {
+  products: number | null;
+  reels: number | null;
+}
+
+export interface SellerEntitlements {
+  planName: SubscriptionPlanKey;
+  /** The paid subscription in force (active, or past due within its grace period), or null on Basic */
+  subscription: ISubscription | null;
+  limits: PlanLimits;
+  listingBoost: number;
+}
+
+/** Put the plan's placement on every shop of the seller, so listings can sort without a lookup */
+export async function syncShopListingBoost(sellerUserId: Types.ObjectId, planName: SubscriptionPlanKey): Promise<void> {
+  await Shop.updateMany({ sellerId: sellerUserId }, { $set: { listingBoost: SUBSCRIPTION_PLANS[planName].listingBoost } });
+}
+
+/** Days a paid plan keeps its perks after the period ends without a paid renewal */
+export const SUBSCRIPTION_GRACE_DAYS = Number(process.env.SUBSCRIPTION_GRACE_DAYS ?? 3);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whether a subscription still gives its perks at `now`, including the grace period after a missed renewal */
+export function isSubscriptionInForce(subscription: ISubscription, now = new Date()): boolean {
+  if (subscription.status === "past_due") {
+    return (subscription.graceEndsAt ?? subscription.endDate) > now;
+  }
+  if (subscription.status !== "active") return false;
+  if (subscription.endDate > now) return true;
+  // Ended, but the lifecycle job hasn't moved it to past_due yet
+  return subscription.autoRenew && subscription.endDate.getTime() + SUBSCRIPTION_GRACE_DAYS * DAY_MS > now.getTime();
+}
+
+/** The plan a seller is on right now; Basic without a subscription in force */
+export async function getSellerEntitlements(sellerUserId: Types.ObjectId): Promise<SellerEntitlements> {
+  const profile = await SellerProfile.findOne({ userId: sellerUserId }).select("subscriptionId");
+  let subscription = profile?.subscriptionId ? await Subscription.findById(profile.subscriptionId) : null;
+  if (subscription && !isSubscriptionInForce(subscription)) subscription = null;
+
+  const planName = (subscription && normalizePlanName(subscription.planName)) || "Basic";
+  const plan = SUBSCRIPTION_PLANS[planName];
+  return { planName, subscription, limits: { ...plan.limits }, listingBoost: plan.listingBoost };
+}
+
+/** Products and reels across all of the seller's shops */
+export async function getPlanUsage(sellerUserId: Types.ObjectId): Promise<{ products: number; reels: number }> {
+  const shops = await Shop.find({ sellerId: sellerUserId }).select("_id reels._id").lean();
+  const products = await Product.countDocuments({ shopId: { $in: shops.map((s: any) => s._id) } });
+  const reels = shops.reduce((sum: number, s: any) => sum + (s.reels?.length ?? 0), 0);
+  return { products, reels };
+}
+
+function nextPlanFor(planName: SubscriptionPlanKey, resource: keyof PlanLimits, needed: number): SubscriptionPlanKey | undefined {
+  return PLAN_ORDER.slice(PLAN_ORDER.indexOf(planName) + 1).find((key) => {
+    const limit = SUBSCRIPTION_PLANS[key].limits[resource];
+    return limit === null || limit >= needed;
+  });
+}
+
+async function assertWithinLimit(sellerUserId: Types.ObjectId, resource: keyof PlanLimits, adding: number): Promise<void> {
+  const { planName, limits } = await getSellerEntitlements(sellerUserId);
+  const limit = limits[resource];
+  if (limit === null) return;
+
+  const used = (await getPlanUsage(sellerUserId))[resource];
+  if (used + adding <= limit) return;
+
+  const upgradeTo = nextPlanFor(planName, resource, used + adding);
+  throw new EntitlementError(
+    `Your ${planName} plan allows up to ${limit} ${resource}.` +
+      (upgradeTo ? ` Upgrade to ${upgradeTo} to add more.` : ""),
+    planName,
+    limit,
+    upgradeTo
+  );
+}
+
+/** Throws EntitlementError when adding `count` products would go over the seller's plan */
+export function assertCanAddProducts(sellerUserId: Types.ObjectId, count = 1): Promise<void> {
+  return assertWithinLimit(sellerUserId, "products", count);
+}
+
+/** Throws EntitlementError when another reel would go over the seller's plan */
+export function assertCanAddReel(sellerUserId: Types.ObjectId): Promise<void> {
+  return assertWithinLimit(sellerUserId, "reels", 1);
+}
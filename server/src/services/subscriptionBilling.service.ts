@@ -0,0 +1,474 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { SellerProfile, type ISellerProfile } from "../models/sellerProfile.model";
+import { Subscription, type ISubscription } from "../models/subscription.model";
+import type { IPayment } from "../models/payment.model";
+import { SellerLedgerEntry } from "../models/sellerLedgerEntry.model";
+import { createAndSendNotification } from "./notification.service";
+import { getPaymentProvider, initiatePayment, type CreatedPayment, type PaymentProviderAdapter } from "./payment.service";
+import { getLedgerSummary } from "./payout.service";
+import {
+  SUBSCRIPTION_PLANS,
+  SUBSCRIPTION_GRACE_DAYS,
+  isSubscriptionInForce,
+  normalizePlanName,
+  syncShopListingBoost,
+  type SubscriptionPlanKey,
+} from "./subscription.service";
+
+/*
+ * Paid plan billing. Buying or upgrading a plan creates a pending_payment
+ * subscription that activates once the gateway confirms the payment; an
+ * upgrade mid-cycle is charged less the unused part of the current plan.
+ * Downgrades and cancellations take effect when the period ends. Before a
+ * period ends the lifecycle job renews it, first out of the seller's payout
+ * balance and otherwise by asking them to pay; an unpaid plan keeps its perks
+ * for SUBSCRIPTION_GRACE_DAYS and then drops to Basic.
+ */
+
+/** Thrown for plan changes we can't make; `status` is the HTTP status to respond with */
+export class SubscriptionError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "SubscriptionError";
+    this.status = status;
+  }
+}
+
+const PERIOD_DAYS = 30;
+/** Start trying to renew this long before the period ends */
+const RENEW_AHEAD_DAYS = Number(process.env.SUBSCRIPTION_RENEW_AHEAD_DAYS ?? 2);
+/** Reminder about the coming renewal (or the end of a cancelled plan) */
+const REMINDER_DAYS = 3;
+const RENEWAL_RETRY_MS = 12 * 60 * 60 * 1000;
+const LIFECYCLE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const formatAmount = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric", timeZone: "Asia/Kolkata" });
+
+/** The seller's user id; subscriptions made before billing only point at the seller profile */
+async function sellerUserIdOf(subscription: ISubscription): Promise<Types.ObjectId | null> {
+  if (subscription.userId) return subscription.userId;
+  const profile = await SellerProfile.findById(subscription.sellerId).select("userId");
+  return profile?.userId ?? null;
+}
+
+async function notifySeller(subscription: ISubscription, title: string, body: string, type: string): Promise<void> {
+  const userId = await sellerUserIdOf(subscription);
+  if (!userId) return;
+  await createAndSendNotification(userId.toString(), "system", title, body, {
+    subscriptionId: subscription._id!.toString(),
+    type,
+  });
+}
+
+/** Send a reminder once per subscription */
+async function remindOnce(subscription: ISubscription, key: string, title: string, body: string): Promise<void> {
+  const claimed = await Subscription.updateOne(
+    { _id: subscription._id, remindersSent: { $ne: key } },
+    { $push: { remindersSent: key } }
+  );
+  if (claimed.modifiedCount) await notifySeller(subscription, title, body, "subscription_reminder");
+}
+
+/** The seller's current paid subscription, if any (active, or past due in its grace period) */
+export async function currentSubscription(profile: ISellerProfile): Promise<ISubscription | null> {
+  if (!profile.subscriptionId) return null;
+  const subscription = await Subscription.findById(profile.subscriptionId);
+  return subscription && isSubscriptionInForce(subscription) ? subscription : null;
+}
+
+/** A purchase or renewal waiting for the seller to pay */
+export async function pendingSubscriptionPayment(profile: ISellerProfile): Promise<ISubscription | null> {
+  return Subscription.findOne({ sellerId: profile._id, status: "pending_payment" }).sort({ createdAt: -1 });
+}
+
+/** Value of the days left in a paid period, in rupees */
+function unusedValue(subscription: ISubscription, now: Date): number {
+  const period = subscription.endDate.getTime() - subscription.startDate.getTime();
+  const remaining = subscription.endDate.getTime() - now.getTime();
+  if (period <= 0 || remaining <= 0) return 0;
+  const paidForPeriod = subscription.amountDue + subscription.proratedCredit || subscription.price;
+  return round2((paidForPeriod * remaining) / period);
+}
+
+function newSubscriptionFields(profile: ISellerProfile, planName: SubscriptionPlanKey, now: Date) {
+  const plan = SUBSCRIPTION_PLANS[planName];
+  return {
+    sellerId: profile._id,
+    userId: profile.userId,
+    planName: plan.planName,
+    // clone to satisfy mutable array type
+    features: [...plan.features],
+    price: plan.price,
+    billingCycle: plan.billingCycle,
+    startDate: now,
+    endDate: new Date(now.getTime() + PERIOD_DAYS * DAY_MS),
+  };
+}
+
+/**
+ * Put a paid subscription in force. A renewal paid before the current period
+ * ends waits as "upcoming" and takes over when that period ends.
+ */
+async function activateSubscription(subscription: ISubscription, paidVia: ISubscription["paidVia"], now = new Date()) {
+  const previous = subscription.previousSubscriptionId
+    ? await Subscription.findById(subscription.previousSubscriptionId)
+    : null;
+  const startDate = subscription.kind === "renewal" && previous && previous.endDate > now ? previous.endDate : now;
+
+  subscription.startDate = startDate;
+  subscription.endDate = new Date(startDate.getTime() + PERIOD_DAYS * DAY_MS);
+  subscription.paidVia = paidVia;
+  subscription.paidAt = now;
+  subscription.status = startDate > now ? "upcoming" : "active";
+  await subscription.save();
+
+  if (subscription.status === "active") {
+    await startSubscription(subscription, previous);
+  }
+}
+
+/** Make `subscription` the seller's plan, closing the one it renews or replaces */
+async function startSubscription(subscription: ISubscription, previous: ISubscription | null): Promise<void> {
+  subscription.status = "active";
+  await subscription.save();
+
+  // The plan in force may not be `previous` when a payment lands late, so close both
+  const profile = await SellerProfile.findById(subscription.sellerId).select("subscriptionId");
+  const current = profile?.subscriptionId && !profile.subscriptionId.equals(subscription._id as Types.ObjectId)
+    ? await Subscription.findById(profile.subscriptionId)
+    : null;
+  for (const replaced of [previous, current]) {
+    if (!replaced || !["active", "past_due", "upcoming"].includes(replaced.status)) continue;
+    replaced.status = subscription.kind === "renewal" && replaced._id!.toString() === previous?._id!.toString() ? "expired" : "cancelled";
+    if (replaced.status === "cancelled") replaced.cancelledAt = new Date();
+    await replaced.save();
+  }
+  await SellerProfile.updateOne({ _id: subscription.sellerId }, { $set: { subscriptionId: subscription._id } });
+
+  const userId = await sellerUserIdOf(subscription);
+  if (userId) await syncShopListingBoost(userId, normalizePlanName(subscription.planName) ?? "Basic");
+}
+
+/** Drop the seller to Basic when their paid subscription ends */
+async function downgradeToBasic(subscription: ISubscription, reason: string): Promise<void> {
+  subscription.status = "expired";
+  await subscription.save();
+  await Subscription.updateMany(
+    { previousSubscriptionId: subscription._id, status: "pending_payment" },
+    { $set: { status: "cancelled", cancelledAt: new Date() } }
+  );
+
+  const userId = await sellerUserIdOf(subscription);
+  if (userId) await syncShopListingBoost(userId, "Basic");
+  await notifySeller(subscription, "You're now on the Basic plan", reason, "subscription_expired");
+}
+
+export interface PlanChangeResult {
+  subscription: ISubscription;
+  /** Set when the seller has to pay before the plan starts */
+  payment?: { provider: string; transactionId: string; checkout: CreatedPayment };
+  /** Set for downgrades, which wait for the end of the current period */
+  effectiveAt?: Date;
+}
+
+/**
+ * The gateway plan payments go through. Set by the server
+ * (SUBSCRIPTION_PAYMENT_PROVIDER), never by the seller's request.
+ */
+export function subscriptionPaymentProvider(): PaymentProviderAdapter {
+  return getPaymentProvider(process.env.SUBSCRIPTION_PAYMENT_PROVIDER || "phonepe");
+}
+
+/**
+ * Move a seller to `planName`. Upgrades (including from Basic) start once
+ * paid, priced less the unused part of the current plan; when that covers
+ * the whole price the new plan starts straight away. Downgrades, and going
+ * back to Basic, happen when the current period ends.
+ */
+export async function requestPlanChange(
+  profile: ISellerProfile,
+  planName: SubscriptionPlanKey,
+  provider: PaymentProviderAdapter
+): Promise<PlanChangeResult> {
+  const now = new Date();
+  const current = await currentSubscription(profile);
+  const currentPlan = current ? normalizePlanName(current.planName) ?? "Basic" : "Basic";
+  const target = SUBSCRIPTION_PLANS[planName];
+
+  if (current && currentPlan === planName) {
+    if (current.autoRenew && !current.scheduledPlanName) {
+      throw new SubscriptionError(400, `You're already on the ${planName} plan`);
+    }
+    // Undo a scheduled downgrade or cancellation
+    current.autoRenew = true;
+    current.scheduledPlanName = undefined;
+    await current.save();
+    return { subscription: current };
+  }
+  if (!current && planName === "Basic") {
+    throw new SubscriptionError(400, "You're already on the Basic plan");
+  }
+
+  if (current && target.price < SUBSCRIPTION_PLANS[currentPlan].price) {
+    current.scheduledPlanName = planName;
+    current.autoRenew = planName !== "Basic";
+    await current.save();
+    await notifySeller(
+      current,
+      "Plan change scheduled",
+      `Your ${currentPlan} plan stays until ${formatDate(current.endDate)}, then you'll move to ${planName}.`,
+      "subscription_scheduled"
+    );
+    return { subscription: current, effectiveAt: current.endDate };
+  }
+
+  // Only one purchase waits for payment at a time
+  await Subscription.updateMany(
+    { sellerId: profile._id, status: "pending_payment" },
+    { $set: { status: "cancelled", cancelledAt: now } }
+  );
+
+  const credit = current ? Math.min(unusedValue(current, now), target.price) : 0;
+  const subscription = await Subscription.create({
+    ...newSubscriptionFields(profile, planName, now),
+    status: "pending_payment",
+    kind: current ? "change" : "new",
+    previousSubscriptionId: current?._id,
+    proratedCredit: credit,
+    amountDue: round2(target.price - credit),
+  });
+
+  if (subscription.amountDue <= 0) {
+    await activateSubscription(subscription, "credit", now);
+    await notifySeller(subscription, "Plan upgraded", `You're now on the ${planName} plan.`, "subscription_activated");
+    return { subscription };
+  }
+
+  const { transactionId, checkout } = await initiatePayment(provider, { subscription }, undefined);
+  return { subscription, payment: { provider: provider.key, transactionId, checkout } };
+}
+
+/** Start (or restart) the gateway payment for a subscription waiting to be paid */
+export async function paySubscription(
+  subscription: ISubscription,
+  provider: PaymentProviderAdapter
+): Promise<{ transactionId: string; checkout: CreatedPayment }> {
+  if (subscription.status !== "pending_payment") {
+    throw new SubscriptionError(400, "This subscription doesn't need a payment");
+  }
+  const { transactionId, checkout } = await initiatePayment(provider, { subscription }, undefined);
+  return { transactionId, checkout };
+}
+
+/** Called by the payment service once the gateway settles a subscription payment */
+export async function settleSubscriptionPayment(payment: IPayment): Promise<void> {
+  const subscription = await Subscription.findById(payment.subscriptionId);
+  // A purchase cancelled while its payment was still going through is honoured if the money arrives
+  if (!subscription || !["pending_payment", "cancelled"].includes(subscription.status)) return;
+  if (subscription.status === "cancelled" && payment.status !== "succeeded") return;
+
+  if (payment.status === "succeeded") {
+    subscription.paymentId = payment._id as Types.ObjectId;
+    await activateSubscription(subscription, "gateway");
+    await notifySeller(
+      subscription,
+      subscription.kind === "renewal" ? "Plan renewed" : "Plan activated",
+      subscription.status === "upcoming"
+        ? `Your ${subscription.planName} plan is renewed until ${formatDate(subscription.endDate)}.`
+        : `You're now on the ${subscription.planName} plan until ${formatDate(subscription.endDate)}.`,
+      "subscription_activated"
+    );
+  } else if (payment.status === "failed") {
+    await notifySeller(
+      subscription,
+      "Plan payment failed",
+      `We couldn't take the payment of ${formatAmount(subscription.amountDue)} for the ${subscription.planName} plan. Please try again.`,
+      "subscription_payment_failed"
+    );
+  }
+}
+
+/** Turn renewal off (the plan ends with the period) or back on */
+export async function setAutoRenew(subscription: ISubscription, autoRenew: boolean): Promise<ISubscription> {
+  subscription.autoRenew = autoRenew;
+  if (!autoRenew) subscription.scheduledPlanName = "Basic";
+  else if (subscription.scheduledPlanName === "Basic") subscription.scheduledPlanName = undefined;
+  await subscription.save();
+  return subscription;
+}
+
+/**
+ * Pay `amount` out of the seller's settled earnings, when there is enough.
+ * Returns false when the balance can't cover it.
+ */
+async function chargePayoutBalance(subscription: ISubscription, userId: Types.ObjectId): Promise<boolean> {
+  const shop = await Shop.findOne({ sellerId: userId }).select("_id");
+  if (!shop) return false;
+  const { available } = await getLedgerSummary(userId);
+  if (available < subscription.amountDue) return false;
+
+  try {
+    await SellerLedgerEntry.create({
+      sellerId: userId,
+      shopId: shop._id,
+      subscriptionId: subscription._id,
+      type: "subscription_fee",
+      amount: -subscription.amountDue,
+      description: `${subscription.planName} plan renewal`,
+      availableAt: new Date(),
+    });
+  } catch (err: any) {
+    if (err?.code !== 11000) throw err;
+  }
+  return true;
+}
+
+/** One renewal attempt for a subscription whose period is about to end (or just did) */
+async function attemptRenewal(subscription: ISubscription, now: Date): Promise<void> {
+  const planName = normalizePlanName(subscription.scheduledPlanName ?? subscription.planName) ?? "Basic";
+  const userId = await sellerUserIdOf(subscription);
+  if (planName === "Basic" || !userId) return;
+
+  subscription.renewalAttempts += 1;
+  subscription.lastRenewalAttemptAt = now;
+  await subscription.save();
+
+  let renewal = await Subscription.findOne({ previousSubscriptionId: subscription._id, kind: "renewal" });
+  if (renewal && renewal.status !== "pending_payment") return;
+  if (!renewal) {
+    const profile = await SellerProfile.findById(subscription.sellerId);
+    if (!profile) return;
+    const plan = SUBSCRIPTION_PLANS[planName];
+    renewal = await Subscription.create({
+      ...newSubscriptionFields(profile, planName, now),
+      status: "pending_payment",
+      kind: "renewal",
+      previousSubscriptionId: subscription._id,
+      amountDue: plan.price,
+    });
+  }
+
+  if (await chargePayoutBalance(renewal, userId)) {
+    await activateSubscription(renewal, "payout_balance", now);
+    await notifySeller(
+      renewal,
+      "Plan renewed",
+      `Your ${renewal.planName} plan was renewed until ${formatDate(renewal.endDate)}. ${formatAmount(renewal.amountDue)} was taken from your payouts.`,
+      "subscription_renewed"
+    );
+    return;
+  }
+
+  await remindOnce(
+    subscription,
+    `renewal_payment_${subscription.renewalAttempts === 1 ? "first" : "due"}`,
+    "Renew your plan",
+    `Your payouts can't cover the ${formatAmount(renewal.amountDue)} renewal of your ${planName} plan. Pay now to keep your perks after ${formatDate(subscription.endDate)}.`
+  );
+}
+
+/**
+ * One pass of the subscription lifecycle: reminders, renewals, renewals that
+ * were paid ahead starting, grace periods and downgrades to Basic.
+ */
+export async function runSubscriptionLifecycle(now = new Date()): Promise<void> {
+  // Reminders before the period ends
+  const endingSoon = await Subscription.find({
+    status: "active",
+    endDate: { $gt: now, $lte: new Date(now.getTime() + REMINDER_DAYS * DAY_MS) },
+    remindersSent: { $ne: "period_ending" },
+  });
+  for (const subscription of endingSoon) {
+    const nextPlan = subscription.scheduledPlanName ?? subscription.planName;
+    await remindOnce(
+      subscription,
+      "period_ending",
+      subscription.autoRenew ? "Plan renews soon" : "Plan ending soon",
+      subscription.autoRenew
+        ? `Your ${nextPlan} plan renews on ${formatDate(subscription.endDate)} for ${formatAmount(SUBSCRIPTION_PLANS[normalizePlanName(nextPlan) ?? "Basic"].price)}.`
+        : `Your ${subscription.planName} plan ends on ${formatDate(subscription.endDate)}. You'll move to ${subscription.scheduledPlanName ?? "Basic"} after that.`
+    );
+  }
+
+  // Renewals, from RENEW_AHEAD_DAYS before the end through the grace period
+  const due = await Subscription.find({
+    status: { $in: ["active", "past_due"] },
+    autoRenew: true,
+    endDate: { $lte: new Date(now.getTime() + RENEW_AHEAD_DAYS * DAY_MS) },
+    $or: [
+      { lastRenewalAttemptAt: { $exists: false } },
+      { lastRenewalAttemptAt: { $lte: new Date(now.getTime() - RENEWAL_RETRY_MS) } },
+    ],
+  });
+  for (const subscription of due) {
+    try {
+      await attemptRenewal(subscription, now);
+    } catch (err) {
+      console.error("[Subscription Renewal Error]", subscription._id, err);
+    }
+  }
+
+  // Renewals paid ahead of time take over when the previous period ends
+  const starting = await Subscription.find({ status: "upcoming", startDate: { $lte: now } });
+  for (const subscription of starting) {
+    const previous = subscription.previousSubscriptionId
+      ? await Subscription.findById(subscription.previousSubscriptionId)
+      : null;
+    await startSubscription(subscription, previous);
+  }
+
+  // Periods that ended without a renewal
+  const ended = await Subscription.find({ status: "active", endDate: { $lte: now } });
+  for (const subscription of ended) {
+    const nextPlan = normalizePlanName(subscription.scheduledPlanName ?? subscription.planName) ?? "Basic";
+    if (!subscription.autoRenew || nextPlan === "Basic") {
+      await downgradeToBasic(subscription, `Your ${subscription.planName} plan has ended.`);
+      continue;
+    }
+    subscription.status = "past_due";
+    subscription.graceEndsAt = new Date(subscription.endDate.getTime() + SUBSCRIPTION_GRACE_DAYS * DAY_MS);
+    await subscription.save();
+    await notifySeller(
+      subscription,
+      "Plan renewal overdue",
+      `We couldn't renew your ${subscription.planName} plan. Pay by ${formatDate(subscription.graceEndsAt)} to keep your perks.`,
+      "subscription_past_due"
+    );
+  }
+
+  // Grace periods that ran out
+  const lapsed = await Subscription.find({ status: "past_due", graceEndsAt: { $lte: now } });
+  for (const subscription of lapsed) {
+    await downgradeToBasic(
+      subscription,
+      `Your ${subscription.planName} plan wasn't renewed, so your shop moved to Basic. Upgrade any time to get your perks back.`
+    );
+  }
+}
+
+/** Run the subscription lifecycle every hour while the server is up */
+export function startSubscriptionScheduler(): void {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runSubscriptionLifecycle();
+    } catch (err) {
+      console.error("[Subscription Lifecycle Error]", err);
+    } finally {
+      running = false;
+    }
+  };
+  setInterval(tick, LIFECYCLE_INTERVAL_MS).unref();
+  setTimeout(tick, 2 * 60 * 1000).unref();
+}
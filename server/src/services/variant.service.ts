@@ -0,0 +1,119 @@
+import { Types } from "mongoose";
+
+import type { IProduct, IProductOption, IProductVariant } from "../models/product.model";
+
+/** Thrown when the variants a seller submits are inconsistent; `status` is the HTTP status to respond with */
+export class VariantError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "VariantError";
+    this.status = status;
+  }
+}
+
+/** "M / Red" – shown on cart lines, orders and invoices */
+export function describeVariant(variant: Pick<IProductVariant, "options">): string {
+  return variant.options.map((o) => o.value).join(" / ");
+}
+
+export function findVariant(product: IProduct, variantId: string | Types.ObjectId | undefined): IProductVariant | undefined {
+  if (!variantId) return undefined;
+  return product.variants.find((v) => v._id.toString() === variantId.toString());
+}
+
+/** Variant is orderable: enabled and, when stock is tracked, not sold out */
+export function isVariantAvailable(variant: IProductVariant): boolean {
+  return variant.isAvailable && (variant.stock == null || variant.stock > 0);
+}
+
+/**
+ * Validate the option axes and variants sent from the seller app. Every variant
+ * must pick exactly one listed value per axis, combinations and SKUs must be
+ * unique. Variants sent with an `_id` keep it so carts and orders stay valid.
+ */
+export function parseProductVariants(body: any): { options: IProductOption[]; variants: IProductVariant[] } {
+  const rawOptions: any[] = Array.isArray(body?.options) ? body.options : [];
+  const rawVariants: any[] = Array.isArray(body?.variants) ? body.variants : [];
+
+  const options: IProductOption[] = rawOptions
+    .map((o) => ({
+      name: String(o?.name || "").trim(),
+      values: [...new Set<string>((Array.isArray(o?.values) ? o.values : []).map((v: any) => String(v).trim()).filter(Boolean))],
+    }))
+    .filter((o) => o.name && o.values.length);
+
+  if (new Set(options.map((o) => o.name.toLowerCase())).size !== options.length) {
+    throw new VariantError(400, "Option names must be unique");
+  }
+  if (rawVariants.length && !options.length) {
+    throw new VariantError(400, "Add at least one option (e.g. Size) before adding variants");
+  }
+
+  const seenCombos = new Set<string>();
+  const seenSkus = new Set<string>();
+  const variants: IProductVariant[] = rawVariants.map((raw) => {
+    const chosen = options.map((option) => {
+      const match = (Array.isArray(raw?.options) ? raw.options : []).find((o: any) => o?.name === option.name);
+      const value = match ? String(match.value).trim() : "";
+      if (!option.values.includes(value)) {
+        throw new VariantError(400, `Each variant needs a ${option.name} from: ${option.values.join(", ")}`);
+      }
+      return { name: option.name, value };
+    });
+
+    const combo = chosen.map((o) => o.value).join("\u0000");
+    if (seenCombos.has(combo)) {
+      throw new VariantError(400, `Variant ${describeVariant({ options: chosen })} is listed twice`);
+    }
+    seenCombos.add(combo);
+
+    const price = Number(raw?.price);
+    if (!(price > 0)) {
+      throw new VariantError(400, `Variant ${describeVariant({ options: chosen })} needs a price`);
+    }
+    const discountPrice = raw?.discountPrice != null && raw.discountPrice !== "" ? Number(raw.discountPrice) : undefined;
+    if (discountPrice != null && !(discountPrice > 0 && discountPrice < price)) {
+      throw new VariantError(400, `Variant ${describeVariant({ options: chosen })} has an invalid discount price`);
+    }
+    const stock = raw?.stock != null && raw.stock !== "" ? Number(raw.stock) : undefined;
+    if (stock != null && !(Number.isInteger(stock) && stock >= 0)) {
+      throw new VariantError(400, `Variant ${describeVariant({ options: chosen })} has an invalid stock`);
+    }
+
+    const sku = raw?.sku ? String(raw.sku).trim() : undefined;
+    if (sku) {
+      if (seenSkus.has(sku.toLowerCase())) throw new VariantError(400, `SKU ${sku} is used twice`);
+      seenSkus.add(sku.toLowerCase());
+    }
+
+    return {
+      _id: Types.ObjectId.isValid(raw?._id) ? new Types.ObjectId(String(raw._id)) : new Types.ObjectId(),
+      sku,
+      options: chosen,
+      price,
+      discountPrice,
+      stock,
+      images: Array.isArray(raw?.images) ? raw.images.map(String) : [],
+      isAvailable: raw?.isAvailable !== false,
+    };
+  });
+
+  return { options, variants };
+}
+
+/**
+ * Keep the product-level fields used by listings in step with its variants:
+ * lowest price, lowest discounted price and total stock (untracked if any variant is).
+ */
+export function applyVariantSummary(product: IProduct): void {
+  if (!product.variants.length) return;
+
+  product.price = Math.min(...product.variants.map((v) => v.price));
+  const lowestEffective = Math.min(...product.variants.map((v) => v.discountPrice ?? v.price));
+  product.discountPrice = lowestEffective < product.price ? lowestEffective : undefined;
+
+  const tracksStock = product.variants.every((v) => v.stock != null);
+  product.stock = tracksStock ? product.variants.reduce((sum, v) => sum + (v.stock ?? 0), 0) : undefined;
+}
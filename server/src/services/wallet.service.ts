@@ -0,0 +1,91 @@
+import { Types } from "mongoose";
+
+import { Wallet } from "../models/wallet.model";
+import {
+  WalletTransaction,
+  type IWalletTransaction,
+  type WalletTransactionReason,
+} from "../models/walletTransaction.model";
+
+interface WalletEntryOptions {
+  orderId?: Types.ObjectId;
+  note?: string;
+}
+
+export async function getWalletBalance(userId: Types.ObjectId | string): Promise<number> {
+  const wallet = await Wallet.findOne({ userId });
+  return wallet?.balance ?? 0;
+}
+
+/** Add money to a customer's wallet (refund, cashback...) and record it in the ledger */
+export async function creditWallet(
+  userId: Types.ObjectId | string,
+  amount: number,
+  reason: WalletTransactionReason,
+  options: WalletEntryOptions = {}
+): Promise<IWalletTransaction> {
+  if (!(amount > 0)) {
+    throw new Error("Wallet credit amount must be positive");
+  }
+
+  const wallet = await Wallet.findOneAndUpdate(
+    { userId },
+    { $inc: { balance: amount } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  return WalletTransaction.create({
+    userId,
+    type: "credit",
+    reason,
+    amount,
+    balanceAfter: wallet.balance,
+    orderId: options.orderId,
+    note: options.note,
+  });
+}
+
+/**
+ * Take money out of a customer's wallet. The balance check and decrement happen
+ * in one update, so two checkouts racing for the same balance can't both succeed.
+ * Returns null when the balance is insufficient.
+ */
+export async function debitWallet(
+  userId: Types.ObjectId | string,
+  amount: number,
+  reason: WalletTransactionReason,
+  options: WalletEntryOptions = {}
+): Promise<IWalletTransaction | null> {
+  if (!(amount > 0)) {
+    throw new Error("Wallet debit amount must be positive");
+  }
+
+  const wallet = await Wallet.findOneAndUpdate(
+    { userId, balance: { $gte: amount } },
+    { $inc: { balance: -amount } },
+    { new: true }
+  );
+  if (!wallet) return null;
+
+  return WalletTransaction.create({
+    userId,
+    type: "debit",
+    reason,
+    amount,
+    balanceAfter: wallet.balance,
+    orderId: options.orderId,
+    note: options.note,
+  });
+}
+
+export async function listWalletTransactions(
+  userId: Types.ObjectId | string,
+  limit: number,
+  skip: number
+): Promise<{ transactions: IWalletTransaction[]; total: number }> {
+  const [transactions, total] = await Promise.all([
+    WalletTransaction.find({ userId }).sort({ createdAt: -1 }).limit(limit).skip(skip),
+    WalletTransaction.countDocuments({ userId }),
+  ]);
+  return { transactions, total };
+}
@@ -0,0 +1,105 @@
+import { Types } from "mongoose";
+
+import Shop from "../models/shop.model";
+import { Product } from "../models/product.model";
+import { Wishlist, type IWishlistItem } from "../models/wishlist.model";
+
+/** Validate wishlist items sent by the app; invalid entries are dropped, repeats keep the first */
+export function sanitizeWishlistItems(input: unknown): IWishlistItem[] {
+  if (!Array.isArray(input)) return [];
+
+  const byId = new Map<string, IWishlistItem>();
+  for (const raw of input as any[]) {
+    const itemId = raw?.itemId ?? raw?.id;
+    if (!Types.ObjectId.isValid(itemId) || !["shop", "product"].includes(raw?.type)) continue;
+    if (byId.has(String(itemId))) continue;
+
+    byId.set(String(itemId), {
+      itemId: new Types.ObjectId(String(itemId)),
+      type: raw.type,
+      name: String(raw.name || ""),
+      image: raw.image ? String(raw.image) : undefined,
+      price: raw.price != null ? Number(raw.price) : undefined,
+      shopId: Types.ObjectId.isValid(raw.shopId) ? new Types.ObjectId(String(raw.shopId)) : undefined,
+      shopName: raw.shopName ? String(raw.shopName) : undefined,
+      rating: raw.rating != null ? Number(raw.rating) : undefined,
+      addedAt: raw.addedAt ? new Date(raw.addedAt) : new Date(),
+    });
+  }
+  return [...byId.values()];
+}
+
+/** Union of the saved wishlist and a device's local one */
+export function mergeWishlistItems(saved: IWishlistItem[], incoming: IWishlistItem[]): IWishlistItem[] {
+  const merged = new Map<string, IWishlistItem>();
+  for (const item of [...saved, ...incoming]) {
+    if (!merged.has(item.itemId.toString())) merged.set(item.itemId.toString(), item);
+  }
+  return [...merged.values()];
+}
+
+/** Refresh names, prices and ratings, and drop products or shops that no longer exist */
+export async function revalidateWishlistItems(items: IWishlistItem[]): Promise<IWishlistItem[]> {
+  const productIds = items.filter((i) => i.type === "product").map((i) => i.itemId);
+  const [products, shops] = await Promise.all([
+    Product.find({ _id: { $in: productIds } }),
+    Shop.find({
+      _id: { $in: items.map((i) => (i.type === "shop" ? i.itemId : i.shopId)).filter(Boolean) },
+    }).select("name images ratingAverage isActive"),
+  ]);
+  const productById = new Map(products.map((p) => [p._id.toString(), p]));
+  const shopById = new Map(shops.map((s: any) => [s._id.toString(), s]));
+
+  const valid: IWishlistItem[] = [];
+  for (const item of items) {
+    if (item.type === "shop") {
+      const shop = shopById.get(item.itemId.toString());
+      if (!shop || shop.isActive === false) continue;
+      valid.push({
+        ...item,
+        name: shop.name,
+        image: shop.images?.[0] || item.image,
+        rating: shop.ratingAverage,
+      });
+      continue;
+    }
+
+    const product = productById.get(item.itemId.toString());
+    if (!product) continue;
+    valid.push({
+      ...item,
+      name: product.name,
+      image: product.images?.[0] || item.image,
+      price: product.discountPrice ?? product.price,
+      shopId: product.shopId,
+      shopName: shopById.get(product.shopId.toString())?.name ?? item.shopName,
+    });
+  }
+  return valid;
+}
+
+export async function loadWishlist(customerId: Types.ObjectId): Promise<IWishlistItem[]> {
+  const wishlist = await Wishlist.findOne({ userId: customerId });
+  if (!wishlist || wishlist.items.length === 0) return [];
+
+  const items = await revalidateWishlistItems(wishlist.toObject().items);
+  wishlist.items = items;
+  await wishlist.save();
+  return items;
+}
+
+export async function saveWishlist(customerId: Types.ObjectId, items: IWishlistItem[]): Promise<IWishlistItem[]> {
+  const valid = await revalidateWishlistItems(items);
+  await Wishlist.findOneAndUpdate(
+    { userId: customerId },
+    { $set: { items: valid } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  return valid;
+}
+
+/** Fold a device's local wishlist into the saved one, e.g. right after login */
+export async function mergeWishlist(customerId: Types.ObjectId, incoming: IWishlistItem[]): Promise<IWishlistItem[]> {
+  const wishlist = await Wishlist.findOne({ userId: customerId });
+  return saveWishlist(customerId, mergeWishlistItems(wishlist?.toObject().items ?? [], incoming));
+}